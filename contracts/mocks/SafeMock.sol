@@ -0,0 +1,151 @@
+/*
+    Copyright 2022 Set Labs Inc.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
+
+
+/**
+ * Minimal stand-in for a Gnosis Safe used to test manager transaction batches end to end. Owners approve transaction
+ * hashes and an owner executes once the threshold is met, counting its own approval. Batches are executed by calling
+ * `multiSend` on the Safe itself with the packed MultiSend encoding of the transactions.
+ */
+contract SafeMock {
+    using Address for address;
+
+    /* ============ Events ============ */
+
+    event ExecutionSuccess(bytes32 _txHash);
+
+    /* ============ State Variables ============ */
+
+    address[] public owners;
+    mapping(address => bool) public isOwner;
+    uint256 public threshold;
+    uint256 public nonce;
+    mapping(bytes32 => mapping(address => bool)) public approvedHashes;
+
+    /* ============ Modifiers ============ */
+
+    modifier onlyOwner() {
+        require(isOwner[msg.sender], "Only owner can call");
+        _;
+    }
+
+    /* ============ Constructor ============ */
+
+    constructor(address[] memory _owners, uint256 _threshold) public {
+        require(_threshold > 0 && _threshold <= _owners.length, "Invalid threshold");
+
+        for (uint256 i = 0; i < _owners.length; i++) {
+            isOwner[_owners[i]] = true;
+        }
+
+        owners = _owners;
+        threshold = _threshold;
+    }
+
+    receive() external payable {} // solium-disable-line quotes
+
+    /* ============ External Functions ============ */
+
+    function approveHash(bytes32 _txHash) external onlyOwner {
+        approvedHashes[_txHash][msg.sender] = true;
+    }
+
+    function execTransaction(
+        address _to,
+        uint256 _value,
+        bytes calldata _data
+    )
+        external
+        onlyOwner
+        returns (bytes memory)
+    {
+        bytes32 txHash = getTransactionHash(_to, _value, _data, nonce);
+
+        uint256 approvals = 0;
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (owners[i] == msg.sender || approvedHashes[txHash][owners[i]]) {
+                approvals++;
+            }
+        }
+        require(approvals >= threshold, "Threshold not met");
+
+        nonce++;
+
+        bytes memory returnValue = _to.functionCallWithValue(_data, _value);
+
+        emit ExecutionSuccess(txHash);
+
+        return returnValue;
+    }
+
+    /**
+     * Executes packed transactions, each encoded as operation (uint8), to (address), value (uint256), data length
+     * (uint256) and data. Only calls (operation 0) are supported. Reverts the whole batch if a transaction reverts.
+     *
+     * @param _transactions     Packed MultiSend encoding of the transactions
+     */
+    function multiSend(bytes memory _transactions) external {
+        require(msg.sender == address(this), "Only the Safe can call");
+
+        uint256 i = 0;
+        while (i < _transactions.length) {
+            uint8 operation;
+            address to;
+            uint256 value;
+            uint256 dataLength;
+
+            // solium-disable-next-line security/no-inline-assembly
+            assembly {
+                let transaction := add(add(_transactions, 0x20), i)
+                operation := shr(0xf8, mload(transaction))
+                to := shr(0x60, mload(add(transaction, 0x01)))
+                value := mload(add(transaction, 0x15))
+                dataLength := mload(add(transaction, 0x35))
+            }
+            require(operation == 0, "Only calls are supported");
+
+            bytes memory data = new bytes(dataLength);
+            for (uint256 j = 0; j < dataLength; j++) {
+                data[j] = _transactions[i + 0x55 + j];
+            }
+
+            to.functionCallWithValue(data, value);
+
+            i += 0x55 + dataLength;
+        }
+    }
+
+    /* ============ Public Functions ============ */
+
+    function getTransactionHash(
+        address _to,
+        uint256 _value,
+        bytes memory _data,
+        uint256 _nonce
+    )
+        public
+        view
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(address(this), _to, _value, keccak256(_data), _nonce));
+    }
+}
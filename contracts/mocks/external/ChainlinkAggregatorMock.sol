@@ -24,6 +24,13 @@ pragma solidity 0.6.10;
  * aggregators they use in their own test suite.
  */
 contract ChainlinkAggregatorMock {
+    struct RoundData {
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+        uint80 answeredInRound;
+    }
+
     int256 public latestAnswer;
     uint80 public latestRoundId;
     uint256 public latestStartedAt;
@@ -31,6 +38,9 @@ contract ChainlinkAggregatorMock {
     uint80 public latestAnsweredInRound;
     uint8 public decimals;
 
+    // Rounds recorded by `pushRound`, returned by `getRoundData` for their round id
+    mapping(uint80 => RoundData) public rounds;
+
     // Perp sets this to `6` in their fixtures...
     constructor(uint8 _decimals) public {
         decimals = _decimals;
@@ -70,8 +80,19 @@ contract ChainlinkAggregatorMock {
         latestAnsweredInRound = _answeredInRound;
     }
 
-    // Consumed by PerpV2.ChainlinkPriceFeed
-    function getRoundData(uint80 /* _roundId */)
+    /**
+     * Starts and completes a new round with the given answer, keeping previous rounds readable with `getRoundData`
+     * like a live aggregator.
+     */
+    function pushRound(int256 _answer, uint256 _updatedAt) public {
+        uint80 roundId = latestRoundId + 1;
+        rounds[roundId] = RoundData(_answer, _updatedAt, _updatedAt, roundId);
+
+        setRoundData(roundId, _answer, _updatedAt, _updatedAt, roundId);
+    }
+
+    // Consumed by PerpV2.ChainlinkPriceFeed. Returns the latest round unless the round was recorded by `pushRound`
+    function getRoundData(uint80 _roundId)
         public
         view
         returns (
@@ -82,6 +103,11 @@ contract ChainlinkAggregatorMock {
             uint80 answeredInRound
         )
     {
+        RoundData memory round = rounds[_roundId];
+        if (round.updatedAt != 0) {
+            return (_roundId, round.answer, round.startedAt, round.updatedAt, round.answeredInRound);
+        }
+
         return (
             latestRoundId,
             latestAnswer,
@@ -0,0 +1,155 @@
+/*
+    Copyright 2022 Set Labs Inc.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { PreciseUnitMath } from "../../../lib/PreciseUnitMath.sol";
+import { IChainlinkAggregatorV3 } from "../../../interfaces/external/IChainlinkAggregatorV3.sol";
+import { IOracle } from "../../../interfaces/IOracle.sol";
+
+
+/**
+ * @title ChainlinkOracle
+ * @author Set Protocol
+ *
+ * Oracle built to read a Chainlink aggregator, normalizing its answer to 18 decimals. Reverts if the latest round
+ * is incomplete, older than the max staleness, or deviates from the previous round by more than the max deviation.
+ *
+ * The deviation check guards against a faulty round, but also blocks reads after a genuine price move until the next
+ * round, which can be a whole heartbeat away. The owner can raise or disable the max deviation to unblock reads.
+ */
+contract ChainlinkOracle is Ownable, IOracle
+{
+    using SafeMath for uint256;
+    using PreciseUnitMath for uint256;
+
+    /* ============ Events ============ */
+
+    event MaxDeviationUpdated(uint256 _maxDeviation);
+
+    /* ============ State Variables ============ */
+    IChainlinkAggregatorV3 public immutable aggregator;
+    string public dataDescription;
+
+    // Decimals of the aggregator's answer
+    uint8 public immutable aggregatorDecimals;
+
+    // Max age in seconds of the latest round
+    uint256 public immutable maxStaleness;
+
+    // Max change from the previous round's answer in precise units (e.g. 10% = 1e17). 0 disables the check
+    uint256 public maxDeviation;
+
+    /* ============ Constructor ============ */
+
+    /*
+     * @param  _aggregator          The address of the Chainlink aggregator
+     * @param  _maxStaleness        Max age in seconds of the latest round
+     * @param  _maxDeviation        Max change from the previous round's answer in precise units, 0 to disable
+     * @param  _dataDescription     Human readable description of oracle
+     */
+    constructor(
+        IChainlinkAggregatorV3 _aggregator,
+        uint256 _maxStaleness,
+        uint256 _maxDeviation,
+        string memory _dataDescription
+    )
+        public
+    {
+        require(_maxStaleness > 0, "Max staleness must be greater than 0");
+
+        aggregator = _aggregator;
+        aggregatorDecimals = _aggregator.decimals();
+        maxStaleness = _maxStaleness;
+        maxDeviation = _maxDeviation;
+        dataDescription = _dataDescription;
+    }
+
+    /* ============ External Functions ============ */
+
+    /**
+     * OWNER ONLY: Updates the max change from the previous round's answer.
+     *
+     * @param  _maxDeviation        Max change from the previous round's answer in precise units, 0 to disable
+     */
+    function setMaxDeviation(uint256 _maxDeviation) external onlyOwner {
+        maxDeviation = _maxDeviation;
+
+        emit MaxDeviationUpdated(_maxDeviation);
+    }
+
+    /**
+     * Returns the latest answer of the aggregator in precise units.
+     */
+    function read()
+        external
+        override
+        view
+        returns (uint256)
+    {
+        (
+            uint80 roundId,
+            int256 answer,
+            ,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) = aggregator.latestRoundData();
+
+        require(answer > 0, "Answer must be positive");
+        require(updatedAt > 0 && answeredInRound >= roundId, "Round not complete");
+        require(block.timestamp.sub(updatedAt) <= maxStaleness, "Answer is stale");
+
+        if (maxDeviation > 0 && roundId > 0) {
+            _validateDeviation(roundId, uint256(answer));
+        }
+
+        return _normalize(uint256(answer));
+    }
+
+    /* ============ Internal Functions ============ */
+
+    /**
+     * Compares the answer to the previous round's. Skipped when the previous round can't be read, e.g. on the first
+     * round of a new aggregator phase.
+     */
+    function _validateDeviation(uint80 _roundId, uint256 _answer) internal view {
+        try aggregator.getRoundData(_roundId - 1) returns (uint80, int256 previousAnswer, uint256, uint256, uint80) {
+            if (previousAnswer <= 0) {
+                return;
+            }
+
+            uint256 previous = uint256(previousAnswer);
+            uint256 difference = _answer > previous ? _answer.sub(previous) : previous.sub(_answer);
+
+            require(difference.preciseDiv(previous) <= maxDeviation, "Deviation from previous round too large");
+        } catch {
+            return;
+        }
+    }
+
+    function _normalize(uint256 _answer) internal view returns (uint256) {
+        if (aggregatorDecimals <= 18) {
+            return _answer.mul(10 ** uint256(18 - aggregatorDecimals));
+        }
+
+        return _answer.div(10 ** uint256(aggregatorDecimals - 18));
+    }
+}
@@ -0,0 +1,348 @@
+/*
+    Copyright 2022 Set Labs Inc.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { AddressArrayUtils } from "../../../lib/AddressArrayUtils.sol";
+import { IOracle } from "../../../interfaces/IOracle.sol";
+import { IOracleAdapter } from "../../../interfaces/IOracleAdapter.sol";
+import { PreciseUnitMath } from "../../../lib/PreciseUnitMath.sol";
+
+
+/**
+ * @title MedianOracle
+ * @author Set Protocol
+ *
+ * Oracle that returns the median price of a pair across several sources: IOracles (e.g. ChainlinkOracle) and
+ * IOracleAdapters (e.g. UniswapV3TwapPriceAdapter) that are asked for the oracle's asset pair. Sources that revert or
+ * can't price the pair are left out of the median. Acts as a circuit breaker by reverting unless a quorum of sources
+ * is within the max deviation of the median, so single bad feeds are tolerated while a broad disagreement between
+ * sources stops reads until they converge again.
+ */
+contract MedianOracle is IOracle, Ownable {
+    using SafeMath for uint256;
+    using PreciseUnitMath for uint256;
+    using AddressArrayUtils for address[];
+
+    /* ============ Events ============ */
+
+    event OracleAdded(address _oracle);
+    event OracleRemoved(address _oracle);
+    event AdapterAdded(address _adapter);
+    event AdapterRemoved(address _adapter);
+    event MaxDeviationEdited(uint256 _newMaxDeviation);
+    event QuorumEdited(uint256 _newQuorum);
+
+    /* ============ State Variables ============ */
+
+    // Pair adapters are asked to price
+    address public immutable assetOne;
+    address public immutable assetTwo;
+    string public dataDescription;
+
+    // IOracle sources of the pair's price
+    address[] public oracles;
+
+    // IOracleAdapter sources of the pair's price
+    address[] public adapters;
+
+    // Max difference between a source and the median as a percentage of the median in precise units (e.g. 5% = 5e16)
+    uint256 public maxDeviation;
+
+    // Min number of sources within the max deviation of the median for a read to succeed
+    uint256 public quorum;
+
+    /* ============ Constructor ============ */
+
+    /**
+     * @param  _assetOne            First asset in the pair priced by adapters
+     * @param  _assetTwo            Second asset in the pair priced by adapters
+     * @param  _oracles             List of IOracle sources
+     * @param  _adapters            List of IOracleAdapter sources
+     * @param  _maxDeviation        Max difference between a source and the median as a percentage of the median
+     * @param  _quorum              Min number of sources within the max deviation of the median
+     * @param  _dataDescription     Human readable description of oracle
+     */
+    constructor(
+        address _assetOne,
+        address _assetTwo,
+        address[] memory _oracles,
+        address[] memory _adapters,
+        uint256 _maxDeviation,
+        uint256 _quorum,
+        string memory _dataDescription
+    )
+        public
+    {
+        require(_oracles.length.add(_adapters.length) > 0, "MedianOracle: Must have at least one source.");
+        require(_oracles.length == 0 || !_oracles.hasDuplicate(), "MedianOracle: Duplicate oracles.");
+        require(_adapters.length == 0 || !_adapters.hasDuplicate(), "MedianOracle: Duplicate adapters.");
+        require(_maxDeviation > 0, "MedianOracle: Max deviation must be greater than 0.");
+        require(_quorum > 0 && _quorum <= _oracles.length.add(_adapters.length), "MedianOracle: Invalid quorum.");
+
+        assetOne = _assetOne;
+        assetTwo = _assetTwo;
+        oracles = _oracles;
+        adapters = _adapters;
+        maxDeviation = _maxDeviation;
+        quorum = _quorum;
+        dataDescription = _dataDescription;
+    }
+
+    /* ============ External Functions ============ */
+
+    /**
+     * Returns the median price of the sources that return a price, in precise units. Reverts if fewer than a quorum of
+     * sources return a price, if the median is 0, or if fewer than a quorum of sources are within the max deviation of
+     * the median.
+     */
+    function read()
+        external
+        override
+        view
+        returns (uint256)
+    {
+        uint256[] memory prices = _getSortedPrices();
+        require(prices.length >= quorum, "MedianOracle.read: Too few sources returned a price.");
+
+        uint256 median = _getMedian(prices);
+
+        require(median > 0, "MedianOracle.read: Median must be greater than 0.");
+        require(_getAgreeingSourceCount(prices, median) >= quorum, "MedianOracle.read: Sources disagree.");
+
+        return median;
+    }
+
+    /**
+     * GOVERNANCE FUNCTION: Add new IOracle source.
+     *
+     * @param _oracle         Address of new oracle
+     */
+    function addOracle(address _oracle) external onlyOwner {
+        require(
+            !oracles.contains(_oracle),
+            "MedianOracle.addOracle: Oracle already exists."
+        );
+
+        oracles.push(_oracle);
+
+        emit OracleAdded(_oracle);
+    }
+
+    /**
+     * GOVERNANCE FUNCTION: Remove IOracle source. Sources can't be removed below the quorum.
+     *
+     * @param _oracle         Address of oracle to remove
+     */
+    function removeOracle(address _oracle) external onlyOwner {
+        require(
+            oracles.contains(_oracle),
+            "MedianOracle.removeOracle: Oracle does not exist."
+        );
+        require(_getSourceCount() > quorum, "MedianOracle.removeOracle: Sources would fall below quorum.");
+
+        oracles = oracles.remove(_oracle);
+
+        emit OracleRemoved(_oracle);
+    }
+
+    /**
+     * GOVERNANCE FUNCTION: Add new IOracleAdapter source.
+     *
+     * @param _adapter         Address of new adapter
+     */
+    function addAdapter(address _adapter) external onlyOwner {
+        require(
+            !adapters.contains(_adapter),
+            "MedianOracle.addAdapter: Adapter already exists."
+        );
+
+        adapters.push(_adapter);
+
+        emit AdapterAdded(_adapter);
+    }
+
+    /**
+     * GOVERNANCE FUNCTION: Remove IOracleAdapter source. Sources can't be removed below the quorum.
+     *
+     * @param _adapter         Address of adapter to remove
+     */
+    function removeAdapter(address _adapter) external onlyOwner {
+        require(
+            adapters.contains(_adapter),
+            "MedianOracle.removeAdapter: Adapter does not exist."
+        );
+        require(_getSourceCount() > quorum, "MedianOracle.removeAdapter: Sources would fall below quorum.");
+
+        adapters = adapters.remove(_adapter);
+
+        emit AdapterRemoved(_adapter);
+    }
+
+    /**
+     * GOVERNANCE FUNCTION: Change the max difference between a source and the median.
+     *
+     * @param _newMaxDeviation         New max difference as a percentage of the median in precise units
+     */
+    function editMaxDeviation(uint256 _newMaxDeviation) external onlyOwner {
+        require(_newMaxDeviation > 0, "MedianOracle.editMaxDeviation: Max deviation must be greater than 0.");
+
+        maxDeviation = _newMaxDeviation;
+
+        emit MaxDeviationEdited(_newMaxDeviation);
+    }
+
+    /**
+     * GOVERNANCE FUNCTION: Change the number of sources that must be within the max deviation of the median.
+     *
+     * @param _newQuorum         New quorum, between 1 and the number of sources
+     */
+    function editQuorum(uint256 _newQuorum) external onlyOwner {
+        require(_newQuorum > 0 && _newQuorum <= _getSourceCount(), "MedianOracle.editQuorum: Invalid quorum.");
+
+        quorum = _newQuorum;
+
+        emit QuorumEdited(_newQuorum);
+    }
+
+    /* ============ External View Functions ============ */
+
+    /**
+     * Returns an array of IOracle sources
+     */
+    function getOracles() external view returns (address[] memory) {
+        return oracles;
+    }
+
+    /**
+     * Returns an array of IOracleAdapter sources
+     */
+    function getAdapters() external view returns (address[] memory) {
+        return adapters;
+    }
+
+    /**
+     * Returns the price of every source that returns one, sorted ascending
+     */
+    function getPrices() external view returns (uint256[] memory) {
+        return _getSortedPrices();
+    }
+
+    /* ============ Internal Functions ============ */
+
+    /**
+     * Reads every source and insertion sorts the prices, which is cheap for the handful of sources an oracle has.
+     * Sources that revert, and adapters that can't price the pair, are skipped.
+     */
+    function _getSortedPrices() internal view returns (uint256[] memory) {
+        uint256[] memory sourcePrices = new uint256[](_getSourceCount());
+        uint256 priceCount = 0;
+
+        for (uint256 i = 0; i < oracles.length; i++) {
+            (bool priceFound, uint256 price) = _readOracle(oracles[i]);
+            if (priceFound) {
+                sourcePrices[priceCount] = price;
+                priceCount++;
+            }
+        }
+
+        for (uint256 i = 0; i < adapters.length; i++) {
+            (bool priceFound, uint256 price) = _readAdapter(adapters[i]);
+            if (priceFound) {
+                sourcePrices[priceCount] = price;
+                priceCount++;
+            }
+        }
+
+        uint256[] memory prices = new uint256[](priceCount);
+        for (uint256 i = 0; i < priceCount; i++) {
+            prices[i] = sourcePrices[i];
+        }
+
+        for (uint256 i = 1; i < prices.length; i++) {
+            uint256 price = prices[i];
+            uint256 j = i;
+            while (j > 0 && prices[j - 1] > price) {
+                prices[j] = prices[j - 1];
+                j--;
+            }
+            prices[j] = price;
+        }
+
+        return prices;
+    }
+
+    /**
+     * Reads an IOracle source, returning false instead of reverting if the oracle reverts.
+     */
+    function _readOracle(address _oracle) internal view returns (bool, uint256) {
+        try IOracle(_oracle).read() returns (uint256 price) {
+            return (true, price);
+        } catch {
+            return (false, 0);
+        }
+    }
+
+    /**
+     * Asks an IOracleAdapter source for the pair's price, returning false instead of reverting if the adapter reverts.
+     */
+    function _readAdapter(address _adapter) internal view returns (bool, uint256) {
+        try IOracleAdapter(_adapter).getPrice(assetOne, assetTwo) returns (bool priceFound, uint256 price) {
+            return (priceFound, price);
+        } catch {
+            return (false, 0);
+        }
+    }
+
+    /**
+     * Returns the middle price, or the average of the two middle prices for an even number of sources.
+     */
+    function _getMedian(uint256[] memory _sortedPrices) internal pure returns (uint256) {
+        uint256 middle = _sortedPrices.length / 2;
+
+        if (_sortedPrices.length % 2 == 1) {
+            return _sortedPrices[middle];
+        }
+
+        return _sortedPrices[middle - 1].add(_sortedPrices[middle]) / 2;
+    }
+
+    /**
+     * Counts the sources whose price is within the max deviation of the median. The median must be greater than 0.
+     */
+    function _getAgreeingSourceCount(uint256[] memory _prices, uint256 _median) internal view returns (uint256) {
+        uint256 agreeingSources = 0;
+
+        for (uint256 i = 0; i < _prices.length; i++) {
+            uint256 difference = _prices[i] > _median ? _prices[i].sub(_median) : _median.sub(_prices[i]);
+
+            if (difference.preciseDiv(_median) <= maxDeviation) {
+                agreeingSources++;
+            }
+        }
+
+        return agreeingSources;
+    }
+
+    function _getSourceCount() internal view returns (uint256) {
+        return oracles.length.add(adapters.length);
+    }
+}
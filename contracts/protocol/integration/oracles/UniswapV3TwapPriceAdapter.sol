@@ -0,0 +1,223 @@
+/*
+    Copyright 2022 Set Labs Inc.
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+import { FullMath } from "@uniswap/v3-core/contracts/libraries/FullMath.sol";
+import { TickMath } from "@uniswap/v3-core/contracts/libraries/TickMath.sol";
+import { IUniswapV3Pool } from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+
+import { AddressArrayUtils } from "../../../lib/AddressArrayUtils.sol";
+import { PreciseUnitMath } from "../../../lib/PreciseUnitMath.sol";
+
+
+/**
+ * @title UniswapV3TwapPriceAdapter
+ * @author Set Protocol
+ *
+ * Oracle adapter that prices pairs with a Uniswap V3 pool from the pool's time weighted average tick over a configured
+ * window. Reverts if the pool's observation cardinality is below the minimum, so that thin oracle histories can't be
+ * used to price assets.
+ */
+contract UniswapV3TwapPriceAdapter is Ownable {
+    using AddressArrayUtils for address[];
+    using SafeMath for uint256;
+    using PreciseUnitMath for uint256;
+
+    /* ============ Structs ============ */
+
+    /**
+     * Struct containing information for get price function
+     */
+    struct PoolSettings {
+        address tokenZero;                  // Address of the pool's token0
+        address tokenOne;                   // Address of the pool's token1
+        uint256 tokenZeroBaseUnit;          // Token zero base unit. E.g. ETH is 10e18, USDC is 10e6
+        uint256 tokenOneBaseUnit;           // Token one base unit
+        uint32 twapWindow;                  // Seconds the time weighted average price is taken over
+        bool isValid;                       // Boolean that returns if Uniswap pool is allowed
+    }
+
+    /* ============ State Variables ============ */
+
+    // Uniswap allowed pools to settings mapping
+    mapping(address => PoolSettings) public uniswapPoolsToSettings;
+
+    // Sorted token pair to allowed Uniswap pool mapping
+    mapping(address => mapping(address => address)) public tokensToUniswapPool;
+
+    // Uniswap allowed pools
+    address[] public allowedUniswapPools;
+
+    // Min number of observations a pool must store to be used for pricing
+    uint16 public minObservationCardinality;
+
+    /* ============ Constructor ============ */
+
+    /**
+     * Set state variables
+     *
+     * @param _minObservationCardinality    Min number of observations a pool must store to be used for pricing
+     */
+    constructor(uint16 _minObservationCardinality) public {
+        minObservationCardinality = _minObservationCardinality;
+    }
+
+    /* ============ External Functions ============ */
+
+    /**
+     * Calculate the time weighted average price of assetOne in assetTwo in precise units. If no allowed pool trades
+     * the pair, return false.
+     *
+     * @param _assetOne         Address of first asset in pair
+     * @param _assetTwo         Address of second asset in pair
+     */
+    function getPrice(address _assetOne, address _assetTwo) external view returns (bool, uint256) {
+        (address tokenZero, address tokenOne) = _sortTokens(_assetOne, _assetTwo);
+        address poolAddress = tokensToUniswapPool[tokenZero][tokenOne];
+
+        if (poolAddress == address(0)) {
+            return (false, 0);
+        }
+
+        PoolSettings memory poolInfo = uniswapPoolsToSettings[poolAddress];
+        IUniswapV3Pool pool = IUniswapV3Pool(poolAddress);
+
+        (, , , uint16 observationCardinality, , , ) = pool.slot0();
+        require(observationCardinality >= minObservationCardinality, "Observation cardinality too low");
+
+        int24 meanTick = _getArithmeticMeanTick(pool, poolInfo.twapWindow);
+
+        bool isAssetOneTokenZero = _assetOne == poolInfo.tokenZero;
+        uint256 assetOneBaseUnit = isAssetOneTokenZero ? poolInfo.tokenZeroBaseUnit : poolInfo.tokenOneBaseUnit;
+        uint256 assetTwoBaseUnit = isAssetOneTokenZero ? poolInfo.tokenOneBaseUnit : poolInfo.tokenZeroBaseUnit;
+
+        uint256 quote = _getQuoteAtTick(meanTick, assetOneBaseUnit, isAssetOneTokenZero);
+
+        return (true, quote.preciseDiv(assetTwoBaseUnit));
+    }
+
+    function addPool(address _poolAddress, uint32 _twapWindow) external onlyOwner {
+        require (
+            !uniswapPoolsToSettings[_poolAddress].isValid,
+            "Uniswap pool address already added"
+        );
+        require(_twapWindow > 0, "TWAP window must be greater than 0");
+
+        IUniswapV3Pool pool = IUniswapV3Pool(_poolAddress);
+        address tokenZero = pool.token0();
+        address tokenOne = pool.token1();
+
+        require(
+            tokensToUniswapPool[tokenZero][tokenOne] == address(0),
+            "Uniswap pool for pair already added"
+        );
+
+        uniswapPoolsToSettings[_poolAddress] = PoolSettings({
+            tokenZero: tokenZero,
+            tokenOne: tokenOne,
+            tokenZeroBaseUnit: 10 ** uint256(ERC20(tokenZero).decimals()),
+            tokenOneBaseUnit: 10 ** uint256(ERC20(tokenOne).decimals()),
+            twapWindow: _twapWindow,
+            isValid: true
+        });
+        tokensToUniswapPool[tokenZero][tokenOne] = _poolAddress;
+        allowedUniswapPools.push(_poolAddress);
+    }
+
+    function removePool(address _poolAddress) external onlyOwner {
+        require (
+            uniswapPoolsToSettings[_poolAddress].isValid,
+            "Uniswap pool address does not exist"
+        );
+
+        PoolSettings memory poolInfo = uniswapPoolsToSettings[_poolAddress];
+
+        allowedUniswapPools = allowedUniswapPools.remove(_poolAddress);
+        delete tokensToUniswapPool[poolInfo.tokenZero][poolInfo.tokenOne];
+        delete uniswapPoolsToSettings[_poolAddress];
+    }
+
+    function updateTwapWindow(address _poolAddress, uint32 _twapWindow) external onlyOwner {
+        require (
+            uniswapPoolsToSettings[_poolAddress].isValid,
+            "Uniswap pool address does not exist"
+        );
+        require(_twapWindow > 0, "TWAP window must be greater than 0");
+
+        uniswapPoolsToSettings[_poolAddress].twapWindow = _twapWindow;
+    }
+
+    function updateMinObservationCardinality(uint16 _minObservationCardinality) external onlyOwner {
+        minObservationCardinality = _minObservationCardinality;
+    }
+
+    function getAllowedUniswapPools() external view returns (address[] memory) {
+        return allowedUniswapPools;
+    }
+
+    /* ============ Internal Functions ============ */
+
+    /**
+     * Returns the time weighted average tick of the pool over the window, rounded towards negative infinity. Reverts
+     * with "OLD" if the pool's oldest observation is younger than the window.
+     */
+    function _getArithmeticMeanTick(IUniswapV3Pool _pool, uint32 _twapWindow) internal view returns (int24) {
+        uint32[] memory secondsAgos = new uint32[](2);
+        secondsAgos[0] = _twapWindow;
+        secondsAgos[1] = 0;
+
+        (int56[] memory tickCumulatives, ) = _pool.observe(secondsAgos);
+
+        int56 tickCumulativesDelta = tickCumulatives[1] - tickCumulatives[0];
+        int24 meanTick = int24(tickCumulativesDelta / int56(_twapWindow));
+
+        if (tickCumulativesDelta < 0 && (tickCumulativesDelta % int56(_twapWindow) != 0)) {
+            meanTick--;
+        }
+
+        return meanTick;
+    }
+
+    /**
+     * Returns the amount of the quote token received for `_baseAmount` of the base token at `_tick`. Squares the sqrt
+     * price in 256 bits when it can't overflow and in 128.128 fixed point otherwise.
+     */
+    function _getQuoteAtTick(int24 _tick, uint256 _baseAmount, bool _isBaseTokenZero) internal pure returns (uint256) {
+        uint160 sqrtRatioX96 = TickMath.getSqrtRatioAtTick(_tick);
+
+        if (sqrtRatioX96 <= type(uint128).max) {
+            uint256 ratioX192 = uint256(sqrtRatioX96) * sqrtRatioX96;
+            return _isBaseTokenZero
+                ? FullMath.mulDiv(ratioX192, _baseAmount, 1 << 192)
+                : FullMath.mulDiv(1 << 192, _baseAmount, ratioX192);
+        }
+
+        uint256 ratioX128 = FullMath.mulDiv(sqrtRatioX96, sqrtRatioX96, 1 << 64);
+        return _isBaseTokenZero
+            ? FullMath.mulDiv(ratioX128, _baseAmount, 1 << 128)
+            : FullMath.mulDiv(1 << 128, _baseAmount, ratioX128);
+    }
+
+    function _sortTokens(address _tokenA, address _tokenB) internal pure returns (address, address) {
+        return _tokenA < _tokenB ? (_tokenA, _tokenB) : (_tokenB, _tokenA);
+    }
+}
@@ -4,6 +4,7 @@ require("hardhat-contract-sizer");
 import chalk from "chalk";
 import { HardhatUserConfig } from "hardhat/config";
 import { privateKeys } from "./utils/wallets";
+import { getForkCacheMode, getForkCacheUrl, getLiveForkUrl } from "./utils/tasks";
 
 import "@nomiclabs/hardhat-ethers";
 import "@nomiclabs/hardhat-waffle";
@@ -11,15 +12,17 @@ import "@typechain/hardhat";
 import "solidity-coverage";
 import "./tasks";
 
+// With FORK_MODE=record or replay the fork reads through the local RPC cache started by the test task
 const forkingConfig = {
-  url: `https://eth-mainnet.alchemyapi.io/v2/${process.env.ALCHEMY_TOKEN}`,
+  url: getForkCacheMode() ? getForkCacheUrl() : getLiveForkUrl(),
   blockNumber: 14792479,
 };
 
+// Forked mainnet tests only run with FORK and gas benchmarks only run with GAS_BENCHMARK
 const mochaConfig = {
-  grep: "@forked-mainnet",
-  invert: (process.env.FORK) ? false : true,
-  timeout: (process.env.FORK) ? 100000 : 40000,
+  grep: getMochaGrep(),
+  invert: (process.env.FORK || process.env.GAS_BENCHMARK) ? false : true,
+  timeout: (process.env.FORK || process.env.GAS_BENCHMARK) ? 100000 : 40000,
 } as Mocha.MochaOptions;
 
 checkForkedProviderEnvironment();
@@ -109,8 +112,20 @@ function getHardhatPrivateKeys() {
   });
 }
 
+function getMochaGrep() {
+  if (process.env.FORK) {
+    return "@forked-mainnet";
+  }
+
+  if (process.env.GAS_BENCHMARK) {
+    return "@gas-benchmark";
+  }
+
+  return "@forked-mainnet|@gas-benchmark";
+}
+
 function checkForkedProviderEnvironment() {
-  if (process.env.FORK &&
+  if (process.env.FORK && getForkCacheMode() !== "replay" &&
       (!process.env.ALCHEMY_TOKEN || process.env.ALCHEMY_TOKEN === "fake_alchemy_token")
      ) {
     console.log(chalk.red(
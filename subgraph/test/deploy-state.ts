@@ -21,19 +21,35 @@
 // - Change fee recipient
 // - Update streaming fee
 // - Update SetToken manager
+//
+// Set EVENT_INDEX_PATH to also index the resulting protocol events into a JSON
+// file with the in-repo EventIndexer.
 
 import "module-alias/register";
 import { BigNumber } from "@ethersproject/bignumber";
 import { ethers } from "hardhat";
 import { EMPTY_BYTES, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import { SetToken, StreamingFeeModule, TradeModule } from "@utils/contracts";
 import DeployHelper from "@utils/deploys";
+import { JsonEventIndexStore } from "@utils/common";
+import { SystemFixture } from "@utils/fixtures";
 import { ether } from "@utils/index";
-import { getAccounts, getSystemFixture, increaseTimeAsync } from "@utils/test/index";
+import { getAccounts, getEventIndexer, getSystemFixture, increaseTimeAsync } from "@utils/test/index";
+import { Account } from "@utils/test/types";
 import { StreamingFeeState } from "@utils/types";
 
-async function main() {
+export interface DeployedState {
+  setup: SystemFixture;
+  setToken: SetToken;
+  streamingFeeModule: StreamingFeeModule;
+  tradeModule: TradeModule;
+  kyberAdapterName: string;
+  owner: Account;
+  manager1: Account;
+  manager2: Account;
+}
 
-  console.log("Starting deployment");
+export async function deployState(): Promise<DeployedState> {
 
   const [owner, manager1, manager2, manager3] = await getAccounts();
 
@@ -161,9 +177,45 @@ async function main() {
   setToken = setToken.connect(manager1.wallet);
   await setToken.setManager(manager2.address);
 
+  return {
+    setup,
+    setToken,
+    streamingFeeModule,
+    tradeModule,
+    kyberAdapterName,
+    owner,
+    manager1,
+    manager2,
+  };
+}
+
+async function main() {
+
+  console.log("Starting deployment");
+
+  const { setup, streamingFeeModule, tradeModule } = await deployState();
+
+  if (process.env.EVENT_INDEX_PATH) {
+    const indexer = getEventIndexer(
+      {
+        setTokenCreators: [setup.factory.address],
+        controller: setup.controller.address,
+        streamingFeeModules: [streamingFeeModule.address],
+        tradeModules: [tradeModule.address],
+        basicIssuanceModules: [setup.issuanceModule.address],
+      },
+      new JsonEventIndexStore(process.env.EVENT_INDEX_PATH)
+    );
+
+    const eventCount = await indexer.sync();
+    console.log(`Indexed ${eventCount} events to ${process.env.EVENT_INDEX_PATH}`);
+  }
 }
 
-main().catch(e => {
-  console.error(e);
-  process.exit(1);
-});
+// Only deploy when run as a script so tests can import `deployState`
+if (require.main === module) {
+  main().catch(e => {
+    console.error(e);
+    process.exit(1);
+  });
+}
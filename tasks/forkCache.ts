@@ -0,0 +1,49 @@
+import fs from "fs-extra";
+import path from "path";
+
+import { TASK_TEST } from "hardhat/builtin-tasks/task-names";
+import { task } from "hardhat/config";
+
+import { ForkRpcCache, getForkCacheMode, getForkCachePath, getLiveForkUrl } from "../utils/tasks";
+
+// Serves the forked network's RPC reads from a local cache file so that forked specs can run offline.
+// Record once with a live Alchemy token, commit the cache file and replay it anywhere:
+//
+// $ FORK=true FORK_MODE=record npx hardhat test test/integration/curveStEthALM.spec.ts
+// $ FORK=true FORK_MODE=replay npx hardhat test test/integration/curveStEthALM.spec.ts
+//
+// FORK_CACHE_PATH and FORK_CACHE_PORT override the cache file (fork-cache.json) and local port (8546).
+task(TASK_TEST)
+  .setAction(async (args, { config }, runSuper) => {
+    const mode = getForkCacheMode();
+    const forking = config.networks.hardhat.forking;
+
+    if (!process.env.FORK || !mode || !forking) {
+      return runSuper(args);
+    }
+
+    if (forking.blockNumber === undefined) {
+      throw new Error("Fork caching requires the fork to be pinned to a blockNumber in hardhat.config.ts");
+    }
+
+    // Hardhat keeps its own disk cache of pinned fork reads. Reads served from it would never reach the recorder.
+    if (mode === "record") {
+      fs.removeSync(path.join(config.paths.cache, "hardhat-network-fork"));
+    }
+
+    const cachePath = getForkCachePath();
+    const forkCache = new ForkRpcCache(mode, cachePath, forking.blockNumber, mode === "record" ? getLiveForkUrl() : undefined);
+    await forkCache.start();
+
+    try {
+      return await runSuper(args);
+    } finally {
+      await forkCache.stop();
+
+      if (mode === "record") {
+        console.log(`Recorded ${forkCache.getCachedRequestCount()} fork RPC responses to ${cachePath}`);
+      }
+    }
+  });
+
+export {};
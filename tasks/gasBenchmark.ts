@@ -0,0 +1,45 @@
+import { task, types } from "hardhat/config";
+
+import {
+  compareGasReports,
+  DEFAULT_GAS_BASELINE_PATH,
+  DEFAULT_GAS_REGRESSION_THRESHOLD,
+  DEFAULT_GAS_REPORT_PATH,
+  formatGasComparisons,
+  readGasReport,
+  writeGasReport,
+} from "../utils/tasks";
+
+// Compares the report written by the gas benchmarks (test/gas) with the committed baseline and fails if an operation
+// regresses beyond the threshold or a baseline operation is missing. Pass --update to accept the report as the new
+// baseline.
+//
+// $ yarn gas:benchmark
+// $ npx hardhat gas:compare --threshold 0.02
+// $ npx hardhat gas:compare --update
+task("gas:compare", "Compares a gas benchmark report with the baseline")
+  .addOptionalParam("report", "Path to the gas report", DEFAULT_GAS_REPORT_PATH)
+  .addOptionalParam("baseline", "Path to the gas baseline", DEFAULT_GAS_BASELINE_PATH)
+  .addOptionalParam("threshold", "Max gas increase per operation as a decimal", DEFAULT_GAS_REGRESSION_THRESHOLD, types.float)
+  .addFlag("update", "Overwrite the baseline with the report")
+  .setAction(async args => {
+    const report = readGasReport(args.report);
+
+    if (args.update) {
+      writeGasReport(args.baseline, report);
+      console.log(`Updated ${args.baseline} with ${Object.keys(report).length} operations`);
+      return;
+    }
+
+    const comparisons = compareGasReports(report, readGasReport(args.baseline), args.threshold);
+    console.log(formatGasComparisons(comparisons, args.threshold));
+
+    if (comparisons.some(({ isRegression }) => isRegression)) {
+      throw new Error(`Gas used regressed by more than ${args.threshold * 100}% against ${args.baseline}`);
+    }
+    if (comparisons.some(({ isMissing }) => isMissing)) {
+      throw new Error(`Gas report is missing operations in ${args.baseline}, run every benchmark or update the baseline`);
+    }
+  });
+
+export {};
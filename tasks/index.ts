@@ -1 +1,8 @@
+// Tasks import utils that depend on typechain bindings inside their actions. The bindings are generated by a task,
+// so they can't be imported when the config is loaded.
 export * from "./subtasks";
+export * from "./indexKeeper";
+export * from "./setManager";
+export * from "./priceOracle";
+export * from "./gasBenchmark";
+export * from "./forkCache";
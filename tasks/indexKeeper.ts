@@ -0,0 +1,58 @@
+import { task, types } from "hardhat/config";
+
+// Runs an IndexRebalanceKeeper against the GeneralIndexModule rebalance of a SetToken. With --stand-in, deploys
+// the IndexRebalanceFixture to the target network (e.g. a local hardhat node) and rebalances its index instead.
+//
+// $ npx hardhat index:keeper --network localhost --stand-in --advance-time
+// $ npx hardhat index:keeper --network localhost --set-token 0x... --index-module 0x...
+task("index:keeper", "Trades a GeneralIndexModule rebalance to completion")
+  .addOptionalParam("setToken", "Address of the SetToken being rebalanced")
+  .addOptionalParam("indexModule", "Address of the GeneralIndexModule")
+  .addOptionalParam("maxSteps", "Max number of keeper steps", 100, types.int)
+  .addOptionalParam("maxSlippage", "Max slippage vs. fixture prices as a decimal (stand-in only)", undefined, types.string)
+  .addFlag("advanceTime", "Fast-forward through cool off periods instead of waiting")
+  .addFlag("standIn", "Deploy the index rebalance fixture and rebalance its index")
+  .setAction(async (args, { ethers }) => {
+    const { default: DeployHelper } = await import("../utils/deploys");
+    const { ether, IndexRebalanceKeeper } = await import("../utils/common");
+    const { IndexRebalanceFixture } = await import("../utils/fixtures");
+
+    const [owner, trader] = await ethers.getSigners();
+
+    let indexModuleAddress: string = args.indexModule;
+    let setTokenAddress: string = args.setToken;
+    let marketData;
+
+    if (args.standIn) {
+      const fixture = new IndexRebalanceFixture(ethers.provider, owner.address);
+      await fixture.initialize({ address: owner.address, wallet: owner }, trader.address);
+
+      indexModuleAddress = fixture.indexModule.address;
+      setTokenAddress = fixture.index.address;
+      marketData = fixture.marketData;
+
+      console.log(`Deployed stand-in index ${setTokenAddress} and GeneralIndexModule ${indexModuleAddress}`);
+    } else if (!indexModuleAddress || !setTokenAddress) {
+      throw new Error("--set-token and --index-module are required without --stand-in");
+    }
+
+    const deployer = new DeployHelper(trader);
+    const indexModule = await deployer.modules.getGeneralIndexModule(indexModuleAddress);
+    const setToken = await deployer.core.getSetToken(setTokenAddress);
+
+    const keeper = new IndexRebalanceKeeper(indexModule, setToken, {
+      marketData,
+      maxSlippage: args.maxSlippage ? ether(parseFloat(args.maxSlippage)) : undefined,
+      advanceTime: args.advanceTime,
+      maxSteps: args.maxSteps,
+    });
+
+    const result = await keeper.run();
+
+    console.log(`Executed ${result.fills.length} trades and ${result.raises} target raises in ${result.steps} steps`);
+    for (const component of Object.keys(result.skippedComponents)) {
+      console.log(`Skipped ${component}: ${result.skippedComponents[component]}`);
+    }
+  });
+
+export {};
@@ -0,0 +1,44 @@
+import { ConfigurableTaskDefinition } from "hardhat/types";
+import { task, types } from "hardhat/config";
+
+// Tasks for debugging PriceOracle resolution. Assets can be passed by address or by their name in the network's
+// address book. Pairs set in the PriceOracle constructor don't emit events, so they are read from the PriceOracle for
+// the assets being checked.
+//
+// $ npx hardhat oracle:route --network localhost --asset-one wbtc --asset-two usdc
+// $ npx hardhat oracle:unpriceable-sets --network localhost
+
+const priceOracleTask = (name: string, description: string): ConfigurableTaskDefinition =>
+  task(name, description)
+    .addOptionalParam("controller", "Controller address or name", "controller", types.string)
+    .addOptionalParam("addressBook", "Path to the address book of the network")
+    .addOptionalParam("fromBlock", "Block to read PriceOracle pair events from", 0, types.int);
+
+priceOracleTask("oracle:route", "Explains how the PriceOracle resolves the price of a pair")
+  .addParam("assetOne", "Base asset address or name")
+  .addParam("assetTwo", "Quote asset address or name")
+  .setAction(async (args, hre) => {
+    const { formatPriceOracleRoute, getPriceOracleTaskContext } = await import("../utils/tasks/priceOracleUtils");
+
+    const { graph, resolve, labels } = await getPriceOracleTaskContext(hre, args);
+    const route = await graph.getRoute(resolve(args.assetOne), resolve(args.assetTwo));
+
+    console.log(formatPriceOracleRoute(route, labels));
+  });
+
+priceOracleTask("oracle:unpriceable-sets", "Flags Sets the SetValuer can't value and the components it can't price")
+  .addOptionalParam("sets", "Comma separated SetToken addresses (defaults to every Set enabled on the Controller)")
+  .addOptionalParam("quoteAsset", "Asset address or name to value Sets in (defaults to the master quote asset)")
+  .setAction(async (args, hre) => {
+    const { findUnpriceableSets, formatUnpriceableSets, getPriceOracleTaskContext } = await import("../utils/tasks/priceOracleUtils");
+
+    const context = await getPriceOracleTaskContext(hre, args);
+    const setTokens: string[] = args.sets ? args.sets.split(",").map(context.resolve) : await context.controller.getSets();
+    const quoteAsset = args.quoteAsset ? context.resolve(args.quoteAsset) : undefined;
+
+    const unpriceableSetTokens = await findUnpriceableSets(context, setTokens, quoteAsset);
+
+    console.log(formatUnpriceableSets(unpriceableSetTokens, setTokens.length, context.labels));
+  });
+
+export {};
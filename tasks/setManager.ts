@@ -0,0 +1,210 @@
+import { ConfigurableTaskDefinition } from "hardhat/types";
+import { task, types } from "hardhat/config";
+
+// Tasks for everyday SetToken manager operations. Contracts can be passed by address or by their name in the
+// network's address book (`deployments/<network>_<chainId>/addresses.json` unless --address-book is given).
+// Every state changing task supports --dry-run, which simulates the operation as the Set's manager on a local
+// node or fork, prints the resulting state diff and reverts.
+//
+// $ npx hardhat set:create --network localhost --components 0x...,0x... --units 1,0.5 --modules basicIssuanceModule
+// $ npx hardhat set:add-module --network localhost --set-token 0x... --module streamingFeeModule --dry-run
+// $ npx hardhat set:issue --network localhost --set-token 0x... --quantity 10 --type debt
+// $ npx hardhat set:details --network localhost --set-token 0x...
+
+type IssuanceType = "basic" | "debt" | "slippage";
+
+const DEFAULT_ISSUANCE_MODULES: Record<IssuanceType, string> = {
+  basic: "basicIssuanceModule",
+  debt: "debtIssuanceModule",
+  slippage: "slippageIssuanceModule",
+};
+
+const DEFAULT_STREAMING_FEE_MODULE = "streamingFeeModule";
+
+const managerTask = (name: string, description: string): ConfigurableTaskDefinition =>
+  task(name, description)
+    .addOptionalParam("from", "Address to send transactions from (defaults to the first signer, or the manager on dry runs)")
+    .addOptionalParam("addressBook", "Path to the address book of the network")
+    .addFlag("dryRun", "Simulate on a local node or fork, print the state diff and revert");
+
+const getIssuanceType = (type: string): IssuanceType => {
+  if (!(type in DEFAULT_ISSUANCE_MODULES)) {
+    throw new Error(`Unknown issuance type ${type}, expected one of ${Object.keys(DEFAULT_ISSUANCE_MODULES).join(", ")}`);
+  }
+
+  return type as IssuanceType;
+};
+
+managerTask("set:create", "Creates a SetToken through the SetTokenCreator")
+  .addParam("components", "Comma separated component addresses or names")
+  .addParam("units", "Comma separated component units in whole tokens")
+  .addParam("modules", "Comma separated module addresses or names")
+  .addOptionalParam("manager", "Manager of the Set (defaults to the sender)")
+  .addOptionalParam("name", "Name of the Set", "SetToken", types.string)
+  .addOptionalParam("symbol", "Symbol of the Set", "SET", types.string)
+  .addOptionalParam("factory", "SetTokenCreator address or name", "setTokenCreator", types.string)
+  .setAction(async (args, hre) => {
+    const { ProtocolUtils } = await import("../utils/common");
+    const { getComponentUnits, runManagerTask } = await import("../utils/tasks/setManagerUtils");
+
+    await runManagerTask(hre, args, async ({ signer, deployer, resolve, send }) => {
+      const components = args.components.split(",").map(resolve);
+      const modules = args.modules.split(",").map(resolve);
+      const units = await getComponentUnits(signer, components, args.units.split(","));
+      const manager = args.manager ? resolve(args.manager) : await signer.getAddress();
+
+      const factory = await deployer.core.getSetTokenCreator(resolve(args.factory));
+      const transaction = factory.create(components, units, modules, manager, args.name, args.symbol);
+      await send(`Created ${args.symbol}`, transaction);
+
+      return new ProtocolUtils(hre.ethers.provider).getCreatedSetTokenAddress((await transaction).hash, factory.address);
+    });
+  });
+
+managerTask("set:add-module", "Adds a module to a SetToken as pending")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("module", "Module address or name")
+  .setAction(async (args, hre) => {
+    const { runManagerTask } = await import("../utils/tasks/setManagerUtils");
+
+    await runManagerTask(hre, { ...args, trackedModules: [args.module] }, async ({ setToken, resolve, send }) => {
+      await send(`Added ${args.module}`, setToken!.addModule(resolve(args.module)));
+    });
+  });
+
+managerTask("set:remove-module", "Removes an initialized module from a SetToken")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("module", "Module address or name")
+  .setAction(async (args, hre) => {
+    const { runManagerTask } = await import("../utils/tasks/setManagerUtils");
+
+    await runManagerTask(hre, { ...args, trackedModules: [args.module] }, async ({ setToken, resolve, send }) => {
+      await send(`Removed ${args.module}`, setToken!.removeModule(resolve(args.module)));
+    });
+  });
+
+managerTask("set:initialize-module", "Initializes a pending issuance or streaming fee module")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("type", "Module type: basic, debt, slippage or streaming-fee")
+  .addOptionalParam("module", "Module address or name (defaults to the address book entry of the type)")
+  .addOptionalParam("hook", "Manager issuance hook", "0x0000000000000000000000000000000000000000", types.string)
+  .addOptionalParam("feeRecipient", "Fee recipient (defaults to the manager)")
+  .addOptionalParam("maxFee", "Max manager fee as a decimal", "0", types.string)
+  .addOptionalParam("issueFee", "Manager issue fee as a decimal (debt and slippage)", "0", types.string)
+  .addOptionalParam("redeemFee", "Manager redeem fee as a decimal (debt and slippage)", "0", types.string)
+  .addOptionalParam("streamingFee", "Annual streaming fee as a decimal (streaming-fee)", "0", types.string)
+  .setAction(async (args, hre) => {
+    const { parseEther } = await import("ethers/lib/utils");
+    const { ZERO } = await import("../utils/constants");
+    const { runManagerTask } = await import("../utils/tasks/setManagerUtils");
+
+    const isStreamingFee = args.type === "streaming-fee";
+    const moduleName = args.module || (isStreamingFee ? DEFAULT_STREAMING_FEE_MODULE : DEFAULT_ISSUANCE_MODULES[getIssuanceType(args.type)]);
+
+    await runManagerTask(hre, { ...args, trackedModules: [moduleName] }, async ({ deployer, setToken, resolve, send }) => {
+      const module = resolve(moduleName);
+      const feeRecipient = args.feeRecipient ? resolve(args.feeRecipient) : await setToken!.manager();
+      const hook = resolve(args.hook);
+
+      if (isStreamingFee) {
+        const streamingFeeModule = await deployer.modules.getStreamingFeeModule(module);
+        await send(`Initialized ${moduleName}`, streamingFeeModule.initialize(setToken!.address, {
+          feeRecipient,
+          maxStreamingFeePercentage: parseEther(args.maxFee),
+          streamingFeePercentage: parseEther(args.streamingFee),
+          lastStreamingFeeTimestamp: ZERO,
+        }));
+      } else if (args.type === "basic") {
+        const issuanceModule = await deployer.modules.getBasicIssuanceModule(module);
+        await send(`Initialized ${moduleName}`, issuanceModule.initialize(setToken!.address, hook));
+      } else {
+        const issuanceModule = getIssuanceType(args.type) === "debt" ?
+          await deployer.modules.getDebtIssuanceModule(module) :
+          await deployer.modules.getSlippageIssuanceModule(module);
+        await send(`Initialized ${moduleName}`, issuanceModule.initialize(
+          setToken!.address,
+          parseEther(args.maxFee),
+          parseEther(args.issueFee),
+          parseEther(args.redeemFee),
+          feeRecipient,
+          hook
+        ));
+      }
+    });
+  });
+
+managerTask("set:edit-streaming-fee", "Accrues and updates the streaming fee of a SetToken")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("fee", "New annual streaming fee as a decimal")
+  .addOptionalParam("feeRecipient", "New fee recipient")
+  .addOptionalParam("module", "StreamingFeeModule address or name", DEFAULT_STREAMING_FEE_MODULE, types.string)
+  .setAction(async (args, hre) => {
+    const { parseEther } = await import("ethers/lib/utils");
+    const { runManagerTask } = await import("../utils/tasks/setManagerUtils");
+
+    await runManagerTask(hre, args, async ({ deployer, setToken, resolve, send }) => {
+      const streamingFeeModule = await deployer.modules.getStreamingFeeModule(resolve(args.module));
+
+      await send(`Updated streaming fee to ${args.fee}`, streamingFeeModule.updateStreamingFee(setToken!.address, parseEther(args.fee)));
+      if (args.feeRecipient) {
+        await send(`Updated fee recipient to ${args.feeRecipient}`, streamingFeeModule.updateFeeRecipient(
+          setToken!.address,
+          resolve(args.feeRecipient)
+        ));
+      }
+    });
+  });
+
+managerTask("set:set-manager", "Transfers management of a SetToken")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("newManager", "Address of the new manager")
+  .setAction(async (args, hre) => {
+    const { runManagerTask } = await import("../utils/tasks/setManagerUtils");
+
+    await runManagerTask(hre, args, async ({ setToken, resolve, send }) => {
+      await send(`Set manager to ${args.newManager}`, setToken!.setManager(resolve(args.newManager)));
+    });
+  });
+
+managerTask("set:issue", "Approves components and issues a SetToken")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("quantity", "Quantity of the Set to issue in whole tokens")
+  .addOptionalParam("type", "Issuance module type: basic, debt or slippage", "basic", types.string)
+  .addOptionalParam("module", "Issuance module address or name (defaults to the address book entry of the type)")
+  .addOptionalParam("to", "Recipient of the Set (defaults to the sender)")
+  .setAction(async (args, hre) => {
+    const { runIssuanceTask } = await import("../utils/tasks/setManagerUtils");
+
+    const type = getIssuanceType(args.type);
+    await runIssuanceTask(hre, { ...args, type, module: args.module || DEFAULT_ISSUANCE_MODULES[type] }, true);
+  });
+
+managerTask("set:redeem", "Redeems a SetToken, approving any debt components to return")
+  .addParam("setToken", "Address of the SetToken")
+  .addParam("quantity", "Quantity of the Set to redeem in whole tokens")
+  .addOptionalParam("type", "Issuance module type: basic, debt or slippage", "basic", types.string)
+  .addOptionalParam("module", "Issuance module address or name (defaults to the address book entry of the type)")
+  .addOptionalParam("to", "Recipient of the components (defaults to the sender)")
+  .setAction(async (args, hre) => {
+    const { runIssuanceTask } = await import("../utils/tasks/setManagerUtils");
+
+    const type = getIssuanceType(args.type);
+    await runIssuanceTask(hre, { ...args, type, module: args.module || DEFAULT_ISSUANCE_MODULES[type] }, false);
+  });
+
+task("set:details", "Prints the supply, manager, positions and modules of a SetToken")
+  .addParam("setToken", "Address of the SetToken")
+  .addOptionalParam("addressBook", "Path to the address book of the network")
+  .setAction(async (args, hre) => {
+    const { default: DeployHelper } = await import("../utils/deploys");
+    const { getSetTokenSnapshot } = await import("../utils/common");
+    const { formatManagerTaskReport, getTaskAddressBook } = await import("../utils/tasks/setManagerUtils");
+
+    const [signer] = await hre.ethers.getSigners();
+    const setToken = await new DeployHelper(signer).core.getSetToken(args.setToken);
+    const book = await getTaskAddressBook(hre, args.addressBook);
+
+    console.log(await formatManagerTaskReport(setToken, undefined, await getSetTokenSnapshot(setToken), book));
+  });
+
+export {};
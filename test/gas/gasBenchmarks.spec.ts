@@ -0,0 +1,390 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { Account } from "@utils/test/types";
+import {
+  AaveLeverageModule,
+  DebtIssuanceModuleV2,
+  GeneralIndexModule,
+  PerpV2LeverageModuleV2,
+  SetToken,
+  SlippageIssuanceModule,
+  StandardTokenMock,
+  TradeModule,
+} from "@utils/contracts";
+import { ADDRESS_ZERO, EMPTY_BYTES, MAX_UINT_256, ZERO } from "@utils/constants";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  preciseMul,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAaveV2Fixture,
+  getAccounts,
+  getGasReport,
+  getPerpV2Fixture,
+  getSystemFixture,
+  getUniswapFixture,
+  recordGasUsed,
+} from "@utils/test/index";
+import { AaveV2Fixture, PerpV2Fixture, SystemFixture, UniswapFixture } from "@utils/fixtures";
+import { DEFAULT_GAS_REPORT_PATH, writeGasReport } from "@utils/tasks";
+
+// Measures the gas used by canonical module operations and writes it to the gas report, which `gas:compare` checks
+// against the committed baseline. Only runs with GAS_BENCHMARK set:
+//
+// $ yarn gas:benchmark
+describe("Gas benchmarks @gas-benchmark", () => {
+  let owner: Account;
+  let manager: Account;
+  let trader: Account;
+  let maker: Account;
+  let otherTrader: Account;
+  let feeRecipient: Account;
+
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  before(async () => {
+    [
+      owner,
+      manager,
+      trader,
+      maker,
+      otherTrader,
+      feeRecipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+  });
+
+  after(async () => {
+    writeGasReport(DEFAULT_GAS_REPORT_PATH, getGasReport());
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("BasicIssuanceModule", async () => {
+    for (const componentCount of [1, 5, 10]) {
+      describe(`with ${componentCount} components`, async () => {
+        let setToken: SetToken;
+
+        before(async () => {
+          const components: StandardTokenMock[] = [];
+          for (let i = 0; i < componentCount; i++) {
+            const component = await deployer.mocks.deployTokenMock(owner.address);
+            await component.approve(setup.issuanceModule.address, MAX_UINT_256);
+            components.push(component);
+          }
+
+          setToken = await setup.createSetToken(
+            components.map(component => component.address),
+            components.map(() => ether(1)),
+            [setup.issuanceModule.address]
+          );
+          await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+
+          // Measure against a Set with supply, so first-issuance storage writes aren't counted
+          await setup.issuanceModule.issue(setToken.address, ether(2), owner.address);
+        });
+
+        it("issue", async () => {
+          await recordGasUsed(
+            `BasicIssuanceModule.issue (${componentCount} components)`,
+            setup.issuanceModule.issue(setToken.address, ether(1), owner.address)
+          );
+        });
+
+        it("redeem", async () => {
+          await recordGasUsed(
+            `BasicIssuanceModule.redeem (${componentCount} components)`,
+            setup.issuanceModule.redeem(setToken.address, ether(1), owner.address)
+          );
+        });
+      });
+    }
+  });
+
+  describe("TradeModule", async () => {
+    let uniswapSetup: UniswapFixture;
+    let tradeModule: TradeModule;
+    let setToken: SetToken;
+
+    before(async () => {
+      uniswapSetup = getUniswapFixture(owner.address);
+      await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+      await setup.weth.approve(uniswapSetup.router.address, MAX_UINT_256);
+      await setup.wbtc.approve(uniswapSetup.router.address, MAX_UINT_256);
+      await uniswapSetup.router.addLiquidity(
+        setup.weth.address,
+        setup.wbtc.address,
+        ether(3400),
+        bitcoin(100),
+        ZERO,
+        ZERO,
+        owner.address,
+        MAX_UINT_256
+      );
+
+      tradeModule = await deployer.modules.deployTradeModule(setup.controller.address);
+      await setup.controller.addModule(tradeModule.address);
+
+      const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2ExchangeAdapter(uniswapSetup.router.address);
+      await setup.integrationRegistry.addIntegration(tradeModule.address, "UNISWAP", uniswapExchangeAdapter.address);
+
+      setToken = await setup.createSetToken(
+        [setup.wbtc.address],
+        [bitcoin(1)],
+        [setup.issuanceModule.address, tradeModule.address],
+        manager.address
+      );
+      await setup.issuanceModule.connect(manager.wallet).initialize(setToken.address, ADDRESS_ZERO);
+      await tradeModule.connect(manager.wallet).initialize(setToken.address);
+
+      await setup.approveAndIssueSetToken(setToken, ether(1));
+    });
+
+    it("trade", async () => {
+      await recordGasUsed(
+        "TradeModule.trade (UniswapV2ExchangeAdapter)",
+        tradeModule.connect(manager.wallet).trade(
+          setToken.address,
+          "UNISWAP",
+          setup.wbtc.address,
+          bitcoin(.5),
+          setup.weth.address,
+          ZERO,
+          EMPTY_BYTES
+        )
+      );
+    });
+  });
+
+  describe("GeneralIndexModule", async () => {
+    let uniswapSetup: UniswapFixture;
+    let indexModule: GeneralIndexModule;
+    let index: SetToken;
+
+    before(async () => {
+      uniswapSetup = getUniswapFixture(owner.address);
+      await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+      await setup.weth.approve(uniswapSetup.router.address, MAX_UINT_256);
+      await setup.dai.approve(uniswapSetup.router.address, MAX_UINT_256);
+      await uniswapSetup.router.addLiquidity(
+        setup.weth.address,
+        setup.dai.address,
+        ether(200),
+        ether(400000),
+        ZERO,
+        ZERO,
+        owner.address,
+        MAX_UINT_256
+      );
+
+      indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+      await setup.controller.addModule(indexModule.address);
+
+      const exchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+      await setup.integrationRegistry.addIntegration(indexModule.address, "UNISWAP", exchangeAdapter.address);
+
+      index = await setup.createSetToken(
+        [setup.wbtc.address, setup.dai.address],
+        [bitcoin(.01), ether(4000)],
+        [setup.issuanceModule.address, indexModule.address]
+      );
+      await setup.issuanceModule.initialize(index.address, ADDRESS_ZERO);
+
+      await indexModule.initialize(index.address);
+      await indexModule.setTradeMaximums(index.address, [setup.wbtc.address, setup.dai.address], [bitcoin(1000), ether(100000)]);
+      await indexModule.setExchanges(index.address, [setup.wbtc.address, setup.dai.address], ["UNISWAP", "UNISWAP"]);
+      await indexModule.setCoolOffPeriods(index.address, [setup.wbtc.address, setup.dai.address], [ZERO, ZERO]);
+      await indexModule.setTraderStatus(index.address, [trader.address], [true]);
+
+      await setup.approveAndIssueSetToken(index, ether(20));
+      await indexModule.startRebalance(index.address, [], [], [bitcoin(.01), ether(1)], await index.positionMultiplier());
+    });
+
+    it("trade", async () => {
+      await recordGasUsed(
+        "GeneralIndexModule.trade (UniswapV2IndexExchangeAdapter)",
+        indexModule.connect(trader.wallet).trade(index.address, setup.dai.address, ZERO)
+      );
+    });
+  });
+
+  describe("AaveLeverageModule", async () => {
+    let aaveV2Setup: AaveV2Fixture;
+    let uniswapSetup: UniswapFixture;
+    let aaveLeverageModule: AaveLeverageModule;
+    let debtIssuanceModule: DebtIssuanceModuleV2;
+    let setToken: SetToken;
+
+    before(async () => {
+      uniswapSetup = getUniswapFixture(owner.address);
+      await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+      aaveV2Setup = getAaveV2Fixture(owner.address);
+      await aaveV2Setup.initialize(setup.weth.address, setup.dai.address);
+
+      const wbtcReserveTokens = await aaveV2Setup.createAndEnableReserve(
+        setup.wbtc.address, "WBTC", BigNumber.from(8),
+        BigNumber.from(8000),   // base LTV: 80%
+        BigNumber.from(8250),   // liquidation threshold: 82.5%
+        BigNumber.from(10500),  // liquidation bonus: 105.00%
+        BigNumber.from(1000),   // reserve factor: 10%
+        true,                   // enable borrowing on reserve
+        true                    // enable stable debts
+      );
+      await aaveV2Setup.createAndEnableReserve(
+        setup.usdc.address, "USDC", BigNumber.from(6),
+        BigNumber.from(8000),
+        BigNumber.from(8250),
+        BigNumber.from(10500),
+        BigNumber.from(1000),
+        true,
+        true
+      );
+      await aaveV2Setup.setAssetPriceInOracle(setup.wbtc.address, ether(1));  // Set to 1 ETH
+      await aaveV2Setup.setAssetPriceInOracle(setup.usdc.address, ether(0.001)); // Set to $1000 ETH
+
+      await setup.wbtc.approve(aaveV2Setup.lendingPool.address, bitcoin(1000));
+      await aaveV2Setup.lendingPool.deposit(setup.wbtc.address, bitcoin(1000), owner.address, ZERO);
+      await setup.usdc.approve(aaveV2Setup.lendingPool.address, usdc(50000));
+      await aaveV2Setup.lendingPool.deposit(setup.usdc.address, usdc(50000), owner.address, ZERO);
+
+      // 1 WBTC = 1000 USDC
+      await uniswapSetup.createNewPair(setup.wbtc.address, setup.usdc.address);
+      await setup.wbtc.approve(uniswapSetup.router.address, MAX_UINT_256);
+      await setup.usdc.approve(uniswapSetup.router.address, MAX_UINT_256);
+      await uniswapSetup.router.addLiquidity(
+        setup.wbtc.address,
+        setup.usdc.address,
+        bitcoin(100),
+        usdc(100000),
+        ZERO,
+        ZERO,
+        owner.address,
+        MAX_UINT_256
+      );
+
+      debtIssuanceModule = await deployer.modules.deployDebtIssuanceModuleV2(setup.controller.address);
+      await setup.controller.addModule(debtIssuanceModule.address);
+
+      const aaveV2Library = await deployer.libraries.deployAaveV2();
+      aaveLeverageModule = await deployer.modules.deployAaveLeverageModule(
+        setup.controller.address,
+        aaveV2Setup.lendingPoolAddressesProvider.address,
+        "contracts/protocol/integration/lib/AaveV2.sol:AaveV2",
+        aaveV2Library.address,
+      );
+      await setup.controller.addModule(aaveLeverageModule.address);
+
+      const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2ExchangeAdapter(uniswapSetup.router.address);
+      await setup.integrationRegistry.addIntegration(aaveLeverageModule.address, "UNISWAP", uniswapExchangeAdapter.address);
+      await setup.integrationRegistry.addIntegration(aaveLeverageModule.address, "DefaultIssuanceModule", debtIssuanceModule.address);
+
+      const aWBTC = wbtcReserveTokens.aToken;
+      setToken = await setup.createSetToken(
+        [aWBTC.address],
+        [bitcoin(1)],
+        [aaveLeverageModule.address, debtIssuanceModule.address]
+      );
+      await debtIssuanceModule.initialize(setToken.address, ether(0.02), ZERO, ZERO, feeRecipient.address, ADDRESS_ZERO);
+      await aaveLeverageModule.updateAllowedSetToken(setToken.address, true);
+      await aaveLeverageModule.initialize(setToken.address, [setup.wbtc.address], [setup.usdc.address]);
+
+      await aWBTC.approve(debtIssuanceModule.address, MAX_UINT_256);
+      await debtIssuanceModule.issue(setToken.address, ether(1), owner.address);
+    });
+
+    it("lever", async () => {
+      await recordGasUsed(
+        "AaveLeverageModule.lever (UniswapV2ExchangeAdapter)",
+        aaveLeverageModule.lever(
+          setToken.address,
+          setup.usdc.address,
+          setup.wbtc.address,
+          usdc(500),
+          bitcoin(.4),
+          "UNISWAP",
+          EMPTY_BYTES
+        )
+      );
+    });
+  });
+
+  describe("PerpV2LeverageModuleV2", async () => {
+    let perpSetup: PerpV2Fixture;
+    let perpLeverageModule: PerpV2LeverageModuleV2;
+    let slippageIssuanceModule: SlippageIssuanceModule;
+    let setToken: SetToken;
+
+    before(async () => {
+      perpSetup = getPerpV2Fixture(owner.address);
+      await perpSetup.initialize(maker, otherTrader);
+      await perpSetup.clearingHouseConfig.setMaxFundingRate(ZERO);
+
+      await perpSetup.setBaseTokenOraclePrice(perpSetup.vETH, usdc(10));
+      await perpSetup.initializePoolWithLiquidityWide(perpSetup.vETH, ether(10_000), ether(100_000));
+
+      const positionLib = await deployer.libraries.deployPositionV2();
+      const perpLib = await deployer.libraries.deployPerpV2LibraryV2();
+      const perpPositionsLib = await deployer.libraries.deployPerpV2Positions();
+
+      perpLeverageModule = await deployer.modules.deployPerpV2LeverageModuleV2(
+        setup.controller.address,
+        perpSetup.vault.address,
+        perpSetup.quoter.address,
+        perpSetup.marketRegistry.address,
+        BigNumber.from(3),
+        "contracts/protocol/lib/PositionV2.sol:PositionV2",
+        positionLib.address,
+        "contracts/protocol/integration/lib/PerpV2LibraryV2.sol:PerpV2LibraryV2",
+        perpLib.address,
+        "contracts/protocol/integration/lib/PerpV2Positions.sol:PerpV2Positions",
+        perpPositionsLib.address,
+      );
+      await setup.controller.addModule(perpLeverageModule.address);
+
+      slippageIssuanceModule = await deployer.modules.deploySlippageIssuanceModule(setup.controller.address);
+      await setup.controller.addModule(slippageIssuanceModule.address);
+      await setup.integrationRegistry.addIntegration(
+        perpLeverageModule.address,
+        "DefaultIssuanceModule",
+        slippageIssuanceModule.address
+      );
+
+      setToken = await setup.createSetToken(
+        [perpSetup.usdc.address],
+        [usdc(10)],
+        [perpLeverageModule.address, slippageIssuanceModule.address]
+      );
+      await slippageIssuanceModule.initialize(setToken.address, ether(0.02), ZERO, ZERO, feeRecipient.address, ADDRESS_ZERO);
+      await perpLeverageModule.updateAllowedSetToken(setToken.address, true);
+      await perpLeverageModule.initialize(setToken.address);
+
+      await perpSetup.usdc.approve(slippageIssuanceModule.address, MAX_UINT_256);
+      await slippageIssuanceModule.issueWithSlippage(setToken.address, ether(1), [], [], owner.address);
+      await perpLeverageModule.deposit(setToken.address, usdc(10));
+    });
+
+    it("trade", async () => {
+      // Long 2 vETH on 10 USDC of collateral (2x), paying at most 2% over the spot price
+      const baseTradeQuantityUnit = ether(2);
+      const spotPrice = await perpSetup.getSpotPrice(perpSetup.vETH.address);
+      const quoteBoundQuantityUnit = preciseMul(preciseMul(baseTradeQuantityUnit, spotPrice), ether(1.02));
+
+      await recordGasUsed(
+        "PerpV2LeverageModuleV2.trade",
+        perpLeverageModule.trade(setToken.address, perpSetup.vETH.address, baseTradeQuantityUnit, quoteBoundQuantityUnit)
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import "module-alias/register";
+
+import { BigNumber } from "ethers";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ZERO } from "@utils/constants";
+import { DebtIssuanceModule, DebtModuleMock, SetToken, SlippageIssuanceModule } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+  getDebtIssuanceFeeSettings,
+  getDebtIssuanceQuote,
+  getSetTokenSnapshot,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { DebtIssuanceQuote } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+// Deterministic pseudo-random generator so failing cases can be reproduced
+let seed = 20221019;
+const random = (): number => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+// Random amount up to `max` whole units with non-zero low order digits to exercise rounding
+const randomAmount = (max: number): BigNumber => {
+  return BigNumber.from(Math.floor(random() * max * 1e6) + 1).mul(BigNumber.from(10).pow(12))
+    .add(Math.floor(random() * 1e9));
+};
+
+describe("DebtIssuanceModule quotes", () => {
+  let owner: Account;
+  let feeRecipient: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let debtIssuance: DebtIssuanceModule;
+  let slippageIssuance: SlippageIssuanceModule;
+  let debtModule: DebtModuleMock;
+
+  before(async () => {
+    [
+      owner,
+      feeRecipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    debtIssuance = await deployer.modules.deployDebtIssuanceModule(setup.controller.address);
+    slippageIssuance = await deployer.modules.deploySlippageIssuanceModule(setup.controller.address);
+    debtModule = await deployer.mocks.deployDebtModuleMock(setup.controller.address);
+
+    await setup.controller.addModule(debtIssuance.address);
+    await setup.controller.addModule(slippageIssuance.address);
+    await setup.controller.addModule(debtModule.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function createDebtSetToken(
+    issuanceModule: DebtIssuanceModule | SlippageIssuanceModule,
+    wethUnits: BigNumber,
+    daiDebtUnits: BigNumber,
+    issueFee: BigNumber,
+    redeemFee: BigNumber,
+    protocolFeeSplit: BigNumber
+  ): Promise<SetToken> {
+    const setToken = await setup.createSetToken(
+      [setup.weth.address],
+      [wethUnits],
+      [issuanceModule.address, debtModule.address]
+    );
+
+    await issuanceModule.initialize(setToken.address, ether(0.1), issueFee, redeemFee, feeRecipient.address, ADDRESS_ZERO);
+    await debtModule.initialize(setToken.address, issuanceModule.address);
+    await debtModule.addDebt(setToken.address, setup.dai.address, daiDebtUnits);
+    await setup.controller.addFee(issuanceModule.address, ZERO, protocolFeeSplit);
+
+    return setToken;
+  }
+
+  function expectQuoteToMatch(quote: DebtIssuanceQuote, onChain: [string[], BigNumber[], BigNumber[]]): void {
+    const [components, equityQuantities, debtQuantities] = onChain;
+
+    expect(JSON.stringify(quote.components)).to.eq(JSON.stringify(components));
+    expect(JSON.stringify(quote.equityQuantities)).to.eq(JSON.stringify(equityQuantities));
+    expect(JSON.stringify(quote.debtQuantities)).to.eq(JSON.stringify(debtQuantities));
+  }
+
+  describe("#getDebtIssuanceQuote", async () => {
+    for (let i = 0; i < 5; i++) {
+      const wethUnits = randomAmount(10);
+      const daiDebtUnits = randomAmount(5000);
+      const issueFee = randomAmount(0.1).div(10);
+      const redeemFee = randomAmount(0.1).div(10);
+      const protocolFeeSplit = randomAmount(1);
+      const quantity = randomAmount(100);
+
+      describe(`for random state #${i} (quantity ${quantity.toString()})`, async () => {
+        let setToken: SetToken;
+
+        beforeEach(async () => {
+          setToken = await createDebtSetToken(debtIssuance, wethUnits, daiDebtUnits, issueFee, redeemFee, protocolFeeSplit);
+        });
+
+        it("should match getRequiredComponentIssuanceUnits", async () => {
+          const snapshot = await getSetTokenSnapshot(setToken);
+          const feeSettings = await getDebtIssuanceFeeSettings(debtIssuance, setup.controller, setToken.address);
+
+          const quote = getDebtIssuanceQuote(snapshot, quantity, true, feeSettings);
+
+          const onChain = await debtIssuance.getRequiredComponentIssuanceUnits(setToken.address, quantity);
+          expectQuoteToMatch(quote, onChain);
+        });
+
+        it("should match getRequiredComponentRedemptionUnits", async () => {
+          const snapshot = await getSetTokenSnapshot(setToken);
+          const feeSettings = await getDebtIssuanceFeeSettings(debtIssuance, setup.controller, setToken.address);
+
+          const quote = getDebtIssuanceQuote(snapshot, quantity, false, feeSettings);
+
+          const onChain = await debtIssuance.getRequiredComponentRedemptionUnits(setToken.address, quantity);
+          expectQuoteToMatch(quote, onChain);
+        });
+
+        it("should match calculateTotalFees", async () => {
+          const snapshot = await getSetTokenSnapshot(setToken);
+          const feeSettings = await getDebtIssuanceFeeSettings(debtIssuance, setup.controller, setToken.address);
+
+          const quote = getDebtIssuanceQuote(snapshot, quantity, true, feeSettings);
+
+          const [totalQuantity, managerFee, protocolFee] = await debtIssuance.calculateTotalFees(setToken.address, quantity, true);
+          expect(quote.totalQuantity).to.eq(totalQuantity);
+          expect(quote.managerFee).to.eq(managerFee);
+          expect(quote.protocolFee).to.eq(protocolFee);
+        });
+      });
+    }
+
+    describe("when module hooks adjust positions during issuance", async () => {
+      let setToken: SetToken;
+      let equityAdjustment: BigNumber;
+      let debtAdjustment: BigNumber;
+
+      beforeEach(async () => {
+        setToken = await createDebtSetToken(slippageIssuance, ether(1), ether(100), ether(0.005), ether(0.004), ether(0.2));
+
+        equityAdjustment = ether(0.1).add(7);
+        debtAdjustment = ether(-10).sub(3);
+        await debtModule.addEquityIssuanceAdjustment(setup.weth.address, equityAdjustment);
+        await debtModule.addDebtIssuanceAdjustment(setup.dai.address, debtAdjustment);
+      });
+
+      it("should match getRequiredComponentIssuanceUnitsOffChain", async () => {
+        const quantity = ether(3.123456789);
+        const snapshot = await getSetTokenSnapshot(setToken);
+        const feeSettings = await getDebtIssuanceFeeSettings(slippageIssuance, setup.controller, setToken.address);
+
+        const quote = getDebtIssuanceQuote(snapshot, quantity, true, feeSettings, {
+          equityAdjustments: [equityAdjustment, ZERO],
+          debtAdjustments: [ZERO, debtAdjustment],
+        });
+
+        const onChain = await slippageIssuance.callStatic.getRequiredComponentIssuanceUnitsOffChain(setToken.address, quantity);
+        expectQuoteToMatch(quote, onChain);
+      });
+
+      it("should itemize the adjustments", async () => {
+        const snapshot = await getSetTokenSnapshot(setToken);
+        const feeSettings = await getDebtIssuanceFeeSettings(slippageIssuance, setup.controller, setToken.address);
+
+        const quote = getDebtIssuanceQuote(snapshot, ether(1), true, feeSettings, {
+          equityAdjustments: [equityAdjustment, ZERO],
+          debtAdjustments: [ZERO, debtAdjustment],
+        });
+
+        expect(quote.breakdown[0].defaultUnit).to.eq(ether(1));
+        expect(quote.breakdown[0].equityUnit).to.eq(ether(1).add(equityAdjustment));
+        expect(quote.breakdown[1].externalDebtUnit).to.eq(ether(100));
+        expect(quote.breakdown[1].debtUnit).to.eq(ether(100).sub(debtAdjustment));
+      });
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import "module-alias/register";
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { Account } from "@utils/test/types";
+import {
+  KyberNetworkProxyMock,
+  StandardTokenMock,
+  WETH9,
+} from "@utils/contracts";
+import { ADDRESS_ZERO } from "@utils/constants";
+import DeployHelper, { DeploymentJournal, readAddressBook } from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemAddressBook, SystemManifest } from "@utils/types";
+import { GeneralIndexModule__factory } from "@typechain/factories/GeneralIndexModule__factory";
+
+const expect = getWaffleExpect();
+
+describe("DeploySystem", () => {
+  let owner: Account;
+  let feeRecipient: Account;
+  let deployer: DeployHelper;
+
+  let weth: WETH9;
+  let usdc: StandardTokenMock;
+  let kyberNetworkProxy: KyberNetworkProxyMock;
+
+  before(async () => {
+    [
+      owner,
+      feeRecipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    weth = await deployer.external.deployWETH();
+    usdc = await deployer.mocks.deployTokenMock(owner.address, ether(10000), 6);
+    kyberNetworkProxy = await deployer.mocks.deployKyberNetworkProxyMock(weth.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#deploySystem", async () => {
+    let subjectManifest: SystemManifest;
+    let subjectAddressBookPath: string | undefined;
+    let subjectDeployer: DeployHelper;
+
+    beforeEach(async () => {
+      subjectAddressBookPath = undefined;
+      subjectDeployer = deployer;
+      subjectManifest = {
+        feeRecipient: feeRecipient.address,
+        externals: {
+          weth: weth.address,
+          usdc: usdc.address,
+          kyberNetworkProxy: kyberNetworkProxy.address,
+        },
+        priceOracle: {
+          masterQuoteAsset: "$usdc",
+          pairs: [
+            { assetOne: "$weth", assetTwo: "$usdc", oracle: "$ethUsdOracle" },
+          ],
+        },
+        oracles: {
+          ethUsdOracle: { deployer: "mocks", method: "deployOracleMock", args: [ether(230)] },
+        },
+        modules: {
+          basicIssuanceModule: { method: "deployBasicIssuanceModule" },
+          tradeModule: { method: "deployTradeModule" },
+          generalIndexModule: { method: "deployGeneralIndexModule", args: ["$controller", "$weth"] },
+        },
+        integrations: {
+          KYBER: {
+            method: "deployKyberExchangeAdapter",
+            args: ["$kyberNetworkProxy"],
+            modules: ["tradeModule"],
+          },
+        },
+      };
+    });
+
+    async function subject(): Promise<SystemAddressBook> {
+      return subjectDeployer.system.deploySystem(subjectManifest, subjectAddressBookPath);
+    }
+
+    it("should initialize the controller with the fee recipient", async () => {
+      const book = await subject();
+
+      const controller = await deployer.core.getController(book.controller);
+      const isInitialized = await controller.isInitialized();
+      const actualFeeRecipient = await controller.feeRecipient();
+      expect(isInitialized).to.be.true;
+      expect(actualFeeRecipient).to.eq(feeRecipient.address);
+    });
+
+    it("should enable the factory, modules and resources on the controller", async () => {
+      const book = await subject();
+
+      const controller = await deployer.core.getController(book.controller);
+      const factories = await controller.getFactories();
+      const modules = await controller.getModules();
+      const integrationRegistry = await controller.resourceId(0);
+      const priceOracle = await controller.resourceId(1);
+      const setValuer = await controller.resourceId(2);
+
+      expect(JSON.stringify(factories)).to.eq(JSON.stringify([book.setTokenCreator]));
+      expect(JSON.stringify(modules)).to.eq(JSON.stringify([
+        book.modules.basicIssuanceModule,
+        book.modules.tradeModule,
+        book.modules.generalIndexModule,
+      ]));
+      expect(integrationRegistry).to.eq(book.integrationRegistry);
+      expect(priceOracle).to.eq(book.priceOracle);
+      expect(setValuer).to.eq(book.setValuer);
+    });
+
+    it("should resolve references in constructor arguments", async () => {
+      const book = await subject();
+
+      const generalIndexModule = GeneralIndexModule__factory.connect(book.modules.generalIndexModule, owner.wallet);
+      const moduleWeth = await generalIndexModule.weth();
+      expect(moduleWeth).to.eq(weth.address);
+    });
+
+    it("should register the integration adapters", async () => {
+      const book = await subject();
+
+      const integrationRegistry = await deployer.core.getIntegrationRegistry(book.integrationRegistry!);
+      const adapter = await integrationRegistry.getIntegrationAdapter(book.modules.tradeModule, "KYBER");
+      expect(adapter).to.eq(book.integrations.KYBER);
+    });
+
+    it("should configure the price oracle pairs", async () => {
+      const book = await subject();
+
+      const priceOracle = await deployer.core.getPriceOracle(book.priceOracle!);
+      const oracle = await priceOracle.oracles(weth.address, usdc.address);
+      const masterQuoteAsset = await priceOracle.masterQuoteAsset();
+      expect(oracle).to.eq(book.oracles.ethUsdOracle);
+      expect(masterQuoteAsset).to.eq(usdc.address);
+    });
+
+    describe("when an address book path is passed", async () => {
+      beforeEach(async () => {
+        subjectAddressBookPath = path.join(os.tmpdir(), `addresses-${Date.now()}.json`);
+      });
+
+      afterEach(async () => {
+        fs.removeSync(subjectAddressBookPath!);
+      });
+
+      it("should write the address book", async () => {
+        const book = await subject();
+
+        const writtenBook = readAddressBook(subjectAddressBookPath!);
+        expect(JSON.stringify(writtenBook)).to.eq(JSON.stringify(book));
+      });
+    });
+
+    describe("when the deployer keeps a deployment journal", async () => {
+      let journalDirectory: string;
+
+      beforeEach(async () => {
+        journalDirectory = path.join(os.tmpdir(), `deployments-${Date.now()}`);
+        subjectDeployer = new DeployHelper(owner.wallet, new DeploymentJournal(path.join(journalDirectory, "journal.json")));
+      });
+
+      afterEach(async () => {
+        fs.removeSync(journalDirectory);
+      });
+
+      it("should write the address book next to the journal", async () => {
+        const book = await subject();
+
+        const writtenBook = readAddressBook(path.join(journalDirectory, "addresses.json"));
+        expect(JSON.stringify(writtenBook)).to.eq(JSON.stringify(book));
+      });
+    });
+
+    describe("when the SetValuer is disabled", async () => {
+      beforeEach(async () => {
+        subjectManifest.setValuer = false;
+      });
+
+      it("should not register a SetValuer resource", async () => {
+        const book = await subject();
+
+        const controller = await deployer.core.getController(book.controller);
+        const setValuer = await controller.resourceId(2);
+        expect(book.setValuer).to.be.undefined;
+        expect(setValuer).to.eq(ADDRESS_ZERO);
+      });
+    });
+
+    describe("when a contract references an unknown name", async () => {
+      beforeEach(async () => {
+        subjectManifest.integrations!.KYBER.args = ["$uniswapRouter"];
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Manifest: KYBER references unknown contract uniswapRouter");
+      });
+    });
+
+    describe("when contracts reference each other", async () => {
+      beforeEach(async () => {
+        subjectManifest.oracles = {
+          ethUsdOracle: { deployer: "mocks", method: "deployOracleAdapterMock", args: ["$usdc", "$btcUsdOracle"] },
+          btcUsdOracle: { deployer: "mocks", method: "deployOracleAdapterMock", args: ["$usdc", "$ethUsdOracle"] },
+        };
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Manifest: circular dependency on ethUsdOracle");
+      });
+    });
+
+    describe("when a name is duplicated across sections", async () => {
+      beforeEach(async () => {
+        subjectManifest.oracles!.tradeModule = { deployer: "mocks", method: "deployOracleMock", args: [ether(1)] };
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Manifest: duplicate name tradeModule");
+      });
+    });
+
+    describe("when the deploy method does not exist", async () => {
+      beforeEach(async () => {
+        subjectManifest.modules!.tradeModule = { method: "deployTradeModuleV9" };
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Manifest: unknown deploy method modules.deployTradeModuleV9");
+      });
+    });
+
+    describe("when an integration references a module missing from the manifest", async () => {
+      beforeEach(async () => {
+        subjectManifest.integrations!.KYBER.modules = ["singleIndexModule"];
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Manifest: integration KYBER references unknown module singleIndexModule");
+      });
+    });
+  });
+});
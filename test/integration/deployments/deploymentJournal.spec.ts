@@ -0,0 +1,137 @@
+import "module-alias/register";
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import { keccak256 } from "ethers/lib/utils";
+
+import { Account } from "@utils/test/types";
+import { Controller } from "@utils/contracts";
+import DeployHelper, { DeploymentJournal } from "@utils/deploys";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getWaffleExpect,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("DeploymentJournal", () => {
+  let owner: Account;
+  let feeRecipient: Account;
+
+  let journalPath: string;
+  let journal: DeploymentJournal;
+  let deployer: DeployHelper;
+
+  before(async () => {
+    [
+      owner,
+      feeRecipient,
+    ] = await getAccounts();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  beforeEach(async () => {
+    journalPath = path.join(os.tmpdir(), `journal-${Date.now()}.json`);
+    journal = new DeploymentJournal(journalPath);
+    deployer = new DeployHelper(owner.wallet, journal);
+  });
+
+  afterEach(async () => {
+    fs.removeSync(journalPath);
+  });
+
+  describe("#track", async () => {
+    async function subject(): Promise<Controller> {
+      return deployer.core.deployController(feeRecipient.address);
+    }
+
+    it("should record the deployment", async () => {
+      const controller = await subject();
+
+      const record = journal.getRecord("Controller")!;
+      expect(record.address).to.eq(controller.address);
+      expect(record.txHash).to.eq(controller.deployTransaction.hash);
+      expect(record.bytecodeHash).to.eq(keccak256(controller.deployTransaction.data));
+      expect(JSON.stringify(record.args)).to.eq(JSON.stringify([feeRecipient.address]));
+    });
+
+    it("should write the journal to disk", async () => {
+      const controller = await subject();
+
+      const reloadedJournal = new DeploymentJournal(journalPath);
+      expect(reloadedJournal.getAddress("Controller")).to.eq(controller.address);
+    });
+
+    it("should let get helpers resolve journal names", async () => {
+      const controller = await subject();
+
+      const attachedController = await deployer.core.getController("Controller");
+      expect(attachedController.address).to.eq(controller.address);
+    });
+
+    describe("when the same contract is deployed twice", async () => {
+      it("should suffix the second deployment name", async () => {
+        const firstController = await subject();
+        const secondController = await subject();
+
+        expect(journal.getAddress("Controller")).to.eq(firstController.address);
+        expect(journal.getAddress("Controller_1")).to.eq(secondController.address);
+      });
+    });
+
+    describe("when the next deployment is named", async () => {
+      beforeEach(async () => {
+        journal.nameNextDeployment("protocolController");
+      });
+
+      it("should record the deployment under that name", async () => {
+        const controller = await subject();
+
+        expect(journal.getAddress("protocolController")).to.eq(controller.address);
+        expect(journal.getRecord("Controller")).to.be.undefined;
+      });
+    });
+  });
+
+  describe("when resuming a deployment", async () => {
+    let controller: Controller;
+    let subjectFeeRecipient: string;
+
+    beforeEach(async () => {
+      controller = await deployer.core.deployController(feeRecipient.address);
+
+      deployer = new DeployHelper(owner.wallet, new DeploymentJournal(journalPath, true));
+      subjectFeeRecipient = feeRecipient.address;
+    });
+
+    async function subject(): Promise<Controller> {
+      return deployer.core.deployController(subjectFeeRecipient);
+    }
+
+    it("should attach to the recorded contract without deploying", async () => {
+      const previousBlockNumber = await ethers.provider.getBlockNumber();
+
+      const resumedController = await subject();
+
+      const currentBlockNumber = await ethers.provider.getBlockNumber();
+      expect(resumedController.address).to.eq(controller.address);
+      expect(currentBlockNumber).to.eq(previousBlockNumber);
+    });
+
+    describe("when the constructor arguments changed", async () => {
+      beforeEach(async () => {
+        subjectFeeRecipient = owner.address;
+      });
+
+      it("should deploy a new contract", async () => {
+        const resumedController = await subject();
+
+        expect(resumedController.address).to.not.eq(controller.address);
+      });
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import "module-alias/register";
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { bitcoin, ether } from "@utils/index";
+import { EventIndexer, JsonEventIndexStore } from "@utils/common";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getEventIndexer,
+  getProvider,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { EventIndexerSources } from "@utils/types";
+import { DeployedState, deployState } from "../../subgraph/test/deploy-state";
+
+const expect = getWaffleExpect();
+
+describe("EventIndexer", () => {
+  let state: DeployedState;
+  let sources: EventIndexerSources;
+
+  before(async () => {
+    const startBlock = await getProvider().getBlockNumber() + 1;
+
+    state = await deployState();
+
+    sources = {
+      setTokenCreators: [state.setup.factory.address],
+      controller: state.setup.controller.address,
+      streamingFeeModules: [state.streamingFeeModule.address],
+      tradeModules: [state.tradeModule.address],
+      basicIssuanceModules: [state.setup.issuanceModule.address],
+      startBlock,
+    };
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#sync", async () => {
+    let subjectIndexer: EventIndexer;
+
+    beforeEach(async () => {
+      subjectIndexer = getEventIndexer(sources);
+    });
+
+    async function subject(): Promise<number> {
+      return subjectIndexer.sync();
+    }
+
+    it("should index up to the latest block", async () => {
+      const eventCount = await subject();
+
+      expect(eventCount).to.be.gt(0);
+      expect(subjectIndexer.lastBlock).to.eq(await getProvider().getBlockNumber());
+    });
+
+    it("should index the events of the created SetToken", async () => {
+      await subject();
+
+      const events = subjectIndexer.getIndexedEvents({ source: "SetToken", address: state.setToken.address });
+      const names = events.map(event => event.name);
+
+      expect(names).to.include("ModuleInitialized");
+      expect(names).to.include("ManagerEdited");
+    });
+
+    it("should order events by block and log index", async () => {
+      await subject();
+
+      const events = subjectIndexer.getIndexedEvents();
+      for (let i = 1; i < events.length; i++) {
+        const previous = events[i - 1];
+        expect(
+          events[i].blockNumber > previous.blockNumber ||
+          (events[i].blockNumber === previous.blockNumber && events[i].logIndex > previous.logIndex)
+        ).to.be.true;
+      }
+    });
+
+    describe("when syncing in several batches", async () => {
+      it("should index the same events as a single sync", async () => {
+        const fullCount = await subject();
+
+        const batchedIndexer = new EventIndexer(getProvider(), sources, undefined, 3);
+        const midBlock = sources.startBlock! + 10;
+        const firstCount = await batchedIndexer.sync(midBlock);
+        const secondCount = await batchedIndexer.sync();
+
+        expect(batchedIndexer.lastBlock).to.eq(subjectIndexer.lastBlock);
+        expect(firstCount + secondCount).to.eq(fullCount);
+        expect(batchedIndexer.getIndexedEvents()).to.deep.eq(subjectIndexer.getIndexedEvents());
+      });
+    });
+
+    describe("when the index is stored in a JSON file", async () => {
+      let indexPath: string;
+
+      beforeEach(async () => {
+        indexPath = path.join(os.tmpdir(), `event-index-${Date.now()}.json`);
+        subjectIndexer = getEventIndexer(sources, new JsonEventIndexStore(indexPath));
+      });
+
+      afterEach(async () => {
+        fs.removeSync(indexPath);
+      });
+
+      it("should reload the index and resume from the last indexed block", async () => {
+        await subject();
+
+        const reloadedIndexer = getEventIndexer(sources, new JsonEventIndexStore(indexPath));
+        const eventCount = await reloadedIndexer.sync();
+
+        expect(eventCount).to.eq(0);
+        expect(reloadedIndexer.getSetTokens()).to.deep.eq(subjectIndexer.getSetTokens());
+        expect(reloadedIndexer.getTradeHistory()).to.deep.eq(subjectIndexer.getTradeHistory());
+      });
+    });
+  });
+
+  describe("queries", async () => {
+    let indexer: EventIndexer;
+
+    beforeEach(async () => {
+      indexer = getEventIndexer(sources);
+      await indexer.sync();
+    });
+
+    describe("#getSetTokens", async () => {
+      it("should return the created SetToken with its initialized modules", async () => {
+        const [setToken, ...rest] = indexer.getSetTokens();
+
+        expect(rest).to.be.empty;
+        expect(setToken.address).to.eq(state.setToken.address);
+        expect(setToken.name).to.eq("SetToken");
+        expect(setToken.symbol).to.eq("SET");
+        expect(setToken.factory).to.eq(state.setup.factory.address);
+        expect(setToken.modules).to.deep.eq([
+          state.streamingFeeModule.address,
+          state.tradeModule.address,
+          state.setup.issuanceModule.address,
+        ]);
+      });
+    });
+
+    describe("#getSetTokensByManager", async () => {
+      it("should return Sets by their current manager", async () => {
+        const newManagerSets = indexer.getSetTokensByManager(state.manager2.address);
+        const oldManagerSets = indexer.getSetTokensByManager(state.manager1.address);
+
+        expect(newManagerSets.map(setToken => setToken.address)).to.deep.eq([state.setToken.address]);
+        expect(oldManagerSets).to.be.empty;
+      });
+    });
+
+    describe("#getIssuanceHistory", async () => {
+      it("should return the issuance and redemption", async () => {
+        const [issuance, redemption, ...rest] = indexer.getIssuanceHistory(state.setToken.address);
+
+        expect(rest).to.be.empty;
+
+        expect(issuance.type).to.eq("issue");
+        expect(issuance.module).to.eq(state.setup.issuanceModule.address);
+        expect(issuance.account).to.eq(state.owner.address);
+        expect(issuance.to).to.eq(state.owner.address);
+        expect(issuance.quantity).to.eq(ether(10));
+
+        expect(redemption.type).to.eq("redeem");
+        expect(redemption.account).to.eq(state.owner.address);
+        expect(redemption.quantity).to.eq(ether(5));
+        expect(redemption.managerFee).to.eq(0);
+      });
+    });
+
+    describe("#getTradeHistory", async () => {
+      it("should return the Kyber trade", async () => {
+        const [trade, ...rest] = indexer.getTradeHistory(state.setToken.address);
+
+        expect(rest).to.be.empty;
+        expect(trade.module).to.eq(state.tradeModule.address);
+        expect(trade.sendToken).to.eq(state.setup.wbtc.address);
+        expect(trade.receiveToken).to.eq(state.setup.weth.address);
+        // Traded quantities are totals across the 5 outstanding Sets
+        expect(trade.sendQuantity).to.eq(bitcoin(2.5));
+        expect(trade.receiveQuantity.add(trade.protocolFee)).to.eq(ether(82.5));
+      });
+    });
+
+    describe("#getFeeAccruals", async () => {
+      it("should return the streaming fee accruals", async () => {
+        const [accrual, feeUpdateAccrual, ...rest] = indexer.getFeeAccruals(state.setToken.address);
+
+        expect(rest).to.be.empty;
+        expect(accrual.module).to.eq(state.streamingFeeModule.address);
+        expect(accrual.managerFee).to.be.gt(0);
+        // Updating the streaming fee accrues the fee up to that block first
+        expect(feeUpdateAccrual.module).to.eq(state.streamingFeeModule.address);
+        expect(feeUpdateAccrual.blockNumber).to.be.gt(accrual.blockNumber);
+
+        const block = await getProvider().getBlock(accrual.blockNumber);
+        expect(accrual.timestamp).to.eq(block.timestamp);
+      });
+    });
+
+    describe("when filtering by another SetToken", async () => {
+      it("should return nothing", async () => {
+        expect(indexer.getIssuanceHistory(state.setup.weth.address)).to.be.empty;
+        expect(indexer.getTradeHistory(state.setup.weth.address)).to.be.empty;
+        expect(indexer.getFeeAccruals(state.setup.weth.address)).to.be.empty;
+      });
+    });
+  });
+});
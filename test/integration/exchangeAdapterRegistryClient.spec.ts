@@ -0,0 +1,392 @@
+import "module-alias/register";
+import { defaultAbiCoder, hexlify, hexZeroPad, solidityPack } from "ethers/lib/utils";
+
+import { Address, ExchangeTradeParams } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { GeneralIndexModule, SetToken, TradeModule, ZeroExMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { ExchangeAdapterRegistryClient } from "@utils/common";
+import { bitcoin, ether } from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAccounts,
+  getRandomAddress,
+  getSystemFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("ExchangeAdapterRegistryClient", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let uniswapSetup: UniswapFixture;
+  let tradeModule: TradeModule;
+  let indexModule: GeneralIndexModule;
+  let zeroExMock: ZeroExMock;
+  let setToken: SetToken;
+
+  let client: ExchangeAdapterRegistryClient;
+
+  cacheBeforeEach(async () => {
+    [owner] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    // 1 WBTC = 34 WETH
+    uniswapSetup = getUniswapFixture(owner.address);
+    await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    await setup.weth.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await setup.wbtc.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await uniswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.wbtc.address,
+      ether(3400),
+      bitcoin(100),
+      ether(3400),
+      bitcoin(100),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    tradeModule = await deployer.modules.deployTradeModule(setup.controller.address);
+    indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(tradeModule.address);
+    await setup.controller.addModule(indexModule.address);
+
+    // Adapters only used to validate data don't need a working exchange
+    const uniswapV3Router = await getRandomAddress();
+    zeroExMock = await deployer.mocks.deployZeroExMock(setup.wbtc.address, setup.weth.address, bitcoin(1), ether(34));
+
+    const uniswapExchangeAdapterV2 = await deployer.adapters.deployUniswapV2ExchangeAdapterV2(uniswapSetup.router.address);
+    const uniswapV3ExchangeAdapterV2 = await deployer.adapters.deployUniswapV3ExchangeAdapterV2(uniswapV3Router);
+    const zeroExApiAdapter = await deployer.adapters.deployZeroExApiAdapter(zeroExMock.address, setup.weth.address);
+    const uniswapIndexExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+    const uniswapV3IndexExchangeAdapter = await deployer.adapters.deployUniswapV3IndexExchangeAdapter(uniswapV3Router);
+
+    await setup.integrationRegistry.batchAddIntegration(
+      [tradeModule.address, tradeModule.address, tradeModule.address, indexModule.address, indexModule.address],
+      ["UNISWAP", "UNISWAPV3", "ZERO_EX", "UNISWAP", "UNISWAPV3"],
+      [
+        uniswapExchangeAdapterV2.address,
+        uniswapV3ExchangeAdapterV2.address,
+        zeroExApiAdapter.address,
+        uniswapIndexExchangeAdapter.address,
+        uniswapV3IndexExchangeAdapter.address,
+      ]
+    );
+
+    setToken = await setup.createSetToken(
+      [setup.wbtc.address],
+      [bitcoin(0.01)],
+      [setup.issuanceModule.address, tradeModule.address, indexModule.address]
+    );
+    await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+    await tradeModule.initialize(setToken.address);
+    await indexModule.initialize(setToken.address);
+
+    await setup.wbtc.approve(setup.issuanceModule.address, MAX_UINT_256);
+    await setup.issuanceModule.issue(setToken.address, ether(2), owner.address);
+
+    // KYBER is known to the client but not registered
+    client = new ExchangeAdapterRegistryClient(setup.integrationRegistry, {
+      tradeAdapters: {
+        KYBER: "KyberExchangeAdapter",
+        UNISWAP: "UniswapV2ExchangeAdapterV2",
+        UNISWAPV3: "UniswapV3ExchangeAdapterV2",
+        ZERO_EX: "ZeroExApiAdapter",
+      },
+      indexAdapters: {
+        UNISWAP: "UniswapV2IndexExchangeAdapter",
+        UNISWAPV3: "UniswapV3IndexExchangeAdapter",
+      },
+    });
+  });
+
+  describe("#getTradeCall", async () => {
+    let subjectParams: ExchangeTradeParams;
+
+    beforeEach(async () => {
+      subjectParams = {
+        exchangeName: "UNISWAP",
+        sendToken: setup.wbtc.address,
+        sendQuantity: bitcoin(0.01),
+        receiveToken: setup.weth.address,
+        minReceiveQuantity: ether(0.3),
+      };
+    });
+
+    async function subject(): Promise<any> {
+      return client.getTradeCall(tradeModule, setToken.address, subjectParams);
+    }
+
+    it("should encode the path of the trade", async () => {
+      const call = await subject();
+
+      expect(call.data).to.eq(defaultAbiCoder.encode(["address[]", "bool"], [[setup.wbtc.address, setup.weth.address], true]));
+    });
+
+    it("should encode a TradeModule trade that can be sent", async () => {
+      const call = await subject();
+
+      await owner.wallet.sendTransaction({ to: tradeModule.address, data: call.calldata });
+
+      expect(await setup.wbtc.balanceOf(setToken.address)).to.eq(ZERO);
+      expect(await setup.weth.balanceOf(setToken.address)).to.be.gte(ether(0.6));
+    });
+
+    describe("when trading through ZeroExApiAdapter", async () => {
+      beforeEach(async () => {
+        subjectParams.exchangeName = "ZERO_EX";
+      });
+
+      it("should encode the notional quantities at the Set's total supply", async () => {
+        const call = await subject();
+
+        const expectedData = zeroExMock.interface.encodeFunctionData(
+          "sellToUniswap",
+          [[setup.wbtc.address, setup.weth.address], bitcoin(0.02), ether(0.6), false]
+        );
+        expect(call.data).to.eq(expectedData);
+      });
+    });
+
+    describe("when 0x API calldata sends a different quantity", async () => {
+      beforeEach(async () => {
+        subjectParams.exchangeName = "ZERO_EX";
+        subjectParams.data = zeroExMock.interface.encodeFunctionData(
+          "transformERC20",
+          [setup.wbtc.address, setup.weth.address, bitcoin(0.01), ether(0.6), []]
+        );
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Trade data sends 1000000, but the trade sends 2000000");
+      });
+    });
+
+    describe("when 0x API calldata is rejected by the adapter", async () => {
+      beforeEach(async () => {
+        subjectParams.exchangeName = "ZERO_EX";
+        subjectParams.data = zeroExMock.interface.encodeFunctionData(
+          "sellToLiquidityProvider",
+          [setup.wbtc.address, setup.weth.address, ADDRESS_ZERO, await getRandomAddress(), bitcoin(0.02), ether(0.6), []]
+        );
+      });
+
+      it("should revert with the adapter's reason", async () => {
+        await expect(subject()).to.be.revertedWith("Mismatched recipient");
+      });
+    });
+
+    describe("when the trade is an exact output trade through an intermediate token", async () => {
+      beforeEach(async () => {
+        subjectParams.exchangeName = "UNISWAPV3";
+        subjectParams.intermediateTokens = [setup.dai.address];
+        subjectParams.fees = [3000, 500];
+        subjectParams.fixIn = false;
+      });
+
+      it("should decode the data back to the path of the trade", async () => {
+        const call = await subject();
+
+        const decodedData = client.decodeTradeData(call.exchangeName, call.data);
+        expect(decodedData.path).to.deep.eq([setup.wbtc.address, setup.dai.address, setup.weth.address]);
+        expect(decodedData.fees).to.deep.eq([3000, 500]);
+        expect(decodedData.fixIn).to.be.false;
+      });
+    });
+
+    describe("when the trade data path does not start at the send token", async () => {
+      beforeEach(async () => {
+        subjectParams.data = defaultAbiCoder.encode(["address[]", "bool"], [[setup.dai.address, setup.weth.address], true]);
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Trade data path does not start at the send token");
+      });
+    });
+
+    describe("when the adapter is not registered for the module", async () => {
+      beforeEach(async () => {
+        subjectParams.exchangeName = "KYBER";
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq(`No exchange adapter is registered as KYBER for module ${tradeModule.address}`);
+      });
+    });
+
+    describe("when the adapter name is unknown", async () => {
+      beforeEach(async () => {
+        subjectParams.exchangeName = "SUSHISWAP";
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Unknown trade adapter SUSHISWAP");
+      });
+    });
+  });
+
+  describe("#decodeTradeCall", async () => {
+    let subjectCalldata: string;
+
+    beforeEach(async () => {
+      const call = await client.getTradeCall(tradeModule, setToken.address, {
+        exchangeName: "ZERO_EX",
+        sendToken: setup.wbtc.address,
+        sendQuantity: bitcoin(0.01),
+        receiveToken: setup.weth.address,
+        minReceiveQuantity: ether(0.3),
+      });
+      subjectCalldata = call.calldata;
+    });
+
+    function subject(): any {
+      return client.decodeTradeCall(tradeModule, subjectCalldata);
+    }
+
+    it("should decode the trade and its 0x API calldata", async () => {
+      const decodedCall = subject();
+
+      expect(decodedCall.setToken).to.eq(setToken.address);
+      expect(decodedCall.exchangeName).to.eq("ZERO_EX");
+      expect(decodedCall.sendQuantity).to.eq(bitcoin(0.01));
+      expect(decodedCall.minReceiveQuantity).to.eq(ether(0.3));
+      expect(decodedCall.decodedData.functionName).to.eq("sellToUniswap");
+      expect(decodedCall.decodedData.path).to.deep.eq([setup.wbtc.address, setup.weth.address]);
+      expect(decodedCall.decodedData.sendQuantity).to.eq(bitcoin(0.02));
+      expect(decodedCall.decodedData.minReceiveQuantity).to.eq(ether(0.6));
+    });
+  });
+
+  describe("#decodeTradeData", async () => {
+    let subjectData: string;
+
+    beforeEach(async () => {
+      const encodedPath = solidityPack(
+        ["address", "uint24", "address", "uint24", "address"],
+        [setup.wbtc.address, 3000, setup.dai.address, 500, setup.weth.address]
+      );
+      subjectData = zeroExMock.interface.encodeFunctionData(
+        "sellTokenForTokenToUniswapV3",
+        [encodedPath, bitcoin(0.02), ether(0.6), ADDRESS_ZERO]
+      );
+    });
+
+    function subject(): any {
+      return client.decodeTradeData("ZERO_EX", subjectData);
+    }
+
+    it("should decode the Uniswap V3 path of 0x API calldata", async () => {
+      const decodedData = subject();
+
+      expect(decodedData.functionName).to.eq("sellTokenForTokenToUniswapV3");
+      expect(decodedData.path).to.deep.eq([setup.wbtc.address, setup.dai.address, setup.weth.address]);
+      expect(decodedData.fees).to.deep.eq([3000, 500]);
+      expect(decodedData.sendQuantity).to.eq(bitcoin(0.02));
+      expect(decodedData.minReceiveQuantity).to.eq(ether(0.6));
+    });
+
+    describe("when the 0x API function is not supported by the adapter", async () => {
+      beforeEach(async () => {
+        subjectData = zeroExMock.interface.encodeFunctionData("addSetTokenAddress", [ADDRESS_ZERO]);
+      });
+
+      it("should throw", async () => {
+        const selector = zeroExMock.interface.getSighash("addSetTokenAddress");
+        expect(() => subject()).to.throw(`Unsupported 0x API function selector ${selector}`);
+      });
+    });
+  });
+
+  describe("#getSetExchangeDataCall", async () => {
+    let subjectComponent: Address;
+    let subjectExchangeName: string | undefined;
+    let subjectIntermediateToken: Address | undefined;
+
+    cacheBeforeEach(async () => {
+      await indexModule.setExchanges(setToken.address, [setup.wbtc.address], ["UNISWAPV3"]);
+    });
+
+    beforeEach(async () => {
+      subjectComponent = setup.wbtc.address;
+      subjectExchangeName = undefined;
+      subjectIntermediateToken = undefined;
+    });
+
+    async function subject(): Promise<any> {
+      return client.getSetExchangeDataCall(indexModule, setToken.address, [{
+        component: subjectComponent,
+        exchangeName: subjectExchangeName,
+        intermediateToken: subjectIntermediateToken,
+        fee: 3000,
+      }]);
+    }
+
+    it("should encode the fee for the component's exchange", async () => {
+      const call = await subject();
+
+      expect(call.components).to.deep.eq([setup.wbtc.address]);
+      expect(call.exchangeData).to.deep.eq([hexZeroPad(hexlify(3000), 3)]);
+    });
+
+    it("should set exchange data that decodes back to the fee", async () => {
+      const call = await subject();
+
+      await owner.wallet.sendTransaction({ to: indexModule.address, data: call.calldata });
+
+      const exchangeData = await client.getComponentExchangeData(indexModule, setToken.address, setup.wbtc.address);
+      expect(exchangeData.exchangeName).to.eq("UNISWAPV3");
+      expect(exchangeData.exchangeData).to.eq(call.exchangeData[0]);
+      expect(exchangeData.decodedData.fee).to.eq(3000);
+    });
+
+    describe("when the update names an exchange with an intermediate token", async () => {
+      beforeEach(async () => {
+        subjectExchangeName = "UNISWAP";
+        subjectIntermediateToken = setup.dai.address;
+      });
+
+      it("should encode the intermediate token", async () => {
+        const call = await subject();
+
+        expect(call.exchangeData).to.deep.eq([setup.dai.address.toLowerCase()]);
+        expect(client.decodeIndexExchangeData("UNISWAP", call.exchangeData[0]).intermediateToken).to.eq(setup.dai.address);
+      });
+    });
+
+    describe("when the intermediate token is WETH", async () => {
+      beforeEach(async () => {
+        subjectExchangeName = "UNISWAP";
+        subjectIntermediateToken = setup.weth.address;
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq("Intermediate token must not be WETH or the component");
+      });
+    });
+
+    describe("when no exchange is set for the component", async () => {
+      beforeEach(async () => {
+        subjectComponent = setup.dai.address;
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+        expect(error.message).to.eq(`No exchange is set for component ${setup.dai.address}`);
+      });
+    });
+  });
+});
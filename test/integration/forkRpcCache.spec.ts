@@ -0,0 +1,224 @@
+import "module-alias/register";
+
+import fs from "fs-extra";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+import { ForkRpcCache, getForkCacheKey, readForkCache, writeForkCache } from "@utils/tasks";
+import { getWaffleExpect } from "@utils/test/index";
+import { JsonRpcResponse } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+const BLOCK_NUMBER = 14792479;
+
+const postJson = (url: string, body: any): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: "POST", headers: { "Content-Type": "application/json" } }, response => {
+      let data = "";
+      response.on("data", chunk => data += chunk);
+      response.on("end", () => resolve(JSON.parse(data)));
+    });
+
+    request.on("error", reject);
+    request.end(JSON.stringify(body));
+  });
+};
+
+describe("ForkRpcCache", () => {
+  let upstream: http.Server;
+  let upstreamUrl: string;
+  let upstreamRequests: string[];
+  let cachePath: string;
+
+  before(async () => {
+    // Stands in for the live node: echoes the method and first param as the result and fails "eth_fail"
+    upstream = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", chunk => body += chunk);
+      request.on("end", () => {
+        const { id, method, params } = JSON.parse(body);
+        upstreamRequests.push(method);
+
+        const result = method === "eth_fail" ?
+          { jsonrpc: "2.0", id, error: { code: 429, message: "Rate limited" } } :
+          { jsonrpc: "2.0", id, result: `${method}:${params[0]}` };
+        response.end(JSON.stringify(result));
+      });
+    });
+
+    await new Promise<void>(resolve => upstream.listen(0, "127.0.0.1", () => resolve()));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    upstreamRequests = [];
+    cachePath = path.join(os.tmpdir(), `fork-cache-${Date.now()}.json`);
+  });
+
+  afterEach(async () => {
+    fs.removeSync(cachePath);
+  });
+
+  describe("record mode", async () => {
+    let subjectForkCache: ForkRpcCache;
+
+    beforeEach(async () => {
+      subjectForkCache = new ForkRpcCache("record", cachePath, BLOCK_NUMBER, upstreamUrl);
+    });
+
+    async function subject(method: string = "eth_getBalance"): Promise<JsonRpcResponse> {
+      return subjectForkCache.handleRequest({ jsonrpc: "2.0", id: 7, method, params: ["0x01", "0xe1b7df"] });
+    }
+
+    it("should forward the request to the live node", async () => {
+      const response = await subject();
+
+      expect(response.id).to.eq(7);
+      expect(response.result).to.eq("eth_getBalance:0x01");
+      expect(upstreamRequests).to.deep.eq(["eth_getBalance"]);
+    });
+
+    it("should serve repeated requests from the cache", async () => {
+      await subject();
+      const response = await subject();
+
+      expect(response.result).to.eq("eth_getBalance:0x01");
+      expect(upstreamRequests).to.deep.eq(["eth_getBalance"]);
+    });
+
+    it("should save the results on stop", async () => {
+      await subject();
+      await subjectForkCache.stop();
+
+      const cache = readForkCache(cachePath);
+      expect(cache.blockNumber).to.eq(BLOCK_NUMBER);
+      expect(cache.responses[getForkCacheKey("eth_getBalance", ["0x01", "0xe1b7df"])]).to.eq("eth_getBalance:0x01");
+    });
+
+    describe("when the live node returns an error", async () => {
+      it("should pass the error through without caching it", async () => {
+        const response = await subject("eth_fail");
+        await subject("eth_fail");
+
+        expect(response.error!.message).to.eq("Rate limited");
+        expect(upstreamRequests).to.deep.eq(["eth_fail", "eth_fail"]);
+        expect(subjectForkCache.getCachedRequestCount()).to.eq(0);
+      });
+    });
+
+    describe("when a cache of the same block exists", async () => {
+      beforeEach(async () => {
+        writeForkCache(cachePath, { blockNumber: BLOCK_NUMBER, responses: { [getForkCacheKey("eth_chainId")]: "0x1" } });
+        subjectForkCache = new ForkRpcCache("record", cachePath, BLOCK_NUMBER, upstreamUrl);
+      });
+
+      it("should extend the existing cache", async () => {
+        await subject();
+        await subjectForkCache.stop();
+
+        expect(Object.keys(readForkCache(cachePath).responses).length).to.eq(2);
+      });
+    });
+
+    describe("when a cache of another block exists", async () => {
+      beforeEach(async () => {
+        writeForkCache(cachePath, { blockNumber: 1, responses: { [getForkCacheKey("eth_chainId")]: "0x1" } });
+        subjectForkCache = new ForkRpcCache("record", cachePath, BLOCK_NUMBER, upstreamUrl);
+      });
+
+      it("should replace the existing cache", async () => {
+        await subject();
+        await subjectForkCache.stop();
+
+        const cache = readForkCache(cachePath);
+        expect(cache.blockNumber).to.eq(BLOCK_NUMBER);
+        expect(Object.keys(cache.responses)).to.deep.eq([getForkCacheKey("eth_getBalance", ["0x01", "0xe1b7df"])]);
+      });
+    });
+  });
+
+  describe("replay mode", async () => {
+    let subjectBlockNumber: number;
+
+    beforeEach(async () => {
+      writeForkCache(cachePath, {
+        blockNumber: BLOCK_NUMBER,
+        responses: { [getForkCacheKey("eth_getBalance", ["0x01", "0xe1b7df"])]: "0x64" },
+      });
+      subjectBlockNumber = BLOCK_NUMBER;
+    });
+
+    async function subject(method: string = "eth_getBalance"): Promise<JsonRpcResponse> {
+      const forkCache = new ForkRpcCache("replay", cachePath, subjectBlockNumber);
+      return forkCache.handleRequest({ jsonrpc: "2.0", id: 7, method, params: ["0x01", "0xe1b7df"] });
+    }
+
+    it("should serve the cached result without calling the live node", async () => {
+      const response = await subject();
+
+      expect(response.id).to.eq(7);
+      expect(response.result).to.eq("0x64");
+      expect(upstreamRequests).to.be.empty;
+    });
+
+    describe("when the request is not cached", async () => {
+      it("should return an error naming the method", async () => {
+        const response = await subject("eth_getCode");
+
+        expect(response.error!.message).to.contain("eth_getCode is not in the fork cache");
+      });
+    });
+
+    describe("when the cache was recorded at another block", async () => {
+      beforeEach(async () => {
+        subjectBlockNumber = BLOCK_NUMBER + 1;
+      });
+
+      it("should throw", async () => {
+        expect(() => new ForkRpcCache("replay", cachePath, subjectBlockNumber)).to.throw(`was recorded at block ${BLOCK_NUMBER}`);
+      });
+    });
+
+    describe("when there is no cache", async () => {
+      beforeEach(async () => {
+        fs.removeSync(cachePath);
+      });
+
+      it("should throw", async () => {
+        expect(() => new ForkRpcCache("replay", cachePath, subjectBlockNumber)).to.throw("No fork cache at");
+      });
+    });
+  });
+
+  describe("#start", async () => {
+    let forkCache: ForkRpcCache;
+
+    beforeEach(async () => {
+      writeForkCache(cachePath, { blockNumber: BLOCK_NUMBER, responses: { [getForkCacheKey("eth_chainId")]: "0x1" } });
+      forkCache = new ForkRpcCache("replay", cachePath, BLOCK_NUMBER);
+      await forkCache.start(0);
+    });
+
+    afterEach(async () => {
+      await forkCache.stop();
+    });
+
+    it("should answer batched JSON-RPC requests over http", async () => {
+      const responses = await postJson(forkCache.getUrl(), [
+        { jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] },
+        { jsonrpc: "2.0", id: 2, method: "eth_getCode", params: ["0x01", "0xe1b7df"] },
+      ]);
+
+      expect(responses[0].result).to.eq("0x1");
+      expect(responses[1].id).to.eq(2);
+      expect(responses[1].error.message).to.contain("eth_getCode is not in the fork cache");
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import "module-alias/register";
+
+import { compareGasReports, formatGasComparisons } from "@utils/tasks";
+import { getWaffleExpect } from "@utils/test/index";
+import { GasComparison, GasReport } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("gasReportUtils", () => {
+  let baseline: GasReport;
+
+  beforeEach(async () => {
+    baseline = {
+      "issue": 200000,
+      "redeem": 150000,
+      "trade": 100000,
+    };
+  });
+
+  describe("#compareGasReports", async () => {
+    let subjectCurrent: GasReport;
+    let subjectBaseline: GasReport;
+    let subjectThreshold: number;
+
+    beforeEach(async () => {
+      subjectCurrent = {
+        "issue": 200000,
+        "redeem": 150000,
+        "trade": 100000,
+      };
+      subjectBaseline = baseline;
+      subjectThreshold = 0.05;
+    });
+
+    function subject(): GasComparison[] {
+      return compareGasReports(subjectCurrent, subjectBaseline, subjectThreshold);
+    }
+
+    it("should compare every operation sorted by name", async () => {
+      const comparisons = subject();
+
+      expect(comparisons.map(({ operation }) => operation)).to.deep.eq(["issue", "redeem", "trade"]);
+      expect(comparisons[0]).to.deep.eq({
+        operation: "issue",
+        baselineGas: 200000,
+        currentGas: 200000,
+        change: 0,
+        isRegression: false,
+        isMissing: false,
+      });
+    });
+
+    describe("when an operation uses more gas than the threshold allows", async () => {
+      beforeEach(async () => {
+        subjectCurrent.trade = 106000;
+      });
+
+      it("should flag the regression", async () => {
+        const [, , trade] = subject();
+
+        expect(trade.change).to.eq(0.06);
+        expect(trade.isRegression).to.be.true;
+      });
+    });
+
+    describe("when an operation uses more gas within the threshold", async () => {
+      beforeEach(async () => {
+        subjectCurrent.trade = 105000;
+      });
+
+      it("should not flag a regression", async () => {
+        const [, , trade] = subject();
+
+        expect(trade.change).to.eq(0.05);
+        expect(trade.isRegression).to.be.false;
+      });
+    });
+
+    describe("when an operation uses less gas", async () => {
+      beforeEach(async () => {
+        subjectCurrent.trade = 90000;
+      });
+
+      it("should not flag a regression", async () => {
+        const [, , trade] = subject();
+
+        expect(trade.change).to.eq(-0.1);
+        expect(trade.isRegression).to.be.false;
+      });
+    });
+
+    describe("when a baseline operation is missing from the report", async () => {
+      beforeEach(async () => {
+        delete subjectCurrent.redeem;
+      });
+
+      it("should flag the operation as missing", async () => {
+        const [, redeem] = subject();
+
+        expect(redeem).to.deep.eq({
+          operation: "redeem",
+          baselineGas: 150000,
+          currentGas: undefined,
+          change: undefined,
+          isRegression: false,
+          isMissing: true,
+        });
+      });
+    });
+
+    describe("when the report has an operation that is not in the baseline", async () => {
+      beforeEach(async () => {
+        subjectCurrent.lever = 300000;
+      });
+
+      it("should list the operation without flagging it", async () => {
+        const [, lever] = subject();
+
+        expect(lever).to.deep.eq({
+          operation: "lever",
+          baselineGas: undefined,
+          currentGas: 300000,
+          change: undefined,
+          isRegression: false,
+          isMissing: false,
+        });
+      });
+    });
+
+    describe("when the baseline has no operations", async () => {
+      beforeEach(async () => {
+        subjectBaseline = {};
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw("Gas baseline has no operations, generate it with `yarn gas:baseline`");
+      });
+    });
+  });
+
+  describe("#formatGasComparisons", async () => {
+    let subjectComparisons: GasComparison[];
+    let subjectThreshold: number;
+
+    beforeEach(async () => {
+      subjectThreshold = 0.05;
+      subjectComparisons = compareGasReports(
+        { "issue": 200000, "lever": 300000, "trade": 110000 },
+        baseline,
+        subjectThreshold
+      );
+    });
+
+    function subject(): string {
+      return formatGasComparisons(subjectComparisons, subjectThreshold);
+    }
+
+    it("should format every operation and summarize regressions and missing operations", async () => {
+      const output = subject();
+
+      expect(output.split("\n")).to.deep.eq([
+        "  issue   200000 -> 200000 (+0.00%)",
+        "  lever   300000 (new)",
+        "! redeem  150000 (missing)",
+        "! trade   100000 -> 110000 (+10.00%)",
+        "1 operation(s) regressed by more than 5%",
+        "1 baseline operation(s) missing from the report",
+      ]);
+    });
+
+    describe("when no operation regressed or is missing", async () => {
+      beforeEach(async () => {
+        subjectComparisons = compareGasReports({ ...baseline }, baseline, subjectThreshold);
+      });
+
+      it("should only report that nothing regressed", async () => {
+        const output = subject();
+
+        expect(output.split("\n")).to.deep.eq([
+          "  issue   200000 -> 200000 (+0.00%)",
+          "  redeem  150000 -> 150000 (+0.00%)",
+          "  trade   100000 -> 100000 (+0.00%)",
+          "No operation regressed by more than 5%",
+        ]);
+      });
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import "module-alias/register";
+import { BigNumber, ContractTransaction } from "ethers";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { GeneralIndexModule, SetToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  applyIndexRebalancePlan,
+  bitcoin,
+  ether,
+  getIndexRebalanceMarketData,
+  getIndexRebalanceState,
+  getNextIndexRebalanceAction,
+  getSetTokenSnapshot,
+  planIndexRebalance,
+} from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAccounts,
+  getBalancerFixture,
+  getIndexRebalanceSimulator,
+  getKyberV3DMMFixture,
+  getSystemFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { BalancerFixture, KyberV3DMMFixture, SystemFixture, UniswapFixture } from "@utils/fixtures";
+import { IndexRebalanceMarketData, IndexRebalancePlan, IndexRebalancePlanParams } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("GeneralIndexModule rebalance planner", () => {
+  let owner: Account;
+  let trader: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let uniswapSetup: UniswapFixture;
+  let balancerSetup: BalancerFixture;
+  let kyberV3Setup: KyberV3DMMFixture;
+
+  let index: SetToken;
+  let indexModule: GeneralIndexModule;
+  let marketData: IndexRebalanceMarketData;
+
+  const ONE_MINUTE_IN_SECONDS: BigNumber = BigNumber.from(60);
+
+  before(async () => {
+    [
+      owner,
+      trader,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    uniswapSetup = getUniswapFixture(owner.address);
+    balancerSetup = getBalancerFixture(owner.address);
+    kyberV3Setup = getKyberV3DMMFixture(owner.address);
+
+    await setup.initialize();
+    await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    await balancerSetup.initialize(owner, setup.weth, setup.wbtc, setup.dai);
+    await kyberV3Setup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+
+    indexModule = await deployer.modules.deployGeneralIndexModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(indexModule.address);
+
+    const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2IndexExchangeAdapter(uniswapSetup.router.address);
+    const balancerExchangeAdapter = await deployer.adapters.deployBalancerV1IndexExchangeAdapter(balancerSetup.exchange.address);
+    const kyberV3ExchangeAdapter = await deployer.adapters.deployKyberV3IndexExchangeAdapter(
+      kyberV3Setup.dmmRouter.address,
+      kyberV3Setup.dmmFactory.address
+    );
+
+    await setup.integrationRegistry.batchAddIntegration(
+      [indexModule.address, indexModule.address, indexModule.address],
+      ["UNISWAP", "BALANCER", "KYBERV3"],
+      [uniswapExchangeAdapter.address, balancerExchangeAdapter.address, kyberV3ExchangeAdapter.address]
+    );
+
+    await setup.weth.connect(owner.wallet).approve(uniswapSetup.router.address, ether(1000));
+    await uniswapSetup.uni.connect(owner.wallet).approve(uniswapSetup.router.address, ether(200000));
+    await uniswapSetup.router.connect(owner.wallet).addLiquidity(
+      setup.weth.address,
+      uniswapSetup.uni.address,
+      ether(1000),
+      ether(200000),
+      ether(999),
+      ether(199000),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    await setup.weth.connect(owner.wallet).approve(kyberV3Setup.dmmRouter.address, ether(1000));
+    await setup.wbtc.connect(owner.wallet).approve(kyberV3Setup.dmmRouter.address, bitcoin(26));
+    await kyberV3Setup.dmmRouter.connect(owner.wallet).addLiquidity(
+      setup.weth.address,
+      setup.wbtc.address,
+      kyberV3Setup.wethWbtcPool.address,
+      ether(1000),
+      bitcoin(26),
+      ether(999),
+      bitcoin(25.3),
+      [0, MAX_UINT_256],
+      owner.address,
+      MAX_UINT_256
+    );
+
+    // PriceOracle only serves system contracts, so the owner is registered as a module to read prices.
+    // UNI is not priced by the system fixture's oracle, so its price is supplied
+    await setup.controller.addModule(owner.address);
+    marketData = await getIndexRebalanceMarketData(
+      setup.priceOracle,
+      [setup.weth.address, setup.wbtc.address, setup.dai.address],
+      setup.usdc.address
+    );
+    marketData.prices[uniswapSetup.uni.address] = ether(1.15);
+    marketData.decimals[uniswapSetup.uni.address] = 18;
+  });
+
+  cacheBeforeEach(async () => {
+    index = await setup.createSetToken(
+      [uniswapSetup.uni.address, setup.wbtc.address, setup.dai.address],
+      [ether(86.9565217), bitcoin(.01111111), ether(100)],               // $100 of each
+      [setup.issuanceModule.address, indexModule.address],
+    );
+
+    await setup.issuanceModule.initialize(index.address, ADDRESS_ZERO);
+    await indexModule.initialize(index.address);
+    await setup.approveAndIssueSetToken(index, ether(20));
+  });
+
+  async function getPlanParams(): Promise<IndexRebalancePlanParams> {
+    return {
+      snapshot: await getSetTokenSnapshot(index),
+      targetWeights: {
+        [uniswapSetup.uni.address]: ether(.2),
+        [setup.wbtc.address]: ether(.6),
+        [setup.dai.address]: ether(.2),
+      },
+      marketData,
+      weth: setup.weth.address,
+      maxTradeValue: ether(1000),
+      exchanges: {
+        [uniswapSetup.uni.address]: "UNISWAP",
+        [setup.wbtc.address]: "KYBERV3",
+        [setup.dai.address]: "BALANCER",
+      },
+      exchangeData: {
+        [setup.wbtc.address]: kyberV3Setup.wethWbtcPool.address.toLowerCase(),
+      },
+      coolOffPeriod: ONE_MINUTE_IN_SECONDS,
+    };
+  }
+
+  describe("#planIndexRebalance", async () => {
+    let subjectParams: IndexRebalancePlanParams;
+
+    beforeEach(async () => {
+      subjectParams = await getPlanParams();
+    });
+
+    function subject(): IndexRebalancePlan {
+      return planIndexRebalance(subjectParams);
+    }
+
+    it("should value the Set at market prices", async () => {
+      const plan = subject();
+
+      // $100 of each component, less the dust in the UNI and WBTC units
+      expect(plan.valuePerSet).to.be.gt(ether(299.99));
+      expect(plan.valuePerSet).to.be.lte(ether(300));
+    });
+
+    it("should return startRebalance arguments allocating value by weight", async () => {
+      const plan = subject();
+
+      expect(plan.startRebalance.newComponents).to.be.empty;
+      expect(plan.startRebalance.newComponentsTargetUnits).to.be.empty;
+      expect(plan.startRebalance.positionMultiplier).to.eq(await index.positionMultiplier());
+
+      const [uniTarget, wbtcTarget, daiTarget] = plan.startRebalance.oldComponentsTargetUnits;
+      expect(uniTarget).to.eq(plan.valuePerSet.mul(ether(.2)).div(ether(1.15)));
+      expect(wbtcTarget).to.eq(plan.valuePerSet.mul(ether(.6)).div(ether(1)).mul(bitcoin(1)).div(ether(9000)));
+      expect(daiTarget).to.eq(plan.valuePerSet.mul(ether(.2)).div(ether(1)));
+    });
+
+    it("should return trade maximums worth the max trade value", async () => {
+      const plan = subject();
+
+      expect(plan.setTradeMaximums.components).to.deep.eq([uniswapSetup.uni.address, setup.wbtc.address, setup.dai.address]);
+      expect(plan.setTradeMaximums.tradeMaximums[0]).to.eq(ether(1000).mul(ether(1)).div(ether(1.15)));
+      expect(plan.setTradeMaximums.tradeMaximums[1]).to.eq(bitcoin(1000).div(9000));
+      expect(plan.setTradeMaximums.tradeMaximums[2]).to.eq(ether(1000));
+    });
+
+    it("should return the exchange settings of traded components", async () => {
+      const plan = subject();
+
+      expect(plan.setExchanges.exchangeNames).to.deep.eq(["UNISWAP", "KYBERV3", "BALANCER"]);
+      expect(plan.setExchangeData.components).to.deep.eq([setup.wbtc.address]);
+      expect(plan.setCoolOffPeriods.coolOffPeriods).to.deep.eq([ONE_MINUTE_IN_SECONDS, ONE_MINUTE_IN_SECONDS, ONE_MINUTE_IN_SECONDS]);
+    });
+
+    it("should estimate the number of trades per component", async () => {
+      const plan = subject();
+
+      // Sell ~$800 of UNI and DAI each, buy ~$1600 of WBTC in $1000 tranches
+      expect(plan.components.map(component => component.expectedTrades)).to.deep.eq([1, 2, 1]);
+      expect(plan.components.map(component => component.isSell)).to.deep.eq([true, false, true]);
+    });
+
+    describe("when a component is dropped and a new one is added", async () => {
+      beforeEach(async () => {
+        subjectParams.targetWeights = {
+          [setup.wbtc.address]: ether(.5),
+          [setup.dai.address]: ether(.3),
+          [setup.weth.address]: ether(.2),
+        };
+      });
+
+      it("should target 0 units of the dropped component and append the new one", async () => {
+        const plan = subject();
+
+        expect(plan.startRebalance.oldComponentsTargetUnits[0]).to.eq(ZERO);
+        expect(plan.startRebalance.newComponents).to.deep.eq([setup.weth.address]);
+        expect(plan.startRebalance.newComponentsTargetUnits[0]).to.eq(plan.valuePerSet.mul(ether(.2)).div(ether(230)));
+      });
+
+      it("should leave WETH out of the execution parameters", async () => {
+        const plan = subject();
+
+        expect(plan.setTradeMaximums.components).to.not.include(setup.weth.address);
+        expect(plan.setExchanges.components).to.not.include(setup.weth.address);
+      });
+    });
+
+    describe("when the weights do not sum to 1", async () => {
+      beforeEach(async () => {
+        subjectParams.targetWeights[setup.dai.address] = ether(.3);
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw(`Target weights must sum to ${ether(1).toString()}, got ${ether(1.1).toString()}`);
+      });
+    });
+
+    describe("when a traded component has no exchange", async () => {
+      beforeEach(async () => {
+        delete subjectParams.exchanges[setup.dai.address];
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw(`No exchange specified for ${setup.dai.address}`);
+      });
+    });
+  });
+
+  describe("#applyIndexRebalancePlan", async () => {
+    let subjectPlan: IndexRebalancePlan;
+
+    beforeEach(async () => {
+      subjectPlan = planIndexRebalance(await getPlanParams());
+    });
+
+    async function subject(): Promise<ContractTransaction[]> {
+      return applyIndexRebalancePlan(indexModule, subjectPlan);
+    }
+
+    it("should set the execution parameters and start the rebalance", async () => {
+      await subject();
+
+      const wbtcInfo = await indexModule.executionInfo(index.address, setup.wbtc.address);
+      expect(wbtcInfo.maxSize).to.eq(subjectPlan.setTradeMaximums.tradeMaximums[1]);
+      expect(wbtcInfo.exchangeName).to.eq("KYBERV3");
+      expect(wbtcInfo.coolOffPeriod).to.eq(ONE_MINUTE_IN_SECONDS);
+      expect(wbtcInfo.targetUnit).to.eq(subjectPlan.startRebalance.oldComponentsTargetUnits[1]);
+    });
+
+    describe("when no component is traded", async () => {
+      beforeEach(async () => {
+        subjectPlan.setTradeMaximums = { components: [], tradeMaximums: [] };
+        subjectPlan.setExchanges = { components: [], exchangeNames: [] };
+        subjectPlan.setExchangeData = { components: [], exchangeData: [] };
+        subjectPlan.setCoolOffPeriods = { components: [], coolOffPeriods: [] };
+      });
+
+      it("should only start the rebalance", async () => {
+        const transactions = await subject();
+
+        const wbtcInfo = await indexModule.executionInfo(index.address, setup.wbtc.address);
+        expect(transactions.length).to.eq(1);
+        expect(wbtcInfo.targetUnit).to.eq(subjectPlan.startRebalance.oldComponentsTargetUnits[1]);
+      });
+    });
+  });
+
+  describe("#getNextIndexRebalanceAction", async () => {
+    beforeEach(async () => {
+      await applyIndexRebalancePlan(indexModule, planIndexRebalance(await getPlanParams()));
+      await indexModule.setTraderStatus(index.address, [trader.address], [true]);
+    });
+
+    it("should sell before buying", async () => {
+      const state = await getIndexRebalanceState(indexModule, index);
+
+      const action = getNextIndexRebalanceAction(state);
+
+      expect(action.method).to.eq("trade");
+      expect(action.component).to.eq(uniswapSetup.uni.address);
+      expect(action.isSell).to.be.true;
+    });
+
+    describe("when the sold components are cooling off", async () => {
+      beforeEach(async () => {
+        await indexModule.connect(trader.wallet).trade(index.address, uniswapSetup.uni.address, ZERO);
+        await indexModule.connect(trader.wallet).trade(index.address, setup.dai.address, ZERO);
+      });
+
+      it("should buy the remaining component", async () => {
+        const state = await getIndexRebalanceState(indexModule, index);
+
+        const action = getNextIndexRebalanceAction(state);
+
+        expect(action.method).to.eq("trade");
+        expect(action.component).to.eq(setup.wbtc.address);
+        expect(action.isSell).to.be.false;
+      });
+
+      describe("and the bought component is cooling off", async () => {
+        beforeEach(async () => {
+          await indexModule.connect(trader.wallet).trade(index.address, setup.wbtc.address, MAX_UINT_256);
+        });
+
+        it("should wait for the cool off period", async () => {
+          const state = await getIndexRebalanceState(indexModule, index);
+          const wbtcState = state.components.find(component => component.component === setup.wbtc.address)!;
+
+          const action = getNextIndexRebalanceAction(state);
+
+          expect(action.method).to.eq("wait");
+          expect(action.readyTimestamp).to.eq(wbtcState.lastTradeTimestamp.add(ONE_MINUTE_IN_SECONDS).toNumber());
+        });
+      });
+    });
+  });
+
+  describe("IndexRebalanceSimulator#simulate", async () => {
+    let subjectPlan: IndexRebalancePlan;
+
+    beforeEach(async () => {
+      subjectPlan = planIndexRebalance(await getPlanParams());
+    });
+
+    async function subject(): Promise<any> {
+      return getIndexRebalanceSimulator().simulate(indexModule.connect(trader.wallet), index, {
+        plan: subjectPlan,
+        manager: owner.wallet,
+        marketData,
+      });
+    }
+
+    it("should execute every sell before the first buy", async () => {
+      const simulation = await subject();
+
+      const isSell = simulation.fills.map((fill: any) => fill.receiveToken === setup.weth.address);
+      expect(isSell.indexOf(false)).to.be.gt(isSell.lastIndexOf(true));
+    });
+
+    it("should meet the targets of the sold components", async () => {
+      const simulation = await subject();
+
+      const uni = uniswapSetup.uni.address;
+      const dai = setup.dai.address;
+      expect(simulation.finalUnits[uni]).to.be.closeTo(simulation.targetUnits[uni], 1);
+      expect(simulation.finalUnits[dai]).to.be.closeTo(simulation.targetUnits[dai], 1);
+    });
+
+    it("should route each component through its exchange and report slippage", async () => {
+      const simulation = await subject();
+
+      const daiFill = simulation.fills.find((fill: any) => fill.component === setup.dai.address);
+      const wbtcFill = simulation.fills.find((fill: any) => fill.component === setup.wbtc.address);
+      expect(daiFill.exchangeName).to.eq("BALANCER");
+      expect(wbtcFill.exchangeName).to.eq("KYBERV3");
+      expect(daiFill.slippage).to.be.gt(ZERO);
+    });
+
+    it("should take at least the planned number of trades", async () => {
+      const simulation = await subject();
+
+      const plannedTrades = subjectPlan.components.reduce((total, component) => total + component.expectedTrades, 0);
+      expect(simulation.trades).to.be.gte(plannedTrades);
+    });
+
+    it("should leave the chain untouched", async () => {
+      const previousSnapshot = await getSetTokenSnapshot(index);
+
+      await subject();
+
+      const currentSnapshot = await getSetTokenSnapshot(index);
+      expect(JSON.stringify(currentSnapshot.positions)).to.eq(JSON.stringify(previousSnapshot.positions));
+      expect(await indexModule.getRebalanceComponents(index.address)).to.be.empty;
+    });
+
+    describe("when no manager is passed with a plan", async () => {
+      it("should throw", async () => {
+        const error = await getIndexRebalanceSimulator().simulate(indexModule, index, { plan: subjectPlan }).catch(e => e);
+
+        expect(error.message).to.eq("A manager is required to apply a rebalance plan");
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import "module-alias/register";
+
+import { Account } from "@utils/test/types";
+import { GeneralIndexModule, SetToken } from "@utils/contracts";
+import { ether, getIndexRebalanceState, isIndexTargetUnmet } from "@utils/index";
+import { IndexRebalanceKeeper } from "@utils/common";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getIndexRebalanceFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { IndexRebalanceFixture } from "@utils/fixtures";
+import { IndexRebalanceKeeperOptions, IndexRebalanceKeeperResult, IndexRebalanceKeeperStep } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("IndexRebalanceKeeper", () => {
+  let owner: Account;
+  let trader: Account;
+  let fixture: IndexRebalanceFixture;
+
+  let index: SetToken;
+  let indexModule: GeneralIndexModule;
+
+  before(async () => {
+    [
+      owner,
+      trader,
+    ] = await getAccounts();
+
+    fixture = getIndexRebalanceFixture(owner.address);
+    await fixture.initialize(owner, trader.address);
+
+    index = fixture.index;
+    indexModule = fixture.indexModule.connect(trader.wallet);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#constructor", async () => {
+    let subjectOptions: IndexRebalanceKeeperOptions;
+
+    beforeEach(async () => {
+      subjectOptions = { maxSlippage: ether(.05) };
+    });
+
+    function subject(): IndexRebalanceKeeper {
+      return new IndexRebalanceKeeper(indexModule, index, subjectOptions);
+    }
+
+    it("should revert when a max slippage is set without market data", async () => {
+      expect(() => subject()).to.throw("Market data is required to enforce a max slippage");
+    });
+  });
+
+  describe("#step", async () => {
+    let messages: string[];
+
+    beforeEach(async () => {
+      messages = [];
+    });
+
+    async function subject(): Promise<IndexRebalanceKeeperStep> {
+      const keeper = new IndexRebalanceKeeper(indexModule, index, {
+        marketData: fixture.marketData,
+        advanceTime: true,
+        logger: (message: string) => messages.push(message),
+      });
+      return keeper.step();
+    }
+
+    it("should sell a component above target first", async () => {
+      const { action, fill } = await subject();
+
+      expect(action.method).to.eq("trade");
+      expect(action.isSell).to.be.true;
+      expect(fill!.receiveToken).to.eq(fixture.system.weth.address);
+    });
+
+    it("should log the fill", async () => {
+      const { fill } = await subject();
+
+      expect(messages.length).to.eq(1);
+      expect(messages[0]).to.contain(`trade via ${fill!.exchangeName}`);
+      expect(messages[0]).to.contain(fill!.transactionHash);
+    });
+  });
+
+  describe("#run", async () => {
+    let subjectOptions: IndexRebalanceKeeperOptions;
+    let messages: string[];
+
+    beforeEach(async () => {
+      messages = [];
+      subjectOptions = {
+        marketData: fixture.marketData,
+        maxSlippage: ether(.05),
+        advanceTime: true,
+        logger: (message: string) => messages.push(message),
+      };
+    });
+
+    async function subject(): Promise<IndexRebalanceKeeperResult> {
+      return new IndexRebalanceKeeper(indexModule, index, subjectOptions).run();
+    }
+
+    it("should execute all sells before any buy", async () => {
+      const { fills } = await subject();
+
+      const weth = fixture.system.weth.address;
+      const firstBuy = fills.findIndex(fill => fill.sendToken === weth);
+      const lastSell = fills.map(fill => fill.receiveToken === weth).lastIndexOf(true);
+
+      expect(firstBuy).to.be.gt(0);
+      expect(lastSell).to.be.lt(firstBuy);
+    });
+
+    it("should meet the targets of the sold components", async () => {
+      await subject();
+
+      const state = await getIndexRebalanceState(indexModule, index);
+      const sold = [fixture.uniswap.uni.address, fixture.system.dai.address];
+      const unmet = state.components.filter(component =>
+        sold.includes(component.component) && isIndexTargetUnmet(state, component)
+      );
+
+      expect(unmet).to.be.empty;
+    });
+
+    it("should spend the WETH raised on the bought component", async () => {
+      await subject();
+
+      const state = await getIndexRebalanceState(indexModule, index);
+
+      expect(state.wethUnit).to.be.lte(state.wethTargetUnit);
+    });
+
+    it("should respect the cool off period between trades of a component", async () => {
+      const { fills } = await subject();
+
+      const wbtcFills = fills.filter(fill => fill.component === fixture.system.wbtc.address);
+      expect(wbtcFills.length).to.be.gt(1);
+      for (let i = 1; i < wbtcFills.length; i++) {
+        expect(wbtcFills[i].timestamp - wbtcFills[i - 1].timestamp).to.be.gte(fixture.coolOffPeriod.toNumber());
+      }
+    });
+
+    it("should keep fills within the max slippage", async () => {
+      const { fills } = await subject();
+
+      fills.forEach(fill => expect(fill.slippage).to.be.lte(ether(.05)));
+    });
+
+    it("should log every fill", async () => {
+      const { fills } = await subject();
+
+      const fillMessages = messages.filter(message => message.startsWith("trade"));
+      expect(fillMessages.length).to.eq(fills.length);
+    });
+
+    describe("when the max steps are reached", async () => {
+      beforeEach(async () => {
+        subjectOptions.maxSteps = 2;
+      });
+
+      it("should stop early", async () => {
+        const { steps } = await subject();
+
+        expect(steps).to.eq(2);
+      });
+    });
+  });
+});
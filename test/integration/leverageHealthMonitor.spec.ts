@@ -0,0 +1,671 @@
+import "module-alias/register";
+import Web3 from "web3";
+import { BigNumber } from "ethers";
+
+import { Address, Bytes, LeveragePositionState } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, EMPTY_BYTES, MAX_UINT_256, ZERO } from "@utils/constants";
+import {
+  AaveLeverageModule,
+  CompoundLeverageModule,
+  DebtIssuanceMock,
+  OneInchExchangeMock,
+  SetToken,
+} from "@utils/contracts";
+import { CEther } from "@utils/contracts/compound";
+import DeployHelper from "@utils/deploys";
+import { LeverageHealthMonitor } from "@utils/common";
+import { ether } from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAaveV2Fixture,
+  getAccounts,
+  getCompoundFixture,
+  getRandomAccount,
+  getRandomAddress,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { AaveV2Fixture, CompoundFixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+const web3 = new Web3();
+
+describe("LeverageHealthMonitor", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let oneInchFunctionSignature: Bytes;
+
+  cacheBeforeEach(async () => {
+    [owner] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    oneInchFunctionSignature = web3.eth.abi.encodeFunctionSignature(
+      "swap(address,address,uint256,uint256,uint256,address,address[],bytes,uint256[],uint256[])"
+    );
+  });
+
+  // Deploys a 1inch mock trading fixed quantities and registers its adapter on the leverage module
+  async function addOneInchExchange(
+    module: Address,
+    adapterName: string,
+    sendToken: Address,
+    receiveToken: Address,
+    sendQuantity: BigNumber,
+    receiveQuantity: BigNumber
+  ): Promise<OneInchExchangeMock> {
+    const oneInchExchangeMock = await deployer.mocks.deployOneInchExchangeMock(sendToken, receiveToken, sendQuantity, receiveQuantity);
+    const oneInchExchangeAdapter = await deployer.adapters.deployOneInchExchangeAdapter(
+      oneInchExchangeMock.address,
+      oneInchExchangeMock.address,
+      oneInchFunctionSignature
+    );
+    await setup.integrationRegistry.addIntegration(module, adapterName, oneInchExchangeAdapter.address);
+
+    return oneInchExchangeMock;
+  }
+
+  function getOneInchTradeData(
+    oneInchExchangeMock: OneInchExchangeMock,
+    sendToken: Address,
+    receiveToken: Address,
+    sendQuantity: BigNumber,
+    minReceiveQuantity: BigNumber
+  ): Bytes {
+    return oneInchExchangeMock.interface.encodeFunctionData("swap", [
+      sendToken,
+      receiveToken,
+      sendQuantity,
+      minReceiveQuantity,
+      ZERO,
+      ADDRESS_ZERO,
+      [ADDRESS_ZERO],
+      EMPTY_BYTES,
+      [ZERO],
+      [ZERO],
+    ]);
+  }
+
+  describe("#getHealth", async () => {
+    let collateralAsset: Address;
+    let borrowAsset: Address;
+    let subjectState: LeveragePositionState;
+
+    beforeEach(async () => {
+      collateralAsset = await getRandomAddress();
+      borrowAsset = await getRandomAddress();
+
+      // 3 WETH at 1 ETH against 1000 DAI at 0.001 ETH, with an 82.5% liquidation threshold
+      subjectState = {
+        setToken: await getRandomAddress(),
+        totalSupply: ether(1),
+        collateralPositions: [{
+          asset: collateralAsset,
+          notional: ether(3),
+          decimals: 18,
+          price: ether(1),
+          liquidationThreshold: ether(0.825),
+        }],
+        borrowPositions: [{
+          asset: borrowAsset,
+          notional: ether(1000),
+          decimals: 18,
+          price: ether(0.001),
+        }],
+      };
+    });
+
+    function subject() {
+      return new LeverageHealthMonitor(subjectState).getHealth();
+    }
+
+    it("should return the collateral and borrow values", async () => {
+      const health = subject();
+
+      expect(health.collateralValue).to.eq(ether(3));
+      expect(health.borrowValue).to.eq(ether(1));
+    });
+
+    it("should return the leverage ratio and health factor", async () => {
+      const health = subject();
+
+      expect(health.leverageRatio).to.eq(ether(1.5));
+      expect(health.healthFactor).to.eq(ether(2.475));
+    });
+
+    it("should return the collateral price in borrow units at which the position is liquidated", async () => {
+      const health = subject();
+
+      // 1000 DAI / (3 WETH * 0.825) = 404.04 DAI per WETH, against a current price of 1000
+      expect(health.liquidationPrice!.sub(ether(404.040404)).abs()).to.be.lte(ether(0.000001));
+      expect(health.liquidationDistance!.sub(ether(0.595959)).abs()).to.be.lte(ether(0.000001));
+    });
+
+    describe("when the collateral uses fewer decimals than the borrow asset", async () => {
+      beforeEach(async () => {
+        subjectState.collateralPositions[0].notional = BigNumber.from(3).mul(10 ** 8);
+        subjectState.collateralPositions[0].decimals = 8;
+      });
+
+      it("should return the same health", async () => {
+        const health = subject();
+
+        expect(health.collateralValue).to.eq(ether(3));
+        expect(health.healthFactor).to.eq(ether(2.475));
+        expect(health.liquidationPrice!.sub(ether(404.040404)).abs()).to.be.lte(ether(0.000001));
+      });
+    });
+
+    describe("when there are no borrows", async () => {
+      beforeEach(async () => {
+        subjectState.borrowPositions = [];
+      });
+
+      it("should return a leverage ratio of 1 and an infinite health factor", async () => {
+        const health = subject();
+
+        expect(health.leverageRatio).to.eq(ether(1));
+        expect(health.healthFactor).to.eq(MAX_UINT_256);
+        expect(health.liquidationPrice).to.be.undefined;
+        expect(health.liquidationDistance).to.be.undefined;
+      });
+    });
+
+    describe("when the borrow value exceeds the collateral value", async () => {
+      beforeEach(async () => {
+        subjectState.borrowPositions[0].notional = ether(4000);
+      });
+
+      it("should return an infinite leverage ratio and no liquidation distance", async () => {
+        const health = subject();
+
+        expect(health.leverageRatio).to.eq(MAX_UINT_256);
+        expect(health.healthFactor).to.be.lt(ether(1));
+        expect(health.liquidationDistance).to.eq(ZERO);
+      });
+    });
+
+    describe("when the collateral is not enabled as collateral", async () => {
+      beforeEach(async () => {
+        subjectState.collateralPositions[0].liquidationThreshold = ZERO;
+      });
+
+      it("should return a health factor of 0 and no liquidation price", async () => {
+        const health = subject();
+
+        expect(health.healthFactor).to.eq(ZERO);
+        expect(health.liquidationPrice).to.be.undefined;
+      });
+    });
+  });
+
+  describe("#getReport", async () => {
+    let subjectState: LeveragePositionState;
+    let subjectMinHealthFactor: BigNumber | undefined;
+    let subjectMaxLeverageRatio: BigNumber | undefined;
+
+    beforeEach(async () => {
+      // 3 WETH at 1 ETH against 1500 DAI at 0.001 ETH: leverage ratio 2 and health factor 1.65
+      subjectState = {
+        setToken: await getRandomAddress(),
+        totalSupply: ether(2),
+        collateralPositions: [{
+          asset: await getRandomAddress(),
+          notional: ether(3),
+          decimals: 18,
+          price: ether(1),
+          liquidationThreshold: ether(0.825),
+        }],
+        borrowPositions: [{
+          asset: await getRandomAddress(),
+          notional: ether(1500),
+          decimals: 18,
+          price: ether(0.001),
+        }],
+      };
+      subjectMinHealthFactor = ether(1.7);
+      subjectMaxLeverageRatio = ether(1.8);
+    });
+
+    function subject() {
+      return new LeverageHealthMonitor(subjectState).getReport({
+        minHealthFactor: subjectMinHealthFactor,
+        maxLeverageRatio: subjectMaxLeverageRatio,
+        targetLeverageRatio: ether(1.5),
+        slippageTolerance: ether(0.01),
+      });
+    }
+
+    it("should alert on the health factor and the leverage ratio", async () => {
+      const { alerts } = subject();
+
+      expect(alerts.map(alert => alert.type)).to.deep.eq(["healthFactor", "leverageRatio"]);
+      expect(alerts[0].value).to.eq(ether(1.65));
+      expect(alerts[0].message).to.eq("Health factor 1.65 is below 1.7");
+      expect(alerts[1].message).to.eq("Leverage ratio 2.0 is above 1.8");
+    });
+
+    it("should suggest per Set delever parameters that reach the target leverage ratio", async () => {
+      const { delever } = subject();
+
+      // Repaying 0.75 ETH of debt takes the position to 2.25 ETH of collateral against 0.75 ETH of debt
+      expect(delever!.setToken).to.eq(subjectState.setToken);
+      expect(delever!.collateralAsset).to.eq(subjectState.collateralPositions[0].asset);
+      expect(delever!.repayAsset).to.eq(subjectState.borrowPositions[0].asset);
+      expect(delever!.redeemQuantityUnits).to.eq(ether(0.375));
+      expect(delever!.minRepayQuantityUnits).to.eq(ether(371.25));
+      expect(delever!.expectedLeverageRatio).to.eq(ether(1.5));
+    });
+
+    describe("when the thresholds are not crossed", async () => {
+      beforeEach(async () => {
+        subjectMinHealthFactor = ether(1.5);
+        subjectMaxLeverageRatio = ether(2);
+      });
+
+      it("should not alert or suggest a delever", async () => {
+        const { alerts, delever } = subject();
+
+        expect(alerts).to.be.empty;
+        expect(delever).to.be.undefined;
+      });
+    });
+
+    describe("when only the health factor is monitored", async () => {
+      beforeEach(async () => {
+        subjectMaxLeverageRatio = undefined;
+      });
+
+      it("should only alert on the health factor", async () => {
+        const { alerts } = subject();
+
+        expect(alerts.map(alert => alert.type)).to.deep.eq(["healthFactor"]);
+      });
+    });
+  });
+
+  describe("#getDeleverParams", async () => {
+    let subjectState: LeveragePositionState;
+    let subjectTargetLeverageRatio: BigNumber;
+
+    beforeEach(async () => {
+      subjectState = {
+        setToken: await getRandomAddress(),
+        totalSupply: ether(2),
+        collateralPositions: [{
+          asset: await getRandomAddress(),
+          notional: ether(3),
+          decimals: 18,
+          price: ether(1),
+          liquidationThreshold: ether(0.825),
+        }],
+        borrowPositions: [{
+          asset: await getRandomAddress(),
+          notional: ether(1000),
+          decimals: 18,
+          price: ether(0.001),
+        }],
+      };
+      subjectTargetLeverageRatio = ether(1.5);
+    });
+
+    function subject() {
+      return new LeverageHealthMonitor(subjectState).getDeleverParams(subjectTargetLeverageRatio, ether(0.01));
+    }
+
+    describe("when the leverage ratio is already at the target", async () => {
+      it("should return undefined", async () => {
+        expect(subject()).to.be.undefined;
+      });
+    });
+
+    describe("when the target needs more debt repaid than the largest borrow", async () => {
+      beforeEach(async () => {
+        // 4.7 WETH against 2.7 ETH of debt spread over three borrows, the largest worth 1 ETH
+        subjectState.collateralPositions[0].notional = ether(4.7);
+        for (const notional of [ether(900), ether(800)]) {
+          subjectState.borrowPositions.push({ asset: await getRandomAddress(), notional, decimals: 18, price: ether(0.001) });
+        }
+      });
+
+      it("should cap the repay at the largest borrow position", async () => {
+        const delever = subject();
+
+        expect(delever!.repayAsset).to.eq(subjectState.borrowPositions[0].asset);
+        expect(delever!.minRepayQuantityUnits).to.eq(ether(495));
+        expect(delever!.expectedLeverageRatio).to.eq(ether(1.85));
+      });
+    });
+
+    describe("when withdrawing the collateral for the target would make the position liquidatable", async () => {
+      beforeEach(async () => {
+        // Health factor 1.2375, so only 0.475 ETH of threshold-weighted collateral can be withdrawn
+        subjectState.borrowPositions[0].notional = ether(2000);
+      });
+
+      it("should cap the redeem at a health factor of 1", async () => {
+        const delever = subject();
+
+        // 0.475 / 0.825 = 0.5757 WETH, split over a supply of 2
+        expect(delever!.redeemQuantityUnits.sub(ether(0.287878)).abs()).to.be.lte(ether(0.000001));
+        expect(delever!.expectedLeverageRatio.sub(ether(2.424242)).abs()).to.be.lte(ether(0.000001));
+      });
+    });
+
+    describe("when the position is liquidatable", async () => {
+      beforeEach(async () => {
+        subjectState.borrowPositions[0].notional = ether(2500);
+      });
+
+      it("should return undefined", async () => {
+        expect(subject()).to.be.undefined;
+      });
+    });
+
+    describe("when the SetToken has no supply", async () => {
+      beforeEach(async () => {
+        subjectState.totalSupply = ZERO;
+        subjectTargetLeverageRatio = ether(1.2);
+      });
+
+      it("should return undefined", async () => {
+        expect(subject()).to.be.undefined;
+      });
+    });
+  });
+
+  describe("#fromAaveLeverageModule", async () => {
+    let aaveSetup: AaveV2Fixture;
+    let aaveLeverageModule: AaveLeverageModule;
+    let debtIssuanceMock: DebtIssuanceMock;
+    let oneInchExchangeMockFromWeth: OneInchExchangeMock;
+    let setToken: SetToken;
+
+    cacheBeforeEach(async () => {
+      aaveSetup = getAaveV2Fixture(owner.address);
+      await aaveSetup.initialize(setup.weth.address, setup.dai.address);
+
+      const ape = await getRandomAccount();
+      await setup.dai.transfer(ape.address, ether(50000));
+      await setup.dai.connect(ape.wallet).approve(aaveSetup.lendingPool.address, ether(50000));
+      await aaveSetup.lendingPool.connect(ape.wallet).deposit(setup.dai.address, ether(50000), ape.address, ZERO);
+
+      debtIssuanceMock = await deployer.mocks.deployDebtIssuanceMock();
+      await setup.controller.addModule(debtIssuanceMock.address);
+
+      const aaveV2Library = await deployer.libraries.deployAaveV2();
+      aaveLeverageModule = await deployer.modules.deployAaveLeverageModule(
+        setup.controller.address,
+        aaveSetup.lendingPoolAddressesProvider.address,
+        "contracts/protocol/integration/lib/AaveV2.sol:AaveV2",
+        aaveV2Library.address,
+      );
+      await setup.controller.addModule(aaveLeverageModule.address);
+
+      const oneInchExchangeMockToWeth = await addOneInchExchange(
+        aaveLeverageModule.address,
+        "ONEINCHTOWETH",
+        setup.dai.address,
+        setup.weth.address,
+        ether(1000),
+        ether(1)
+      );
+      oneInchExchangeMockFromWeth = await addOneInchExchange(
+        aaveLeverageModule.address,
+        "ONEINCHFROMWETH",
+        setup.weth.address,
+        setup.dai.address,
+        ether(0.75),
+        ether(500)
+      );
+
+      // Add debt issuance address to integration
+      await setup.integrationRegistry.addIntegration(aaveLeverageModule.address, "DefaultIssuanceModule", debtIssuanceMock.address);
+
+      const aWETH = aaveSetup.wethReserveTokens.aToken;
+      setToken = await setup.createSetToken(
+        [aWETH.address],
+        [ether(2)],
+        [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(setToken.address);
+      await aaveLeverageModule.updateAllowedSetToken(setToken.address, true);
+      await aaveLeverageModule.initialize(
+        setToken.address,
+        [setup.weth.address, setup.dai.address],
+        [setup.dai.address, setup.weth.address]
+      );
+      await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+
+      await oneInchExchangeMockToWeth.addSetTokenAddress(setToken.address);
+      await setup.weth.transfer(oneInchExchangeMockToWeth.address, ether(10));
+      await oneInchExchangeMockFromWeth.addSetTokenAddress(setToken.address);
+      await setup.dai.transfer(oneInchExchangeMockFromWeth.address, ether(10000));
+
+      await setup.weth.approve(aaveSetup.lendingPool.address, ether(10));
+      await aaveSetup.lendingPool.deposit(setup.weth.address, ether(10), owner.address, ZERO);
+      await aWETH.approve(setup.issuanceModule.address, ether(10));
+      await setup.issuanceModule.issue(setToken.address, ether(1), owner.address);
+
+      // Lever 1000 DAI into 1 WETH, for 3 WETH of collateral against 1 ETH of debt
+      await aaveLeverageModule.lever(
+        setToken.address,
+        setup.dai.address,
+        setup.weth.address,
+        ether(1000),
+        ether(1),
+        "ONEINCHTOWETH",
+        getOneInchTradeData(oneInchExchangeMockToWeth, setup.dai.address, setup.weth.address, ether(1000), ether(1))
+      );
+    });
+
+    async function subject(): Promise<LeverageHealthMonitor> {
+      return LeverageHealthMonitor.fromAaveLeverageModule(
+        aaveLeverageModule,
+        setToken,
+        aaveSetup.protocolDataProvider,
+        aaveSetup.priceOracle
+      );
+    }
+
+    it("should read the collateral and borrow positions", async () => {
+      const { state } = await subject();
+
+      const weth = state.collateralPositions.find(({ asset }) => asset === setup.weth.address)!;
+      expect(state.totalSupply).to.eq(ether(1));
+      expect(weth.notional).to.eq(ether(3));
+      expect(weth.price).to.eq(ether(1));
+      expect(weth.liquidationThreshold).to.eq(ether(0.825));
+      expect(state.borrowPositions.find(({ asset }) => asset === setup.dai.address)!.notional).to.be.gte(ether(1000));
+    });
+
+    it("should match the health factor reported by Aave", async () => {
+      const monitor = await subject();
+
+      const accountData = await aaveSetup.lendingPool.getUserAccountData(setToken.address);
+      expect(monitor.getHealth().healthFactor.sub(accountData.healthFactor).abs()).to.be.lte(ether(0.000001));
+      expect(monitor.getHealth().leverageRatio.sub(ether(1.5)).abs()).to.be.lte(ether(0.0001));
+    });
+
+    describe("when the borrowed asset rises 50% in price", async () => {
+      let subjectMonitor: LeverageHealthMonitor;
+
+      beforeEach(async () => {
+        await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.0015));
+        subjectMonitor = await subject();
+      });
+
+      function getReport() {
+        return subjectMonitor.getReport({
+          minHealthFactor: ether(1.7),
+          maxLeverageRatio: ether(1.8),
+          targetLeverageRatio: ether(1.5),
+          slippageTolerance: ether(0.01),
+        });
+      }
+
+      it("should alert on the health factor and the leverage ratio", async () => {
+        const { health, alerts } = getReport();
+
+        expect(health.healthFactor.sub(ether(1.65)).abs()).to.be.lte(ether(0.0001));
+        expect(alerts.map(alert => alert.type)).to.deep.eq(["healthFactor", "leverageRatio"]);
+      });
+
+      it("should suggest delever parameters that bring the leverage ratio to the target when executed", async () => {
+        const { delever } = getReport();
+
+        expect(delever!.redeemQuantityUnits.sub(ether(0.75)).abs()).to.be.lte(ether(0.0001));
+        expect(delever!.minRepayQuantityUnits.sub(ether(495)).abs()).to.be.lte(ether(0.1));
+
+        await aaveLeverageModule.delever(
+          delever!.setToken,
+          delever!.collateralAsset,
+          delever!.repayAsset,
+          delever!.redeemQuantityUnits,
+          delever!.minRepayQuantityUnits,
+          "ONEINCHFROMWETH",
+          getOneInchTradeData(
+            oneInchExchangeMockFromWeth,
+            setup.weth.address,
+            setup.dai.address,
+            delever!.redeemQuantityUnits,
+            delever!.minRepayQuantityUnits
+          )
+        );
+
+        const { leverageRatio } = (await subject()).getHealth();
+        expect(leverageRatio.sub(delever!.expectedLeverageRatio).abs()).to.be.lte(ether(0.001));
+      });
+    });
+  });
+
+  describe("#fromCompoundLeverageModule", async () => {
+    let compoundSetup: CompoundFixture;
+    let compoundLeverageModule: CompoundLeverageModule;
+    let cEther: CEther;
+    let setToken: SetToken;
+
+    cacheBeforeEach(async () => {
+      compoundSetup = getCompoundFixture(owner.address);
+      await compoundSetup.initialize();
+
+      cEther = await compoundSetup.createAndEnableCEther(
+        ether(200000000),
+        compoundSetup.comptroller.address,
+        compoundSetup.interestRateModel.address,
+        "Compound ether",
+        "cETH",
+        8,
+        ether(0.75), // 75% collateral factor
+        ether(590)
+      );
+      const cDai = await compoundSetup.createAndEnableCToken(
+        setup.dai.address,
+        ether(200000000),
+        compoundSetup.comptroller.address,
+        compoundSetup.interestRateModel.address,
+        "Compound Dai",
+        "cDAI",
+        8,
+        ether(0.75), // 75% collateral factor
+        ether(1)
+      );
+
+      const debtIssuanceMock = await deployer.mocks.deployDebtIssuanceMock();
+      await setup.controller.addModule(debtIssuanceMock.address);
+
+      const compoundLibrary = await deployer.libraries.deployCompound();
+      compoundLeverageModule = await deployer.modules.deployCompoundLeverageModule(
+        setup.controller.address,
+        compoundSetup.comp.address,
+        compoundSetup.comptroller.address,
+        cEther.address,
+        setup.weth.address,
+        "contracts/protocol/integration/lib/Compound.sol:Compound",
+        compoundLibrary.address,
+      );
+      await setup.controller.addModule(compoundLeverageModule.address);
+
+      const oneInchExchangeMockToWeth = await addOneInchExchange(
+        compoundLeverageModule.address,
+        "ONEINCHTOWETH",
+        setup.dai.address,
+        setup.weth.address,
+        ether(590),
+        ether(1)
+      );
+
+      // Add debt issuance address to integration
+      await setup.integrationRegistry.addIntegration(compoundLeverageModule.address, "DefaultIssuanceModule", debtIssuanceMock.address);
+
+      // 1e10 cETH units are 2 ETH at the initial exchange rate
+      setToken = await setup.createSetToken(
+        [cEther.address],
+        [BigNumber.from(10000000000)],
+        [compoundLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+      );
+      await debtIssuanceMock.initialize(setToken.address);
+      await compoundLeverageModule.updateAllowedSetToken(setToken.address, true);
+      await compoundLeverageModule.initialize(
+        setToken.address,
+        [setup.weth.address, setup.dai.address],
+        [setup.dai.address, setup.weth.address]
+      );
+      await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+
+      await oneInchExchangeMockToWeth.addSetTokenAddress(setToken.address);
+      await setup.weth.transfer(oneInchExchangeMockToWeth.address, ether(10));
+
+      await cEther.mint({ value: ether(10) });
+      await setup.dai.approve(cDai.address, ether(100000));
+      await cDai.mint(ether(100000));
+      await cEther.approve(setup.issuanceModule.address, ether(10));
+      await setup.issuanceModule.issue(setToken.address, ether(1), owner.address);
+
+      // Lever 590 DAI into 1 WETH, for $1770 of collateral against $590 of debt
+      await compoundLeverageModule.lever(
+        setToken.address,
+        setup.dai.address,
+        setup.weth.address,
+        ether(590),
+        ether(1),
+        "ONEINCHTOWETH",
+        getOneInchTradeData(oneInchExchangeMockToWeth, setup.dai.address, setup.weth.address, ether(590), ether(1))
+      );
+    });
+
+    async function subject(): Promise<LeverageHealthMonitor> {
+      return LeverageHealthMonitor.fromCompoundLeverageModule(
+        compoundLeverageModule,
+        setToken,
+        compoundSetup.comptroller,
+        cEther.address,
+        setup.weth.address
+      );
+    }
+
+    it("should report cEther collateral as WETH valued by the comptroller oracle", async () => {
+      const { state } = await subject();
+
+      const weth = state.collateralPositions.find(({ asset }) => asset === setup.weth.address)!;
+      expect(weth.notional).to.be.closeTo(ether(3), 1000);
+      expect(weth.decimals).to.eq(18);
+      expect(weth.price).to.eq(ether(590));
+      expect(weth.liquidationThreshold).to.eq(ether(0.75));
+    });
+
+    it("should match the account liquidity reported by the comptroller", async () => {
+      const health = (await subject()).getHealth();
+
+      const [, liquidity] = await compoundSetup.comptroller.getAccountLiquidity(setToken.address);
+      const thresholdValue = health.borrowValue.mul(health.healthFactor).div(ether(1));
+      expect(thresholdValue.sub(health.borrowValue).sub(liquidity).abs()).to.be.lte(ether(0.000001));
+      expect(health.leverageRatio.sub(ether(1.5)).abs()).to.be.lte(ether(0.0001));
+      expect(health.healthFactor.sub(ether(2.25)).abs()).to.be.lte(ether(0.0001));
+    });
+  });
+});
@@ -0,0 +1,450 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+import { defaultAbiCoder } from "ethers/lib/utils";
+
+import { Address, LeveragePositionState, LeverageTradeAdapter, LeverageTradeQuoter } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { AaveLeverageModule, SetToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { LeverageHealthMonitor, LeverageRebalanceCalculator } from "@utils/common";
+import { ether, getExchangeAdapterTradeData, preciseMul } from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAaveV2Fixture,
+  getAccounts,
+  getRandomAddress,
+  getSystemFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { AaveV2Fixture, SystemFixture, UniswapFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("LeverageRebalanceCalculator", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let aaveSetup: AaveV2Fixture;
+  let uniswapSetup: UniswapFixture;
+  let aaveLeverageModule: AaveLeverageModule;
+  let setToken: SetToken;
+
+  let uniswapV2Adapter: LeverageTradeAdapter;
+  let uniswapV2AdapterV2: LeverageTradeAdapter;
+  let uniswapQuoter: LeverageTradeQuoter;
+
+  cacheBeforeEach(async () => {
+    [owner] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    aaveSetup = getAaveV2Fixture(owner.address);
+    await aaveSetup.initialize(setup.weth.address, setup.dai.address);
+
+    await setup.dai.approve(aaveSetup.lendingPool.address, ether(100000));
+    await aaveSetup.lendingPool.deposit(setup.dai.address, ether(100000), owner.address, ZERO);
+
+    // 800 WETH = 800k DAI, matching the Aave oracle price of 1000 DAI per WETH
+    uniswapSetup = getUniswapFixture(owner.address);
+    await uniswapSetup.initialize(owner, setup.weth.address, setup.wbtc.address, setup.dai.address);
+    await setup.weth.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await setup.dai.approve(uniswapSetup.router.address, MAX_UINT_256);
+    await uniswapSetup.router.addLiquidity(
+      setup.weth.address,
+      setup.dai.address,
+      ether(800),
+      ether(800000),
+      ether(800),
+      ether(800000),
+      owner.address,
+      MAX_UINT_256
+    );
+
+    const aaveV2Library = await deployer.libraries.deployAaveV2();
+    aaveLeverageModule = await deployer.modules.deployAaveLeverageModule(
+      setup.controller.address,
+      aaveSetup.lendingPoolAddressesProvider.address,
+      "contracts/protocol/integration/lib/AaveV2.sol:AaveV2",
+      aaveV2Library.address,
+    );
+    await setup.controller.addModule(aaveLeverageModule.address);
+
+    const uniswapExchangeAdapter = await deployer.adapters.deployUniswapV2ExchangeAdapter(uniswapSetup.router.address);
+    const uniswapExchangeAdapterV2 = await deployer.adapters.deployUniswapV2ExchangeAdapterV2(uniswapSetup.router.address);
+    await setup.integrationRegistry.addIntegration(aaveLeverageModule.address, "UniswapV2ExchangeAdapter", uniswapExchangeAdapter.address);
+    await setup.integrationRegistry.addIntegration(
+      aaveLeverageModule.address,
+      "UniswapV2ExchangeAdapterV2",
+      uniswapExchangeAdapterV2.address
+    );
+
+    const debtIssuanceMock = await deployer.mocks.deployDebtIssuanceMock();
+    await setup.controller.addModule(debtIssuanceMock.address);
+    // Add debt issuance address to integration
+    await setup.integrationRegistry.addIntegration(aaveLeverageModule.address, "DefaultIssuanceModule", debtIssuanceMock.address);
+
+    const aWETH = aaveSetup.wethReserveTokens.aToken;
+    setToken = await setup.createSetToken(
+      [aWETH.address],
+      [ether(1)],
+      [aaveLeverageModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+    );
+    await debtIssuanceMock.initialize(setToken.address);
+    await aaveLeverageModule.updateAllowedSetToken(setToken.address, true);
+    await aaveLeverageModule.initialize(setToken.address, [setup.weth.address], [setup.dai.address]);
+    await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+
+    await setup.weth.approve(aaveSetup.lendingPool.address, ether(10));
+    await aaveSetup.lendingPool.deposit(setup.weth.address, ether(10), owner.address, ZERO);
+    await aWETH.approve(setup.issuanceModule.address, ether(10));
+    await setup.issuanceModule.issue(setToken.address, ether(10), owner.address);
+
+    uniswapV2Adapter = { type: "UniswapV2ExchangeAdapter", name: "UniswapV2ExchangeAdapter" };
+    uniswapV2AdapterV2 = { type: "UniswapV2ExchangeAdapterV2", name: "UniswapV2ExchangeAdapterV2" };
+    uniswapQuoter = async (path: Address[], sendQuantity: BigNumber) => {
+      const amounts = await uniswapSetup.router.getAmountsOut(sendQuantity, path);
+      return amounts[amounts.length - 1];
+    };
+  });
+
+  async function getMonitor(): Promise<LeverageHealthMonitor> {
+    return LeverageHealthMonitor.fromAaveLeverageModule(
+      aaveLeverageModule,
+      setToken,
+      aaveSetup.protocolDataProvider,
+      aaveSetup.priceOracle
+    );
+  }
+
+  async function getState(): Promise<LeveragePositionState> {
+    return (await getMonitor()).state;
+  }
+
+  async function execute(data: string): Promise<void> {
+    await owner.wallet.sendTransaction({ to: aaveLeverageModule.address, data });
+  }
+
+  async function leverTo(targetLeverageRatio: BigNumber): Promise<void> {
+    const calculator = new LeverageRebalanceCalculator(await getState(), uniswapQuoter);
+    const leverCall = await calculator.getLeverCall({
+      targetLeverageRatio,
+      slippageTolerance: ether(0.01),
+      tradeAdapter: uniswapV2Adapter,
+    });
+
+    await execute(leverCall!.data);
+  }
+
+  describe("#getLeverCall", async () => {
+    let subjectQuoter: LeverageTradeQuoter | undefined;
+    let subjectTargetLeverageRatio: BigNumber;
+    let subjectSlippageTolerance: BigNumber;
+
+    beforeEach(async () => {
+      subjectQuoter = uniswapQuoter;
+      subjectTargetLeverageRatio = ether(1.75);
+      subjectSlippageTolerance = ether(0.01);
+    });
+
+    async function subject() {
+      const calculator = new LeverageRebalanceCalculator(await getState(), subjectQuoter);
+      return calculator.getLeverCall({
+        targetLeverageRatio: subjectTargetLeverageRatio,
+        slippageTolerance: subjectSlippageTolerance,
+        tradeAdapter: uniswapV2Adapter,
+      });
+    }
+
+    it("should lever the SetToken to the target leverage ratio", async () => {
+      const leverCall = await subject();
+
+      await execute(leverCall!.data);
+
+      const { leverageRatio } = (await getMonitor()).getHealth();
+      expect(leverageRatio.sub(ether(1.75)).abs()).to.be.lte(ether(0.001));
+      expect(leverCall!.expectedLeverageRatio.sub(ether(1.75)).abs()).to.be.lte(ether(0.0001));
+    });
+
+    it("should return the lever arguments", async () => {
+      const leverCall = await subject();
+
+      expect(leverCall!.setToken).to.eq(setToken.address);
+      expect(leverCall!.borrowAsset).to.eq(setup.dai.address);
+      expect(leverCall!.collateralAsset).to.eq(setup.weth.address);
+      expect(leverCall!.tradeAdapterName).to.eq("UniswapV2ExchangeAdapter");
+      expect(leverCall!.tradeData).to.eq(defaultAbiCoder.encode(["address[]"], [[setup.dai.address, setup.weth.address]]));
+      expect(leverCall!.data).to.eq(aaveLeverageModule.interface.encodeFunctionData("lever", [
+        setToken.address,
+        setup.dai.address,
+        setup.weth.address,
+        leverCall!.borrowQuantityUnits,
+        leverCall!.minReceiveQuantityUnits,
+        "UniswapV2ExchangeAdapter",
+        leverCall!.tradeData,
+      ]));
+    });
+
+    describe("when there is no quoter", async () => {
+      beforeEach(async () => {
+        subjectQuoter = undefined;
+        subjectSlippageTolerance = ether(0.02);
+      });
+
+      it("should size the trade at oracle prices", async () => {
+        const leverCall = await subject();
+
+        // 7.5 ETH of DAI takes 10 ETH of collateral to 1.75x, split over a supply of 10
+        expect(leverCall!.borrowQuantityUnits).to.eq(ether(750));
+        expect(leverCall!.minReceiveQuantityUnits).to.eq(ether(0.735));
+        expect(leverCall!.expectedLeverageRatio).to.eq(ether(1.75));
+      });
+
+      it("should lever past the target, since fees and price impact reduce the net value", async () => {
+        const leverCall = await subject();
+
+        await execute(leverCall!.data);
+
+        const { leverageRatio } = (await getMonitor()).getHealth();
+        expect(leverageRatio).to.be.gt(ether(1.75));
+        expect(leverageRatio).to.be.lt(ether(1.8));
+      });
+    });
+
+    describe("when the leverage ratio is already at the target", async () => {
+      beforeEach(async () => {
+        subjectTargetLeverageRatio = ether(1);
+      });
+
+      it("should return undefined", async () => {
+        expect(await subject()).to.be.undefined;
+      });
+    });
+  });
+
+  describe("#getDeleverCall", async () => {
+    let subjectTargetLeverageRatio: BigNumber;
+
+    cacheBeforeEach(async () => {
+      await leverTo(ether(1.75));
+    });
+
+    beforeEach(async () => {
+      subjectTargetLeverageRatio = ether(1.25);
+    });
+
+    async function subject() {
+      const calculator = new LeverageRebalanceCalculator(await getState(), uniswapQuoter);
+      return calculator.getDeleverCall({
+        targetLeverageRatio: subjectTargetLeverageRatio,
+        slippageTolerance: ether(0.01),
+        tradeAdapter: uniswapV2Adapter,
+      });
+    }
+
+    it("should delever the SetToken to the target leverage ratio", async () => {
+      const deleverCall = await subject();
+
+      await execute(deleverCall!.data);
+
+      const { leverageRatio } = (await getMonitor()).getHealth();
+      expect(leverageRatio.sub(ether(1.25)).abs()).to.be.lte(ether(0.001));
+      expect(deleverCall!.collateralAsset).to.eq(setup.weth.address);
+      expect(deleverCall!.repayAsset).to.eq(setup.dai.address);
+      expect(deleverCall!.tradeData).to.eq(defaultAbiCoder.encode(["address[]"], [[setup.weth.address, setup.dai.address]]));
+    });
+
+    describe("when the leverage ratio is below the target", async () => {
+      beforeEach(async () => {
+        subjectTargetLeverageRatio = ether(2);
+      });
+
+      it("should return undefined", async () => {
+        expect(await subject()).to.be.undefined;
+      });
+    });
+  });
+
+  describe("#getRipcordCall", async () => {
+    let subjectMaxTradeSize: BigNumber;
+
+    cacheBeforeEach(async () => {
+      await leverTo(ether(1.75));
+    });
+
+    beforeEach(async () => {
+      subjectMaxTradeSize = ether(2);
+    });
+
+    async function subject() {
+      const calculator = new LeverageRebalanceCalculator(await getState(), uniswapQuoter);
+      return calculator.getRipcordCall({
+        maxTradeSize: subjectMaxTradeSize,
+        slippageTolerance: ether(0.01),
+        tradeAdapter: uniswapV2Adapter,
+      });
+    }
+
+    it("should sell the max trade size of collateral", async () => {
+      const ripcordCall = await subject();
+
+      await execute(ripcordCall!.data);
+
+      const { leverageRatio } = (await getMonitor()).getHealth();
+      expect(ripcordCall!.redeemQuantityUnits).to.eq(ether(0.2));
+      expect(leverageRatio.sub(ripcordCall!.expectedLeverageRatio).abs()).to.be.lte(ether(0.001));
+    });
+
+    describe("when the DAI price rises and only part of the collateral can be withdrawn", async () => {
+      beforeEach(async () => {
+        await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.0014));
+        subjectMaxTradeSize = ether(100);
+      });
+
+      it("should redeem the withdrawable collateral and keep the health factor above 1", async () => {
+        const monitor = await getMonitor();
+        const withdrawableValue = monitor.getWithdrawableValue(setup.weth.address);
+
+        const ripcordCall = await subject();
+        await execute(ripcordCall!.data);
+
+        const { healthFactor } = (await getMonitor()).getHealth();
+        const redeemValue = preciseMul(ripcordCall!.redeemQuantityUnits, ether(10));
+        expect(redeemValue.sub(preciseMul(withdrawableValue, ether(0.99))).abs()).to.be.lte(ether(0.0001));
+        expect(healthFactor).to.be.gt(ether(1));
+      });
+    });
+  });
+
+  describe("#getDeleverToZeroBorrowBalanceCall", async () => {
+    let subjectTradeAdapter: LeverageTradeAdapter;
+
+    cacheBeforeEach(async () => {
+      await leverTo(ether(1.75));
+    });
+
+    beforeEach(async () => {
+      subjectTradeAdapter = uniswapV2AdapterV2;
+    });
+
+    async function subject() {
+      const calculator = new LeverageRebalanceCalculator(await getState(), uniswapQuoter);
+      return calculator.getDeleverToZeroBorrowBalanceCall({
+        slippageTolerance: ether(0.01),
+        tradeAdapter: subjectTradeAdapter,
+      });
+    }
+
+    it("should repay the whole borrow balance", async () => {
+      const deleverCall = await subject();
+
+      await execute(deleverCall!.data);
+
+      const variableDebtDAI = aaveSetup.daiReserveTokens.variableDebtToken;
+      expect(await variableDebtDAI.balanceOf(setToken.address)).to.eq(ZERO);
+    });
+
+    it("should buy exactly the debt with an exact output trade", async () => {
+      const deleverCall = await subject();
+
+      expect(deleverCall!.tradeData).to.eq(
+        defaultAbiCoder.encode(["address[]", "bool"], [[setup.weth.address, setup.dai.address], false])
+      );
+    });
+
+    describe("when the adapter only supports exact input trades", async () => {
+      beforeEach(async () => {
+        subjectTradeAdapter = uniswapV2Adapter;
+      });
+
+      it("should repay the whole borrow balance", async () => {
+        const deleverCall = await subject();
+
+        await execute(deleverCall!.data);
+
+        const variableDebtDAI = aaveSetup.daiReserveTokens.variableDebtToken;
+        expect(await variableDebtDAI.balanceOf(setToken.address)).to.eq(ZERO);
+      });
+    });
+
+    describe("when the collateral needed cannot be withdrawn", async () => {
+      beforeEach(async () => {
+        await aaveSetup.setAssetPriceInOracle(setup.dai.address, ether(0.0014));
+      });
+
+      it("should return undefined", async () => {
+        expect(await subject()).to.be.undefined;
+      });
+    });
+  });
+
+  describe("#getExchangeAdapterTradeData", async () => {
+    let router: Address;
+    let subjectPath: Address[];
+    let subjectFees: number[];
+
+    beforeEach(async () => {
+      router = await getRandomAddress();
+      subjectPath = [setup.weth.address, setup.wbtc.address, setup.dai.address];
+      subjectFees = [3000, 500];
+    });
+
+    it("should match the data generated by UniswapV2ExchangeAdapterV2", async () => {
+      const adapter = await deployer.adapters.deployUniswapV2ExchangeAdapterV2(router);
+
+      const data = getExchangeAdapterTradeData("UniswapV2ExchangeAdapterV2", subjectPath, [], ether(1), ether(1000), false);
+
+      expect(data).to.eq(await adapter.getUniswapExchangeData(subjectPath, false));
+    });
+
+    it("should match the data generated by UniswapV3ExchangeAdapter", async () => {
+      const adapter = await deployer.adapters.deployUniswapV3ExchangeAdapter(router);
+
+      const data = getExchangeAdapterTradeData("UniswapV3ExchangeAdapter", subjectPath, subjectFees, ether(1), ether(1000));
+
+      expect(data).to.eq(await adapter.generateDataParam(subjectPath, subjectFees));
+    });
+
+    it("should reverse the path of exact output trades for UniswapV3ExchangeAdapterV2", async () => {
+      const adapter = await deployer.adapters.deployUniswapV3ExchangeAdapterV2(router);
+
+      const data = getExchangeAdapterTradeData("UniswapV3ExchangeAdapterV2", subjectPath, subjectFees, ether(1), ether(1000), false);
+
+      expect(data).to.eq(await adapter.generateDataParam([...subjectPath].reverse(), [...subjectFees].reverse(), false));
+    });
+
+    it("should encode a trade accepted by ZeroExApiAdapter", async () => {
+      const adapter = await deployer.adapters.deployZeroExApiAdapter(router, setup.weth.address);
+
+      const data = getExchangeAdapterTradeData("ZeroExApiAdapter", subjectPath, [], ether(1), ether(1000));
+      const [target, , calldata] = await adapter.getTradeCalldata(
+        setup.weth.address,
+        setup.dai.address,
+        setToken.address,
+        ether(1),
+        ether(1000),
+        data
+      );
+
+      expect(target).to.eq(router);
+      expect(calldata).to.eq(data);
+    });
+
+    describe("when an exact output trade uses an adapter that does not support it", async () => {
+      it("should throw", async () => {
+        expect(() => getExchangeAdapterTradeData("UniswapV3ExchangeAdapter", subjectPath, subjectFees, ether(1), ether(1000), false))
+          .to.throw("UniswapV3ExchangeAdapter does not support exact output trades");
+      });
+    });
+
+    describe("when a Uniswap V3 path is missing fees", async () => {
+      it("should throw", async () => {
+        expect(() => getExchangeAdapterTradeData("UniswapV3ExchangeAdapter", subjectPath, [3000], ether(1), ether(1000)))
+          .to.throw("Uniswap V3 path of 3 tokens needs 2 fees, got 1");
+      });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import "module-alias/register";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MODULE_STATE, ZERO } from "@utils/constants";
+import { SafeMock, SetToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { ManagerTransactionBatch } from "@utils/common";
+import { ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getProvider,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { StreamingFeeModule__factory } from "@typechain/factories/StreamingFeeModule__factory";
+import { ManagerBatchSimulation, SafeTransactionBuilderBatch } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("ManagerTransactionBatch", () => {
+  let owner: Account;
+  let safeOwnerOne: Account;
+  let safeOwnerTwo: Account;
+  let feeRecipient: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let safe: SafeMock;
+  let setToken: SetToken;
+
+  before(async () => {
+    [
+      owner,
+      safeOwnerOne,
+      safeOwnerTwo,
+      feeRecipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    safe = await deployer.mocks.deploySafeMock([safeOwnerOne.address, safeOwnerTwo.address], 2);
+
+    setToken = await setup.createSetToken(
+      [setup.weth.address],
+      [ether(1)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address],
+      safe.address
+    );
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  function buildBatch(streamingFee = ether(.02)): ManagerTransactionBatch {
+    return new ManagerTransactionBatch(safe.address)
+      .add(setup.issuanceModule, "initialize", [setToken.address, ADDRESS_ZERO])
+      .add(setup.streamingFeeModule, "initialize", [setToken.address, {
+        feeRecipient: feeRecipient.address,
+        maxStreamingFeePercentage: ether(.05),
+        streamingFeePercentage: ether(.01),
+        lastStreamingFeeTimestamp: ZERO,
+      }], ZERO, StreamingFeeModule__factory.abi)
+      .add(setup.streamingFeeModule, "updateStreamingFee", [setToken.address, streamingFee]);
+  }
+
+  describe("#add", async () => {
+    it("should record the contract method and its input values", async () => {
+      const [, streamingFeeInitialization] = buildBatch().transactions;
+
+      expect(streamingFeeInitialization.to).to.eq(setup.streamingFeeModule.address);
+      expect(streamingFeeInitialization.value).to.eq(ZERO);
+      expect(streamingFeeInitialization.contractMethod!.name).to.eq("initialize");
+      expect(streamingFeeInitialization.contractMethod!.inputs.map(input => input.type)).to.deep.eq(["address", "tuple"]);
+      expect(streamingFeeInitialization.contractInputsValues).to.deep.eq({
+        _setToken: setToken.address,
+        _settings: JSON.stringify([feeRecipient.address, ether(.05).toString(), ether(.01).toString(), "0"]),
+      });
+    });
+
+    it("should record the internal types of the ABI", async () => {
+      const [issuanceInitialization, streamingFeeInitialization] = buildBatch().transactions;
+
+      const [setTokenInput, settingsInput] = streamingFeeInitialization.contractMethod!.inputs;
+      expect(setTokenInput.internalType).to.eq("contract ISetToken");
+      expect(settingsInput.internalType).to.eq("struct StreamingFeeModule.FeeState");
+      expect(settingsInput.components!.map(component => component.internalType)).to.deep.eq([
+        "address",
+        "uint256",
+        "uint256",
+        "uint256",
+      ]);
+      expect(issuanceInitialization.contractMethod!.inputs.map(input => input.internalType)).to.deep.eq(["address", "address"]);
+    });
+  });
+
+  describe("#simulate", async () => {
+    let subjectBatch: ManagerTransactionBatch;
+    let subjectMultiSend: string | undefined;
+
+    beforeEach(async () => {
+      subjectBatch = buildBatch();
+      subjectMultiSend = undefined;
+    });
+
+    async function subject(): Promise<ManagerBatchSimulation> {
+      return subjectBatch.simulate(getProvider(), setToken, subjectMultiSend);
+    }
+
+    it("should run the batch as the Safe", async () => {
+      const { success, gasUsed, error } = await subject();
+
+      expect(success).to.be.true;
+      expect(gasUsed).to.be.gt(0);
+      expect(error).to.be.undefined;
+    });
+
+    it("should return the SetToken state diff", async () => {
+      const { diff } = await subject();
+
+      expect(diff!.moduleStateChanges.map(change => change.currentState)).to.deep.eq([
+        MODULE_STATE.INITIALIZED,
+        MODULE_STATE.INITIALIZED,
+      ]);
+    });
+
+    it("should revert the node to its prior state", async () => {
+      await subject();
+
+      expect(await setToken.moduleStates(setup.streamingFeeModule.address)).to.eq(MODULE_STATE.PENDING);
+      expect(await setToken.isInitializedModule(setup.issuanceModule.address)).to.be.false;
+    });
+
+    describe("when a transaction reverts", async () => {
+      beforeEach(async () => {
+        subjectBatch = buildBatch(ether(.1));
+      });
+
+      it("should revert the whole batch", async () => {
+        const { success, gasUsed, error, diff } = await subject();
+
+        expect(success).to.be.false;
+        expect(gasUsed).to.be.undefined;
+        expect(error).to.include("Fee must be less than max");
+        expect(diff!.moduleStateChanges).to.be.empty;
+      });
+    });
+
+    describe("when the Safe delegatecalls a MultiSend contract", async () => {
+      beforeEach(async () => {
+        subjectMultiSend = (await deployer.mocks.deploySafeMock([owner.address], 1)).address;
+      });
+
+      it("should run the batch with the MultiSend code", async () => {
+        const { success, diff } = await subject();
+
+        expect(success).to.be.true;
+        expect(diff!.moduleStateChanges.length).to.eq(2);
+      });
+    });
+
+    describe("when the Safe has no code", async () => {
+      beforeEach(async () => {
+        subjectBatch = new ManagerTransactionBatch(owner.address);
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq(`Safe ${owner.address} has no code, pass the MultiSend contract to simulate with`);
+      });
+    });
+  });
+
+  describe("#toSafeTransactionBuilderBatch", async () => {
+    async function subject(): Promise<SafeTransactionBuilderBatch> {
+      return buildBatch().addRaw(setToken.address, "0x").toSafeTransactionBuilderBatch(1, "Launch", "Initialize modules", 1000);
+    }
+
+    it("should export the batch in the transaction builder format", async () => {
+      const batch = await subject();
+
+      expect(batch.version).to.eq("1.0");
+      expect(batch.chainId).to.eq("1");
+      expect(batch.createdAt).to.eq(1000);
+      expect(batch.meta).to.deep.eq({ name: "Launch", description: "Initialize modules", createdFromSafeAddress: safe.address });
+      expect(batch.transactions.length).to.eq(4);
+    });
+
+    it("should describe method calls by their inputs and raw calls by their data", async () => {
+      const { transactions } = await subject();
+
+      expect(transactions[2].data).to.be.undefined;
+      expect(transactions[2].contractMethod!.name).to.eq("updateStreamingFee");
+      expect(transactions[2].contractInputsValues).to.deep.eq({
+        _setToken: setToken.address,
+        _newFee: ether(.02).toString(),
+      });
+      expect(transactions[3].data).to.eq("0x");
+      expect(transactions[3].contractMethod).to.be.undefined;
+    });
+  });
+
+  describe("when the exported batch is executed by the Safe", async () => {
+    let subjectCaller: Account;
+    let subjectData: string;
+
+    beforeEach(async () => {
+      const exported = JSON.stringify(buildBatch().toSafeTransactionBuilderBatch(31337, "Launch"));
+      const batch = ManagerTransactionBatch.fromSafeTransactionBuilderBatch(JSON.parse(exported));
+
+      subjectData = safe.interface.encodeFunctionData("multiSend", [batch.encodeMultiSend()]);
+      subjectCaller = safeOwnerOne;
+
+      const txHash = await safe.getTransactionHash(safe.address, ZERO, subjectData, await safe.nonce());
+      await safe.connect(safeOwnerTwo.wallet).approveHash(txHash);
+    });
+
+    async function subject(): Promise<any> {
+      return safe.connect(subjectCaller.wallet).execTransaction(safe.address, ZERO, subjectData);
+    }
+
+    it("should apply every manager call", async () => {
+      await subject();
+
+      const feeState = await setup.streamingFeeModule.feeStates(setToken.address);
+      expect(await setToken.isInitializedModule(setup.issuanceModule.address)).to.be.true;
+      expect(feeState.feeRecipient).to.eq(feeRecipient.address);
+      expect(feeState.streamingFeePercentage).to.eq(ether(.02));
+    });
+
+    it("should match the calldata built by the batch", async () => {
+      const exported = buildBatch().toSafeTransactionBuilderBatch(31337, "Launch");
+      const reimported = ManagerTransactionBatch.fromSafeTransactionBuilderBatch(exported);
+
+      expect(reimported.transactions.map(transaction => transaction.data)).to.deep.eq(
+        buildBatch().transactions.map(transaction => transaction.data)
+      );
+    });
+
+    describe("when the threshold is not met", async () => {
+      beforeEach(async () => {
+        subjectCaller = safeOwnerTwo;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Threshold not met");
+      });
+    });
+  });
+});
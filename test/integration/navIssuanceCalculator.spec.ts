@@ -0,0 +1,459 @@
+import "module-alias/register";
+
+import { BigNumber } from "ethers";
+
+import { Address, CustomOracleNAVIssuanceSettings, NAVIssuanceValidity } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { CustomOracleNavIssuanceModule, SetToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { Blockchain, NAVIssuanceCalculator } from "@utils/common";
+import { ether, usdc } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  createRandomGenerator,
+  getAccounts,
+  getFuzzOptions,
+  getProvider,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+const RANDOMIZED_RUNS = 10;
+
+describe("NAVIssuanceCalculator", () => {
+  let owner: Account;
+  let feeRecipient: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let navIssuanceModule: CustomOracleNavIssuanceModule;
+  let setToken: SetToken;
+
+  before(async () => {
+    [
+      owner,
+      feeRecipient,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    navIssuanceModule = await deployer.modules.deployCustomOracleNavIssuanceModule(setup.controller.address, setup.weth.address);
+    await setup.controller.addModule(navIssuanceModule.address);
+
+    // Protocol takes 30% of manager issue fees, 20% of manager redeem fees, 1% on issue and 2% on redeem
+    await setup.controller.addFee(navIssuanceModule.address, ZERO, ether(.3));
+    await setup.controller.addFee(navIssuanceModule.address, 1, ether(.2));
+    await setup.controller.addFee(navIssuanceModule.address, 2, ether(.01));
+    await setup.controller.addFee(navIssuanceModule.address, 3, ether(.02));
+
+    await setup.weth.approve(navIssuanceModule.address, MAX_UINT_256);
+    await setup.usdc.approve(navIssuanceModule.address, MAX_UINT_256);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function createNAVIssuanceSet(
+    managerFees: [BigNumber, BigNumber] = [ether(.001), ether(.002)],
+    premiumPercentage: BigNumber = ether(.01),
+    minSetTokenSupply: BigNumber = ether(5)
+  ): Promise<SetToken> {
+    const navSetToken = await setup.createSetToken(
+      [setup.weth.address, setup.usdc.address],
+      [ether(1), usdc(10)],
+      [navIssuanceModule.address, setup.issuanceModule.address]
+    );
+
+    await navIssuanceModule.initialize(navSetToken.address, {
+      managerIssuanceHook: ADDRESS_ZERO,
+      managerRedemptionHook: ADDRESS_ZERO,
+      setValuer: ADDRESS_ZERO,
+      reserveAssets: [setup.usdc.address, setup.weth.address],
+      feeRecipient: feeRecipient.address,
+      managerFees,
+      maxManagerFee: ether(.1),
+      premiumPercentage,
+      maxPremiumPercentage: ether(.1),
+      minSetTokenSupply,
+    } as CustomOracleNAVIssuanceSettings);
+    await setup.issuanceModule.initialize(navSetToken.address, ADDRESS_ZERO);
+    await setup.approveAndIssueSetToken(navSetToken, ether(10));
+
+    return navSetToken;
+  }
+
+  async function getCalculator(reserveAsset: Address): Promise<NAVIssuanceCalculator> {
+    return NAVIssuanceCalculator.fromModule(navIssuanceModule, setup.controller, setToken, reserveAsset);
+  }
+
+  describe("#fromModule", async () => {
+    beforeEach(async () => {
+      setToken = await createNAVIssuanceSet();
+    });
+
+    async function subject(): Promise<NAVIssuanceCalculator> {
+      return getCalculator(setup.usdc.address);
+    }
+
+    it("should read the settings, fees, valuation and supply of the Set", async () => {
+      const { state } = await subject();
+
+      expect(state.reserveAssetDecimals).to.eq(6);
+      expect(state.isReserveAsset).to.be.true;
+      expect(state.setTokenValuation).to.eq(await setup.setValuer.calculateSetTokenValuation(setToken.address, setup.usdc.address));
+      expect(state.totalSupply).to.eq(ether(10));
+      expect(state.reserveAssetUnit).to.eq(usdc(10));
+      expect(JSON.stringify(state.managerFees)).to.eq(JSON.stringify([ether(.001), ether(.002)]));
+      expect(state.premiumPercentage).to.eq(ether(.01));
+      expect(state.minSetTokenSupply).to.eq(ether(5));
+      expect(JSON.stringify(state.protocolFees)).to.eq(JSON.stringify([ether(.3), ether(.2), ether(.01), ether(.02)]));
+    });
+  });
+
+  describe("#getIssueQuote", async () => {
+    let subjectReserveAsset: Address;
+    let subjectReserveQuantity: BigNumber;
+
+    beforeEach(async () => {
+      setToken = await createNAVIssuanceSet();
+
+      subjectReserveAsset = setup.usdc.address;
+      subjectReserveQuantity = usdc(1000);
+    });
+
+    async function subject(): Promise<any> {
+      return (await getCalculator(subjectReserveAsset)).getIssueQuote(subjectReserveQuantity);
+    }
+
+    it("should match the module's expected issue quantity", async () => {
+      const quote = await subject();
+
+      const expectedSetTokenQuantity = await navIssuanceModule.getExpectedSetTokenIssueQuantity(
+        setToken.address,
+        subjectReserveAsset,
+        subjectReserveQuantity
+      );
+      expect(quote.setTokenQuantity).to.eq(expectedSetTokenQuantity);
+    });
+
+    it("should match the supply, position multiplier and reserve unit after issuance", async () => {
+      const quote = await subject();
+
+      await navIssuanceModule.issue(setToken.address, subjectReserveAsset, subjectReserveQuantity, ZERO, owner.address);
+
+      expect(await setToken.totalSupply()).to.eq(quote.newTotalSupply);
+      expect(await setToken.positionMultiplier()).to.eq(quote.newPositionMultiplier);
+      expect(await setToken.getDefaultPositionRealUnit(subjectReserveAsset)).to.eq(quote.newReservePositionUnit);
+    });
+
+    it("should split the reserve quantity into fees and net flow", async () => {
+      const quote = await subject();
+
+      // Manager keeps 70% of the 0.1% manager fee, protocol takes the remaining 30% plus 1%
+      expect(quote.managerFee).to.eq(usdc(7).div(10));
+      expect(quote.protocolFee).to.eq(usdc(103).div(10));
+      expect(quote.netReserveFlow).to.eq(usdc(989));
+    });
+
+    describe("when the Set has no supply and no premium", async () => {
+      beforeEach(async () => {
+        setToken = await createNAVIssuanceSet([ZERO, ZERO], ZERO, ether(5));
+        await setup.issuanceModule.redeem(setToken.address, ether(10), owner.address);
+      });
+
+      it("should throw the module's revert reason", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("SafeMath: division by zero");
+      });
+    });
+  });
+
+  describe("#getRedeemQuote", async () => {
+    let subjectSetTokenQuantity: BigNumber;
+
+    beforeEach(async () => {
+      setToken = await createNAVIssuanceSet();
+
+      subjectSetTokenQuantity = ether(2);
+    });
+
+    async function subject(): Promise<any> {
+      return (await getCalculator(setup.weth.address)).getRedeemQuote(subjectSetTokenQuantity);
+    }
+
+    it("should match the module's expected redeem quantity", async () => {
+      const quote = await subject();
+
+      const expectedReserveQuantity = await navIssuanceModule.getExpectedReserveRedeemQuantity(
+        setToken.address,
+        setup.weth.address,
+        subjectSetTokenQuantity
+      );
+      expect(quote.netReserveFlow).to.eq(expectedReserveQuantity);
+    });
+
+    it("should match the supply, position multiplier and reserve unit after redemption", async () => {
+      const quote = await subject();
+
+      await navIssuanceModule.redeem(setToken.address, setup.weth.address, subjectSetTokenQuantity, ZERO, owner.address);
+
+      expect(await setToken.totalSupply()).to.eq(quote.newTotalSupply);
+      expect(await setToken.positionMultiplier()).to.eq(quote.newPositionMultiplier);
+      expect(await setToken.getDefaultPositionRealUnit(setup.weth.address)).to.eq(quote.newReservePositionUnit);
+    });
+
+    describe("when redeeming more than the Set's reserve asset balance", async () => {
+      beforeEach(async () => {
+        subjectSetTokenQuantity = ether(9.9);
+      });
+
+      it("should throw the module's revert reason", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("Must be greater than total available collateral");
+      });
+    });
+  });
+
+  describe("#isIssueValid", async () => {
+    let subjectReserveAsset: Address;
+    let subjectReserveQuantity: BigNumber;
+    let subjectMinSetTokenReceiveQuantity: BigNumber;
+
+    beforeEach(async () => {
+      setToken = await createNAVIssuanceSet();
+
+      subjectReserveAsset = setup.weth.address;
+      subjectReserveQuantity = ether(1);
+      subjectMinSetTokenReceiveQuantity = ZERO;
+    });
+
+    async function subject(): Promise<NAVIssuanceValidity> {
+      return (await getCalculator(subjectReserveAsset)).isIssueValid(subjectReserveQuantity, subjectMinSetTokenReceiveQuantity);
+    }
+
+    async function issue(): Promise<any> {
+      return navIssuanceModule.issue(
+        setToken.address,
+        subjectReserveAsset,
+        subjectReserveQuantity,
+        subjectMinSetTokenReceiveQuantity,
+        owner.address
+      );
+    }
+
+    it("should be valid", async () => {
+      const validity = await subject();
+
+      expect(validity).to.deep.eq({ valid: true, reason: undefined });
+    });
+
+    describe("when the quantity is 0", async () => {
+      beforeEach(async () => {
+        subjectReserveQuantity = ZERO;
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("Quantity must be > 0");
+        await expect(issue()).to.be.revertedWith(reason!);
+      });
+    });
+
+    describe("when the asset is not a reserve asset", async () => {
+      beforeEach(async () => {
+        subjectReserveAsset = setup.wbtc.address;
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("Must be valid reserve asset");
+        await expect(issue()).to.be.revertedWith(reason!);
+      });
+    });
+
+    describe("when the supply is below the minimum", async () => {
+      beforeEach(async () => {
+        await setup.issuanceModule.redeem(setToken.address, ether(6), owner.address);
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("Supply must be greater than minimum to enable issuance");
+        await expect(issue()).to.be.revertedWith(reason!);
+      });
+    });
+
+    describe("when the Set quantity is below the min receive quantity", async () => {
+      beforeEach(async () => {
+        subjectMinSetTokenReceiveQuantity = ether(1);
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("Must be greater than min SetToken");
+        await expect(issue()).to.be.revertedWith(reason!);
+      });
+    });
+  });
+
+  describe("#isRedeemValid", async () => {
+    let subjectSetTokenQuantity: BigNumber;
+    let subjectMinReserveReceiveQuantity: BigNumber;
+
+    beforeEach(async () => {
+      setToken = await createNAVIssuanceSet();
+
+      subjectSetTokenQuantity = ether(1);
+      subjectMinReserveReceiveQuantity = ZERO;
+    });
+
+    async function subject(): Promise<NAVIssuanceValidity> {
+      return (await getCalculator(setup.weth.address)).isRedeemValid(subjectSetTokenQuantity, subjectMinReserveReceiveQuantity);
+    }
+
+    async function redeem(): Promise<any> {
+      return navIssuanceModule.redeem(
+        setToken.address,
+        setup.weth.address,
+        subjectSetTokenQuantity,
+        subjectMinReserveReceiveQuantity,
+        owner.address
+      );
+    }
+
+    it("should be valid", async () => {
+      const validity = await subject();
+
+      expect(validity).to.deep.eq({ valid: true, reason: undefined });
+    });
+
+    describe("when redeeming more than the supply", async () => {
+      beforeEach(async () => {
+        subjectSetTokenQuantity = ether(11);
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("SafeMath: subtraction overflow");
+        await expect(redeem()).to.be.revertedWith(reason!);
+      });
+    });
+
+    describe("when the supply would fall below the minimum", async () => {
+      beforeEach(async () => {
+        subjectSetTokenQuantity = ether(6);
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("Supply must be greater than minimum to enable redemption");
+        await expect(redeem()).to.be.revertedWith(reason!);
+      });
+    });
+
+    describe("when the reserve quantity is below the min receive quantity", async () => {
+      beforeEach(async () => {
+        subjectMinReserveReceiveQuantity = ether(2);
+      });
+
+      it("should give the module's revert reason", async () => {
+        const { valid, reason } = await subject();
+
+        expect(valid).to.be.false;
+        expect(reason).to.eq("Must be greater than min receive reserve quantity");
+        await expect(redeem()).to.be.revertedWith(reason!);
+      });
+    });
+  });
+
+  describe("with randomized settings", async () => {
+    let blockchain: Blockchain;
+    let random: () => number;
+
+    before(async () => {
+      blockchain = new Blockchain(getProvider());
+      random = createRandomGenerator(getFuzzOptions().seed);
+    });
+
+    const randomPercentage = (max: number): BigNumber => ether(max).mul(Math.floor(random() * 10000)).div(10000);
+    const randomReserveAsset = (): Address => random() < 0.5 ? setup.usdc.address : setup.weth.address;
+
+    it("should quote issuance the same as the module", async () => {
+      for (let i = 0; i < RANDOMIZED_RUNS; i++) {
+        const snapshotId = await blockchain.saveSnapshotAsync();
+
+        setToken = await createNAVIssuanceSet([randomPercentage(.1), randomPercentage(.1)], randomPercentage(.1));
+        const reserveAsset = randomReserveAsset();
+        const reserveQuantity = reserveAsset === setup.usdc.address ? usdc(Math.floor(random() * 10000)) : randomPercentage(10);
+
+        const calculator = await getCalculator(reserveAsset);
+        const { valid, reason } = calculator.isIssueValid(reserveQuantity);
+        const issue = () => navIssuanceModule.issue(setToken.address, reserveAsset, reserveQuantity, ZERO, owner.address);
+
+        if (valid) {
+          const quote = calculator.getIssueQuote(reserveQuantity);
+          expect(quote.setTokenQuantity).to.eq(
+            await navIssuanceModule.getExpectedSetTokenIssueQuantity(setToken.address, reserveAsset, reserveQuantity)
+          );
+
+          await issue();
+
+          expect(await setToken.positionMultiplier()).to.eq(quote.newPositionMultiplier);
+          expect(await setToken.getDefaultPositionRealUnit(reserveAsset)).to.eq(quote.newReservePositionUnit);
+        } else {
+          await expect(issue()).to.be.revertedWith(reason!);
+        }
+
+        await blockchain.revertByIdAsync(snapshotId);
+      }
+    });
+
+    it("should quote redemption the same as the module", async () => {
+      for (let i = 0; i < RANDOMIZED_RUNS; i++) {
+        const snapshotId = await blockchain.saveSnapshotAsync();
+
+        setToken = await createNAVIssuanceSet([randomPercentage(.1), randomPercentage(.1)], randomPercentage(.1));
+        const setTokenQuantity = randomPercentage(10);
+
+        const calculator = await getCalculator(setup.weth.address);
+        const { valid, reason } = calculator.isRedeemValid(setTokenQuantity);
+        const redeem = () => navIssuanceModule.redeem(setToken.address, setup.weth.address, setTokenQuantity, ZERO, owner.address);
+
+        if (valid) {
+          const quote = calculator.getRedeemQuote(setTokenQuantity);
+          expect(quote.netReserveFlow).to.eq(
+            await navIssuanceModule.getExpectedReserveRedeemQuantity(setToken.address, setup.weth.address, setTokenQuantity)
+          );
+
+          await redeem();
+
+          expect(await setToken.positionMultiplier()).to.eq(quote.newPositionMultiplier);
+          expect(await setToken.getDefaultPositionRealUnit(setup.weth.address)).to.eq(quote.newReservePositionUnit);
+        } else {
+          await expect(redeem()).to.be.revertedWith(reason!);
+        }
+
+        await blockchain.revertByIdAsync(snapshotId);
+      }
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ChainlinkAggregatorMock, ChainlinkOracle } from "@utils/contracts";
+import { ZERO } from "@utils/constants";
+
+import DeployHelper from "@utils/deploys";
+
+import {
+  ether
+} from "@utils/index";
+import {
+  getAccounts,
+  getWaffleExpect,
+  getSystemFixture,
+  getChainlinkOracleFixture,
+  addSnapshotBeforeRestoreAfterEach,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { ChainlinkOracleFixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("ChainlinkOracle", () => {
+  let owner: Account;
+  let nonOwner: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let chainlinkSetup: ChainlinkOracleFixture;
+
+  before(async () => {
+    [
+      owner,
+      nonOwner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    chainlinkSetup = getChainlinkOracleFixture(owner.address);
+    await chainlinkSetup.initialize();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#constructor", async () => {
+    let subjectAggregator: Address;
+    let subjectMaxStaleness: BigNumber;
+    let subjectMaxDeviation: BigNumber;
+    let subjectDataDescription: string;
+
+    beforeEach(async () => {
+      subjectAggregator = chainlinkSetup.ethUsdAggregator.address;
+      subjectMaxStaleness = BigNumber.from(3600);
+      subjectMaxDeviation = ether(.1);
+      subjectDataDescription = "ETH / USD Chainlink Oracle";
+    });
+
+    async function subject(): Promise<ChainlinkOracle> {
+      return deployer.oracles.deployChainlinkOracle(
+        subjectAggregator,
+        subjectMaxStaleness,
+        subjectMaxDeviation,
+        subjectDataDescription
+      );
+    }
+
+    it("sets the correct aggregator and decimals", async () => {
+      const oracle = await subject();
+
+      expect(await oracle.aggregator()).to.eq(subjectAggregator);
+      expect(await oracle.aggregatorDecimals()).to.eq(8);
+    });
+
+    it("sets the correct guards and data description", async () => {
+      const oracle = await subject();
+
+      expect(await oracle.maxStaleness()).to.eq(subjectMaxStaleness);
+      expect(await oracle.maxDeviation()).to.eq(subjectMaxDeviation);
+      expect(await oracle.dataDescription()).to.eq(subjectDataDescription);
+    });
+
+    describe("when the max staleness is 0", async () => {
+      beforeEach(async () => {
+        subjectMaxStaleness = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Max staleness must be greater than 0");
+      });
+    });
+  });
+
+  describe("#setMaxDeviation", async () => {
+    let subjectMaxDeviation: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectMaxDeviation = ether(.25);
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return chainlinkSetup.ethUsdOracle.connect(subjectCaller.wallet).setMaxDeviation(subjectMaxDeviation);
+    }
+
+    it("sets the max deviation", async () => {
+      await subject();
+
+      expect(await chainlinkSetup.ethUsdOracle.maxDeviation()).to.eq(subjectMaxDeviation);
+    });
+
+    it("emits the MaxDeviationUpdated event", async () => {
+      await expect(subject()).to.emit(chainlinkSetup.ethUsdOracle, "MaxDeviationUpdated").withArgs(subjectMaxDeviation);
+    });
+
+    describe("when the caller is not the owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = nonOwner;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("#read", async () => {
+    let aggregator: ChainlinkAggregatorMock;
+    let oracle: ChainlinkOracle;
+
+    beforeEach(async () => {
+      aggregator = chainlinkSetup.ethUsdAggregator;
+      oracle = chainlinkSetup.ethUsdOracle;
+    });
+
+    async function subject(): Promise<BigNumber> {
+      return oracle.read();
+    }
+
+    it("returns the answer normalized to 18 decimals", async () => {
+      const price = await subject();
+
+      expect(price).to.eq(ether(2000));
+    });
+
+    describe("when the aggregator has more than 18 decimals", async () => {
+      beforeEach(async () => {
+        aggregator = await chainlinkSetup.createAggregator(2000, 20);
+        oracle = await chainlinkSetup.createOracle(aggregator, "ETH / USD");
+      });
+
+      it("returns the answer normalized to 18 decimals", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(2000));
+      });
+    });
+
+    describe("when the price moves within the max deviation", async () => {
+      beforeEach(async () => {
+        await chainlinkSetup.updatePrice(aggregator, 2300);
+      });
+
+      it("returns the latest answer", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(2300));
+      });
+    });
+
+    describe("when the price moves more than the max deviation", async () => {
+      beforeEach(async () => {
+        await chainlinkSetup.updatePrice(aggregator, 2500);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Deviation from previous round too large");
+      });
+
+      describe("when the owner raises the max deviation", async () => {
+        beforeEach(async () => {
+          await oracle.setMaxDeviation(ether(.3));
+        });
+
+        it("returns the latest answer", async () => {
+          const price = await subject();
+
+          expect(price).to.eq(ether(2500));
+        });
+      });
+
+      describe("when the deviation check is disabled", async () => {
+        beforeEach(async () => {
+          oracle = await chainlinkSetup.createOracle(aggregator, "ETH / USD", chainlinkSetup.maxStaleness, ZERO);
+        });
+
+        it("returns the latest answer", async () => {
+          const price = await subject();
+
+          expect(price).to.eq(ether(2500));
+        });
+      });
+    });
+
+    describe("when the answer is older than the max staleness", async () => {
+      beforeEach(async () => {
+        await increaseTimeAsync(chainlinkSetup.maxStaleness.add(1));
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Answer is stale");
+      });
+    });
+
+    describe("when the round is not complete", async () => {
+      beforeEach(async () => {
+        const latestRoundId = await aggregator.latestRoundId();
+        await aggregator.setRoundData(latestRoundId.add(1), 2000 * 10 ** 8, ZERO, ZERO, latestRoundId);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Round not complete");
+      });
+    });
+
+    describe("when the answer was carried over from a previous round", async () => {
+      beforeEach(async () => {
+        const latestRoundId = await aggregator.latestRoundId();
+        const latestUpdatedAt = await aggregator.latestUpdatedAt();
+        await aggregator.setRoundData(latestRoundId.add(1), 2000 * 10 ** 8, latestUpdatedAt, latestUpdatedAt, latestRoundId);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Round not complete");
+      });
+    });
+
+    describe("when the answer is not positive", async () => {
+      beforeEach(async () => {
+        await aggregator.setLatestAnswer(ZERO);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Answer must be positive");
+      });
+    });
+  });
+
+  describe("when used as a PriceOracle source", async () => {
+    beforeEach(async () => {
+      await setup.priceOracle.editPair(setup.weth.address, setup.usdc.address, chainlinkSetup.ethUsdOracle.address);
+    });
+
+    it("should value Sets with the Chainlink price", async () => {
+      const setToken = await setup.createSetToken([setup.weth.address], [ether(1)], [setup.issuanceModule.address]);
+
+      const valuation = await setup.setValuer.calculateSetTokenValuation(setToken.address, setup.usdc.address);
+
+      expect(valuation).to.eq(ether(2000));
+    });
+  });
+});
@@ -0,0 +1,612 @@
+import "module-alias/register";
+import { BigNumber, ContractTransaction } from "ethers";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { MedianOracle, OracleAdapterMock, OracleMock } from "@utils/contracts";
+import { ONE, THREE, TWO, ZERO } from "@utils/constants";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("MedianOracle", () => {
+  let owner: Account;
+  let wrappedETH: Account;
+  let usdc: Account;
+  let attacker: Account;
+
+  let oracleOne: OracleMock;
+  let oracleTwo: OracleMock;
+  let oracleThree: OracleMock;
+  let oracleAdapter: OracleAdapterMock;
+  let maxDeviation: BigNumber;
+  let quorum: BigNumber;
+
+  let medianOracle: MedianOracle;
+  let deployer: DeployHelper;
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  beforeEach(async () => {
+    [owner, wrappedETH, usdc, attacker] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    oracleOne = await deployer.mocks.deployOracleMock(ether(100));
+    oracleTwo = await deployer.mocks.deployOracleMock(ether(101));
+    oracleThree = await deployer.mocks.deployOracleMock(ether(103));
+    oracleAdapter = await deployer.mocks.deployOracleAdapterMock(wrappedETH.address, ether(102));
+    maxDeviation = ether(.05);
+    quorum = THREE;
+
+    medianOracle = await deployer.oracles.deployMedianOracle(
+      wrappedETH.address,
+      usdc.address,
+      [oracleOne.address, oracleTwo.address, oracleThree.address],
+      [oracleAdapter.address],
+      maxDeviation,
+      quorum,
+      "ETH / USD Median Oracle"
+    );
+  });
+
+  describe("constructor", async () => {
+    let subjectOracles: Address[];
+    let subjectAdapters: Address[];
+    let subjectMaxDeviation: BigNumber;
+    let subjectQuorum: BigNumber;
+
+    beforeEach(async () => {
+      subjectOracles = [oracleOne.address, oracleTwo.address];
+      subjectAdapters = [oracleAdapter.address];
+      subjectMaxDeviation = ether(.1);
+      subjectQuorum = TWO;
+    });
+
+    async function subject(): Promise<MedianOracle> {
+      return deployer.oracles.deployMedianOracle(
+        wrappedETH.address,
+        usdc.address,
+        subjectOracles,
+        subjectAdapters,
+        subjectMaxDeviation,
+        subjectQuorum,
+        "ETH / USD Median Oracle"
+      );
+    }
+
+    it("should have the correct asset pair and data description", async () => {
+      const oracle = await subject();
+
+      expect(await oracle.assetOne()).to.eq(wrappedETH.address);
+      expect(await oracle.assetTwo()).to.eq(usdc.address);
+      expect(await oracle.dataDescription()).to.eq("ETH / USD Median Oracle");
+    });
+
+    it("should have the correct sources", async () => {
+      const oracle = await subject();
+
+      expect(await oracle.getOracles()).to.deep.eq(subjectOracles);
+      expect(await oracle.getAdapters()).to.deep.eq(subjectAdapters);
+    });
+
+    it("should have the correct max deviation and quorum", async () => {
+      const oracle = await subject();
+
+      expect(await oracle.maxDeviation()).to.eq(subjectMaxDeviation);
+      expect(await oracle.quorum()).to.eq(subjectQuorum);
+    });
+
+    describe("when there are only adapters", async () => {
+      beforeEach(async () => {
+        subjectOracles = [];
+        subjectQuorum = ONE;
+      });
+
+      it("should have the correct sources", async () => {
+        const oracle = await subject();
+
+        expect(await oracle.getOracles()).to.deep.eq([]);
+        expect(await oracle.getAdapters()).to.deep.eq(subjectAdapters);
+      });
+    });
+
+    describe("when there are no sources", async () => {
+      beforeEach(async () => {
+        subjectOracles = [];
+        subjectAdapters = [];
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle: Must have at least one source.");
+      });
+    });
+
+    describe("when an oracle is duplicated", async () => {
+      beforeEach(async () => {
+        subjectOracles = [oracleOne.address, oracleOne.address];
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle: Duplicate oracles.");
+      });
+    });
+
+    describe("when an adapter is duplicated", async () => {
+      beforeEach(async () => {
+        subjectAdapters = [oracleAdapter.address, oracleAdapter.address];
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle: Duplicate adapters.");
+      });
+    });
+
+    describe("when the max deviation is 0", async () => {
+      beforeEach(async () => {
+        subjectMaxDeviation = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle: Max deviation must be greater than 0.");
+      });
+    });
+
+    describe("when the quorum is 0", async () => {
+      beforeEach(async () => {
+        subjectQuorum = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle: Invalid quorum.");
+      });
+    });
+
+    describe("when the quorum is greater than the number of sources", async () => {
+      beforeEach(async () => {
+        subjectQuorum = BigNumber.from(4);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle: Invalid quorum.");
+      });
+    });
+  });
+
+  describe("read", async () => {
+    async function subject(): Promise<BigNumber> {
+      return medianOracle.read();
+    }
+
+    it("should return the average of the middle prices", async () => {
+      const price = await subject();
+
+      expect(price).to.eq(ether(101.5));
+    });
+
+    describe("when there is an odd number of sources", async () => {
+      beforeEach(async () => {
+        await medianOracle.removeAdapter(oracleAdapter.address);
+      });
+
+      it("should return the middle price", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(101));
+      });
+    });
+
+    describe("when a source moves within the max deviation", async () => {
+      beforeEach(async () => {
+        await oracleThree.updatePrice(ether(105));
+      });
+
+      it("should return the median", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(101.5));
+      });
+    });
+
+    describe("when a single source is an outlier and a quorum agrees", async () => {
+      beforeEach(async () => {
+        await oracleThree.updatePrice(ether(120));
+      });
+
+      it("should ignore the outlier", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(101.5));
+      });
+    });
+
+    describe("when fewer sources than the quorum are within the max deviation", async () => {
+      beforeEach(async () => {
+        await oracleThree.updatePrice(ether(120));
+        await oracleTwo.updatePrice(ether(130));
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.read: Sources disagree.");
+      });
+    });
+
+    describe("when the median is 0", async () => {
+      beforeEach(async () => {
+        await medianOracle.removeAdapter(oracleAdapter.address);
+        await oracleOne.updatePrice(ZERO);
+        await oracleTwo.updatePrice(ZERO);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.read: Median must be greater than 0.");
+      });
+    });
+
+    describe("when an adapter can't price the pair and the other sources meet the quorum", async () => {
+      beforeEach(async () => {
+        const otherAdapter = await deployer.mocks.deployOracleAdapterMock(usdc.address, ether(1));
+        await medianOracle.addAdapter(otherAdapter.address);
+      });
+
+      it("should return the median of the other sources", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(101.5));
+      });
+    });
+
+    describe("when an oracle reverts and the other sources meet the quorum", async () => {
+      beforeEach(async () => {
+        // The adapter mock has no read function, so reading it as an oracle reverts
+        await medianOracle.addOracle(oracleAdapter.address);
+      });
+
+      it("should return the median of the other sources", async () => {
+        const price = await subject();
+
+        expect(price).to.eq(ether(101.5));
+      });
+    });
+
+    describe("when too few sources return a price to meet the quorum", async () => {
+      beforeEach(async () => {
+        const otherAdapter = await deployer.mocks.deployOracleAdapterMock(usdc.address, ether(1));
+        await medianOracle.addAdapter(otherAdapter.address);
+        await medianOracle.editQuorum(BigNumber.from(5));
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.read: Too few sources returned a price.");
+      });
+    });
+  });
+
+  describe("getPrices", async () => {
+    it("should return the prices of every source sorted ascending", async () => {
+      const prices = await medianOracle.getPrices();
+
+      expect(JSON.stringify(prices)).to.eq(JSON.stringify([ether(100), ether(101), ether(102), ether(103)]));
+    });
+
+    describe("when an adapter can't price the pair", async () => {
+      beforeEach(async () => {
+        const otherAdapter = await deployer.mocks.deployOracleAdapterMock(usdc.address, ether(1));
+        await medianOracle.addAdapter(otherAdapter.address);
+      });
+
+      it("should leave the adapter out", async () => {
+        const prices = await medianOracle.getPrices();
+
+        expect(JSON.stringify(prices)).to.eq(JSON.stringify([ether(100), ether(101), ether(102), ether(103)]));
+      });
+    });
+  });
+
+  describe("addOracle", async () => {
+    let subjectOracle: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectOracle = (await deployer.mocks.deployOracleMock(ether(101))).address;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return medianOracle.connect(subjectCaller.wallet).addOracle(subjectOracle);
+    }
+
+    it("should add the new oracle", async () => {
+      await subject();
+
+      const oracles = await medianOracle.getOracles();
+      expect(oracles).to.deep.eq([oracleOne.address, oracleTwo.address, oracleThree.address, subjectOracle]);
+    });
+
+    it("should emit an OracleAdded event", async () => {
+      await expect(subject()).to.emit(medianOracle, "OracleAdded").withArgs(subjectOracle);
+    });
+
+    describe("when the oracle already exists", async () => {
+      beforeEach(async () => {
+        subjectOracle = oracleOne.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.addOracle: Oracle already exists.");
+      });
+    });
+
+    describe("when the caller is not owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("removeOracle", async () => {
+    let subjectOracle: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectOracle = oracleThree.address;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return medianOracle.connect(subjectCaller.wallet).removeOracle(subjectOracle);
+    }
+
+    it("should remove the oracle", async () => {
+      await subject();
+
+      const oracles = await medianOracle.getOracles();
+      expect(oracles).to.deep.eq([oracleOne.address, oracleTwo.address]);
+    });
+
+    it("should emit an OracleRemoved event", async () => {
+      await expect(subject()).to.emit(medianOracle, "OracleRemoved").withArgs(subjectOracle);
+    });
+
+    describe("when the oracle does not exist", async () => {
+      beforeEach(async () => {
+        subjectOracle = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.removeOracle: Oracle does not exist.");
+      });
+    });
+
+    describe("when removing the oracle would leave fewer sources than the quorum", async () => {
+      beforeEach(async () => {
+        await medianOracle.editQuorum(BigNumber.from(4));
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.removeOracle: Sources would fall below quorum.");
+      });
+    });
+
+    describe("when the caller is not owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("addAdapter", async () => {
+    let subjectAdapter: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectAdapter = (await deployer.mocks.deployOracleAdapterMock(wrappedETH.address, ether(101))).address;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return medianOracle.connect(subjectCaller.wallet).addAdapter(subjectAdapter);
+    }
+
+    it("should add the new adapter", async () => {
+      await subject();
+
+      const adapters = await medianOracle.getAdapters();
+      expect(adapters).to.deep.eq([oracleAdapter.address, subjectAdapter]);
+    });
+
+    it("should emit an AdapterAdded event", async () => {
+      await expect(subject()).to.emit(medianOracle, "AdapterAdded").withArgs(subjectAdapter);
+    });
+
+    describe("when the adapter already exists", async () => {
+      beforeEach(async () => {
+        subjectAdapter = oracleAdapter.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.addAdapter: Adapter already exists.");
+      });
+    });
+
+    describe("when the caller is not owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("removeAdapter", async () => {
+    let subjectAdapter: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectAdapter = oracleAdapter.address;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return medianOracle.connect(subjectCaller.wallet).removeAdapter(subjectAdapter);
+    }
+
+    it("should remove the adapter", async () => {
+      await subject();
+
+      const adapters = await medianOracle.getAdapters();
+      expect(adapters).to.deep.eq([]);
+    });
+
+    it("should emit an AdapterRemoved event", async () => {
+      await expect(subject()).to.emit(medianOracle, "AdapterRemoved").withArgs(subjectAdapter);
+    });
+
+    describe("when the adapter does not exist", async () => {
+      beforeEach(async () => {
+        subjectAdapter = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.removeAdapter: Adapter does not exist.");
+      });
+    });
+
+    describe("when removing the adapter would leave fewer sources than the quorum", async () => {
+      beforeEach(async () => {
+        await medianOracle.editQuorum(BigNumber.from(4));
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.removeAdapter: Sources would fall below quorum.");
+      });
+    });
+
+    describe("when the caller is not owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("editMaxDeviation", async () => {
+    let subjectMaxDeviation: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectMaxDeviation = ether(.25);
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return medianOracle.connect(subjectCaller.wallet).editMaxDeviation(subjectMaxDeviation);
+    }
+
+    it("should change the max deviation", async () => {
+      await subject();
+
+      expect(await medianOracle.maxDeviation()).to.eq(subjectMaxDeviation);
+    });
+
+    it("should emit a MaxDeviationEdited event", async () => {
+      await expect(subject()).to.emit(medianOracle, "MaxDeviationEdited").withArgs(subjectMaxDeviation);
+    });
+
+    describe("when the max deviation is 0", async () => {
+      beforeEach(async () => {
+        subjectMaxDeviation = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.editMaxDeviation: Max deviation must be greater than 0.");
+      });
+    });
+
+    describe("when the caller is not owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("editQuorum", async () => {
+    let subjectQuorum: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectQuorum = TWO;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<ContractTransaction> {
+      return medianOracle.connect(subjectCaller.wallet).editQuorum(subjectQuorum);
+    }
+
+    it("should change the quorum", async () => {
+      await subject();
+
+      expect(await medianOracle.quorum()).to.eq(subjectQuorum);
+    });
+
+    it("should emit a QuorumEdited event", async () => {
+      await expect(subject()).to.emit(medianOracle, "QuorumEdited").withArgs(subjectQuorum);
+    });
+
+    describe("when the quorum is 0", async () => {
+      beforeEach(async () => {
+        subjectQuorum = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.editQuorum: Invalid quorum.");
+      });
+    });
+
+    describe("when the quorum is greater than the number of sources", async () => {
+      beforeEach(async () => {
+        subjectQuorum = BigNumber.from(5);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("MedianOracle.editQuorum: Invalid quorum.");
+      });
+    });
+
+    describe("when the caller is not owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+});
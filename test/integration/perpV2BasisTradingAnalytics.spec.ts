@@ -0,0 +1,426 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import {
+  PerpV2BasisTradingPeriodReport,
+  PerpV2BasisTradingReport,
+  PerpV2BasisTradingSnapshot,
+} from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ONE, ONE_DAY_IN_SECONDS, ZERO } from "@utils/constants";
+import {
+  DebtIssuanceMock,
+  PerpV2BasisTradingModule,
+  SetToken,
+  StandardTokenMock,
+} from "@utils/contracts";
+import { PerpV2BaseToken } from "@utils/contracts/perpV2";
+import DeployHelper from "@utils/deploys";
+import { PerpV2BasisTradingAnalytics } from "@utils/common";
+import { ether, preciseDiv, preciseMul, usdc as usdcUnits } from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAccounts,
+  getPerpV2Fixture,
+  getProvider,
+  getRandomAccount,
+  getSystemFixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { PerpV2Fixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("PerpV2BasisTradingAnalytics", () => {
+  let owner: Account;
+  let maker: Account;
+  let otherTrader: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let perpSetup: PerpV2Fixture;
+
+  let perpBasisTradingModule: PerpV2BasisTradingModule;
+  let debtIssuanceMock: DebtIssuanceMock;
+  let setToken: SetToken;
+  let vETH: PerpV2BaseToken;
+  let usdc: StandardTokenMock;
+
+  // Last block before each step of the basis trade
+  let depositBlock: number;
+  let fundingBlock: number;
+  let withdrawFundingBlock: number;
+  let issueBlock: number;
+  let issuedCollateral: BigNumber;
+
+  cacheBeforeEach(async () => {
+    [owner, maker, otherTrader] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    perpSetup = getPerpV2Fixture(owner.address);
+    await perpSetup.initialize(maker, otherTrader);
+    await perpSetup.clearingHouseConfig.setMaxFundingRate(usdcUnits(0.1));
+
+    vETH = perpSetup.vETH;
+    usdc = perpSetup.usdc;
+
+    await perpSetup.setBaseTokenOraclePrice(vETH, usdcUnits(10));
+    await perpSetup.initializePoolWithLiquidityWide(vETH, ether(10_000), ether(100_000));
+
+    debtIssuanceMock = await deployer.mocks.deployDebtIssuanceMock();
+    await setup.controller.addModule(debtIssuanceMock.address);
+
+    const positionLib = await deployer.libraries.deployPositionV2();
+    const perpLib = await deployer.libraries.deployPerpV2LibraryV2();
+    const perpPositionsLib = await deployer.libraries.deployPerpV2Positions();
+
+    perpBasisTradingModule = await deployer.modules.deployPerpV2BasisTradingModule(
+      setup.controller.address,
+      perpSetup.vault.address,
+      perpSetup.quoter.address,
+      perpSetup.marketRegistry.address,
+      BigNumber.from(2),
+      "contracts/protocol/lib/PositionV2.sol:PositionV2",
+      positionLib.address,
+      "contracts/protocol/integration/lib/PerpV2LibraryV2.sol:PerpV2LibraryV2",
+      perpLib.address,
+      "contracts/protocol/integration/lib/PerpV2Positions.sol:PerpV2Positions",
+      perpPositionsLib.address
+    );
+    await setup.controller.addModule(perpBasisTradingModule.address);
+    await setup.integrationRegistry.addIntegration(
+      perpBasisTradingModule.address,
+      "DefaultIssuanceModule",
+      debtIssuanceMock.address
+    );
+
+    // 0.1% protocol fee on trades and 5% of performance fees
+    await setup.controller.addFee(perpBasisTradingModule.address, ZERO, ether(.001));
+    await setup.controller.addFee(perpBasisTradingModule.address, ONE, ether(.05));
+
+    setToken = await setup.createSetToken(
+      [usdc.address],
+      [usdcUnits(100)],
+      [perpBasisTradingModule.address, debtIssuanceMock.address, setup.issuanceModule.address]
+    );
+    await debtIssuanceMock.initialize(setToken.address);
+    await perpBasisTradingModule.updateAllowedSetToken(setToken.address, true);
+    await perpBasisTradingModule["initialize(address,(address,uint256,uint256))"](
+      setToken.address,
+      {
+        feeRecipient: owner.address,
+        maxPerformanceFeePercentage: ether(.2),
+        performanceFeePercentage: ether(.1),
+      }
+    );
+
+    await usdc.approve(setup.issuanceModule.address, usdcUnits(1000));
+    await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+    await setup.issuanceModule.issue(setToken.address, ether(2), owner.address);
+    await perpBasisTradingModule.deposit(setToken.address, usdcUnits(10));
+    depositBlock = await getProvider().getBlockNumber();
+
+    // Long 1 vETH per Set, then move the index price above the mark price for a day to accrue positive funding
+    await perpBasisTradingModule.tradeAndTrackFunding(setToken.address, vETH.address, ether(1), ether(10.15));
+    await perpSetup.setBaseTokenOraclePrice(vETH, usdcUnits(11.5));
+    await increaseTimeAsync(ONE_DAY_IN_SECONDS);
+    fundingBlock = await getProvider().getBlockNumber();
+
+    await perpBasisTradingModule.withdrawFundingAndAccrueFees(setToken.address, usdcUnits(0.1));
+    withdrawFundingBlock = await getProvider().getBlockNumber();
+
+    // BasicIssuanceModule rejects components with external positions, so the owner issues 1 Set as a module by
+    // transferring in its default USDC unit
+    await setup.controller.addModule(owner.address);
+    await setToken.addModule(owner.address);
+    await setToken.initializeModule();
+
+    issuedCollateral = await setToken.getDefaultPositionRealUnit(usdc.address);
+    await usdc.transfer(setToken.address, issuedCollateral);
+    await setToken.mint(owner.address, ether(1));
+    issueBlock = await getProvider().getBlockNumber();
+  });
+
+  function getComponentSum(report: PerpV2BasisTradingPeriodReport): BigNumber {
+    return report.fundingEarned
+      .sub(report.performanceFees)
+      .sub(report.tradingSlippage)
+      .add(report.realizedPnl)
+      .add(report.unrealizedPnl)
+      .add(report.capitalFlows);
+  }
+
+  describe("#getSnapshot", async () => {
+    let subjectBlockNumber: number | undefined;
+
+    beforeEach(async () => {
+      subjectBlockNumber = undefined;
+    });
+
+    async function subject(): Promise<PerpV2BasisTradingSnapshot> {
+      return new PerpV2BasisTradingAnalytics(perpBasisTradingModule, setToken).getSnapshot(subjectBlockNumber);
+    }
+
+    it("should value the Perp account and the Set's USDC", async () => {
+      const snapshot = await subject();
+
+      const accountInfo = await perpBasisTradingModule.getAccountInfo(setToken.address);
+      const [positionInfo] = await perpBasisTradingModule.getPositionNotionalInfo(setToken.address);
+      const positionValue = preciseMul(positionInfo.baseBalance, ether(11.5));
+      const expectedNetAssetValue = (await usdc.balanceOf(setToken.address)).mul(BigNumber.from(10).pow(12))
+        .add(accountInfo.collateralBalance)
+        .add(accountInfo.owedRealizedPnl)
+        .add(accountInfo.pendingFundingPayments)
+        .add(positionValue)
+        .add(positionInfo.quoteBalance);
+
+      expect(snapshot.blockNumber).to.eq(issueBlock);
+      expect(snapshot.totalSupply).to.eq(ether(3));
+      expect(snapshot.positions.length).to.eq(1);
+      expect(snapshot.positions[0].baseToken).to.eq(vETH.address);
+      expect(snapshot.positions[0].indexPrice).to.eq(ether(11.5));
+      expect(snapshot.positions[0].positionValue).to.eq(positionValue);
+      expect(snapshot.unrealizedPnl).to.eq(positionValue.add(positionInfo.quoteBalance));
+      expect(snapshot.netAssetValue).to.eq(expectedNetAssetValue);
+      expect(snapshot.netAssetValuePerSet).to.eq(preciseDiv(expectedNetAssetValue, ether(3)));
+    });
+
+    it("should read the tracked settled funding", async () => {
+      const snapshot = await subject();
+
+      expect(snapshot.settledFunding).to.eq(await perpBasisTradingModule.settledFunding(setToken.address));
+      expect(snapshot.updatedSettledFunding).to.eq(await perpBasisTradingModule.getUpdatedSettledFunding(setToken.address));
+    });
+
+    describe("when reading a past block", async () => {
+      beforeEach(async () => {
+        subjectBlockNumber = depositBlock;
+      });
+
+      it("should return the state at that block", async () => {
+        const snapshot = await subject();
+
+        expect(snapshot.blockNumber).to.eq(depositBlock);
+        expect(snapshot.totalSupply).to.eq(ether(2));
+        expect(snapshot.positions).to.be.empty;
+        expect(snapshot.setCollateralBalance).to.eq(ether(180));
+        expect(snapshot.collateralBalance).to.eq(ether(20));
+        expect(snapshot.netAssetValue).to.eq(ether(200));
+        expect(snapshot.netAssetValuePerSet).to.eq(ether(100));
+      });
+    });
+  });
+
+  describe("#getPeriodReport", async () => {
+    let analytics: PerpV2BasisTradingAnalytics;
+    let subjectStart: PerpV2BasisTradingSnapshot;
+    let subjectEnd: PerpV2BasisTradingSnapshot;
+
+    beforeEach(async () => {
+      analytics = new PerpV2BasisTradingAnalytics(perpBasisTradingModule, setToken);
+    });
+
+    async function subject(): Promise<PerpV2BasisTradingPeriodReport> {
+      return analytics.getPeriodReport(subjectStart, subjectEnd);
+    }
+
+    describe("when the period includes a trade and accrued funding", async () => {
+      beforeEach(async () => {
+        subjectStart = await analytics.getSnapshot(depositBlock);
+        subjectEnd = await analytics.getSnapshot(fundingBlock);
+      });
+
+      it("should attribute the accrued funding", async () => {
+        const report = await subject();
+
+        expect(report.fundingEarned).to.be.gt(ZERO);
+        expect(report.fundingEarned).to.eq(subjectEnd.pendingFundingPayments);
+        expect(report.fundingWithdrawn).to.eq(ZERO);
+        expect(report.annualizedFundingYield).to.be.gt(ZERO);
+      });
+
+      it("should price the trade against the index price, including the protocol fee", async () => {
+        const report = await subject();
+
+        const [tradeEvent] = await perpBasisTradingModule.queryFilter(
+          perpBasisTradingModule.filters.PerpTraded(setToken.address),
+          depositBlock + 1,
+          fundingBlock
+        );
+        const expectedSlippage = tradeEvent.args._deltaQuote
+          .sub(preciseMul(tradeEvent.args._deltaBase, ether(10)))
+          .add(tradeEvent.args._protocolFee.mul(BigNumber.from(10).pow(12)));
+
+        expect(report.tradeCount).to.eq(1);
+        expect(report.tradingSlippage).to.be.gt(ZERO);
+        expect(report.tradingSlippage).to.eq(expectedSlippage);
+      });
+
+      it("should attribute the index price move to unrealized PnL", async () => {
+        const report = await subject();
+
+        // Perp exchange fees may be booked to the quote balance rather than the traded quote
+        const expectedUnrealizedPnl = preciseMul(ether(2), ether(1.5));
+        const tolerance = preciseMul(ether(20), perpSetup.feeTierPercent);
+        expect(report.unrealizedPnl.sub(expectedUnrealizedPnl).abs()).to.be.lte(tolerance);
+        expect(report.realizedPnl.abs()).to.be.lte(tolerance);
+      });
+
+      it("should not report fees or capital flows", async () => {
+        const report = await subject();
+
+        expect(report.performanceFees).to.eq(ZERO);
+        expect(report.capitalFlows).to.eq(ZERO);
+      });
+
+      it("should sum the components to the net asset value change", async () => {
+        const report = await subject();
+
+        expect(report.netAssetValueChange).to.eq(subjectEnd.netAssetValue.sub(subjectStart.netAssetValue));
+        expect(getComponentSum(report)).to.eq(report.netAssetValueChange);
+      });
+    });
+
+    describe("when the period includes a funding withdrawal", async () => {
+      beforeEach(async () => {
+        subjectStart = await analytics.getSnapshot(fundingBlock);
+        subjectEnd = await analytics.getSnapshot(withdrawFundingBlock);
+      });
+
+      it("should attribute the performance fees", async () => {
+        const report = await subject();
+
+        expect(report.fundingWithdrawn).to.eq(ether(0.1));
+        expect(report.performanceFees).to.eq(ether(0.01));
+        expect(report.managerFees).to.eq(ether(0.0095));
+        expect(report.protocolFees).to.eq(ether(0.0005));
+      });
+
+      it("should include the withdrawn funding in the funding earned", async () => {
+        const report = await subject();
+
+        expect(report.fundingEarned).to.eq(
+          subjectEnd.updatedSettledFunding.sub(subjectStart.updatedSettledFunding).add(ether(0.1))
+        );
+        expect(report.realizedPnl.abs()).to.be.lte(ether(0.000001));
+      });
+
+      it("should not report trades, unrealized PnL or capital flows", async () => {
+        const report = await subject();
+
+        expect(report.tradeCount).to.eq(0);
+        expect(report.tradingSlippage).to.eq(ZERO);
+        expect(report.unrealizedPnl).to.eq(ZERO);
+        expect(report.capitalFlows).to.eq(ZERO);
+      });
+
+      it("should sum the components to the net asset value change", async () => {
+        const report = await subject();
+
+        expect(getComponentSum(report)).to.eq(report.netAssetValueChange);
+      });
+    });
+
+    describe("when the period includes an issuance", async () => {
+      beforeEach(async () => {
+        subjectStart = await analytics.getSnapshot(withdrawFundingBlock);
+        subjectEnd = await analytics.getSnapshot(issueBlock);
+      });
+
+      it("should attribute the issued USDC to capital flows", async () => {
+        const report = await subject();
+
+        expect(report.capitalFlows).to.eq(issuedCollateral.mul(BigNumber.from(10).pow(12)));
+        expect(report.realizedPnl).to.eq(ZERO);
+        expect(report.netAssetValuePerSetEnd).to.eq(preciseDiv(subjectEnd.netAssetValue, ether(3)));
+      });
+
+      it("should sum the components to the net asset value change", async () => {
+        const report = await subject();
+
+        expect(getComponentSum(report)).to.eq(report.netAssetValueChange);
+      });
+    });
+
+    describe("when the snapshots are of another SetToken", async () => {
+      beforeEach(async () => {
+        subjectStart = { ...await analytics.getSnapshot(depositBlock), setToken: (await getRandomAccount()).address };
+        subjectEnd = await analytics.getSnapshot(fundingBlock);
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("Snapshots must be of the analyzed SetToken");
+      });
+    });
+
+    describe("when the end snapshot is before the start snapshot", async () => {
+      beforeEach(async () => {
+        subjectStart = await analytics.getSnapshot(fundingBlock);
+        subjectEnd = await analytics.getSnapshot(depositBlock);
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("End snapshot must not be before the start snapshot");
+      });
+    });
+  });
+
+  describe("#getReport", async () => {
+    let subjectBlockNumbers: number[];
+
+    beforeEach(async () => {
+      subjectBlockNumbers = [depositBlock, fundingBlock, withdrawFundingBlock, issueBlock];
+    });
+
+    async function subject(): Promise<PerpV2BasisTradingReport> {
+      return new PerpV2BasisTradingAnalytics(perpBasisTradingModule, setToken).getReport(subjectBlockNumbers);
+    }
+
+    it("should report each period between the blocks", async () => {
+      const report = await subject();
+
+      expect(report.snapshots.map(snapshot => snapshot.blockNumber)).to.deep.eq(subjectBlockNumbers);
+      expect(report.periods.length).to.eq(3);
+      expect(report.periods[1].startBlock).to.eq(fundingBlock);
+      expect(report.periods[1].endBlock).to.eq(withdrawFundingBlock);
+    });
+
+    it("should total the periods", async () => {
+      const report = await subject();
+
+      const sum = (field: keyof PerpV2BasisTradingPeriodReport) => report.periods.reduce(
+        (total, period) => total.add(period[field] as BigNumber),
+        ZERO
+      );
+
+      expect(report.total.startBlock).to.eq(depositBlock);
+      expect(report.total.endBlock).to.eq(issueBlock);
+      expect(report.total.netAssetValueChange).to.eq(sum("netAssetValueChange"));
+      expect(report.total.fundingEarned).to.eq(sum("fundingEarned"));
+      expect(report.total.performanceFees).to.eq(sum("performanceFees"));
+      expect(report.total.tradingSlippage).to.eq(sum("tradingSlippage"));
+      expect(report.total.realizedPnl).to.eq(sum("realizedPnl"));
+      expect(report.total.unrealizedPnl).to.eq(sum("unrealizedPnl"));
+      expect(report.total.capitalFlows).to.eq(sum("capitalFlows"));
+    });
+
+    describe("when fewer than two blocks are passed", async () => {
+      beforeEach(async () => {
+        subjectBlockNumbers = [depositBlock];
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("A report needs at least two blocks");
+      });
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { PerpV2IssuanceQuote } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MAX_UINT_256, PRECISE_UNIT, ZERO, ZERO_BYTES } from "@utils/constants";
+import {
+  PerpV2LeverageModuleV2,
+  SetToken,
+  SlippageIssuanceModule,
+  StandardTokenMock,
+} from "@utils/contracts";
+import { PerpV2BaseToken } from "@utils/contracts/perpV2";
+import DeployHelper from "@utils/deploys";
+import { calculateMaxIssueQuantity, leverUp, PerpV2IssuanceQuoter } from "@utils/common";
+import { ether, preciseDiv, preciseMul, preciseMulCeil, usdc as usdcUnits } from "@utils/index";
+import {
+  cacheBeforeEach,
+  getAccounts,
+  getPerpV2Fixture,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { PerpV2Fixture, SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("PerpV2IssuanceQuoter", () => {
+  let owner: Account;
+  let maker: Account;
+  let otherTrader: Account;
+  let feeRecipient: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let perpSetup: PerpV2Fixture;
+
+  let perpLeverageModule: PerpV2LeverageModuleV2;
+  let slippageIssuanceModule: SlippageIssuanceModule;
+  let vETH: PerpV2BaseToken;
+  let usdc: StandardTokenMock;
+
+  cacheBeforeEach(async () => {
+    [owner, maker, otherTrader, feeRecipient] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    perpSetup = getPerpV2Fixture(owner.address);
+    await perpSetup.initialize(maker, otherTrader);
+
+    // No funding, so quotes stay valid in the next block
+    await perpSetup.clearingHouseConfig.setMaxFundingRate(ZERO);
+
+    vETH = perpSetup.vETH;
+    usdc = perpSetup.usdc;
+
+    await perpSetup.setBaseTokenOraclePrice(vETH, usdcUnits(10));
+    await perpSetup.initializePoolWithLiquidityWide(vETH, ether(10_000), ether(100_000));
+
+    const positionLib = await deployer.libraries.deployPositionV2();
+    const perpLib = await deployer.libraries.deployPerpV2LibraryV2();
+    const perpPositionsLib = await deployer.libraries.deployPerpV2Positions();
+
+    perpLeverageModule = await deployer.modules.deployPerpV2LeverageModuleV2(
+      setup.controller.address,
+      perpSetup.vault.address,
+      perpSetup.quoter.address,
+      perpSetup.marketRegistry.address,
+      BigNumber.from(3),
+      "contracts/protocol/lib/PositionV2.sol:PositionV2",
+      positionLib.address,
+      "contracts/protocol/integration/lib/PerpV2LibraryV2.sol:PerpV2LibraryV2",
+      perpLib.address,
+      "contracts/protocol/integration/lib/PerpV2Positions.sol:PerpV2Positions",
+      perpPositionsLib.address,
+    );
+    await setup.controller.addModule(perpLeverageModule.address);
+
+    slippageIssuanceModule = await deployer.modules.deploySlippageIssuanceModule(setup.controller.address);
+    await setup.controller.addModule(slippageIssuanceModule.address);
+
+    await setup.integrationRegistry.addIntegration(
+      perpLeverageModule.address,
+      "DefaultIssuanceModule",
+      slippageIssuanceModule.address
+    );
+  });
+
+  // Creates a SetToken of 10 USDC per Set on SlippageIssuanceModule with 0.5% issue and redeem fees, and issues 1 Set.
+  // The issue fee is minted to the fee recipient, so the supply is 1.005.
+  async function createPerpSetToken(): Promise<SetToken> {
+    const setToken = await setup.createSetToken(
+      [usdc.address],
+      [usdcUnits(10)],
+      [perpLeverageModule.address, slippageIssuanceModule.address]
+    );
+    await slippageIssuanceModule.initialize(
+      setToken.address,
+      ether(0.02),
+      ether(0.005),
+      ether(0.005),
+      feeRecipient.address,
+      ADDRESS_ZERO
+    );
+    await perpLeverageModule.updateAllowedSetToken(setToken.address, true);
+    await perpLeverageModule.initialize(setToken.address);
+
+    await usdc.approve(slippageIssuanceModule.address, usdcUnits(1000));
+    await slippageIssuanceModule.issueWithSlippage(setToken.address, ether(1), [], [], owner.address);
+
+    return setToken;
+  }
+
+  describe("when the Set has a levered Perp position", async () => {
+    let setToken: SetToken;
+
+    cacheBeforeEach(async () => {
+      setToken = await createPerpSetToken();
+
+      await perpLeverageModule.deposit(setToken.address, usdcUnits(10));
+      await leverUp(setToken, perpLeverageModule, perpSetup, owner, vETH.address, 2, ether(.02), true);
+    });
+
+    describe("#getIssueQuote", async () => {
+      let subjectQuantity: BigNumber;
+      let subjectSlippageTolerance: BigNumber;
+
+      beforeEach(async () => {
+        subjectQuantity = ether(1);
+        subjectSlippageTolerance = ether(0.01);
+      });
+
+      async function subject(): Promise<PerpV2IssuanceQuote> {
+        const quoter = await PerpV2IssuanceQuoter.fromModules(perpLeverageModule, slippageIssuanceModule);
+        return quoter.getIssueQuote(setToken.address, subjectQuantity, subjectSlippageTolerance);
+      }
+
+      it("should quote the USDC transferred in by issueWithSlippage", async () => {
+        const quote = await subject();
+
+        const usdcBalanceBefore = await usdc.balanceOf(owner.address);
+        await slippageIssuanceModule.issueWithSlippage(
+          setToken.address,
+          subjectQuantity,
+          quote.checkedComponents,
+          quote.tokenAmountLimits,
+          owner.address
+        );
+        const usdcBalanceAfter = await usdc.balanceOf(owner.address);
+
+        expect(quote.collateralToken).to.eq(usdc.address);
+        expect(quote.collateralQuantity).to.be.gt(ZERO);
+        expect(usdcBalanceBefore.sub(usdcBalanceAfter)).to.eq(quote.collateralQuantity);
+      });
+
+      it("should include the issue fee in the total quantity", async () => {
+        const quote = await subject();
+
+        expect(quote.isIssue).to.be.true;
+        expect(quote.totalQuantity).to.eq(preciseMul(subjectQuantity, ether(1.005)));
+        expect(quote.managerFee.add(quote.protocolFee)).to.eq(preciseMul(subjectQuantity, ether(0.005)));
+      });
+
+      it("should allow the slippage tolerance over the quoted USDC", async () => {
+        const quote = await subject();
+
+        expect(quote.checkedComponents).to.deep.eq([usdc.address]);
+        expect(quote.tokenAmountLimits).to.deep.eq([
+          preciseMulCeil(quote.collateralQuantity, PRECISE_UNIT.add(subjectSlippageTolerance)),
+        ]);
+      });
+
+      it("should quote the price impact of buying the position's base", async () => {
+        const quote = await subject();
+
+        const [positionInfo] = await perpLeverageModule.getPositionNotionalInfo(setToken.address);
+        const basePositionUnit = preciseDiv(positionInfo.baseBalance, await setToken.totalSupply());
+        const expectedBaseQuantity = preciseMul(basePositionUnit, quote.totalQuantity);
+        // The module simulates issuance trades with the Quoter, which can round 1 wei apart from the ClearingHouse
+        const { deltaAvailableQuote: deltaQuote } = await perpSetup.quoter.callStatic.swap({
+          baseToken: vETH.address,
+          isBaseToQuote: false,
+          isExactInput: false,
+          amount: expectedBaseQuantity,
+          sqrtPriceLimitX96: ZERO,
+        });
+        const markPrice = await perpSetup.getSpotPrice(vETH.address);
+
+        expect(quote.markets.length).to.eq(1);
+        expect(quote.markets[0].baseToken).to.eq(vETH.address);
+        expect(quote.markets[0].baseQuantity).to.eq(expectedBaseQuantity);
+        expect(quote.markets[0].quoteQuantity).to.eq(deltaQuote);
+        expect(quote.markets[0].markPrice).to.eq(markPrice);
+        expect(quote.markets[0].markPriceAfter).to.be.gt(markPrice);
+        expect(quote.markets[0].averagePrice).to.eq(preciseDiv(deltaQuote, expectedBaseQuantity));
+        expect(quote.markets[0].slippage).to.eq(deltaQuote.sub(preciseMul(expectedBaseQuantity, markPrice)));
+        expect(quote.markets[0].priceImpact).to.be.gt(ZERO);
+      });
+
+      it("should return the max issue quantity at the slippage tolerance", async () => {
+        const quote = await subject();
+
+        const expectedMaxIssueQuantity = await calculateMaxIssueQuantity(
+          setToken,
+          subjectSlippageTolerance,
+          perpLeverageModule,
+          perpSetup
+        );
+        expect(quote.maxIssueQuantity).to.eq(expectedMaxIssueQuantity);
+      });
+
+      describe("when the Perp system addresses are passed directly", async () => {
+        it("should return the same quote", async () => {
+          const quoter = new PerpV2IssuanceQuoter(
+            owner.wallet,
+            { perpModule: perpLeverageModule.address, slippageIssuanceModule: slippageIssuanceModule.address },
+            {
+              accountBalance: perpSetup.accountBalance.address,
+              clearingHouseConfig: perpSetup.clearingHouseConfig.address,
+              exchange: perpSetup.exchange.address,
+              quoter: perpSetup.quoter.address,
+            }
+          );
+
+          const quote = await quoter.getIssueQuote(setToken.address, subjectQuantity, subjectSlippageTolerance);
+          const expectedQuote = await subject();
+
+          expect(quote.collateralQuantity).to.eq(expectedQuote.collateralQuantity);
+          expect(quote.markets[0].quoteQuantity).to.eq(expectedQuote.markets[0].quoteQuantity);
+          expect(quote.maxIssueQuantity).to.eq(expectedQuote.maxIssueQuantity);
+        });
+      });
+
+      describe("when the price moves against the issuer after quoting", async () => {
+        it("should make issueWithSlippage revert", async () => {
+          const quote = await subject();
+
+          await perpSetup.clearingHouse.connect(otherTrader.wallet).openPosition({
+            baseToken: vETH.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: ether(1000),
+            oppositeAmountBound: ZERO,
+            deadline: MAX_UINT_256,
+            sqrtPriceLimitX96: ZERO,
+            referralCode: ZERO_BYTES,
+          });
+
+          await expect(slippageIssuanceModule.issueWithSlippage(
+            setToken.address,
+            subjectQuantity,
+            quote.checkedComponents,
+            quote.tokenAmountLimits,
+            owner.address
+          )).to.be.revertedWith("Too many tokens required for issuance");
+        });
+      });
+    });
+
+    describe("#getRedeemQuote", async () => {
+      let subjectQuantity: BigNumber;
+      let subjectSlippageTolerance: BigNumber;
+
+      beforeEach(async () => {
+        subjectQuantity = ether(0.5);
+        subjectSlippageTolerance = ether(0.01);
+      });
+
+      async function subject(): Promise<PerpV2IssuanceQuote> {
+        const quoter = await PerpV2IssuanceQuoter.fromModules(perpLeverageModule, slippageIssuanceModule);
+        return quoter.getRedeemQuote(setToken.address, subjectQuantity, subjectSlippageTolerance);
+      }
+
+      it("should quote the USDC returned by redeemWithSlippage", async () => {
+        const quote = await subject();
+
+        const usdcBalanceBefore = await usdc.balanceOf(owner.address);
+        await slippageIssuanceModule.redeemWithSlippage(
+          setToken.address,
+          subjectQuantity,
+          quote.checkedComponents,
+          quote.tokenAmountLimits,
+          owner.address
+        );
+        const usdcBalanceAfter = await usdc.balanceOf(owner.address);
+
+        expect(quote.isIssue).to.be.false;
+        expect(quote.totalQuantity).to.eq(preciseMul(subjectQuantity, ether(0.995)));
+        expect(usdcBalanceAfter.sub(usdcBalanceBefore)).to.eq(quote.collateralQuantity);
+      });
+
+      it("should allow the slippage tolerance under the quoted USDC", async () => {
+        const quote = await subject();
+
+        expect(quote.tokenAmountLimits).to.deep.eq([
+          preciseMul(quote.collateralQuantity, PRECISE_UNIT.sub(subjectSlippageTolerance)),
+        ]);
+      });
+
+      it("should quote selling the position's base", async () => {
+        const quote = await subject();
+
+        const [positionInfo] = await perpLeverageModule.getPositionNotionalInfo(setToken.address);
+        const basePositionUnit = preciseDiv(positionInfo.baseBalance, await setToken.totalSupply());
+        const expectedBaseQuantity = preciseMul(basePositionUnit, quote.totalQuantity).mul(-1);
+        const markPrice = await perpSetup.getSpotPrice(vETH.address);
+
+        expect(quote.markets[0].baseQuantity).to.eq(expectedBaseQuantity);
+        expect(quote.markets[0].markPriceAfter).to.be.lt(markPrice);
+        expect(quote.markets[0].slippage).to.eq(
+          preciseMul(expectedBaseQuantity.abs(), markPrice).sub(quote.markets[0].quoteQuantity)
+        );
+        expect(quote.markets[0].slippage).to.be.gt(ZERO);
+      });
+    });
+  });
+
+  describe("when the Set has no Perp positions", async () => {
+    let setToken: SetToken;
+
+    cacheBeforeEach(async () => {
+      setToken = await createPerpSetToken();
+    });
+
+    async function subject(): Promise<PerpV2IssuanceQuote> {
+      const quoter = await PerpV2IssuanceQuoter.fromModules(perpLeverageModule, slippageIssuanceModule);
+      return quoter.getIssueQuote(setToken.address, ether(2), ether(0.01));
+    }
+
+    it("should quote the default USDC position without market impact", async () => {
+      const quote = await subject();
+
+      expect(quote.collateralQuantity).to.eq(preciseMulCeil(usdcUnits(10), preciseMul(ether(2), ether(1.005))));
+      expect(quote.markets).to.be.empty;
+      expect(quote.maxIssueQuantity).to.eq(MAX_UINT_256);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import "module-alias/register";
+
+import { Account } from "@utils/test/types";
+import { PRECISE_UNIT } from "@utils/constants";
+import { OracleAdapterMock, OracleMock, StandardTokenMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { PriceOracleGraph } from "@utils/common";
+import { ether, preciseDiv } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { formatUnpriceableSets } from "@utils/tasks/priceOracleUtils";
+import { Address, PriceOracleRoute, UnpriceableSetToken } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("PriceOracleGraph", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let unpricedToken: StandardTokenMock;
+  let unpricedTokenOracle: OracleMock;
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    // Priced in WETH only, so it can't be priced in the USDC master quote asset
+    unpricedToken = await deployer.mocks.deployTokenMock(owner.address);
+    unpricedTokenOracle = await deployer.mocks.deployOracleMock(ether(.01));
+    await setup.priceOracle.addPair(unpricedToken.address, setup.weth.address, unpricedTokenOracle.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#fromPriceOracle", async () => {
+    let subjectAssets: Address[];
+
+    beforeEach(async () => {
+      subjectAssets = [];
+    });
+
+    async function subject(): Promise<PriceOracleGraph> {
+      return PriceOracleGraph.fromPriceOracle(setup.priceOracle, subjectAssets);
+    }
+
+    it("should read the master quote asset, adapters and pairs added by event", async () => {
+      const graph = await subject();
+
+      expect(graph.masterQuoteAsset).to.eq(setup.usdc.address);
+      expect(graph.adapters).to.deep.eq([]);
+      expect(graph.getOracle(unpricedToken.address, setup.weth.address)).to.eq(unpricedTokenOracle.address);
+      expect(graph.getGraph()[unpricedToken.address]).to.deep.eq([setup.weth.address]);
+    });
+
+    it("should not know constructor pairs of assets that weren't probed", async () => {
+      const graph = await subject();
+
+      expect(graph.getOracle(setup.wbtc.address, setup.usdc.address)).to.be.undefined;
+    });
+
+    describe("when assets are passed", async () => {
+      beforeEach(async () => {
+        subjectAssets = [setup.wbtc.address];
+      });
+
+      it("should read their constructor pairs with the master quote asset", async () => {
+        const graph = await subject();
+
+        expect(graph.getOracle(setup.wbtc.address, setup.usdc.address)).to.eq(setup.BTC_USD_Oracle.address);
+      });
+    });
+
+    describe("when pairs are edited and removed", async () => {
+      let newOracle: OracleMock;
+
+      beforeEach(async () => {
+        newOracle = await deployer.mocks.deployOracleMock(ether(.02));
+        await setup.priceOracle.editPair(unpricedToken.address, setup.weth.address, newOracle.address);
+        await setup.priceOracle.addPair(setup.dai.address, setup.weth.address, newOracle.address);
+        await setup.priceOracle.removePair(setup.dai.address, setup.weth.address);
+      });
+
+      it("should replay the events in order", async () => {
+        const graph = await subject();
+
+        expect(graph.getOracle(unpricedToken.address, setup.weth.address)).to.eq(newOracle.address);
+        expect(graph.getOracle(setup.dai.address, setup.weth.address)).to.be.undefined;
+      });
+    });
+  });
+
+  describe("#getRoute", async () => {
+    let subjectAssetOne: Address;
+    let subjectAssetTwo: Address;
+
+    beforeEach(async () => {
+      subjectAssetOne = setup.weth.address;
+      subjectAssetTwo = setup.usdc.address;
+    });
+
+    async function subject(): Promise<PriceOracleRoute> {
+      const graph = await PriceOracleGraph.fromPriceOracle(setup.priceOracle);
+      return graph.getRoute(subjectAssetOne, subjectAssetTwo);
+    }
+
+    it("should read direct pairs", async () => {
+      const route = await subject();
+
+      expect(route.type).to.eq("direct");
+      expect(route.sources).to.deep.eq([setup.ETH_USD_Oracle.address]);
+      expect(route.price).to.eq(ether(230));
+    });
+
+    describe("when only the inverse pair exists", async () => {
+      beforeEach(async () => {
+        subjectAssetOne = setup.usdc.address;
+        subjectAssetTwo = setup.weth.address;
+      });
+
+      it("should invert the price", async () => {
+        const route = await subject();
+
+        expect(route.type).to.eq("inverse");
+        expect(route.price).to.eq(preciseDiv(PRECISE_UNIT, ether(230)));
+      });
+
+      describe("when the oracle returns 0", async () => {
+        beforeEach(async () => {
+          await setup.ETH_USD_Oracle.updatePrice(0);
+        });
+
+        it("should return the revert of getPrice", async () => {
+          const route = await subject();
+
+          expect(route.price).to.be.undefined;
+          expect(route.error).to.eq("SafeMath: division by zero");
+        });
+      });
+    });
+
+    describe("when both assets are priced in the master quote asset", async () => {
+      beforeEach(async () => {
+        subjectAssetTwo = setup.wbtc.address;
+      });
+
+      it("should price through the master quote asset", async () => {
+        const route = await subject();
+
+        expect(route.type).to.eq("masterQuote");
+        expect(route.sources).to.deep.eq([setup.ETH_USD_Oracle.address, setup.BTC_USD_Oracle.address]);
+        expect(route.price).to.eq(preciseDiv(ether(230), ether(9000)));
+      });
+
+      it("should match the price of the PriceOracle", async () => {
+        const route = await subject();
+
+        // The owner is not a system contract, so compare with the SetValuer's price of 1 WETH
+        const setToken = await setup.createSetToken([setup.weth.address], [ether(1)], [setup.issuanceModule.address]);
+        expect(route.price).to.eq(await setup.setValuer.calculateSetTokenValuation(setToken.address, setup.wbtc.address));
+      });
+    });
+
+    describe("when an adapter prices the pair", async () => {
+      let adapter: OracleAdapterMock;
+
+      beforeEach(async () => {
+        adapter = await deployer.mocks.deployOracleAdapterMock(unpricedToken.address, ether(3));
+        await setup.priceOracle.addAdapter(adapter.address);
+
+        subjectAssetOne = unpricedToken.address;
+      });
+
+      it("should use the adapter price", async () => {
+        const route = await subject();
+
+        expect(route.type).to.eq("adapter");
+        expect(route.sources).to.deep.eq([adapter.address]);
+        expect(route.price).to.eq(ether(3));
+      });
+    });
+
+    describe("when there is no route", async () => {
+      beforeEach(async () => {
+        subjectAssetOne = unpricedToken.address;
+      });
+
+      it("should explain the missing master quote pair", async () => {
+        const route = await subject();
+
+        expect(route.type).to.be.undefined;
+        expect(route.price).to.be.undefined;
+        expect(route.explanation).to.eq(
+          `${unpricedToken.address}/${setup.usdc.address} has no direct or inverse pair, ${unpricedToken.address} has no pair ` +
+          `with the master quote asset ${setup.usdc.address} (it only has pairs with ${setup.weth.address}) and none of the 0 ` +
+          "adapters price it"
+        );
+      });
+    });
+  });
+
+  describe("#getUnreachableAssets", async () => {
+    it("should return the assets that can't be priced in the master quote asset", async () => {
+      const graph = await PriceOracleGraph.fromPriceOracle(setup.priceOracle);
+
+      const unreachableAssets = await graph.getUnreachableAssets([setup.weth.address, unpricedToken.address, setup.dai.address]);
+
+      expect(unreachableAssets).to.deep.eq([unpricedToken.address]);
+    });
+  });
+
+  describe("#findUnpriceableSetTokens", async () => {
+    let pricedSetToken: Address;
+    let unpricedSetToken: Address;
+
+    beforeEach(async () => {
+      pricedSetToken = (await setup.createSetToken([setup.weth.address], [ether(1)], [setup.issuanceModule.address])).address;
+      unpricedSetToken = (await setup.createSetToken(
+        [setup.weth.address, unpricedToken.address],
+        [ether(1), ether(1)],
+        [setup.issuanceModule.address]
+      )).address;
+    });
+
+    async function subject(): Promise<UnpriceableSetToken[]> {
+      const graph = await PriceOracleGraph.fromPriceOracle(setup.priceOracle);
+      return graph.findUnpriceableSetTokens(setup.setValuer.address, [pricedSetToken, unpricedSetToken]);
+    }
+
+    it("should flag Sets the SetValuer can't value with their unpriceable components", async () => {
+      const unpriceableSetTokens = await subject();
+
+      expect(unpriceableSetTokens.length).to.eq(1);
+      expect(unpriceableSetTokens[0].setToken).to.eq(unpricedSetToken);
+      expect(unpriceableSetTokens[0].error).to.include("PriceOracle.getPrice: Price not found.");
+      expect(unpriceableSetTokens[0].failingRoutes.map(route => route.assetOne)).to.deep.eq([unpricedToken.address]);
+    });
+
+    it("should be summarized by the task", async () => {
+      const summary = formatUnpriceableSets(await subject(), 2, { [unpricedToken.address]: "unpricedToken" });
+
+      expect(summary.split("\n")[0]).to.eq("1 of 2 Sets can't be valued:");
+      expect(summary).to.include(`unpricedToken (${unpricedToken.address}) has no pair with the master quote asset`);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import "module-alias/register";
+import { BigNumber, ContractTransaction, Overrides } from "ethers";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import { SetToken } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import { ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getBlockchainUtils,
+  getProtocolUtils,
+  getProvider,
+  getSystemFixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { ProtocolEvent, SetTokenCreatedEvent } from "@utils/types";
+
+const expect = getWaffleExpect();
+const protocolUtils = getProtocolUtils();
+const blockchain = getBlockchainUtils();
+const provider = getProvider();
+
+describe("ProtocolUtils", () => {
+  let owner: Account;
+  let manager: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  before(async () => {
+    [
+      owner,
+      manager,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  async function createSetToken(name: string, overrides: Overrides = {}): Promise<ContractTransaction> {
+    return setup.factory.create(
+      [setup.weth.address],
+      [ether(1)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address],
+      manager.address,
+      name,
+      "SET",
+      overrides
+    );
+  }
+
+  describe("#getCreatedSetTokenAddress", async () => {
+    let subjectTxHash: string;
+    let subjectFactory: string | undefined;
+
+    beforeEach(async () => {
+      subjectTxHash = (await createSetToken("SetToken")).hash;
+      subjectFactory = undefined;
+    });
+
+    async function subject(): Promise<string> {
+      return protocolUtils.getCreatedSetTokenAddress(subjectTxHash, subjectFactory);
+    }
+
+    it("should return the address of the created Set", async () => {
+      const setToken = await subject();
+
+      expect(await setup.controller.isSet(setToken)).to.be.true;
+    });
+
+    describe("when several Sets are created in the same block", async () => {
+      let firstTxHash: string;
+      let secondTxHash: string;
+
+      beforeEach(async () => {
+        await blockchain.setAutomineAsync(false);
+
+        // The default gas limit is the block gas limit, which would push the second creation to the next block
+        try {
+          firstTxHash = (await createSetToken("First", { gasLimit: 5000000 })).hash;
+          secondTxHash = (await createSetToken("Second", { gasLimit: 5000000 })).hash;
+          await blockchain.waitBlocksAsync(1);
+        } finally {
+          await blockchain.setAutomineAsync(true);
+        }
+      });
+
+      it("should return the Set created by each transaction", async () => {
+        const firstSetToken = await protocolUtils.getCreatedSetTokenAddress(firstTxHash);
+        const secondSetToken = await protocolUtils.getCreatedSetTokenAddress(secondTxHash);
+
+        const firstReceipt = await provider.getTransactionReceipt(firstTxHash);
+        const secondReceipt = await provider.getTransactionReceipt(secondTxHash);
+        expect(firstReceipt.blockNumber).to.eq(secondReceipt.blockNumber);
+
+        expect(firstSetToken).to.not.eq(secondSetToken);
+        expect(await (await deployer.core.getSetToken(firstSetToken)).name()).to.eq("First");
+        expect(await (await deployer.core.getSetToken(secondSetToken)).name()).to.eq("Second");
+      });
+    });
+
+    describe("when the factory is passed", async () => {
+      beforeEach(async () => {
+        subjectFactory = setup.factory.address;
+      });
+
+      it("should return the address of the created Set", async () => {
+        const setToken = await subject();
+
+        expect(await setup.controller.isSet(setToken)).to.be.true;
+      });
+
+      describe("when the Set was created by another factory", async () => {
+        beforeEach(async () => {
+          subjectFactory = owner.address;
+        });
+
+        it("should throw", async () => {
+          const error = await subject().catch(e => e);
+
+          expect(error.message).to.eq(`No SetTokenCreated event in transaction ${subjectTxHash}`);
+        });
+      });
+    });
+
+    describe("when the transaction creates no Set", async () => {
+      beforeEach(async () => {
+        subjectTxHash = (await setup.weth.approve(manager.address, ether(1))).hash;
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq(`No SetTokenCreated event in transaction ${subjectTxHash}`);
+      });
+    });
+
+    describe("when the transaction hash is missing", async () => {
+      beforeEach(async () => {
+        subjectTxHash = "";
+      });
+
+      it("should throw", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("Invalid transaction hash");
+      });
+    });
+  });
+
+  describe("#getCreatedSetTokens", async () => {
+    let subjectTxHash: string;
+
+    beforeEach(async () => {
+      subjectTxHash = (await createSetToken("SetToken")).hash;
+    });
+
+    async function subject(): Promise<SetTokenCreatedEvent[]> {
+      return protocolUtils.getCreatedSetTokens(subjectTxHash);
+    }
+
+    it("should decode the SetTokenCreated event", async () => {
+      const [createdSetToken, ...rest] = await subject();
+
+      expect(rest).to.be.empty;
+      expect(createdSetToken.factory).to.eq(setup.factory.address);
+      expect(createdSetToken.manager).to.eq(manager.address);
+      expect(createdSetToken.name).to.eq("SetToken");
+      expect(createdSetToken.symbol).to.eq("SET");
+      expect(await setup.controller.isSet(createdSetToken.setToken)).to.be.true;
+    });
+  });
+
+  describe("#decodeProtocolEvents", async () => {
+    let setToken: SetToken;
+
+    beforeEach(async () => {
+      const setTokenAddress = await protocolUtils.getCreatedSetTokenAddress((await createSetToken("SetToken")).hash);
+      setToken = await deployer.core.getSetToken(setTokenAddress);
+    });
+
+    describe("when decoding a Set creation", async () => {
+      it("should decode the events of the factory and the controller", async () => {
+        const tx = await createSetToken("SetToken");
+        const events = protocolUtils.decodeProtocolEvents(await tx.wait());
+
+        expect(events.map(event => [event.contract, event.name])).to.deep.eq([
+          ["Controller", "SetAdded"],
+          ["SetTokenCreator", "SetTokenCreated"],
+        ]);
+      });
+    });
+
+    describe("when decoding a module initialization", async () => {
+      it("should decode typed module events of the SetToken", async () => {
+        const tx = await setup.issuanceModule.connect(manager.wallet).initialize(setToken.address, ADDRESS_ZERO);
+
+        const [event, ...rest]: ProtocolEvent<{ _module: string }>[] = protocolUtils.decodeProtocolEvents(
+          await tx.wait(),
+          { contract: "SetToken", name: "ModuleInitialized" }
+        );
+
+        expect(rest).to.be.empty;
+        expect(event.address).to.eq(setToken.address);
+        expect(event.signature).to.eq("ModuleInitialized(address)");
+        expect(event.args._module).to.eq(setup.issuanceModule.address);
+      });
+    });
+
+    describe("when decoding a fee accrual", async () => {
+      beforeEach(async () => {
+        await setup.streamingFeeModule.connect(manager.wallet).initialize(setToken.address, {
+          feeRecipient: manager.address,
+          maxStreamingFeePercentage: ether(.1),
+          streamingFeePercentage: ether(.02),
+          lastStreamingFeeTimestamp: ZERO,
+        });
+        await increaseTimeAsync(ONE_YEAR_IN_SECONDS);
+      });
+
+      it("should decode the position edit and the module event", async () => {
+        const tx = await setup.streamingFeeModule.accrueFee(setToken.address);
+        const receipt = await tx.wait();
+
+        const [positionEdit] = protocolUtils.decodeProtocolEvents<{ _newMultiplier: BigNumber }>(
+          receipt,
+          { name: "PositionMultiplierEdited" }
+        );
+        const [feeActualized] = protocolUtils.decodeProtocolEvents(receipt, { contract: "StreamingFeeModule" });
+
+        expect(positionEdit.args._newMultiplier).to.eq(await setToken.positionMultiplier());
+        expect(feeActualized.name).to.eq("FeeActualized");
+        expect(feeActualized.args._setToken).to.eq(setToken.address);
+      });
+    });
+
+    describe("when filtering by address", async () => {
+      it("should only return events emitted by that address", async () => {
+        const tx = await createSetToken("SetToken");
+        const events = protocolUtils.decodeProtocolEvents(await tx.wait(), { address: setup.controller.address });
+
+        expect(events.map(event => event.name)).to.deep.eq(["SetAdded"]);
+      });
+    });
+  });
+});
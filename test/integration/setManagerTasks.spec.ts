@@ -0,0 +1,229 @@
+import "module-alias/register";
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { run } from "hardhat";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, MODULE_STATE } from "@utils/constants";
+import { SetToken } from "@utils/contracts";
+import DeployHelper, { resolveAddress, writeAddressBook } from "@utils/deploys";
+import { ether } from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { SystemAddressBook } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("Set manager tasks", () => {
+  let owner: Account;
+  let manager: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let book: SystemAddressBook;
+  let addressBookPath: string;
+  let setToken: SetToken;
+
+  before(async () => {
+    [
+      owner,
+      manager,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    book = {
+      controller: setup.controller.address,
+      setTokenCreator: setup.factory.address,
+      integrationRegistry: setup.integrationRegistry.address,
+      priceOracle: setup.priceOracle.address,
+      externals: { weth: setup.weth.address, usdc: setup.usdc.address },
+      libraries: {},
+      oracles: {},
+      modules: { basicIssuanceModule: setup.issuanceModule.address, streamingFeeModule: setup.streamingFeeModule.address },
+      integrations: {},
+    };
+    addressBookPath = path.join(os.tmpdir(), `addresses-${Date.now()}.json`);
+    writeAddressBook(addressBookPath, book);
+
+    setToken = await setup.createSetToken(
+      [setup.weth.address],
+      [ether(1)],
+      [setup.issuanceModule.address],
+      manager.address
+    );
+    await setup.issuanceModule.connect(manager.wallet).initialize(setToken.address, ADDRESS_ZERO);
+  });
+
+  after(async () => {
+    fs.removeSync(addressBookPath);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#resolveAddress", async () => {
+    it("should resolve top level contracts and section entries", async () => {
+      expect(resolveAddress(book, "setTokenCreator")).to.eq(setup.factory.address);
+      expect(resolveAddress(book, "streamingFeeModule")).to.eq(setup.streamingFeeModule.address);
+      expect(resolveAddress(book, "usdc")).to.eq(setup.usdc.address);
+    });
+
+    it("should checksum addresses", async () => {
+      expect(resolveAddress(undefined, setup.weth.address.toLowerCase())).to.eq(setup.weth.address);
+    });
+
+    describe("when the name is not in the address book", async () => {
+      it("should throw", async () => {
+        expect(() => resolveAddress(book, "tradeModule")).to.throw("Unknown address book entry tradeModule");
+      });
+    });
+  });
+
+  describe("set:create", async () => {
+    async function subject(dryRun: boolean): Promise<void> {
+      await run("set:create", {
+        components: "weth,usdc",
+        units: "1,100",
+        modules: "basicIssuanceModule,streamingFeeModule",
+        manager: manager.address,
+        symbol: "NEW",
+        addressBook: addressBookPath,
+        dryRun,
+      });
+    }
+
+    it("should create a Set with units in whole tokens", async () => {
+      const setCount = (await setup.controller.getSets()).length;
+
+      await subject(false);
+
+      const sets = await setup.controller.getSets();
+      const createdSetToken = await deployer.core.getSetToken(sets[sets.length - 1]);
+      expect(sets.length).to.eq(setCount + 1);
+      expect(await createdSetToken.symbol()).to.eq("NEW");
+      expect(await createdSetToken.manager()).to.eq(manager.address);
+      expect(await createdSetToken.getDefaultPositionRealUnit(setup.usdc.address)).to.eq(100 * 10 ** 6);
+    });
+
+    describe("when it is a dry run", async () => {
+      it("should not create a Set", async () => {
+        const sets = await setup.controller.getSets();
+
+        await subject(true);
+
+        expect(await setup.controller.getSets()).to.deep.eq(sets);
+      });
+    });
+  });
+
+  describe("set:add-module", async () => {
+    async function subject(dryRun: boolean): Promise<void> {
+      await run("set:add-module", {
+        setToken: setToken.address,
+        module: "streamingFeeModule",
+        from: manager.address,
+        addressBook: addressBookPath,
+        dryRun,
+      });
+    }
+
+    it("should add the module as pending", async () => {
+      await subject(false);
+
+      expect(await setToken.moduleStates(setup.streamingFeeModule.address)).to.eq(MODULE_STATE.PENDING);
+    });
+
+    describe("when it is a dry run", async () => {
+      it("should revert the module addition", async () => {
+        await subject(true);
+
+        expect(await setToken.moduleStates(setup.streamingFeeModule.address)).to.eq(MODULE_STATE.NONE);
+      });
+
+      it("should send as the manager without a sender", async () => {
+        await run("set:add-module", {
+          setToken: setToken.address,
+          module: "streamingFeeModule",
+          addressBook: addressBookPath,
+          dryRun: true,
+        });
+
+        expect(await setToken.moduleStates(setup.streamingFeeModule.address)).to.eq(MODULE_STATE.NONE);
+      });
+    });
+
+    describe("when the sender is not the manager", async () => {
+      it("should revert", async () => {
+        await expect(run("set:add-module", {
+          setToken: setToken.address,
+          module: "streamingFeeModule",
+          from: owner.address,
+          addressBook: addressBookPath,
+          dryRun: false,
+        })).to.be.revertedWith("Only manager can call");
+      });
+    });
+  });
+
+  describe("set:issue", async () => {
+    async function subject(dryRun: boolean): Promise<void> {
+      await run("set:issue", {
+        setToken: setToken.address,
+        quantity: "2",
+        type: "basic",
+        from: owner.address,
+        addressBook: addressBookPath,
+        dryRun,
+      });
+    }
+
+    it("should issue the Set to the sender", async () => {
+      await subject(false);
+
+      expect(await setToken.balanceOf(owner.address)).to.eq(ether(2));
+    });
+
+    describe("when it is a dry run", async () => {
+      it("should not issue", async () => {
+        await subject(true);
+
+        expect(await setToken.totalSupply()).to.eq(0);
+      });
+    });
+
+    describe("when the issuance type is unknown", async () => {
+      it("should throw", async () => {
+        const error = await run("set:issue", {
+          setToken: setToken.address,
+          quantity: "2",
+          type: "navIssuance",
+          addressBook: addressBookPath,
+        }).catch(e => e);
+
+        expect(error.message).to.eq("Unknown issuance type navIssuance, expected one of basic, debt, slippage");
+      });
+    });
+  });
+
+  describe("set:set-manager", async () => {
+    it("should transfer management of the Set", async () => {
+      await run("set:set-manager", {
+        setToken: setToken.address,
+        newManager: owner.address,
+        from: manager.address,
+        dryRun: false,
+      });
+
+      expect(await setToken.manager()).to.eq(owner.address);
+    });
+  });
+});
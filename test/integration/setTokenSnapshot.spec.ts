@@ -0,0 +1,195 @@
+import "module-alias/register";
+import { ethers } from "hardhat";
+
+import { Account } from "@utils/test/types";
+import { SetToken } from "@utils/contracts";
+import { ADDRESS_ZERO, MODULE_STATE, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import {
+  diffSetTokenSnapshots,
+  ether,
+  formatSetTokenSnapshotDiff,
+  getSetTokenSnapshot,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  captureSetTokenDiff,
+  getAccounts,
+  getSystemFixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { SetTokenSnapshot, StreamingFeeState } from "@utils/types";
+
+const expect = getWaffleExpect();
+
+describe("SetToken snapshots", () => {
+  let owner: Account;
+  let newManager: Account;
+  let setup: SystemFixture;
+
+  let setToken: SetToken;
+
+  before(async () => {
+    [
+      owner,
+      newManager,
+    ] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    setToken = await setup.createSetToken(
+      [setup.weth.address, setup.usdc.address],
+      [ether(1), usdc(100)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address]
+    );
+
+    await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(setToken.address, {
+      feeRecipient: owner.address,
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    } as StreamingFeeState);
+
+    await setup.approveAndIssueSetToken(setToken, ether(1));
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#getSetTokenSnapshot", async () => {
+    async function subject(): Promise<SetTokenSnapshot> {
+      return getSetTokenSnapshot(setToken, [setup.navIssuanceModule.address]);
+    }
+
+    it("should capture the positions in real units", async () => {
+      const snapshot = await subject();
+
+      expect(snapshot.positions.length).to.eq(2);
+      expect(snapshot.positions[0].component).to.eq(setup.weth.address);
+      expect(snapshot.positions[0].unit).to.eq(ether(1));
+      expect(snapshot.positions[1].component).to.eq(setup.usdc.address);
+      expect(snapshot.positions[1].unit).to.eq(usdc(100));
+    });
+
+    it("should capture the supply, multiplier and manager", async () => {
+      const snapshot = await subject();
+
+      expect(snapshot.totalSupply).to.eq(ether(1));
+      expect(snapshot.positionMultiplier).to.eq(ether(1));
+      expect(snapshot.manager).to.eq(owner.address);
+    });
+
+    it("should capture initialized and tracked module states", async () => {
+      const snapshot = await subject();
+
+      expect(JSON.stringify(snapshot.modules)).to.eq(JSON.stringify([
+        { module: setup.issuanceModule.address, state: MODULE_STATE.INITIALIZED },
+        { module: setup.streamingFeeModule.address, state: MODULE_STATE.INITIALIZED },
+        { module: setup.navIssuanceModule.address, state: MODULE_STATE.NONE },
+      ]));
+    });
+  });
+
+  describe("#diffSetTokenSnapshots", async () => {
+    let previousSnapshot: SetTokenSnapshot;
+
+    beforeEach(async () => {
+      previousSnapshot = await getSetTokenSnapshot(setToken, [setup.navIssuanceModule.address]);
+    });
+
+    async function subject(): Promise<any> {
+      const currentSnapshot = await getSetTokenSnapshot(setToken, [setup.navIssuanceModule.address]);
+      return diffSetTokenSnapshots(previousSnapshot, currentSnapshot);
+    }
+
+    describe("when SetTokens are issued", async () => {
+      beforeEach(async () => {
+        await setup.approveAndIssueSetToken(setToken, ether(2));
+      });
+
+      it("should report the supply change without position changes", async () => {
+        const diff = await subject();
+
+        expect(diff.totalSupply.previous).to.eq(ether(1));
+        expect(diff.totalSupply.current).to.eq(ether(3));
+        expect(diff.positionChanges.length).to.eq(0);
+        expect(diff.positionMultiplier).to.be.undefined;
+      });
+    });
+
+    describe("when streaming fees are accrued", async () => {
+      beforeEach(async () => {
+        await increaseTimeAsync(ONE_YEAR_IN_SECONDS);
+        await setup.streamingFeeModule.accrueFee(setToken.address);
+      });
+
+      it("should report the multiplier decay and unit deltas", async () => {
+        const diff = await subject();
+
+        const wethUnit = await setToken.getDefaultPositionRealUnit(setup.weth.address);
+        const usdcUnit = await setToken.getDefaultPositionRealUnit(setup.usdc.address);
+        expect(diff.positionMultiplier.current).to.eq(await setToken.positionMultiplier());
+        expect(diff.positionChanges[0].delta).to.eq(wethUnit.sub(ether(1)));
+        expect(diff.positionChanges[1].delta).to.eq(usdcUnit.sub(usdc(100)));
+      });
+    });
+
+    describe("when a module is added and the manager changes", async () => {
+      beforeEach(async () => {
+        await setToken.addModule(setup.navIssuanceModule.address);
+        await setToken.setManager(newManager.address);
+      });
+
+      it("should report the module state and manager changes", async () => {
+        const diff = await subject();
+
+        expect(JSON.stringify(diff.moduleStateChanges)).to.eq(JSON.stringify([
+          { module: setup.navIssuanceModule.address, previousState: MODULE_STATE.NONE, currentState: MODULE_STATE.PENDING },
+        ]));
+        expect(diff.manager.previous).to.eq(owner.address);
+        expect(diff.manager.current).to.eq(newManager.address);
+      });
+    });
+  });
+
+  describe("#formatSetTokenSnapshotDiff", async () => {
+    it("should render unit changes in whole tokens", async () => {
+      const diff = await captureSetTokenDiff(setToken, async () => {
+        await increaseTimeAsync(ONE_YEAR_IN_SECONDS);
+        await setup.streamingFeeModule.accrueFee(setToken.address);
+      });
+
+      const wethUnit = await setToken.getDefaultPositionRealUnit(setup.weth.address);
+      const report = formatSetTokenSnapshotDiff(diff, { [setup.weth.address]: 18 }, { [setup.weth.address]: "WETH" });
+
+      expect(report).to.contain(`WETH (default): 1.0 -> ${ethers.utils.formatUnits(wethUnit)}`);
+      expect(report).to.contain("positionMultiplier: 1.0 ->");
+    });
+  });
+
+  describe("#matchSetTokenDiff", async () => {
+    it("should pass when the expected changes match", async () => {
+      const diff = await captureSetTokenDiff(setToken, async () => {
+        await setup.approveAndIssueSetToken(setToken, ether(2));
+      });
+
+      expect(diff).to.matchSetTokenDiff({
+        totalSupply: ether(3),
+        unitDeltas: {},
+        addedComponents: [],
+      });
+    });
+
+    it("should fail when an unlisted position changed", async () => {
+      const diff = await captureSetTokenDiff(setToken, async () => {
+        await increaseTimeAsync(ONE_YEAR_IN_SECONDS);
+        await setup.streamingFeeModule.accrueFee(setToken.address);
+      });
+
+      expect(() => expect(diff).to.matchSetTokenDiff({ unitDeltas: {} })).to.throw("expected SetToken diff to match");
+    });
+  });
+});
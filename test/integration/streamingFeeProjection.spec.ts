@@ -0,0 +1,248 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, ONE_DAY_IN_SECONDS, ONE_YEAR_IN_SECONDS, ZERO } from "@utils/constants";
+import { SetToken } from "@utils/contracts";
+import {
+  ether,
+  getStreamingFeeAccrualCalendar,
+  getStreamingFeeProjectionParams,
+  preciseMul,
+  projectStreamingFees,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getBlockchainUtils,
+  getProtocolUtils,
+  getSystemFixture,
+  getWaffleExpect,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+import { StreamingFeePathPoint, StreamingFeeProjection, StreamingFeeProjectionParams } from "@utils/types";
+
+const expect = getWaffleExpect();
+const blockchain = getBlockchainUtils();
+const protocolUtils = getProtocolUtils();
+
+type AccruedFees = {
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+};
+
+describe("Streaming fee projection", () => {
+  let owner: Account;
+  let feeRecipient: Account;
+  let setup: SystemFixture;
+
+  let setToken: SetToken;
+
+  const ONE_MONTH_IN_SECONDS = ONE_YEAR_IN_SECONDS.div(12);
+
+  before(async () => {
+    [
+      owner,
+      feeRecipient,
+    ] = await getAccounts();
+
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    await setup.controller.addFee(setup.streamingFeeModule.address, ZERO, ether(.15));
+
+    setToken = await setup.createSetToken(
+      [setup.weth.address],
+      [ether(1)],
+      [setup.issuanceModule.address, setup.streamingFeeModule.address]
+    );
+    await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+    await setup.streamingFeeModule.initialize(setToken.address, {
+      feeRecipient: feeRecipient.address,
+      maxStreamingFeePercentage: ether(.1),
+      streamingFeePercentage: ether(.02),
+      lastStreamingFeeTimestamp: ZERO,
+    });
+    await setup.approveAndIssueSetToken(setToken, ether(10));
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  // Runs StreamingFeeModule#accrueFee at each calendar timestamp, applying the path's issuance on the way
+  async function accrueOnChain(params: StreamingFeeProjectionParams): Promise<AccruedFees[]> {
+    const fees: AccruedFees[] = [];
+    const path = params.path || [];
+    const calendar = getStreamingFeeAccrualCalendar(
+      params.feeState.lastStreamingFeeTimestamp,
+      params.endTimestamp,
+      params.accrualInterval
+    );
+
+    for (const timestamp of calendar) {
+      for (const point of path.filter(p => p.timestamp.lte(timestamp) && p.timestamp.gt(timestamp.sub(params.accrualInterval)))) {
+        await blockchain.setNextBlockTimestamp(point.timestamp.toNumber());
+        await setup.approveAndIssueSetToken(setToken, point.netIssuance!);
+      }
+
+      await blockchain.setNextBlockTimestamp(timestamp.toNumber());
+      const receipt = await (await setup.streamingFeeModule.accrueFee(setToken.address)).wait();
+
+      const [feeActualized] = protocolUtils.decodeProtocolEvents(receipt, { name: "FeeActualized" });
+      fees.push({ managerFee: feeActualized.args._managerFee, protocolFee: feeActualized.args._protocolFee });
+    }
+
+    return fees;
+  }
+
+  describe("#getStreamingFeeAccrualCalendar", async () => {
+    let subjectStart: BigNumber;
+    let subjectEnd: BigNumber;
+    let subjectInterval: BigNumber;
+
+    beforeEach(async () => {
+      subjectStart = BigNumber.from(100);
+      subjectEnd = BigNumber.from(110);
+      subjectInterval = BigNumber.from(3);
+    });
+
+    function subject(): BigNumber[] {
+      return getStreamingFeeAccrualCalendar(subjectStart, subjectEnd, subjectInterval);
+    }
+
+    it("should accrue every interval and at the end", async () => {
+      const calendar = subject();
+
+      expect(calendar.map(timestamp => timestamp.toNumber())).to.deep.eq([103, 106, 109, 110]);
+    });
+
+    describe("when the interval is 0", async () => {
+      beforeEach(async () => {
+        subjectInterval = ZERO;
+      });
+
+      it("should throw", async () => {
+        expect(() => subject()).to.throw("Accrual interval must be greater than 0");
+      });
+    });
+  });
+
+  describe("#projectStreamingFees", async () => {
+    let subjectParams: StreamingFeeProjectionParams;
+
+    beforeEach(async () => {
+      const { lastStreamingFeeTimestamp } = await setup.streamingFeeModule.feeStates(setToken.address);
+
+      subjectParams = await getStreamingFeeProjectionParams(
+        setup.streamingFeeModule,
+        setup.controller,
+        setToken,
+        lastStreamingFeeTimestamp.add(ONE_YEAR_IN_SECONDS),
+        ONE_MONTH_IN_SECONDS
+      );
+    });
+
+    function subject(): StreamingFeeProjection {
+      return projectStreamingFees(subjectParams);
+    }
+
+    it("should read the protocol fee from the Controller", async () => {
+      expect(subjectParams.protocolFeePercentage).to.eq(ether(.15));
+    });
+
+    it("should match monthly accruals by the StreamingFeeModule", async () => {
+      const projection = subject();
+
+      const fees = await accrueOnChain(subjectParams);
+
+      expect(projection.accruals.length).to.eq(12);
+      projection.accruals.forEach((accrual, i) => {
+        expect(accrual.managerFee).to.eq(fees[i].managerFee);
+        expect(accrual.protocolFee).to.eq(fees[i].protocolFee);
+      });
+      expect(projection.finalTotalSupply).to.eq(await setToken.totalSupply());
+      expect(projection.finalPositionMultiplier).to.eq(await setToken.positionMultiplier());
+    });
+
+    it("should split fees between the manager and the protocol", async () => {
+      const projection = subject();
+
+      const totalFees = projection.totalManagerFee.add(projection.totalProtocolFee);
+      expect(projection.finalTotalSupply).to.eq(subjectParams.totalSupply.add(totalFees));
+      expect(await setToken.balanceOf(feeRecipient.address)).to.eq(ZERO);
+
+      await accrueOnChain(subjectParams);
+
+      expect(await setToken.balanceOf(feeRecipient.address)).to.eq(projection.totalManagerFee);
+      expect(await setToken.balanceOf(await setup.controller.feeRecipient())).to.eq(projection.totalProtocolFee);
+    });
+
+    it("should decay the position multiplier by less than the annual fee", async () => {
+      const { positionMultiplierDecay } = subject();
+
+      expect(positionMultiplierDecay).to.be.lt(ether(.02));
+      expect(positionMultiplierDecay).to.be.gt(ether(.0198));
+    });
+
+    describe("when fees are accrued once over the year", async () => {
+      beforeEach(async () => {
+        subjectParams.accrualInterval = ONE_YEAR_IN_SECONDS;
+      });
+
+      it("should decay the position multiplier by the annual fee", async () => {
+        const { accruals, positionMultiplierDecay } = subject();
+
+        expect(accruals.length).to.eq(1);
+        expect(positionMultiplierDecay).to.eq(ether(.02));
+      });
+    });
+
+    describe("when Sets are issued between accruals", async () => {
+      beforeEach(async () => {
+        const start = subjectParams.feeState.lastStreamingFeeTimestamp;
+
+        subjectParams.endTimestamp = start.add(ONE_MONTH_IN_SECONDS.mul(3));
+        subjectParams.path = [
+          { timestamp: start.add(ONE_DAY_IN_SECONDS.mul(10)), netIssuance: ether(5) },
+          { timestamp: start.add(ONE_DAY_IN_SECONDS.mul(45)), netIssuance: ether(2) },
+        ];
+      });
+
+      it("should charge fees on the supply at accrual time", async () => {
+        const projection = subject();
+
+        const fees = await accrueOnChain(subjectParams);
+
+        projection.accruals.forEach((accrual, i) => {
+          expect(accrual.managerFee).to.eq(fees[i].managerFee);
+          expect(accrual.protocolFee).to.eq(fees[i].protocolFee);
+        });
+        expect(projection.finalTotalSupply).to.eq(await setToken.totalSupply());
+      });
+    });
+
+    describe("when the path provides NAVs", async () => {
+      let path: StreamingFeePathPoint[];
+
+      beforeEach(async () => {
+        path = [
+          { timestamp: subjectParams.feeState.lastStreamingFeeTimestamp, grossNav: ether(230) },
+          { timestamp: subjectParams.feeState.lastStreamingFeeTimestamp.add(ONE_MONTH_IN_SECONDS.mul(6)), grossNav: ether(300) },
+        ];
+        subjectParams.path = path;
+      });
+
+      it("should value fees at the NAV after each accrual", async () => {
+        const { accruals, totalManagerFeeValue } = subject();
+
+        const [first] = accruals;
+        const last = accruals[accruals.length - 1];
+        expect(first.nav).to.eq(preciseMul(ether(230), first.positionMultiplier));
+        expect(last.nav).to.eq(preciseMul(ether(300), last.positionMultiplier));
+        expect(first.managerFeeValue).to.eq(preciseMul(first.managerFee, first.nav!));
+
+        const expectedTotal = accruals.reduce((total, accrual) => total.add(accrual.managerFeeValue!), ZERO);
+        expect(totalManagerFeeValue).to.eq(expectedTotal);
+      });
+    });
+  });
+});
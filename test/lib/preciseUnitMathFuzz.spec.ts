@@ -0,0 +1,162 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { Account } from "@utils/test/types";
+import { MAX_INT_256, MAX_UINT_256, MIN_INT_256, PRECISE_UNIT, ZERO } from "@utils/constants";
+import { PreciseUnitMathMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  divDown,
+  preciseDiv,
+  preciseDivCeil,
+  preciseDivCeilInt,
+  preciseMul,
+  preciseMulCeil,
+  preciseMulCeilInt,
+} from "@utils/index";
+import {
+  formatFuzzCounterexample,
+  FuzzProperty,
+  getAccounts,
+  getWaffleExpect,
+  runFuzzProperty,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+const fitsUint = (value: BigNumber): boolean => value.gte(0) && value.lte(MAX_UINT_256);
+const fitsInt = (value: BigNumber): boolean => value.gte(MIN_INT_256) && value.lte(MAX_INT_256);
+
+describe("PreciseUnitMath fuzzing", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+
+  let mathMock: PreciseUnitMathMock;
+
+  before(async () => {
+    [
+      owner,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+
+    mathMock = await deployer.mocks.deployPreciseUnitMathMock();
+  });
+
+  function getProperties(): FuzzProperty[] {
+    return [
+      {
+        name: "preciseMul: uint256",
+        argumentTypes: ["uint256", "uint256"],
+        expectRevert: ([a, b]) => !fitsUint(a.mul(b)),
+        expected: ([a, b]) => preciseMul(a, b),
+        actual: ([a, b]) => mathMock.preciseMul(a, b),
+      },
+      {
+        name: "preciseMul: int256",
+        argumentTypes: ["int256", "int256"],
+        expectRevert: ([a, b]) => !fitsInt(a.mul(b)),
+        expected: ([a, b]) => preciseMul(a, b),
+        actual: ([a, b]) => mathMock.preciseMulInt(a, b),
+      },
+      {
+        name: "preciseMulCeil: uint256",
+        argumentTypes: ["uint256", "uint256"],
+        expectRevert: ([a, b]) => !fitsUint(a.mul(b)),
+        expected: ([a, b]) => preciseMulCeil(a, b),
+        actual: ([a, b]) => mathMock.preciseMulCeil(a, b),
+      },
+      {
+        // preciseMulCeilInt rounds away from zero, which is conservativePreciseMul for negative products and
+        // its negation with a negated input for positive products
+        name: "preciseMulCeilInt",
+        argumentTypes: ["int256", "int256"],
+        expectRevert: ([a, b]) => !fitsInt(a.mul(b)),
+        expected: ([a, b]) => preciseMulCeilInt(a, b),
+        actual: async ([a, b]) => a.mul(b).gt(0) ?
+          (await mathMock.conservativePreciseMul(a.mul(-1), b)).mul(-1) :
+          mathMock.conservativePreciseMul(a, b),
+      },
+      {
+        name: "preciseDiv: uint256",
+        argumentTypes: ["uint256", "uint256"],
+        expectRevert: ([a, b]) => b.eq(0) || !fitsUint(a.mul(PRECISE_UNIT)),
+        expected: ([a, b]) => preciseDiv(a, b),
+        actual: ([a, b]) => mathMock["preciseDiv(uint256,uint256)"](a, b),
+      },
+      {
+        name: "preciseDiv: int256",
+        argumentTypes: ["int256", "int256"],
+        expectRevert: ([a, b]) => b.eq(0) || !fitsInt(a.mul(PRECISE_UNIT)),
+        expected: ([a, b]) => preciseDiv(a, b),
+        actual: ([a, b]) => mathMock["preciseDiv(int256,int256)"](a, b),
+      },
+      {
+        name: "preciseDivCeil: uint256",
+        argumentTypes: ["uint256", "uint256"],
+        expectRevert: ([a, b]) => b.eq(0) || !fitsUint(a.mul(PRECISE_UNIT)),
+        expected: ([a, b]) => preciseDivCeil(a, b),
+        actual: ([a, b]) => mathMock.preciseDivCeil(a, b),
+      },
+      {
+        name: "preciseDivCeilInt",
+        argumentTypes: ["int256", "int256"],
+        expectRevert: ([a, b]) => b.eq(0) || !fitsInt(a.mul(PRECISE_UNIT)),
+        expected: ([a, b]) => preciseDivCeilInt(a, b),
+        actual: ([a, b]) => mathMock.preciseDivCeilInt(a, b),
+      },
+      {
+        name: "divDown",
+        argumentTypes: ["int256", "int256"],
+        expectRevert: ([a, b]) => b.eq(0) || (a.eq(MIN_INT_256) && b.eq(-1)),
+        expected: ([a, b]) => divDown(a, b),
+        actual: ([a, b]) => mathMock.divDown(a, b),
+      },
+    ];
+  }
+
+  describe("off-chain helpers", async () => {
+    it("should match PreciseUnitMath for random and boundary inputs", async () => {
+      for (const property of getProperties()) {
+        const counterexample = await runFuzzProperty(property);
+
+        expect(counterexample, counterexample && formatFuzzCounterexample(counterexample)).to.be.undefined;
+      }
+    });
+  });
+
+  describe("#runFuzzProperty", async () => {
+    let subjectProperty: FuzzProperty;
+
+    beforeEach(async () => {
+      // preciseMulCeil does not model preciseMul whenever the product has a remainder
+      subjectProperty = {
+        name: "preciseMul modeled by preciseMulCeil",
+        argumentTypes: ["uint256", "uint256"],
+        expectRevert: ([a, b]) => !fitsUint(a.mul(b)),
+        expected: ([a, b]) => preciseMulCeil(a, b),
+        actual: ([a, b]) => mathMock.preciseMul(a, b),
+      };
+    });
+
+    async function subject(): Promise<any> {
+      return runFuzzProperty(subjectProperty, { seed: 1, runs: 50 });
+    }
+
+    it("should report the minimized counterexample", async () => {
+      const counterexample = await subject();
+
+      expect(counterexample.property).to.eq("preciseMul modeled by preciseMulCeil");
+      expect(counterexample.seed).to.eq(1);
+      expect(JSON.stringify(counterexample.minimizedArgs)).to.eq(JSON.stringify([BigNumber.from(1), BigNumber.from(1)]));
+      expect(counterexample.expected.value).to.eq(BigNumber.from(1));
+      expect(counterexample.actual.value).to.eq(ZERO);
+    });
+
+    it("should render the seed needed to replay the run", async () => {
+      const counterexample = await subject();
+
+      expect(formatFuzzCounterexample(counterexample)).to.contain("(FUZZ_SEED=1)");
+    });
+  });
+});
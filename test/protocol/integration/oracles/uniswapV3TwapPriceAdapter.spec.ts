@@ -0,0 +1,484 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { StandardTokenMock, UniswapV3TwapPriceAdapter } from "@utils/contracts";
+import { UniswapV3Pool } from "@utils/contracts/uniswapV3";
+import { ADDRESS_ZERO, MAX_UINT_256, ONE_DAY_IN_SECONDS, ONE_HOUR_IN_SECONDS, ZERO } from "@utils/constants";
+import DeployHelper from "@utils/deploys";
+import {
+  bitcoin,
+  ether,
+  preciseDiv,
+  usdc,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  getAccounts,
+  getRandomAddress,
+  getSystemFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+  increaseTimeAsync,
+} from "@utils/test/index";
+import { SystemFixture, UniswapV3Fixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("UniswapV3TwapPriceAdapter", () => {
+  let owner: Account;
+  let attacker: Account;
+
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  let twapPriceAdapter: UniswapV3TwapPriceAdapter;
+
+  const minObservationCardinality = 10;
+  const twapWindow = ONE_HOUR_IN_SECONDS;
+
+  // Ticks are 1 bp apart, so TWAPs round to within 1 bp of the pool price
+  const tolerance = (price: BigNumber): BigNumber => price.div(1000);
+
+  before(async () => {
+    [
+      owner,
+      attacker,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(
+      owner,
+      setup.weth,
+      2500,
+      setup.wbtc,
+      35000,
+      setup.dai
+    );
+
+    twapPriceAdapter = await deployer.oracles.deployUniswapV3TwapPriceAdapter(minObservationCardinality);
+    await twapPriceAdapter.addPool(uniswapV3Setup.wethDaiPool.address, twapWindow);
+    await twapPriceAdapter.addPool(uniswapV3Setup.wethWbtcPool.address, twapWindow);
+
+    // Grow the pools' observation buffers, which takes effect on the next observation written by adding liquidity
+    await uniswapV3Setup.wethDaiPool.increaseObservationCardinalityNext(minObservationCardinality);
+    await uniswapV3Setup.wethWbtcPool.increaseObservationCardinalityNext(minObservationCardinality);
+
+    await setup.weth.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await setup.wbtc.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await setup.dai.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await uniswapV3Setup.addLiquidityWide(setup.weth, setup.dai, 3000, ether(100), ether(250000), owner.address);
+    await uniswapV3Setup.addLiquidityWide(setup.weth, setup.wbtc, 3000, ether(100), bitcoin(7), owner.address);
+
+    // Let the pools' oracles cover the TWAP window
+    await increaseTimeAsync(twapWindow);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#constructor", async () => {
+    let subjectMinObservationCardinality: number;
+
+    beforeEach(async () => {
+      subjectMinObservationCardinality = 5;
+    });
+
+    async function subject(): Promise<UniswapV3TwapPriceAdapter> {
+      return deployer.oracles.deployUniswapV3TwapPriceAdapter(subjectMinObservationCardinality);
+    }
+
+    it("should set the correct min observation cardinality", async () => {
+      const adapter = await subject();
+
+      expect(await adapter.minObservationCardinality()).to.eq(subjectMinObservationCardinality);
+    });
+
+    it("should not have any pools", async () => {
+      const adapter = await subject();
+
+      expect(await adapter.getAllowedUniswapPools()).to.deep.eq([]);
+    });
+  });
+
+  describe("#getPrice", async () => {
+    let subjectAssetOne: Address;
+    let subjectAssetTwo: Address;
+
+    beforeEach(async () => {
+      subjectAssetOne = setup.weth.address;
+      subjectAssetTwo = setup.dai.address;
+    });
+
+    async function subject(): Promise<[boolean, BigNumber]> {
+      return twapPriceAdapter.getPrice(subjectAssetOne, subjectAssetTwo);
+    }
+
+    // 1.0001^tick is the price of token0 in token1, which share 18 decimals in the WETH-DAI pool
+    async function getWethDaiSpotPrice(): Promise<BigNumber> {
+      const { tick } = await uniswapV3Setup.wethDaiPool.slot0();
+      const tokenZeroPrice = Math.pow(1.0001, tick);
+      const isWethTokenZero = (await uniswapV3Setup.wethDaiPool.token0()) === setup.weth.address;
+
+      return ether((isWethTokenZero ? tokenZeroPrice : 1 / tokenZeroPrice).toFixed(10));
+    }
+
+    it("should return the TWAP of the pool", async () => {
+      const [found, price] = await subject();
+
+      expect(found).to.be.true;
+      expect(price.sub(ether(2500)).abs()).to.be.lte(tolerance(ether(2500)));
+    });
+
+    describe("when the assets are the other way around", async () => {
+      beforeEach(async () => {
+        subjectAssetOne = setup.dai.address;
+        subjectAssetTwo = setup.weth.address;
+      });
+
+      it("should return the inverse TWAP", async () => {
+        const [found, price] = await subject();
+
+        const expectedPrice = preciseDiv(ether(1), ether(2500));
+        expect(found).to.be.true;
+        expect(price.sub(expectedPrice).abs()).to.be.lte(tolerance(expectedPrice));
+      });
+    });
+
+    describe("when the assets have different decimals", async () => {
+      beforeEach(async () => {
+        subjectAssetTwo = setup.wbtc.address;
+      });
+
+      it("should return the TWAP in precise units", async () => {
+        const [found, price] = await subject();
+
+        const expectedPrice = preciseDiv(ether(2500), ether(35000));
+        expect(found).to.be.true;
+        expect(price.sub(expectedPrice).abs()).to.be.lte(tolerance(expectedPrice));
+      });
+    });
+
+    describe("when the pool is traded", async () => {
+      beforeEach(async () => {
+        await setup.weth.approve(uniswapV3Setup.swapRouter.address, MAX_UINT_256);
+        await uniswapV3Setup.swapRouter.exactInputSingle({
+          tokenIn: setup.weth.address,
+          tokenOut: setup.dai.address,
+          fee: 3000,
+          recipient: owner.address,
+          deadline: MAX_UINT_256,
+          amountIn: ether(20),
+          amountOutMinimum: ZERO,
+          sqrtPriceLimitX96: ZERO,
+        });
+      });
+
+      it("should lag the spot price", async () => {
+        const [, price] = await subject();
+
+        const spotPrice = await getWethDaiSpotPrice();
+        expect(spotPrice).to.be.lt(ether(2000));
+        expect(price.sub(ether(2500)).abs()).to.be.lte(ether(25));
+      });
+
+      describe("when the window has passed", async () => {
+        beforeEach(async () => {
+          await increaseTimeAsync(twapWindow);
+        });
+
+        it("should return the spot price", async () => {
+          const [, price] = await subject();
+
+          const spotPrice = await getWethDaiSpotPrice();
+          expect(price.sub(spotPrice).abs()).to.be.lte(tolerance(spotPrice));
+        });
+      });
+    });
+
+    describe("when no pool trades the pair", async () => {
+      beforeEach(async () => {
+        subjectAssetTwo = setup.usdc.address;
+      });
+
+      it("should return false", async () => {
+        const [found, price] = await subject();
+
+        expect(found).to.be.false;
+        expect(price).to.eq(ZERO);
+      });
+    });
+
+    describe("when the pool's observation cardinality is below the minimum", async () => {
+      beforeEach(async () => {
+        await twapPriceAdapter.updateMinObservationCardinality(minObservationCardinality + 1);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Observation cardinality too low");
+      });
+    });
+
+    describe("when the pool's observations don't cover the window", async () => {
+      beforeEach(async () => {
+        await twapPriceAdapter.updateTwapWindow(uniswapV3Setup.wethDaiPool.address, ONE_DAY_IN_SECONDS);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("OLD");
+      });
+    });
+  });
+
+  describe("#addPool", async () => {
+    let subjectPool: Address;
+    let subjectTwapWindow: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectPool = (await uniswapV3Setup.createNewPair(setup.weth, setup.usdc, 3000, 2500)).address;
+      subjectTwapWindow = ONE_DAY_IN_SECONDS;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return twapPriceAdapter.connect(subjectCaller.wallet).addPool(subjectPool, subjectTwapWindow);
+    }
+
+    it("should add the pool settings", async () => {
+      await subject();
+
+      const [tokenZero, tokenOne] = setup.weth.address.toLowerCase() < setup.usdc.address.toLowerCase()
+        ? [setup.weth.address, setup.usdc.address]
+        : [setup.usdc.address, setup.weth.address];
+      const settings = await twapPriceAdapter.uniswapPoolsToSettings(subjectPool);
+      expect(settings.tokenZero).to.eq(tokenZero);
+      expect(settings.tokenOne).to.eq(tokenOne);
+      expect(settings.tokenZeroBaseUnit).to.eq(tokenZero === setup.weth.address ? ether(1) : usdc(1));
+      expect(settings.tokenOneBaseUnit).to.eq(tokenOne === setup.weth.address ? ether(1) : usdc(1));
+      expect(settings.twapWindow).to.eq(subjectTwapWindow);
+      expect(settings.isValid).to.be.true;
+      expect(await twapPriceAdapter.tokensToUniswapPool(tokenZero, tokenOne)).to.eq(subjectPool);
+    });
+
+    it("should add the pool to the allowed pools", async () => {
+      await subject();
+
+      const allowedPools = await twapPriceAdapter.getAllowedUniswapPools();
+      expect(allowedPools).to.deep.eq([uniswapV3Setup.wethDaiPool.address, uniswapV3Setup.wethWbtcPool.address, subjectPool]);
+    });
+
+    describe("when the pool is already added", async () => {
+      beforeEach(async () => {
+        subjectPool = uniswapV3Setup.wethDaiPool.address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Uniswap pool address already added");
+      });
+    });
+
+    describe("when a pool for the pair is already added", async () => {
+      beforeEach(async () => {
+        subjectPool = (await uniswapV3Setup.createNewPair(setup.weth, setup.dai, 500, 2500)).address;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Uniswap pool for pair already added");
+      });
+    });
+
+    describe("when the TWAP window is 0", async () => {
+      beforeEach(async () => {
+        subjectTwapWindow = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("TWAP window must be greater than 0");
+      });
+    });
+
+    describe("when the caller is not the owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("#removePool", async () => {
+    let subjectPool: Address;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectPool = uniswapV3Setup.wethDaiPool.address;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return twapPriceAdapter.connect(subjectCaller.wallet).removePool(subjectPool);
+    }
+
+    it("should remove the pool settings", async () => {
+      await subject();
+
+      const settings = await twapPriceAdapter.uniswapPoolsToSettings(subjectPool);
+      expect(settings.tokenZero).to.eq(ADDRESS_ZERO);
+      expect(settings.twapWindow).to.eq(ZERO);
+      expect(settings.isValid).to.be.false;
+    });
+
+    it("should remove the pool from the allowed pools", async () => {
+      await subject();
+
+      expect(await twapPriceAdapter.getAllowedUniswapPools()).to.deep.eq([uniswapV3Setup.wethWbtcPool.address]);
+    });
+
+    it("should no longer price the pair", async () => {
+      await subject();
+
+      const [found] = await twapPriceAdapter.getPrice(setup.weth.address, setup.dai.address);
+      expect(found).to.be.false;
+    });
+
+    describe("when the pool is not added", async () => {
+      beforeEach(async () => {
+        subjectPool = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Uniswap pool address does not exist");
+      });
+    });
+
+    describe("when the caller is not the owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("#updateTwapWindow", async () => {
+    let subjectPool: Address;
+    let subjectTwapWindow: BigNumber;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectPool = uniswapV3Setup.wethDaiPool.address;
+      subjectTwapWindow = BigNumber.from(600);
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return twapPriceAdapter.connect(subjectCaller.wallet).updateTwapWindow(subjectPool, subjectTwapWindow);
+    }
+
+    it("should update the TWAP window", async () => {
+      await subject();
+
+      const settings = await twapPriceAdapter.uniswapPoolsToSettings(subjectPool);
+      expect(settings.twapWindow).to.eq(subjectTwapWindow);
+    });
+
+    describe("when the TWAP window is 0", async () => {
+      beforeEach(async () => {
+        subjectTwapWindow = ZERO;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("TWAP window must be greater than 0");
+      });
+    });
+
+    describe("when the pool is not added", async () => {
+      beforeEach(async () => {
+        subjectPool = await getRandomAddress();
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Uniswap pool address does not exist");
+      });
+    });
+
+    describe("when the caller is not the owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("#updateMinObservationCardinality", async () => {
+    let subjectMinObservationCardinality: number;
+    let subjectCaller: Account;
+
+    beforeEach(async () => {
+      subjectMinObservationCardinality = 50;
+      subjectCaller = owner;
+    });
+
+    async function subject(): Promise<any> {
+      return twapPriceAdapter.connect(subjectCaller.wallet).updateMinObservationCardinality(subjectMinObservationCardinality);
+    }
+
+    it("should update the min observation cardinality", async () => {
+      await subject();
+
+      expect(await twapPriceAdapter.minObservationCardinality()).to.eq(subjectMinObservationCardinality);
+    });
+
+    describe("when the caller is not the owner", async () => {
+      beforeEach(async () => {
+        subjectCaller = attacker;
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Ownable: caller is not the owner");
+      });
+    });
+  });
+
+  describe("when used as a PriceOracle adapter", async () => {
+    let longTailToken: StandardTokenMock;
+    let longTailPool: UniswapV3Pool;
+
+    beforeEach(async () => {
+      // A token that only trades on Uniswap V3, at 5 USDC
+      longTailToken = await deployer.mocks.deployTokenMock(owner.address);
+      longTailPool = await uniswapV3Setup.createNewPair(longTailToken, setup.usdc, 3000, 5);
+      await longTailPool.increaseObservationCardinalityNext(minObservationCardinality);
+
+      await longTailToken.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+      await setup.usdc.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+      await uniswapV3Setup.addLiquidityWide(longTailToken, setup.usdc, 3000, ether(10000), usdc(50000), owner.address);
+
+      await twapPriceAdapter.addPool(longTailPool.address, twapWindow);
+      await setup.priceOracle.addAdapter(twapPriceAdapter.address);
+
+      await increaseTimeAsync(twapWindow);
+    });
+
+    it("should value Sets with the TWAP", async () => {
+      const setToken = await setup.createSetToken([longTailToken.address], [ether(1)], [setup.issuanceModule.address]);
+
+      const valuation = await setup.setValuer.calculateSetTokenValuation(setToken.address, setup.usdc.address);
+
+      expect(valuation.sub(ether(5)).abs()).to.be.lte(tolerance(ether(5)));
+    });
+  });
+});
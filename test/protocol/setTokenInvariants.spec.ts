@@ -0,0 +1,314 @@
+import "module-alias/register";
+import { BigNumber } from "ethers";
+
+import { Address } from "@utils/types";
+import { Account } from "@utils/test/types";
+import { ADDRESS_ZERO, EMPTY_BYTES } from "@utils/constants";
+import { GodModeMock, PositionV2Mock, SetToken, StandardTokenMock } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  ether,
+  preciseMul,
+  preciseMulCeil,
+} from "@utils/index";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  formatInvariantViolation,
+  getAccounts,
+  getRandomAddress,
+  getSetTokenPositionInvariants,
+  getSystemFixture,
+  getWaffleExpect,
+  Invariant,
+  InvariantAction,
+  runInvariantSequences,
+} from "@utils/test/index";
+import { SystemFixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+const randomInt = (random: () => number, max: number): number => Math.floor(random() * max);
+
+describe("SetToken position accounting invariants", () => {
+  let owner: Account;
+  let moduleOne: Account;
+  let deployer: DeployHelper;
+  let setup: SystemFixture;
+
+  let positionLibMock: PositionV2Mock;
+  let godModeMock: GodModeMock;
+  let componentOne: StandardTokenMock;
+  let componentTwo: StandardTokenMock;
+  let componentThree: StandardTokenMock;
+  let tokens: StandardTokenMock[];
+  let setToken: SetToken;
+
+  before(async () => {
+    [
+      owner,
+      moduleOne,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+    setup = getSystemFixture(owner.address);
+    await setup.initialize();
+
+    const positionLib = await deployer.libraries.deployPositionV2();
+    positionLibMock = await deployer.mocks.deployPositionV2Mock(
+      "contracts/protocol/lib/PositionV2.sol:PositionV2",
+      positionLib.address
+    );
+    godModeMock = await deployer.mocks.deployGodModeMock(setup.controller.address);
+
+    await setup.controller.addModule(moduleOne.address);
+    await setup.controller.addModule(positionLibMock.address);
+    await setup.controller.addModule(godModeMock.address);
+
+    componentOne = await deployer.mocks.deployTokenMock(owner.address);
+    componentTwo = await deployer.mocks.deployTokenMock(owner.address);
+    componentThree = await deployer.mocks.deployTokenMock(owner.address);
+    tokens = [componentOne, componentTwo, componentThree];
+
+    setToken = await setup.createSetToken(
+      [componentOne.address, componentTwo.address],
+      [ether(1), ether(2)],
+      [moduleOne.address, positionLibMock.address, godModeMock.address, setup.issuanceModule.address]
+    );
+
+    await setToken.connect(moduleOne.wallet).initializeModule();
+    await positionLibMock.initialize(setToken.address);
+    await godModeMock.initialize(setToken.address);
+    await setup.issuanceModule.initialize(setToken.address, ADDRESS_ZERO);
+
+    await componentOne.approve(setup.issuanceModule.address, ether(10));
+    await componentTwo.approve(setup.issuanceModule.address, ether(20));
+    await setup.issuanceModule.issue(setToken.address, ether(10), owner.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  function getTrackedComponents(): Address[] {
+    return tokens.map(token => token.address);
+  }
+
+  async function getDefaultUnits(): Promise<{ component: Address; unit: BigNumber }[]> {
+    const components = await setToken.getComponents();
+    const units = await Promise.all(components.map(component => setToken.getDefaultPositionRealUnit(component)));
+
+    return components
+      .map((component, i) => ({ component, unit: units[i] }))
+      .filter(({ unit }) => unit.gt(0));
+  }
+
+  // Module actions that keep the SetToken's positions consistent with its balances. Arguments are drawn at random
+  // and may be invalid, in which case the action reverts and the sequence continues.
+  function getModuleActions(): InvariantAction[] {
+    return [
+      {
+        name: "issue",
+        getArgs: async random => [ether(1).mul(randomInt(random, 5000) + 1).div(1000)],
+        run: async ([quantity]) => {
+          for (const { component, unit } of await getDefaultUnits()) {
+            const token = tokens.find(({ address }) => address === component)!;
+            await token.transfer(setToken.address, preciseMulCeil(unit, quantity));
+          }
+          await setToken.connect(moduleOne.wallet).mint(owner.address, quantity);
+        },
+      },
+      {
+        name: "redeem",
+        getArgs: async random => {
+          const balance = await setToken.balanceOf(owner.address);
+          return [balance.mul(randomInt(random, 1000) + 1).div(1000)];
+        },
+        run: async ([quantity]) => {
+          const defaultUnits = await getDefaultUnits();
+          await setToken.connect(moduleOne.wallet).burn(owner.address, quantity);
+          for (const { component, unit } of defaultUnits) {
+            await godModeMock.transferTokens(setToken.address, component, owner.address, preciseMul(unit, quantity));
+          }
+        },
+      },
+      {
+        name: "trade",
+        weight: 2,
+        getArgs: async random => {
+          const token = tokens[randomInt(random, tokens.length)];
+          const isDeposit = random() < 0.5;
+          const amount = isDeposit ?
+            ether(1).mul(randomInt(random, 10000) + 1).div(100) :
+            (await token.balanceOf(setToken.address)).mul(randomInt(random, 1000) + 1).div(1000);
+
+          return [token.address, isDeposit, amount];
+        },
+        run: async ([component, isDeposit, amount]) => {
+          const token = tokens.find(({ address }) => address === component)!;
+          const totalSupply = await setToken.totalSupply();
+          const previousBalance = await token.balanceOf(setToken.address);
+
+          if (isDeposit) {
+            await token.transfer(setToken.address, amount);
+          } else {
+            await godModeMock.transferTokens(setToken.address, component, owner.address, amount);
+          }
+
+          await positionLibMock.testCalculateAndEditDefaultPosition(setToken.address, component, totalSupply, previousBalance);
+        },
+      },
+      {
+        name: "editExternalPosition",
+        weight: 2,
+        getArgs: async random => {
+          const component = tokens[randomInt(random, tokens.length)].address;
+          const module = random() < 0.5 ? positionLibMock.address : godModeMock.address;
+          const unit = random() < 0.3 ? BigNumber.from(0) : ether(randomInt(random, 2001) - 1000).div(100);
+
+          return [component, module, unit];
+        },
+        run: async ([component, module, unit]) => {
+          await positionLibMock.testEditExternalPosition(setToken.address, component, module, unit, EMPTY_BYTES);
+        },
+      },
+      {
+        name: "editPositionMultiplier",
+        getArgs: async random => {
+          const positionMultiplier = await setToken.positionMultiplier();
+          return [positionMultiplier.mul(900 + randomInt(random, 100)).div(1000)];
+        },
+        run: async ([newMultiplier]) => {
+          await setToken.connect(moduleOne.wallet).editPositionMultiplier(newMultiplier);
+        },
+      },
+    ];
+  }
+
+  describe("random module actions", async () => {
+    let subjectActions: InvariantAction[];
+    let subjectInvariants: Invariant[];
+
+    beforeEach(async () => {
+      subjectActions = getModuleActions();
+      subjectInvariants = getSetTokenPositionInvariants(setToken, getTrackedComponents());
+    });
+
+    async function subject(): Promise<any> {
+      return runInvariantSequences(subjectActions, subjectInvariants);
+    }
+
+    it("should preserve the position accounting invariants", async () => {
+      const violation = await subject();
+
+      expect(violation, violation && formatInvariantViolation(violation)).to.be.undefined;
+    });
+
+    it("should restore the chain state after the runs", async () => {
+      const previousSupply = await setToken.totalSupply();
+      const previousComponents = await setToken.getComponents();
+
+      await runInvariantSequences(subjectActions, subjectInvariants, { runs: 1, depth: 5 });
+
+      expect(await setToken.totalSupply()).to.eq(previousSupply);
+      expect(await setToken.getComponents()).to.deep.eq(previousComponents);
+    });
+  });
+
+  describe("#runInvariantSequences", async () => {
+    let subjectActions: InvariantAction[];
+    let subjectInvariants: Invariant[];
+
+    beforeEach(async () => {
+      subjectInvariants = getSetTokenPositionInvariants(setToken, getTrackedComponents());
+    });
+
+    async function subject(): Promise<any> {
+      return runInvariantSequences(subjectActions, subjectInvariants, { seed: 1, runs: 1, depth: 5 });
+    }
+
+    describe("when an action moves tokens without editing the position", async () => {
+      beforeEach(async () => {
+        subjectActions = [{
+          name: "drain",
+          getArgs: async () => [componentOne.address],
+          run: async ([component]) => {
+            const balance = await componentOne.balanceOf(setToken.address);
+            await godModeMock.transferTokens(setToken.address, component, owner.address, balance);
+          },
+        }];
+      });
+
+      it("should report the step that undercollateralized the position", async () => {
+        const violation = await subject();
+
+        expect(violation.invariant).to.eq("default positions are collateralized");
+        expect(violation.seed).to.eq(1);
+        expect(violation.run).to.eq(0);
+        expect(violation.sequence.length).to.eq(1);
+        expect(violation.sequence[0].action).to.eq("drain");
+        expect(violation.sequence[0].reverted).to.be.false;
+      });
+
+      it("should render the seed needed to replay the run", async () => {
+        const violation = await subject();
+
+        expect(formatInvariantViolation(violation)).to.contain("(FUZZ_SEED=1)");
+      });
+    });
+
+    describe("when an external position is opened for an unregistered module", async () => {
+      beforeEach(async () => {
+        const unregisteredModule = await getRandomAddress();
+
+        subjectActions = [{
+          name: "editExternalPosition",
+          getArgs: async () => [componentThree.address, unregisteredModule, ether(1)],
+          run: async ([component, module, unit]) => {
+            await positionLibMock.testEditExternalPosition(setToken.address, component, module, unit, EMPTY_BYTES);
+          },
+        }];
+      });
+
+      it("should report the unregistered module", async () => {
+        const violation = await subject();
+
+        expect(violation.invariant).to.eq("external position modules are initialized");
+        expect(violation.sequence.length).to.eq(1);
+      });
+    });
+
+    describe("when every action reverts", async () => {
+      beforeEach(async () => {
+        subjectActions = [{
+          name: "burn",
+          getArgs: async () => [ether(1000)],
+          run: async ([quantity]) => {
+            await setToken.connect(moduleOne.wallet).burn(owner.address, quantity);
+          },
+        }];
+      });
+
+      it("should continue the sequence and find no violation", async () => {
+        const violation = await subject();
+
+        expect(violation).to.be.undefined;
+      });
+    });
+
+    describe("when an action throws an error other than a revert", async () => {
+      beforeEach(async () => {
+        subjectActions = [{
+          name: "broken",
+          getArgs: async () => [],
+          run: async () => {
+            throw new Error("Action is broken");
+          },
+        }];
+      });
+
+      it("should throw the error", async () => {
+        const error = await subject().catch(e => e);
+
+        expect(error.message).to.eq("Action is broken");
+      });
+    });
+  });
+});
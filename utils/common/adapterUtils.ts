@@ -1,6 +1,341 @@
-import { keccak256 } from "ethers/lib/utils";
+import {
+  defaultAbiCoder,
+  getAddress,
+  hexDataLength,
+  hexDataSlice,
+  Interface,
+  keccak256,
+  Result,
+  solidityPack
+} from "ethers/lib/utils";
 import { BigNumber } from "ethers";
 
+import { EMPTY_BYTES, ZERO } from "../constants";
+import {
+  Address,
+  Bytes,
+  DecodedExchangeTradeData,
+  DecodedIndexExchangeData,
+  ExchangeAdapterType,
+  IndexExchangeAdapterType,
+  IndexExchangeDataParams
+} from "../types";
+
+// 0x API function that sells through Uniswap V2 with a fixed path, so its calldata can be built without a quote
+const ZERO_EX_INTERFACE = new Interface([
+  "function sellToUniswap(address[] tokens, uint256 sellAmount, uint256 minBuyAmount, bool isSushi)",
+]);
+
+// 0x API functions accepted by ZeroExApiAdapter
+const ZERO_EX_FUNCTION_NAMES: { [selector: string]: string } = {
+  "0x415565b0": "transformERC20",
+  "0x8182b61f": "transformERC20Staging",
+  "0xf7fcd384": "sellToLiquidityProvider",
+  "0xd9627aa4": "sellToUniswap",
+  "0xaa77476c": "fillRfqOrder",
+  "0x75103cb9": "batchFillRfqOrders",
+  "0x6af479b2": "sellTokenForTokenToUniswapV3",
+  "0x7a1eb1b9": "multiplexBatchSellTokenForToken",
+  "0x0f3b31b2": "multiplexMultiHopSellTokenForToken",
+};
+
+const ZERO_EX_RFQ_ORDER = "tuple(address makerToken, address takerToken, uint128 makerAmount, uint128 takerAmount, " +
+  "address maker, address taker, address txOrigin, bytes32 pool, uint64 expiry, uint256 salt)";
+const ZERO_EX_SIGNATURE = "tuple(uint8 signatureType, uint8 v, bytes32 r, bytes32 s)";
+
+// Uniswap V3 paths pack a 20 byte token address before and after each 3 byte fee
+const UNISWAP_V3_ADDRESS_SIZE = 20;
+const UNISWAP_V3_HOP_SIZE = 23;
+
 export const addressToData = (address: String) => address.replace("0x", "000000000000000000000000");
 export const bigNumberToData = (number: BigNumber) => number.toHexString().replace("0x", "").padStart(64, "0");
 export const hashAdapterName = (name: string) => keccak256(new Buffer(name));
+
+// Packed Uniswap V3 path with the fee of each hop between its tokens, as built by the adapters' generateDataParam
+const encodeUniswapV3Path = (path: Address[], fees: number[]): Bytes => {
+  if (fees.length !== path.length - 1) {
+    throw new Error(`Uniswap V3 path of ${path.length} tokens needs ${path.length - 1} fees, got ${fees.length}`);
+  }
+
+  const types: string[] = ["address"];
+  const values: (Address | number)[] = [path[0]];
+  for (let i = 0; i < fees.length; i++) {
+    types.push("uint24", "address");
+    values.push(fees[i], path[i + 1]);
+  }
+
+  return solidityPack(types, values);
+};
+
+const decodeUniswapV3Path = (data: Bytes): { path: Address[]; fees: number[] } => {
+  const length = hexDataLength(data);
+  if (length < UNISWAP_V3_ADDRESS_SIZE + UNISWAP_V3_HOP_SIZE || (length - UNISWAP_V3_ADDRESS_SIZE) % UNISWAP_V3_HOP_SIZE !== 0) {
+    throw new Error(`Invalid Uniswap V3 path of ${length} bytes`);
+  }
+
+  const path: Address[] = [getAddress(hexDataSlice(data, 0, UNISWAP_V3_ADDRESS_SIZE))];
+  const fees: number[] = [];
+  for (let offset = UNISWAP_V3_ADDRESS_SIZE; offset < length; offset += UNISWAP_V3_HOP_SIZE) {
+    fees.push(BigNumber.from(hexDataSlice(data, offset, offset + 3)).toNumber());
+    path.push(getAddress(hexDataSlice(data, offset + 3, offset + UNISWAP_V3_HOP_SIZE)));
+  }
+
+  return { path, fees };
+};
+
+// Mirrors ZeroExApiAdapter#getRfqOrderMakerFillAmount
+const getRfqOrderMakerFillAmount = (order: Result, takerTokenFillAmount: BigNumber): BigNumber => {
+  if (order.takerAmount.isZero() || order.makerAmount.isZero() || takerTokenFillAmount.isZero()) {
+    return ZERO;
+  }
+  return order.makerAmount.mul(takerTokenFillAmount).div(order.takerAmount);
+};
+
+// Reads the tokens and quantities of 0x API calldata the way ZeroExApiAdapter#getTradeCalldata does
+const decodeZeroExApiData = (data: Bytes): Omit<DecodedExchangeTradeData, "adapterType" | "fixIn"> => {
+  if (hexDataLength(data) < 4) {
+    throw new Error("Invalid 0x API calldata");
+  }
+
+  const selector = hexDataSlice(data, 0, 4);
+  const functionName = ZERO_EX_FUNCTION_NAMES[selector];
+  const params = hexDataSlice(data, 4);
+
+  switch (functionName) {
+    case "transformERC20":
+    case "transformERC20Staging": {
+      const [inputToken, outputToken, sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(
+        ["address", "address", "uint256", "uint256"],
+        params
+      );
+      return { selector, functionName, path: [inputToken, outputToken], fees: [], sendQuantity, minReceiveQuantity };
+    }
+    case "sellToLiquidityProvider": {
+      const [inputToken, outputToken, , , sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(
+        ["address", "address", "address", "address", "uint256", "uint256"],
+        params
+      );
+      return { selector, functionName, path: [inputToken, outputToken], fees: [], sendQuantity, minReceiveQuantity };
+    }
+    case "sellToUniswap": {
+      const [path, sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(["address[]", "uint256", "uint256"], params);
+      return { selector, functionName, path: [...path], fees: [], sendQuantity, minReceiveQuantity };
+    }
+    case "fillRfqOrder": {
+      const [order, , takerTokenFillAmount] = defaultAbiCoder.decode([ZERO_EX_RFQ_ORDER, ZERO_EX_SIGNATURE, "uint128"], params);
+      return {
+        selector,
+        functionName,
+        path: [order.takerToken, order.makerToken],
+        fees: [],
+        sendQuantity: takerTokenFillAmount,
+        minReceiveQuantity: getRfqOrderMakerFillAmount(order, takerTokenFillAmount),
+      };
+    }
+    case "batchFillRfqOrders": {
+      const [orders, , takerTokenFillAmounts] = defaultAbiCoder.decode(
+        [`${ZERO_EX_RFQ_ORDER}[]`, "uint256", "uint128[]", "bool"],
+        params
+      );
+      if (orders.length === 0) {
+        throw new Error("Empty RFQ orders");
+      }
+
+      let sendQuantity = ZERO;
+      let minReceiveQuantity = ZERO;
+      for (let i = 0; i < orders.length; i++) {
+        sendQuantity = sendQuantity.add(takerTokenFillAmounts[i]);
+        minReceiveQuantity = minReceiveQuantity.add(getRfqOrderMakerFillAmount(orders[i], takerTokenFillAmounts[i]));
+      }
+      return {
+        selector,
+        functionName,
+        path: [orders[0].takerToken, orders[0].makerToken],
+        fees: [],
+        sendQuantity,
+        minReceiveQuantity,
+      };
+    }
+    case "sellTokenForTokenToUniswapV3": {
+      const [encodedPath, sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(
+        ["bytes", "uint256", "uint256", "address"],
+        params
+      );
+      return { selector, functionName, ...decodeUniswapV3Path(encodedPath), sendQuantity, minReceiveQuantity };
+    }
+    case "multiplexBatchSellTokenForToken": {
+      const [inputToken, outputToken, , sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(
+        ["address", "address", "uint256", "uint256", "uint256"],
+        params
+      );
+      return { selector, functionName, path: [inputToken, outputToken], fees: [], sendQuantity, minReceiveQuantity };
+    }
+    case "multiplexMultiHopSellTokenForToken": {
+      const [tokens, , sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(
+        ["address[]", "uint256", "uint256", "uint256"],
+        params
+      );
+      return { selector, functionName, path: [...tokens], fees: [], sendQuantity, minReceiveQuantity };
+    }
+    default:
+      throw new Error(`Unsupported 0x API function selector ${selector}`);
+  }
+};
+
+/**
+ * Returns the `_data` argument of an exchange adapter for a trade along `path`, from the send to the receive token.
+ * Quantities are notional and only encoded by the ZeroExApiAdapter, which checks them against the module's trade.
+ * Exact output trades (`fixIn` false) are only supported by UniswapV2ExchangeAdapterV2 and UniswapV3ExchangeAdapterV2.
+ * Curve, Kyber and Synthetix adapters take no data, and OneInchExchangeAdapter data has to come from the 1inch API.
+ */
+export const getExchangeAdapterTradeData = (
+  adapterType: ExchangeAdapterType,
+  path: Address[],
+  fees: number[],
+  sendQuantity: BigNumber,
+  minReceiveQuantity: BigNumber,
+  fixIn: boolean = true
+): Bytes => {
+  if (!fixIn && adapterType !== "UniswapV2ExchangeAdapterV2" && adapterType !== "UniswapV3ExchangeAdapterV2") {
+    throw new Error(`${adapterType} does not support exact output trades`);
+  }
+
+  switch (adapterType) {
+    case "UniswapV2ExchangeAdapter":
+      return defaultAbiCoder.encode(["address[]"], [path]);
+    case "UniswapV2ExchangeAdapterV2":
+      return defaultAbiCoder.encode(["address[]", "bool"], [path, fixIn]);
+    case "UniswapV3ExchangeAdapter":
+      return encodeUniswapV3Path(path, fees);
+    case "UniswapV3ExchangeAdapterV2":
+      // Paths of exact output trades start at the receive token
+      return solidityPack(
+        ["bytes", "bool"],
+        [fixIn ? encodeUniswapV3Path(path, fees) : encodeUniswapV3Path([...path].reverse(), [...fees].reverse()), fixIn]
+      );
+    case "ZeroExApiAdapter":
+      return ZERO_EX_INTERFACE.encodeFunctionData("sellToUniswap", [path, sendQuantity, minReceiveQuantity, false]);
+    case "CurveExchangeAdapter":
+    case "CurveStEthExchangeAdapter":
+    case "KyberExchangeAdapter":
+    case "SynthetixExchangeAdapter":
+      if (path.length !== 2) {
+        throw new Error(`${adapterType} only trades directly between the send and receive token`);
+      }
+      return EMPTY_BYTES;
+    case "OneInchExchangeAdapter":
+      throw new Error("OneInchExchangeAdapter trade data must be calldata quoted by the 1inch API");
+    default:
+      throw new Error(`Unsupported exchange adapter ${adapterType}`);
+  }
+};
+
+/**
+ * Decodes the `_data` argument of an exchange adapter. Paths are returned from the send to the receive token, also for
+ * exact output trades on UniswapV3ExchangeAdapterV2 whose encoded path is reversed. 0x and 1inch API calldata is read
+ * at the offsets the adapters check against the trade.
+ */
+export const decodeExchangeAdapterTradeData = (adapterType: ExchangeAdapterType, data: Bytes): DecodedExchangeTradeData => {
+  switch (adapterType) {
+    case "UniswapV2ExchangeAdapter": {
+      const [path] = defaultAbiCoder.decode(["address[]"], data);
+      return { adapterType, path: [...path], fees: [], fixIn: true };
+    }
+    case "UniswapV2ExchangeAdapterV2": {
+      const [path, fixIn] = defaultAbiCoder.decode(["address[]", "bool"], data);
+      return { adapterType, path: [...path], fees: [], fixIn };
+    }
+    case "UniswapV3ExchangeAdapter":
+      return { adapterType, ...decodeUniswapV3Path(data), fixIn: true };
+    case "UniswapV3ExchangeAdapterV2": {
+      // The fixIn bool is packed into the last byte
+      const pathLength = hexDataLength(data) - 1;
+      const fixIn = !BigNumber.from(hexDataSlice(data, pathLength)).isZero();
+      const { path, fees } = decodeUniswapV3Path(hexDataSlice(data, 0, pathLength));
+      return fixIn ?
+        { adapterType, path, fees, fixIn } :
+        { adapterType, path: path.reverse(), fees: fees.reverse(), fixIn };
+    }
+    case "ZeroExApiAdapter":
+      return { adapterType, fixIn: true, ...decodeZeroExApiData(data) };
+    case "OneInchExchangeAdapter": {
+      if (hexDataLength(data) < 132) {
+        throw new Error("Invalid 1inch API calldata");
+      }
+      const [fromToken, toToken, sendQuantity, minReceiveQuantity] = defaultAbiCoder.decode(
+        ["address", "address", "uint256", "uint256"],
+        hexDataSlice(data, 4)
+      );
+      return {
+        adapterType,
+        path: [fromToken, toToken],
+        fees: [],
+        fixIn: true,
+        selector: hexDataSlice(data, 0, 4),
+        sendQuantity,
+        minReceiveQuantity,
+      };
+    }
+    case "CurveExchangeAdapter":
+    case "CurveStEthExchangeAdapter":
+    case "KyberExchangeAdapter":
+    case "SynthetixExchangeAdapter":
+      return { adapterType, path: [], fees: [], fixIn: true };
+    default:
+      throw new Error(`Unsupported exchange adapter ${adapterType}`);
+  }
+};
+
+/**
+ * Returns the exchange data of a GeneralIndexModule component for an index exchange adapter, which trades the component
+ * against WETH
+ */
+export const getIndexExchangeData = (adapterType: IndexExchangeAdapterType, params: IndexExchangeDataParams): Bytes => {
+  switch (adapterType) {
+    case "BalancerV1IndexExchangeAdapter":
+      return EMPTY_BYTES;
+    case "KyberV3IndexExchangeAdapter":
+      if (params.pool === undefined) {
+        throw new Error("KyberV3IndexExchangeAdapter needs the pool to trade on");
+      }
+      return solidityPack(["address"], [params.pool]);
+    case "UniswapV2IndexExchangeAdapter":
+      return params.intermediateToken === undefined ? EMPTY_BYTES : solidityPack(["address"], [params.intermediateToken]);
+    case "UniswapV3IndexExchangeAdapter":
+      if (params.fee === undefined) {
+        throw new Error("UniswapV3IndexExchangeAdapter needs the fee of the pool to trade on");
+      }
+      return solidityPack(["uint24"], [params.fee]);
+    default:
+      throw new Error(`Unsupported index exchange adapter ${adapterType}`);
+  }
+};
+
+export const decodeIndexExchangeData = (adapterType: IndexExchangeAdapterType, data: Bytes): DecodedIndexExchangeData => {
+  const length = hexDataLength(data);
+
+  switch (adapterType) {
+    case "BalancerV1IndexExchangeAdapter":
+      return { adapterType };
+    case "KyberV3IndexExchangeAdapter":
+      if (length < 20) {
+        throw new Error(`Invalid ${adapterType} data`);
+      }
+      return { adapterType, pool: getAddress(hexDataSlice(data, 0, 20)) };
+    case "UniswapV2IndexExchangeAdapter":
+      if (length === 0) {
+        return { adapterType };
+      }
+      if (length < 20) {
+        throw new Error(`Invalid ${adapterType} data`);
+      }
+      return { adapterType, intermediateToken: getAddress(hexDataSlice(data, 0, 20)) };
+    case "UniswapV3IndexExchangeAdapter":
+      if (length < 3) {
+        throw new Error(`Invalid ${adapterType} data`);
+      }
+      return { adapterType, fee: BigNumber.from(hexDataSlice(data, 0, 3)).toNumber() };
+    default:
+      throw new Error(`Unsupported index exchange adapter ${adapterType}`);
+  }
+};
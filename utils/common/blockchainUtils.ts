@@ -1,4 +1,5 @@
-import { providers } from "ethers";
+import { BigNumber, providers } from "ethers";
+import { hexValue } from "ethers/lib/utils";
 
 export class Blockchain {
   public _provider: providers.Web3Provider | providers.JsonRpcProvider;
@@ -47,6 +48,26 @@ export class Blockchain {
     }
   }
 
+  public async setAutomineAsync(enabled: boolean): Promise<any> {
+    await this.sendJSONRpcRequestAsync("evm_setAutomine", [enabled]);
+  }
+
+  public async impersonateAccountAsync(address: string): Promise<any> {
+    await this.sendJSONRpcRequestAsync("hardhat_impersonateAccount", [address]);
+  }
+
+  public async stopImpersonatingAccountAsync(address: string): Promise<any> {
+    await this.sendJSONRpcRequestAsync("hardhat_stopImpersonatingAccount", [address]);
+  }
+
+  public async setBalanceAsync(address: string, balance: BigNumber): Promise<any> {
+    await this.sendJSONRpcRequestAsync("hardhat_setBalance", [address, hexValue(balance)]);
+  }
+
+  public async setCodeAsync(address: string, code: string): Promise<any> {
+    await this.sendJSONRpcRequestAsync("hardhat_setCode", [address, code]);
+  }
+
   private async sendJSONRpcRequestAsync(method: string, params: any[]): Promise<any> {
     return this._provider.send(method, params);
   }
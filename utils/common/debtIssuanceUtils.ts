@@ -0,0 +1,128 @@
+import { BigNumber } from "ethers";
+
+import { preciseDiv, preciseMul, preciseMulCeil } from "./mathUtils";
+import { POSITION_STATE, ZERO } from "../constants";
+import { Controller, DebtIssuanceModule, DebtIssuanceModuleV2, SlippageIssuanceModule } from "../contracts";
+import {
+  Address,
+  ComponentIssuanceQuote,
+  DebtIssuanceFees,
+  DebtIssuanceFeeSettings,
+  DebtIssuanceQuote,
+  DebtIssuanceQuoteOptions,
+  SetTokenSnapshot,
+} from "../types";
+
+// Index of the protocol fee split in the Controller's fee mapping for issuance modules
+const ISSUANCE_MODULE_PROTOCOL_FEE_SPLIT_INDEX = 0;
+
+export const getDebtIssuanceFeeSettings = async(
+  debtIssuanceModule: DebtIssuanceModule | DebtIssuanceModuleV2 | SlippageIssuanceModule,
+  controller: Controller,
+  setToken: Address
+): Promise<DebtIssuanceFeeSettings> => {
+  const settings = await debtIssuanceModule.issuanceSettings(setToken);
+  const protocolFeeSplit = await controller.getModuleFee(
+    debtIssuanceModule.address,
+    ISSUANCE_MODULE_PROTOCOL_FEE_SPLIT_INDEX
+  );
+
+  return {
+    managerIssueFee: settings.managerIssueFee,
+    managerRedeemFee: settings.managerRedeemFee,
+    protocolFeeSplit,
+  };
+};
+
+// Mirrors DebtIssuanceModule#calculateTotalFees
+export const calculateDebtIssuanceTotalFees = (
+  quantity: BigNumber,
+  isIssue: boolean,
+  feeSettings: DebtIssuanceFeeSettings
+): DebtIssuanceFees => {
+  const totalFeeRate = isIssue ? feeSettings.managerIssueFee : feeSettings.managerRedeemFee;
+
+  const totalFee = preciseMul(totalFeeRate, quantity);
+  const protocolFee = preciseMul(totalFee, feeSettings.protocolFeeSplit);
+  const managerFee = totalFee.sub(protocolFee);
+
+  return {
+    totalQuantity: isIssue ? quantity.add(totalFee) : quantity.sub(totalFee),
+    managerFee,
+    protocolFee,
+  };
+};
+
+/**
+ * Reproduces the component equity and debt quantities returned by DebtIssuanceModule#getRequiredComponentIssuanceUnits
+ * and #getRequiredComponentRedemptionUnits from a SetToken snapshot, along with a per component breakdown. Equity is
+ * rounded up on issuance and down on redemption; debt is rounded down on issuance and up on redemption.
+ *
+ * @param snapshot          SetToken snapshot (see getSetTokenSnapshot)
+ * @param quantity          Quantity of SetTokens to issue or redeem, before fees
+ * @param isIssue           Whether to quote issuance or redemption
+ * @param feeSettings       Manager fees and protocol fee split of the issuance module
+ * @param options           Balances (DebtIssuanceModuleV2) or hook adjustments (SlippageIssuanceModule off-chain getters)
+ */
+export const getDebtIssuanceQuote = (
+  snapshot: SetTokenSnapshot,
+  quantity: BigNumber,
+  isIssue: boolean,
+  feeSettings: DebtIssuanceFeeSettings,
+  options: DebtIssuanceQuoteOptions = {}
+): DebtIssuanceQuote => {
+  const fees = calculateDebtIssuanceTotalFees(quantity, isIssue, feeSettings);
+  const useBalances = isIssue && options.componentBalances !== undefined && snapshot.totalSupply.gt(0);
+
+  const breakdown: ComponentIssuanceQuote[] = snapshot.components.map((component, i) => {
+    const positions = snapshot.positions.filter(position => position.component === component);
+
+    const defaultPosition = positions.find(position => position.positionState === POSITION_STATE.DEFAULT);
+    const defaultUnit = useBalances ?
+      preciseDiv(options.componentBalances![component] || ZERO, snapshot.totalSupply) :
+      (defaultPosition ? defaultPosition.unit : ZERO);
+
+    // External units <= 0 count towards debt
+    const externalPositions = positions.filter(position => position.positionState === POSITION_STATE.EXTERNAL);
+    const externalEquityUnit = externalPositions
+      .filter(position => position.unit.gt(0))
+      .reduce((total, position) => total.add(position.unit), ZERO);
+    const externalDebtUnit = externalPositions
+      .filter(position => position.unit.lte(0))
+      .reduce((total, position) => total.sub(position.unit), ZERO);
+
+    const equityAdjustment = options.equityAdjustments ? options.equityAdjustments[i] : ZERO;
+    const debtAdjustment = options.debtAdjustments ? options.debtAdjustments[i] : ZERO;
+
+    // A positive equity adjustment adds equity; a positive debt adjustment removes debt
+    const equityUnit = defaultUnit.add(externalEquityUnit).add(equityAdjustment);
+    const debtUnit = externalDebtUnit.sub(debtAdjustment);
+
+    if (equityUnit.lt(0) || debtUnit.lt(0)) {
+      throw new Error(`Adjustments for ${component} exceed its position units`);
+    }
+
+    return {
+      component,
+      equityUnit,
+      debtUnit,
+      defaultUnit,
+      externalEquityUnit,
+      externalDebtUnit,
+      equityAdjustment,
+      debtAdjustment,
+      equityQuantity: isIssue ? preciseMulCeil(equityUnit, fees.totalQuantity) : preciseMul(equityUnit, fees.totalQuantity),
+      debtQuantity: isIssue ? preciseMul(debtUnit, fees.totalQuantity) : preciseMulCeil(debtUnit, fees.totalQuantity),
+    };
+  });
+
+  return {
+    ...fees,
+    isIssue,
+    quantity,
+    components: snapshot.components,
+    equityQuantities: breakdown.map(item => item.equityQuantity),
+    debtQuantities: breakdown.map(item => item.debtQuantity),
+    breakdown,
+  };
+};
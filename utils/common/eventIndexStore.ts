@@ -0,0 +1,40 @@
+import fs from "fs-extra";
+
+import { EventIndexState, EventIndexStore } from "../types";
+
+export const getEmptyEventIndexState = (): EventIndexState => ({
+  lastBlock: -1,
+  setTokens: [],
+  events: [],
+});
+
+/**
+ * Keeps the event index in a JSON file so it survives restarts. The file is rewritten after every sync.
+ */
+export class JsonEventIndexStore implements EventIndexStore {
+  private _path: string;
+
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  public load(): EventIndexState {
+    return fs.existsSync(this._path) ? fs.readJsonSync(this._path) : getEmptyEventIndexState();
+  }
+
+  public save(state: EventIndexState): void {
+    fs.outputJsonSync(this._path, state, { spaces: 2 });
+  }
+}
+
+export class MemoryEventIndexStore implements EventIndexStore {
+  private _state: EventIndexState = getEmptyEventIndexState();
+
+  public load(): EventIndexState {
+    return this._state;
+  }
+
+  public save(state: EventIndexState): void {
+    this._state = state;
+  }
+}
@@ -0,0 +1,325 @@
+import { BigNumber, providers, utils } from "ethers";
+import { getAddress } from "ethers/lib/utils";
+
+import { MemoryEventIndexStore } from "./eventIndexStore";
+import { ZERO } from "../constants";
+import {
+  Address,
+  EventIndexerSources,
+  EventIndexState,
+  EventIndexStore,
+  EventSourceKind,
+  FeeAccrualRecord,
+  IndexedEvent,
+  IndexedEventFilter,
+  IndexedSetToken,
+  IssuanceRecord,
+  TradeRecord,
+} from "../types";
+import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
+import { Controller__factory } from "../../typechain/factories/Controller__factory";
+import { DebtIssuanceModule__factory } from "../../typechain/factories/DebtIssuanceModule__factory";
+import { GeneralIndexModule__factory } from "../../typechain/factories/GeneralIndexModule__factory";
+import { SetToken__factory } from "../../typechain/factories/SetToken__factory";
+import { SetTokenCreator__factory } from "../../typechain/factories/SetTokenCreator__factory";
+import { StreamingFeeModule__factory } from "../../typechain/factories/StreamingFeeModule__factory";
+import { TradeModule__factory } from "../../typechain/factories/TradeModule__factory";
+
+const DEFAULT_BLOCK_BATCH_SIZE = 2000;
+
+const INTERFACES: Record<EventSourceKind, utils.Interface> = {
+  SetTokenCreator: SetTokenCreator__factory.createInterface(),
+  Controller: Controller__factory.createInterface(),
+  SetToken: SetToken__factory.createInterface(),
+  StreamingFeeModule: StreamingFeeModule__factory.createInterface(),
+  TradeModule: TradeModule__factory.createInterface(),
+  BasicIssuanceModule: BasicIssuanceModule__factory.createInterface(),
+  DebtIssuanceModule: DebtIssuanceModule__factory.createInterface(),
+  GeneralIndexModule: GeneralIndexModule__factory.createInterface(),
+};
+
+type EventSource = {
+  source: EventSourceKind;
+  address: Address;
+};
+
+/**
+ * Indexes protocol events from a set of known contracts plus every SetToken created by the indexed
+ * SetTokenCreators, and answers queries about Sets, issuance, trades and fee accruals from the index.
+ * Each call to `sync` picks up from the last indexed block.
+ */
+export class EventIndexer {
+  private _provider: providers.Provider;
+  private _store: EventIndexStore;
+  private _state: EventIndexState;
+  private _sources: EventSource[];
+  private _startBlock: number;
+  private _blockBatchSize: number;
+
+  constructor(
+    provider: providers.Provider,
+    sources: EventIndexerSources,
+    store: EventIndexStore = new MemoryEventIndexStore(),
+    blockBatchSize: number = DEFAULT_BLOCK_BATCH_SIZE
+  ) {
+    this._provider = provider;
+    this._store = store;
+    this._state = store.load();
+    this._startBlock = sources.startBlock || 0;
+    this._blockBatchSize = blockBatchSize;
+
+    const toSources = (source: EventSourceKind, addresses: Address[] = []) =>
+      addresses.map(address => ({ source, address: getAddress(address) }));
+
+    this._sources = [
+      ...toSources("SetTokenCreator", sources.setTokenCreators),
+      ...toSources("Controller", sources.controller ? [sources.controller] : []),
+      ...toSources("StreamingFeeModule", sources.streamingFeeModules),
+      ...toSources("TradeModule", sources.tradeModules),
+      ...toSources("BasicIssuanceModule", sources.basicIssuanceModules),
+      ...toSources("DebtIssuanceModule", sources.debtIssuanceModules),
+      ...toSources("GeneralIndexModule", sources.generalIndexModules),
+    ];
+  }
+
+  public get lastBlock(): number {
+    return this._state.lastBlock;
+  }
+
+  /**
+   * Indexes events up to `toBlock` (defaults to the latest block) and persists the index after every batch
+   * of blocks. Returns the number of events added.
+   */
+  public async sync(toBlock?: number): Promise<number> {
+    const endBlock = toBlock === undefined ? await this._provider.getBlockNumber() : toBlock;
+    const timestamps: { [blockNumber: number]: number } = {};
+    let fromBlock = Math.max(this._state.lastBlock + 1, this._startBlock);
+    let added = 0;
+
+    while (fromBlock <= endBlock) {
+      const batchEndBlock = Math.min(fromBlock + this._blockBatchSize - 1, endBlock);
+
+      const sourceEvents = await this.getEvents(this._sources, fromBlock, batchEndBlock, timestamps);
+
+      // SetTokens emit events from their constructor, so new Sets are indexed from the block they're created in
+      sourceEvents
+        .filter(event => event.source === "SetTokenCreator" && event.name === "SetTokenCreated")
+        .map(event => event.args._setToken)
+        .filter(setToken => !this._state.setTokens.includes(setToken))
+        .forEach(setToken => this._state.setTokens.push(setToken));
+
+      const setTokenEvents = await this.getEvents(
+        this._state.setTokens.map(address => ({ source: "SetToken" as EventSourceKind, address })),
+        fromBlock,
+        batchEndBlock,
+        timestamps
+      );
+
+      const events = sourceEvents.concat(setTokenEvents).sort((a, b) =>
+        a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber - b.blockNumber
+      );
+
+      this._state.events.push(...events);
+      this._state.lastBlock = batchEndBlock;
+      this._store.save(this._state);
+
+      added += events.length;
+      fromBlock = batchEndBlock + 1;
+    }
+
+    return added;
+  }
+
+  public getIndexedEvents(filter: IndexedEventFilter = {}): IndexedEvent[] {
+    const address = filter.address && getAddress(filter.address);
+    const setToken = filter.setToken && getAddress(filter.setToken);
+
+    return this._state.events.filter(event =>
+      (!filter.source || event.source === filter.source) &&
+      (!filter.name || event.name === filter.name) &&
+      (!address || event.address === address) &&
+      (!setToken || getEventSetToken(event) === setToken)
+    );
+  }
+
+  /**
+   * Returns the Sets created by the indexed SetTokenCreators with their current manager and initialized modules.
+   */
+  public getSetTokens(): IndexedSetToken[] {
+    const setTokens: { [address: string]: IndexedSetToken } = {};
+
+    for (const event of this._state.events) {
+      if (event.source === "SetTokenCreator" && event.name === "SetTokenCreated") {
+        setTokens[event.args._setToken] = {
+          address: event.args._setToken,
+          name: event.args._name,
+          symbol: event.args._symbol,
+          factory: event.address,
+          manager: event.args._manager,
+          modules: [],
+          createdAtBlock: event.blockNumber,
+        };
+        continue;
+      }
+
+      const setToken = event.source === "SetToken" ? setTokens[event.address] : undefined;
+      if (!setToken) {
+        continue;
+      }
+
+      if (event.name === "ManagerEdited") {
+        setToken.manager = event.args._newManager;
+      } else if (event.name === "ModuleInitialized") {
+        setToken.modules.push(event.args._module);
+      } else if (event.name === "ModuleRemoved") {
+        setToken.modules = setToken.modules.filter(module => module !== event.args._module);
+      }
+    }
+
+    return this._state.setTokens.filter(address => setTokens[address]).map(address => setTokens[address]);
+  }
+
+  public getSetTokensByManager(manager: Address): IndexedSetToken[] {
+    return this.getSetTokens().filter(setToken => setToken.manager === getAddress(manager));
+  }
+
+  public getIssuanceHistory(setToken?: Address): IssuanceRecord[] {
+    return this.getIndexedEvents({ setToken })
+      .filter(event =>
+        (event.source === "BasicIssuanceModule" || event.source === "DebtIssuanceModule") &&
+        (event.name === "SetTokenIssued" || event.name === "SetTokenRedeemed")
+      )
+      .map((event): IssuanceRecord => ({
+        setToken: event.args._setToken,
+        module: event.address,
+        type: event.name === "SetTokenIssued" ? "issue" : "redeem",
+        account: event.name === "SetTokenIssued" ? event.args._issuer : event.args._redeemer,
+        to: event.args._to,
+        quantity: BigNumber.from(event.args._quantity),
+        // BasicIssuanceModule charges no fees
+        managerFee: event.args._managerFee ? BigNumber.from(event.args._managerFee) : ZERO,
+        protocolFee: event.args._protocolFee ? BigNumber.from(event.args._protocolFee) : ZERO,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: event.timestamp,
+      }));
+  }
+
+  public getTradeHistory(setToken?: Address): TradeRecord[] {
+    const trades: TradeRecord[] = [];
+
+    for (const event of this.getIndexedEvents({ setToken })) {
+      const record = {
+        setToken: event.args._setToken,
+        module: event.address,
+        exchangeAdapter: event.args._exchangeAdapter,
+        protocolFee: BigNumber.from(event.args._protocolFee || 0),
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: event.timestamp,
+      };
+
+      if (event.source === "TradeModule" && event.name === "ComponentExchanged") {
+        trades.push({
+          ...record,
+          sendToken: event.args._sendToken,
+          receiveToken: event.args._receiveToken,
+          sendQuantity: BigNumber.from(event.args._totalSendAmount),
+          receiveQuantity: BigNumber.from(event.args._totalReceiveAmount),
+        });
+      } else if (event.source === "GeneralIndexModule" && event.name === "TradeExecuted") {
+        trades.push({
+          ...record,
+          sendToken: event.args._sellComponent,
+          receiveToken: event.args._buyComponent,
+          sendQuantity: BigNumber.from(event.args._netAmountSold),
+          receiveQuantity: BigNumber.from(event.args._netAmountReceived),
+        });
+      }
+    }
+
+    return trades;
+  }
+
+  public getFeeAccruals(setToken?: Address): FeeAccrualRecord[] {
+    return this.getIndexedEvents({ source: "StreamingFeeModule", name: "FeeActualized", setToken })
+      .map((event): FeeAccrualRecord => ({
+        setToken: event.args._setToken,
+        module: event.address,
+        managerFee: BigNumber.from(event.args._managerFee),
+        protocolFee: BigNumber.from(event.args._protocolFee),
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp: event.timestamp,
+      }));
+  }
+
+  private async getEvents(
+    sources: EventSource[],
+    fromBlock: number,
+    toBlock: number,
+    timestamps: { [blockNumber: number]: number }
+  ): Promise<IndexedEvent[]> {
+    const events: IndexedEvent[] = [];
+
+    for (const { source, address } of sources) {
+      const logs = await this._provider.getLogs({ address, fromBlock, toBlock });
+
+      for (const log of logs) {
+        const event = decodeLog(source, log);
+        if (!event) {
+          continue;
+        }
+
+        if (timestamps[log.blockNumber] === undefined) {
+          timestamps[log.blockNumber] = (await this._provider.getBlock(log.blockNumber)).timestamp;
+        }
+
+        events.push({ ...event, timestamp: timestamps[log.blockNumber] });
+      }
+    }
+
+    return events;
+  }
+}
+
+// Returns undefined for logs that aren't part of the source's ABI (e.g. events of inherited libraries)
+const decodeLog = (source: EventSourceKind, log: providers.Log): Omit<IndexedEvent, "timestamp"> | undefined => {
+  let parsed: utils.LogDescription;
+  try {
+    parsed = INTERFACES[source].parseLog(log);
+  } catch (error) {
+    return undefined;
+  }
+
+  const args: { [name: string]: any } = {};
+  parsed.eventFragment.inputs.forEach((input, i) => {
+    args[input.name] = serializeArg(parsed.args[i]);
+  });
+
+  return {
+    source,
+    address: log.address,
+    name: parsed.name,
+    args,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    transactionHash: log.transactionHash,
+  };
+};
+
+const serializeArg = (value: any): any => {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(serializeArg);
+  }
+
+  return value;
+};
+
+const getEventSetToken = (event: IndexedEvent): Address | undefined => {
+  return event.source === "SetToken" ? event.address : event.args._setToken;
+};
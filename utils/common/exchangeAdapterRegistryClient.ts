@@ -0,0 +1,298 @@
+import { BigNumber } from "ethers";
+
+import {
+  decodeExchangeAdapterTradeData,
+  decodeIndexExchangeData,
+  getExchangeAdapterTradeData,
+  getIndexExchangeData
+} from "./adapterUtils";
+import { preciseMul } from "./mathUtils";
+import { ADDRESS_ZERO, ZERO } from "../constants";
+import { GeneralIndexModule, IntegrationRegistry, TradeModule } from "../contracts";
+import {
+  Address,
+  Bytes,
+  DecodedExchangeTradeData,
+  DecodedIndexExchangeData,
+  DecodedTradeModuleTradeCall,
+  ExchangeAdapterRegistryConfig,
+  ExchangeAdapterType,
+  ExchangeTradeParams,
+  GeneralIndexModuleExchangeDataCall,
+  IndexComponentExchangeData,
+  IndexExchangeAdapterType,
+  IndexExchangeDataUpdate,
+  TradeModuleTradeCall
+} from "../types";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { IExchangeAdapter__factory } from "../../typechain/factories/IExchangeAdapter__factory";
+import { IIndexExchangeAdapter__factory } from "../../typechain/factories/IIndexExchangeAdapter__factory";
+
+const isSameAddress = (one: Address, two: Address): boolean => one.toLowerCase() === two.toLowerCase();
+
+/**
+ * Builds, validates and decodes exchange adapter data by the name the adapter is registered under in the
+ * IntegrationRegistry. The config maps each name to the adapter contract deployed under it, which determines how its
+ * data is encoded.
+ *
+ * Validation first checks decoded data against the trade, for readable errors, and then quotes the trade on the
+ * registered adapter so its own checks run before a transaction is sent.
+ */
+export class ExchangeAdapterRegistryClient {
+  private _integrationRegistry: IntegrationRegistry;
+  private _config: ExchangeAdapterRegistryConfig;
+
+  constructor(integrationRegistry: IntegrationRegistry, config: ExchangeAdapterRegistryConfig) {
+    this._integrationRegistry = integrationRegistry;
+    this._config = config;
+  }
+
+  /**
+   * Returns the adapter registered under `name` for `module`, throwing if there is none
+   */
+  public async getAdapter(module: Address, name: string): Promise<Address> {
+    const adapter = await this._integrationRegistry.getIntegrationAdapter(module, name);
+    if (adapter === ADDRESS_ZERO) {
+      throw new Error(`No exchange adapter is registered as ${name} for module ${module}`);
+    }
+    return adapter;
+  }
+
+  public getTradeAdapterType(name: string): ExchangeAdapterType {
+    const adapterType = this._config.tradeAdapters[name];
+    if (adapterType === undefined) {
+      throw new Error(`Unknown trade adapter ${name}`);
+    }
+    return adapterType;
+  }
+
+  public getIndexAdapterType(name: string): IndexExchangeAdapterType {
+    const adapterType = this._config.indexAdapters[name];
+    if (adapterType === undefined) {
+      throw new Error(`Unknown index exchange adapter ${name}`);
+    }
+    return adapterType;
+  }
+
+  /**
+   * Builds and validates a TradeModule#trade call. Uses `params.data` as the trade data if set, and otherwise encodes
+   * the path, fees and fixIn of the params. 0x data encodes notional quantities at the Set's current total supply.
+   */
+  public async getTradeCall(
+    tradeModule: TradeModule,
+    setToken: Address,
+    params: ExchangeTradeParams
+  ): Promise<TradeModuleTradeCall> {
+    const { exchangeName, sendToken, sendQuantity, receiveToken, minReceiveQuantity } = params;
+
+    let data = params.data;
+    if (data === undefined) {
+      const [sendNotional, minReceiveNotional] = await this._getNotionalQuantities(
+        tradeModule,
+        setToken,
+        sendQuantity,
+        minReceiveQuantity
+      );
+      data = getExchangeAdapterTradeData(
+        this.getTradeAdapterType(exchangeName),
+        [sendToken, ...(params.intermediateTokens || []), receiveToken],
+        params.fees || [],
+        sendNotional,
+        minReceiveNotional,
+        params.fixIn !== false
+      );
+    }
+
+    const call: TradeModuleTradeCall = {
+      setToken,
+      exchangeName,
+      sendToken,
+      sendQuantity,
+      receiveToken,
+      minReceiveQuantity,
+      data,
+      calldata: tradeModule.interface.encodeFunctionData(
+        "trade",
+        [setToken, exchangeName, sendToken, sendQuantity, receiveToken, minReceiveQuantity, data]
+      ),
+    };
+
+    await this.validateTradeCall(tradeModule, call);
+    return call;
+  }
+
+  /**
+   * Throws if the trade data doesn't trade the call's tokens and quantities, or the registered adapter rejects it.
+   * The adapter is quoted with the notional quantities the TradeModule computes from the Set's current total supply.
+   */
+  public async validateTradeCall(tradeModule: TradeModule, call: Omit<TradeModuleTradeCall, "calldata">): Promise<void> {
+    const adapter = await this.getAdapter(tradeModule.address, call.exchangeName);
+    const { path, sendQuantity, minReceiveQuantity } = this.decodeTradeData(call.exchangeName, call.data);
+
+    if (path.length > 0 && !isSameAddress(path[0], call.sendToken)) {
+      throw new Error("Trade data path does not start at the send token");
+    }
+    if (path.length > 0 && !isSameAddress(path[path.length - 1], call.receiveToken)) {
+      throw new Error("Trade data path does not end at the receive token");
+    }
+
+    const [sendNotional, minReceiveNotional] = await this._getNotionalQuantities(
+      tradeModule,
+      call.setToken,
+      call.sendQuantity,
+      call.minReceiveQuantity
+    );
+
+    if (sendQuantity !== undefined && !sendQuantity.eq(sendNotional)) {
+      throw new Error(`Trade data sends ${sendQuantity.toString()}, but the trade sends ${sendNotional.toString()}`);
+    }
+    if (minReceiveQuantity !== undefined && minReceiveQuantity.lt(minReceiveNotional)) {
+      throw new Error(
+        `Trade data receives at least ${minReceiveQuantity.toString()}, below the trade's ${minReceiveNotional.toString()}`
+      );
+    }
+
+    // Reverts with the adapter's reason if it rejects the data
+    await IExchangeAdapter__factory.connect(adapter, tradeModule.provider).getTradeCalldata(
+      call.sendToken,
+      call.receiveToken,
+      call.setToken,
+      sendNotional,
+      minReceiveNotional,
+      call.data
+    );
+  }
+
+  public decodeTradeData(exchangeName: string, data: Bytes): DecodedExchangeTradeData {
+    return decodeExchangeAdapterTradeData(this.getTradeAdapterType(exchangeName), data);
+  }
+
+  /**
+   * Decodes encoded TradeModule#trade calldata, e.g. of a transaction proposed to a multisig
+   */
+  public decodeTradeCall(tradeModule: TradeModule, calldata: Bytes): DecodedTradeModuleTradeCall {
+    const [
+      setToken,
+      exchangeName,
+      sendToken,
+      sendQuantity,
+      receiveToken,
+      minReceiveQuantity,
+      data,
+    ] = tradeModule.interface.decodeFunctionData("trade", calldata);
+
+    return {
+      setToken,
+      exchangeName,
+      sendToken,
+      sendQuantity,
+      receiveToken,
+      minReceiveQuantity,
+      data,
+      calldata,
+      decodedData: this.decodeTradeData(exchangeName, data),
+    };
+  }
+
+  /**
+   * Builds and validates a GeneralIndexModule#setExchangeData call. Each component's data is encoded for the exchange
+   * it trades on, which must be set with setExchanges beforehand unless the update names it.
+   */
+  public async getSetExchangeDataCall(
+    indexModule: GeneralIndexModule,
+    setToken: Address,
+    updates: IndexExchangeDataUpdate[]
+  ): Promise<GeneralIndexModuleExchangeDataCall> {
+    const components: Address[] = [];
+    const exchangeData: Bytes[] = [];
+
+    for (const update of updates) {
+      const exchangeName = update.exchangeName === undefined ?
+        (await indexModule.executionInfo(setToken, update.component)).exchangeName :
+        update.exchangeName;
+      if (exchangeName === "") {
+        throw new Error(`No exchange is set for component ${update.component}`);
+      }
+
+      const data = getIndexExchangeData(this.getIndexAdapterType(exchangeName), update);
+      await this.validateIndexExchangeData(indexModule, setToken, update.component, exchangeName, data);
+
+      components.push(update.component);
+      exchangeData.push(data);
+    }
+
+    return {
+      setToken,
+      components,
+      exchangeData,
+      calldata: indexModule.interface.encodeFunctionData("setExchangeData", [setToken, components, exchangeData]),
+    };
+  }
+
+  /**
+   * Throws if a component's exchange data is malformed or rejected by the registered adapter, which is quoted a trade
+   * from WETH to the component. KyberV3IndexExchangeAdapter rejects pools that don't hold the pair.
+   */
+  public async validateIndexExchangeData(
+    indexModule: GeneralIndexModule,
+    setToken: Address,
+    component: Address,
+    exchangeName: string,
+    data: Bytes
+  ): Promise<void> {
+    const adapter = await this.getAdapter(indexModule.address, exchangeName);
+    const { intermediateToken } = this.decodeIndexExchangeData(exchangeName, data);
+    const weth = await indexModule.weth();
+
+    if (intermediateToken !== undefined && (isSameAddress(intermediateToken, weth) || isSameAddress(intermediateToken, component))) {
+      throw new Error("Intermediate token must not be WETH or the component");
+    }
+
+    // Reverts with the adapter's reason if it rejects the data
+    await IIndexExchangeAdapter__factory.connect(adapter, indexModule.provider).getTradeCalldata(
+      weth,
+      component,
+      setToken,
+      true,
+      ZERO,
+      ZERO,
+      data
+    );
+  }
+
+  public decodeIndexExchangeData(exchangeName: string, data: Bytes): DecodedIndexExchangeData {
+    return decodeIndexExchangeData(this.getIndexAdapterType(exchangeName), data);
+  }
+
+  /**
+   * Reads and decodes the exchange and data the GeneralIndexModule trades a component with
+   */
+  public async getComponentExchangeData(
+    indexModule: GeneralIndexModule,
+    setToken: Address,
+    component: Address
+  ): Promise<IndexComponentExchangeData> {
+    const { exchangeName, exchangeData } = await indexModule.executionInfo(setToken, component);
+    if (exchangeName === "") {
+      throw new Error(`No exchange is set for component ${component}`);
+    }
+
+    return {
+      component,
+      exchangeName,
+      exchangeData,
+      decodedData: this.decodeIndexExchangeData(exchangeName, exchangeData),
+    };
+  }
+
+  // Mirrors TradeModule#_createTradeInfo, which trades unit quantities times the Set's total supply
+  private async _getNotionalQuantities(
+    tradeModule: TradeModule,
+    setToken: Address,
+    sendQuantity: BigNumber,
+    minReceiveQuantity: BigNumber
+  ): Promise<[BigNumber, BigNumber]> {
+    const totalSupply = await ERC20__factory.connect(setToken, tradeModule.provider).totalSupply();
+    return [preciseMul(totalSupply, sendQuantity), preciseMul(totalSupply, minReceiveQuantity)];
+  }
+}
@@ -1,9 +1,18 @@
 import { BigNumber } from "ethers";
 
-import { preciseMul, preciseMulCeilInt } from "./mathUtils";
-import { ONE_YEAR_IN_SECONDS, PRECISE_UNIT } from "../constants";
-import { Address } from "../types";
-import { StreamingFeeModule } from "../contracts";
+import { preciseDiv, preciseMul, preciseMulCeilInt } from "./mathUtils";
+import { ONE_YEAR_IN_SECONDS, PRECISE_UNIT, ZERO } from "../constants";
+import {
+  Address,
+  StreamingFeeAccrual,
+  StreamingFeePathPoint,
+  StreamingFeeProjection,
+  StreamingFeeProjectionParams,
+} from "../types";
+import { Controller, SetToken, StreamingFeeModule } from "../contracts";
+
+// Index of the protocol's share of streaming fees in the Controller's fees of the StreamingFeeModule
+const PROTOCOL_STREAMING_FEE_INDEX = 0;
 
 export const getStreamingFee = async(
   feeModule: StreamingFeeModule,
@@ -43,3 +52,123 @@ export const getPostFeePositionUnits = (
   }
   return newUnits;
 };
+
+/**
+ * Returns the timestamps of accruals every `interval` seconds after `start`, plus `end` when it doesn't fall on
+ * an interval.
+ */
+export const getStreamingFeeAccrualCalendar = (
+  start: BigNumber,
+  end: BigNumber,
+  interval: BigNumber
+): BigNumber[] => {
+  if (interval.lte(0)) {
+    throw new Error("Accrual interval must be greater than 0");
+  }
+
+  const timestamps: BigNumber[] = [];
+  for (let timestamp = start.add(interval); timestamp.lte(end); timestamp = timestamp.add(interval)) {
+    timestamps.push(timestamp);
+  }
+
+  if (end.gt(start) && (timestamps.length === 0 || !timestamps[timestamps.length - 1].eq(end))) {
+    timestamps.push(end);
+  }
+
+  return timestamps;
+};
+
+/**
+ * Simulates StreamingFeeModule#accrueFee at every timestamp of the accrual calendar, starting from the fee state's
+ * last accrual. Issuance and redemptions of the path are applied before any accrual at or after their timestamp,
+ * as the module charges fees on the supply at accrual time. Rounding matches the module.
+ */
+export const projectStreamingFees = (params: StreamingFeeProjectionParams): StreamingFeeProjection => {
+  const { feeState, protocolFeePercentage, endTimestamp, accrualInterval } = params;
+  const path = (params.path || []).slice().sort((a, b) => a.timestamp.lt(b.timestamp) ? -1 : a.timestamp.gt(b.timestamp) ? 1 : 0);
+
+  const accruals: StreamingFeeAccrual[] = [];
+  let totalSupply = params.totalSupply;
+  let positionMultiplier = params.positionMultiplier;
+  let lastAccrualTimestamp = feeState.lastStreamingFeeTimestamp;
+  let grossNav: BigNumber | undefined;
+  let pathIndex = 0;
+
+  const calendar = getStreamingFeeAccrualCalendar(lastAccrualTimestamp, endTimestamp, accrualInterval);
+  for (const timestamp of calendar) {
+    for (; pathIndex < path.length && path[pathIndex].timestamp.lte(timestamp); pathIndex++) {
+      totalSupply = totalSupply.add(path[pathIndex].netIssuance || ZERO);
+      grossNav = path[pathIndex].grossNav || grossNav;
+    }
+
+    const feePercentage = timestamp.sub(lastAccrualTimestamp).mul(feeState.streamingFeePercentage).div(ONE_YEAR_IN_SECONDS);
+    const feeQuantity = feeState.streamingFeePercentage.gt(0) ? getStreamingFeeInflationAmount(feePercentage, totalSupply) : ZERO;
+    const protocolFee = preciseMul(feeQuantity, protocolFeePercentage);
+    const managerFee = feeQuantity.sub(protocolFee);
+
+    if (feeState.streamingFeePercentage.gt(0)) {
+      totalSupply = totalSupply.add(feeQuantity);
+      positionMultiplier = preciseMul(positionMultiplier, PRECISE_UNIT.sub(feePercentage));
+    }
+
+    const nav = grossNav && preciseMul(grossNav, positionMultiplier);
+
+    accruals.push({
+      timestamp,
+      feePercentage,
+      managerFee,
+      protocolFee,
+      totalSupply,
+      positionMultiplier,
+      nav,
+      managerFeeValue: nav && preciseMul(managerFee, nav),
+      protocolFeeValue: nav && preciseMul(protocolFee, nav),
+    });
+
+    lastAccrualTimestamp = timestamp;
+  }
+
+  const sum = (values: BigNumber[]) => values.reduce((total, value) => total.add(value), ZERO);
+  const hasValues = accruals.length > 0 && accruals.every(accrual => accrual.nav !== undefined);
+
+  return {
+    accruals,
+    totalManagerFee: sum(accruals.map(accrual => accrual.managerFee)),
+    totalProtocolFee: sum(accruals.map(accrual => accrual.protocolFee)),
+    totalManagerFeeValue: hasValues ? sum(accruals.map(accrual => accrual.managerFeeValue!)) : undefined,
+    totalProtocolFeeValue: hasValues ? sum(accruals.map(accrual => accrual.protocolFeeValue!)) : undefined,
+    finalTotalSupply: totalSupply,
+    finalPositionMultiplier: positionMultiplier,
+    positionMultiplierDecay: PRECISE_UNIT.sub(preciseDiv(positionMultiplier, params.positionMultiplier)),
+  };
+};
+
+/**
+ * Reads the fee state, supply and position multiplier of a SetToken and the protocol's share of streaming fees
+ * from the Controller to project fees from the last accrual until `endTimestamp`.
+ */
+export const getStreamingFeeProjectionParams = async(
+  feeModule: StreamingFeeModule,
+  controller: Controller,
+  setToken: SetToken,
+  endTimestamp: BigNumber,
+  accrualInterval: BigNumber,
+  path: StreamingFeePathPoint[] = []
+): Promise<StreamingFeeProjectionParams> => {
+  const feeState = await feeModule.feeStates(setToken.address);
+
+  return {
+    feeState: {
+      feeRecipient: feeState.feeRecipient,
+      streamingFeePercentage: feeState.streamingFeePercentage,
+      maxStreamingFeePercentage: feeState.maxStreamingFeePercentage,
+      lastStreamingFeeTimestamp: feeState.lastStreamingFeeTimestamp,
+    },
+    protocolFeePercentage: await controller.getModuleFee(feeModule.address, PROTOCOL_STREAMING_FEE_INDEX),
+    totalSupply: await setToken.totalSupply(),
+    positionMultiplier: await setToken.positionMultiplier(),
+    endTimestamp,
+    accrualInterval,
+    path,
+  };
+};
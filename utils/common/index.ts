@@ -4,7 +4,10 @@ export { ether, gWei, bitcoin, usdc } from "./unitsUtils";
 export {
   getPostFeePositionUnits,
   getStreamingFee,
-  getStreamingFeeInflationAmount
+  getStreamingFeeAccrualCalendar,
+  getStreamingFeeInflationAmount,
+  getStreamingFeeProjectionParams,
+  projectStreamingFees
 } from "./feeModuleUtils";
 export {
   divDown,
@@ -16,7 +19,16 @@ export {
   preciseMulCeilInt,
   preciseDivCeilInt
 } from "./mathUtils";
-export { addressToData, bigNumberToData, hashAdapterName } from "./adapterUtils";
+export {
+  addressToData,
+  bigNumberToData,
+  decodeExchangeAdapterTradeData,
+  decodeIndexExchangeData,
+  getExchangeAdapterTradeData,
+  getIndexExchangeData,
+  hashAdapterName
+} from "./adapterUtils";
+export { ExchangeAdapterRegistryClient } from "./exchangeAdapterRegistryClient";
 export {
   getExpectedIssuePositionMultiplier,
   getExpectedIssuePositionUnit,
@@ -34,6 +46,39 @@ export {
   calculateTokensInReserve,
   getReservesSafe
 } from "./uniswapUtils";
+export {
+  calculateDebtIssuanceTotalFees,
+  getDebtIssuanceFeeSettings,
+  getDebtIssuanceQuote
+} from "./debtIssuanceUtils";
+export {
+  applyIndexRebalancePlan,
+  getComponentValue,
+  getIndexRebalanceMarketData,
+  getIndexRebalanceState,
+  getNextIndexRebalanceAction,
+  isIndexTargetUnmet,
+  planIndexRebalance
+} from "./indexRebalanceUtils";
+export { IndexRebalanceKeeper } from "./indexRebalanceKeeper";
+export { IndexRebalanceSimulator } from "./indexRebalanceSimulator";
+export { getLeveragePositionValue, LeverageHealthMonitor } from "./leverageHealthMonitor";
+export { LeverageRebalanceCalculator } from "./leverageRebalanceCalculator";
+export { EventIndexer } from "./eventIndexer";
+export { ManagerTransactionBatch } from "./managerTransactionBatch";
+export { NAVIssuanceCalculator } from "./navIssuanceCalculator";
+export { PriceOracleGraph } from "./priceOracleGraph";
+export {
+  getEmptyEventIndexState,
+  JsonEventIndexStore,
+  MemoryEventIndexStore
+} from "./eventIndexStore";
+export {
+  diffSetTokenSnapshots,
+  formatSetTokenSnapshot,
+  formatSetTokenSnapshotDiff,
+  getSetTokenSnapshot
+} from "./setTokenSnapshotUtils";
 export {
   convertLibraryNameToLinkId
 } from "./libraryUtils";
@@ -53,3 +98,5 @@ export {
   leverUp,
   getNetFundingGrowth
 } from "./perpV2Utils";
+export { PerpV2BasisTradingAnalytics } from "./perpV2BasisTradingAnalytics";
+export { PerpV2IssuanceQuoter } from "./perpV2IssuanceQuoter";
@@ -0,0 +1,248 @@
+import { BigNumber, ContractReceipt, ContractTransaction, providers } from "ethers";
+import { formatUnits } from "ethers/lib/utils";
+
+import { Blockchain } from "./blockchainUtils";
+import {
+  getComponentValue,
+  getIndexRebalanceState,
+  getNextIndexRebalanceAction,
+} from "./indexRebalanceUtils";
+import { preciseDiv, preciseMul } from "./mathUtils";
+import { MAX_UINT_256, PRECISE_UNIT, ZERO } from "../constants";
+import { GeneralIndexModule, SetToken } from "../contracts";
+import {
+  Address,
+  IndexRebalanceKeeperOptions,
+  IndexRebalanceKeeperResult,
+  IndexRebalanceKeeperStep,
+  IndexRebalanceMarketData,
+  IndexRebalanceState,
+  IndexTradeFill,
+} from "../types";
+
+const DEFAULT_MAX_STEPS = 100;
+
+/**
+ * Drives a GeneralIndexModule rebalance as an allowed trader. Each step reads the rebalance state and submits the
+ * next call: components above target are sold before components below target are bought, cool off periods are
+ * waited out, buys that can't be funded fall back to tradeRemainingWETH, and asset targets are raised once all
+ * targets are met with WETH left over. Trades are submitted by the signer `indexModule` is connected to.
+ */
+export class IndexRebalanceKeeper {
+  private _indexModule: GeneralIndexModule;
+  private _setToken: SetToken;
+  private _blockchain: Blockchain;
+  private _options: IndexRebalanceKeeperOptions;
+  private _logger: typeof console.log;
+  private _skippedComponents: { [component: string]: string };
+
+  constructor(indexModule: GeneralIndexModule, setToken: SetToken, options: IndexRebalanceKeeperOptions = {}) {
+    if (options.maxSlippage && !options.marketData) {
+      throw new Error("Market data is required to enforce a max slippage");
+    }
+
+    this._indexModule = indexModule;
+    this._setToken = setToken;
+    this._blockchain = new Blockchain(indexModule.provider as providers.JsonRpcProvider);
+    this._options = options;
+    this._logger = options.logger || console.log;
+    this._skippedComponents = {};
+  }
+
+  public get skippedComponents(): { [component: string]: string } {
+    return this._skippedComponents;
+  }
+
+  public async run(): Promise<IndexRebalanceKeeperResult> {
+    const fills: IndexTradeFill[] = [];
+    const maxSteps = this._options.maxSteps || DEFAULT_MAX_STEPS;
+    let raises = 0;
+    let steps = 0;
+
+    while (steps < maxSteps) {
+      const { action, fill } = await this.step();
+      steps++;
+
+      if (action.method === "done") {
+        break;
+      }
+
+      if (fill) {
+        fills.push(fill);
+      }
+
+      if (action.method === "raiseAssetTargets") {
+        raises++;
+      }
+    }
+
+    return { fills, raises, steps, skippedComponents: this._skippedComponents };
+  }
+
+  public async step(): Promise<IndexRebalanceKeeperStep> {
+    const state = await this.getState();
+    const action = getNextIndexRebalanceAction(state, Object.keys(this._skippedComponents));
+
+    if (action.method === "done") {
+      this._logger(`Rebalance of ${state.setToken} done`);
+      return { action };
+    }
+
+    if (action.method === "wait") {
+      const duration = action.readyTimestamp! - state.timestamp;
+      this._logger(`Waiting ${duration}s for cool off periods`);
+
+      if (this._options.advanceTime) {
+        await this._blockchain.increaseTimeAsync(duration);
+        await this._blockchain.waitBlocksAsync(1);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, duration * 1000));
+      }
+
+      return { action };
+    }
+
+    if (action.method === "raiseAssetTargets") {
+      const receipt = await (await this._indexModule.raiseAssetTargets(state.setToken)).wait();
+      this._logger(`Raised asset targets in ${receipt.transactionHash}`);
+      return { action };
+    }
+
+    const component = action.component!;
+    const [isSell, quantity] = await this._indexModule.getComponentTradeQuantityAndDirection(state.setToken, component);
+
+    let transaction: ContractTransaction;
+    let method: "trade" | "tradeRemainingWETH" = "trade";
+    try {
+      const ethQuantityLimit = this.getTradeLimit(state, component, isSell, quantity);
+      await this._indexModule.callStatic.trade(state.setToken, component, ethQuantityLimit);
+      transaction = await this._indexModule.trade(state.setToken, component, ethQuantityLimit);
+    } catch (tradeError) {
+      if (isSell || state.wethUnit.lte(state.wethTargetUnit)) {
+        return this.skipComponent(action, component, (tradeError as Error).message);
+      }
+
+      try {
+        method = "tradeRemainingWETH";
+        const minComponentReceived = await this.getTradeRemainingLimit(state, component);
+        await this._indexModule.callStatic.tradeRemainingWETH(state.setToken, component, minComponentReceived);
+        transaction = await this._indexModule.tradeRemainingWETH(state.setToken, component, minComponentReceived);
+      } catch (tradeRemainingError) {
+        return this.skipComponent(action, component, (tradeRemainingError as Error).message);
+      }
+    }
+
+    const fill = await this.getFill(state, method, component, await transaction.wait());
+    this._logger(this.formatFill(fill));
+
+    return { action, fill };
+  }
+
+  private async getState(): Promise<IndexRebalanceState> {
+    const state = await getIndexRebalanceState(this._indexModule, this._setToken);
+
+    // Blocks are only mined on transactions, so the latest block can lag behind the time the next trade executes at
+    if (!this._options.advanceTime) {
+      state.timestamp = Math.max(state.timestamp, Math.floor(Date.now() / 1000));
+    }
+
+    return state;
+  }
+
+  private skipComponent(
+    action: IndexRebalanceKeeperStep["action"],
+    component: Address,
+    error: string
+  ): IndexRebalanceKeeperStep {
+    this._skippedComponents[component] = error;
+    this._logger(`Skipping ${component}: ${error}`);
+    return { action, error };
+  }
+
+  // Min WETH received when selling or max WETH spent when buying `quantity` of a component
+  private getTradeLimit(state: IndexRebalanceState, component: Address, isSell: boolean, quantity: BigNumber): BigNumber {
+    const { marketData, maxSlippage } = this._options;
+    if (!marketData || !maxSlippage) {
+      return isSell ? ZERO : MAX_UINT_256;
+    }
+
+    const value = getComponentValue(component, quantity, marketData);
+    const limitValue = preciseMul(value, isSell ? PRECISE_UNIT.sub(maxSlippage) : PRECISE_UNIT.add(maxSlippage));
+    return getComponentQuantity(state.weth, limitValue, marketData);
+  }
+
+  private async getTradeRemainingLimit(state: IndexRebalanceState, component: Address): Promise<BigNumber> {
+    const { marketData, maxSlippage } = this._options;
+    if (!marketData || !maxSlippage) {
+      return ZERO;
+    }
+
+    const totalSupply = await this._setToken.totalSupply();
+    const wethQuantity = preciseMul(state.wethUnit.sub(state.wethTargetUnit), totalSupply);
+    const value = preciseMul(getComponentValue(state.weth, wethQuantity, marketData), PRECISE_UNIT.sub(maxSlippage));
+    return getComponentQuantity(component, value, marketData);
+  }
+
+  private async getFill(
+    state: IndexRebalanceState,
+    method: "trade" | "tradeRemainingWETH",
+    component: Address,
+    receipt: ContractReceipt
+  ): Promise<IndexTradeFill> {
+    const event = receipt.logs
+      .filter(log => log.address === this._indexModule.address)
+      .map(log => this._indexModule.interface.parseLog(log))
+      .find(parsed => parsed.name === "TradeExecuted");
+
+    if (!event) {
+      throw new Error(`No TradeExecuted event in ${receipt.transactionHash}`);
+    }
+
+    const sendToken = event.args._sellComponent;
+    const receiveToken = event.args._buyComponent;
+    const sendQuantity = event.args._netAmountSold;
+    const receiveQuantity = event.args._netAmountReceived;
+    const protocolFee = event.args._protocolFee;
+
+    const { marketData } = this._options;
+    let slippage: BigNumber | undefined;
+    if (marketData) {
+      const sentValue = getComponentValue(sendToken, sendQuantity, marketData);
+      const receivedValue = getComponentValue(receiveToken, receiveQuantity.add(protocolFee), marketData);
+      slippage = sentValue.gt(0) ? preciseDiv(sentValue.sub(receivedValue), sentValue) : ZERO;
+    }
+
+    const componentState = state.components.find(c => c.component === component);
+
+    return {
+      method,
+      component,
+      exchangeName: componentState ? componentState.exchangeName : "",
+      sendToken,
+      receiveToken,
+      sendQuantity,
+      receiveQuantity,
+      protocolFee,
+      slippage,
+      timestamp: (await this._indexModule.provider.getBlock(receipt.blockNumber)).timestamp,
+      gasUsed: receipt.gasUsed,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  private formatFill(fill: IndexTradeFill): string {
+    const amount = (token: Address, quantity: BigNumber) => {
+      const decimals = this._options.marketData ? this._options.marketData.decimals[token] : undefined;
+      return `${decimals === undefined ? quantity.toString() : formatUnits(quantity, decimals)} ${token}`;
+    };
+    const slippage = fill.slippage ? `, slippage ${formatUnits(fill.slippage.mul(100))}%` : "";
+
+    return `${fill.method} via ${fill.exchangeName}: sold ${amount(fill.sendToken, fill.sendQuantity)} ` +
+      `for ${amount(fill.receiveToken, fill.receiveQuantity)} (protocol fee ${fill.protocolFee.toString()}${slippage}) ` +
+      `in ${fill.transactionHash}`;
+  }
+}
+
+const getComponentQuantity = (component: Address, value: BigNumber, marketData: IndexRebalanceMarketData): BigNumber => {
+  return value.mul(BigNumber.from(10).pow(marketData.decimals[component])).div(marketData.prices[component]);
+};
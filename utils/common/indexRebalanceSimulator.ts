@@ -0,0 +1,89 @@
+import { BigNumber, providers } from "ethers";
+
+import { Blockchain } from "./blockchainUtils";
+import { IndexRebalanceKeeper } from "./indexRebalanceKeeper";
+import { applyIndexRebalancePlan, getIndexRebalanceState, isIndexTargetUnmet } from "./indexRebalanceUtils";
+import { GeneralIndexModule, SetToken } from "../contracts";
+import { IndexRebalanceSimulation, IndexRebalanceSimulationOptions } from "../types";
+
+/**
+ * Runs a GeneralIndexModule rebalance to completion on a local or forked network and reverts the chain afterwards.
+ * Trades are executed by an IndexRebalanceKeeper with the signer `indexModule` is connected to, which must be an
+ * allowed trader unless a plan is applied. No slippage limits are set, so the fills reflect the liquidity available
+ * on the configured exchanges.
+ */
+export class IndexRebalanceSimulator {
+  public _provider: providers.Web3Provider | providers.JsonRpcProvider;
+  private _blockchain: Blockchain;
+
+  constructor(_provider: providers.Web3Provider | providers.JsonRpcProvider) {
+    this._provider = _provider;
+    this._blockchain = new Blockchain(_provider);
+  }
+
+  public async simulate(
+    indexModule: GeneralIndexModule,
+    setToken: SetToken,
+    options: IndexRebalanceSimulationOptions = {}
+  ): Promise<IndexRebalanceSimulation> {
+    const snapshotId = await this._blockchain.saveSnapshotAsync();
+
+    try {
+      if (options.plan) {
+        if (!options.manager) {
+          throw new Error("A manager is required to apply a rebalance plan");
+        }
+
+        const managerIndexModule = indexModule.connect(options.manager);
+        await applyIndexRebalancePlan(managerIndexModule, options.plan);
+
+        const trader = await indexModule.signer.getAddress();
+        if (!await indexModule.getIsAllowedTrader(setToken.address, trader)) {
+          await managerIndexModule.setTraderStatus(setToken.address, [trader], [true]);
+        }
+      }
+
+      return await this.runRebalance(indexModule, setToken, options);
+    } finally {
+      await this._blockchain.revertByIdAsync(snapshotId);
+    }
+  }
+
+  private async runRebalance(
+    indexModule: GeneralIndexModule,
+    setToken: SetToken,
+    options: IndexRebalanceSimulationOptions
+  ): Promise<IndexRebalanceSimulation> {
+    const startTimestamp = (await getIndexRebalanceState(indexModule, setToken)).timestamp;
+
+    const keeper = new IndexRebalanceKeeper(indexModule, setToken, {
+      marketData: options.marketData,
+      advanceTime: true,
+      maxSteps: options.maxSteps,
+      logger: () => {},
+    });
+    const { fills, raises, skippedComponents } = await keeper.run();
+
+    const state = await getIndexRebalanceState(indexModule, setToken);
+
+    const finalUnits: { [component: string]: BigNumber } = { [state.weth]: state.wethUnit };
+    const targetUnits: { [component: string]: BigNumber } = { [state.weth]: state.wethTargetUnit };
+    state.components.forEach(component => {
+      finalUnits[component.component] = component.currentUnit;
+      targetUnits[component.component] = component.targetUnit;
+    });
+
+    return {
+      fills,
+      trades: fills.length,
+      raises,
+      duration: state.timestamp - startTimestamp,
+      finalUnits,
+      targetUnits,
+      unmetComponents: state.components
+        .filter(component => isIndexTargetUnmet(state, component))
+        .map(component => component.component),
+      skippedComponents,
+    };
+  }
+}
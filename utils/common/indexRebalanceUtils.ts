@@ -0,0 +1,296 @@
+import { BigNumber, Contract, ContractTransaction } from "ethers";
+
+import { preciseMul } from "./mathUtils";
+import { POSITION_STATE, PRECISE_UNIT, ZERO } from "../constants";
+import { GeneralIndexModule, PriceOracle, SetToken } from "../contracts";
+import {
+  Address,
+  IndexRebalanceAction,
+  IndexRebalanceComponentPlan,
+  IndexRebalanceComponentState,
+  IndexRebalanceMarketData,
+  IndexRebalancePlan,
+  IndexRebalancePlanParams,
+  IndexRebalanceState,
+} from "../types";
+
+const ERC20_DECIMALS_ABI = ["function decimals() view returns (uint8)"];
+
+/**
+ * Fetches prices of the components in the quote asset from the PriceOracle, along with their decimals.
+ */
+export const getIndexRebalanceMarketData = async(
+  priceOracle: PriceOracle,
+  components: Address[],
+  quoteAsset: Address
+): Promise<IndexRebalanceMarketData> => {
+  const marketData: IndexRebalanceMarketData = { prices: {}, decimals: {} };
+
+  for (const component of components) {
+    const token = new Contract(component, ERC20_DECIMALS_ABI, priceOracle.provider);
+
+    marketData.prices[component] = component === quoteAsset ? PRECISE_UNIT : await priceOracle.getPrice(component, quoteAsset);
+    marketData.decimals[component] = await token.decimals();
+  }
+
+  return marketData;
+};
+
+// Value of `unit` base units of a component in the quote asset (in precise units)
+export const getComponentValue = (
+  component: Address,
+  unit: BigNumber,
+  marketData: IndexRebalanceMarketData
+): BigNumber => {
+  return unit.mul(getPrice(component, marketData)).div(BigNumber.from(10).pow(getDecimals(component, marketData)));
+};
+
+/**
+ * Computes the arguments of startRebalance and the execution parameter setters needed to move a SetToken to the
+ * target weights at the given prices. Current components missing from the target weights are removed (target unit
+ * of 0). WETH is a valid target but is never traded explicitly, so it is left out of the execution parameters.
+ */
+export const planIndexRebalance = (params: IndexRebalancePlanParams): IndexRebalancePlan => {
+  const { snapshot, targetWeights, marketData, weth, maxTradeValue, exchanges, coolOffPeriod } = params;
+
+  const totalWeight = Object.keys(targetWeights).reduce((total, component) => total.add(targetWeights[component]), ZERO);
+  if (!totalWeight.eq(PRECISE_UNIT)) {
+    throw new Error(`Target weights must sum to ${PRECISE_UNIT.toString()}, got ${totalWeight.toString()}`);
+  }
+
+  const currentUnits: { [component: string]: BigNumber } = {};
+  snapshot.positions
+    .filter(position => position.positionState === POSITION_STATE.DEFAULT)
+    .forEach(position => currentUnits[position.component] = position.unit);
+
+  const valuePerSet = snapshot.components.reduce(
+    (total, component) => total.add(getComponentValue(component, currentUnits[component] || ZERO, marketData)),
+    ZERO
+  );
+
+  const newComponents = Object.keys(targetWeights).filter(component => !snapshot.components.includes(component));
+  const aggregateComponents = snapshot.components.concat(newComponents);
+
+  const components: IndexRebalanceComponentPlan[] = aggregateComponents.map(component => {
+    const weight = targetWeights[component] || ZERO;
+    const decimals = getDecimals(component, marketData);
+    const price = getPrice(component, marketData);
+
+    const currentUnit = currentUnits[component] || ZERO;
+    const targetUnit = preciseMul(weight, valuePerSet).mul(BigNumber.from(10).pow(decimals)).div(price);
+    const tradeQuantity = preciseMul(targetUnit.sub(currentUnit).abs(), snapshot.totalSupply);
+    const tradeMaximum = maxTradeValue.mul(BigNumber.from(10).pow(decimals)).div(price);
+
+    const isTraded = component !== weth && !targetUnit.eq(currentUnit);
+    if (isTraded && !exchanges[component]) {
+      throw new Error(`No exchange specified for ${component}`);
+    }
+
+    return {
+      component,
+      currentUnit,
+      targetUnit,
+      currentValue: getComponentValue(component, currentUnit, marketData),
+      targetValue: getComponentValue(component, targetUnit, marketData),
+      isSell: targetUnit.lt(currentUnit),
+      tradeQuantity,
+      tradeMaximum,
+      expectedTrades: isTraded && tradeMaximum.gt(0) ? ceilDiv(tradeQuantity, tradeMaximum).toNumber() : 0,
+      exchangeName: isTraded ? exchanges[component] : "",
+    };
+  });
+
+  const tradedComponents = components.filter(plan => plan.component !== weth && !plan.targetUnit.eq(plan.currentUnit));
+  const exchangeData = params.exchangeData || {};
+  const exchangeDataComponents = tradedComponents.filter(plan => exchangeData[plan.component] !== undefined);
+
+  return {
+    setToken: snapshot.setToken,
+    valuePerSet,
+    startRebalance: {
+      newComponents,
+      newComponentsTargetUnits: components.slice(snapshot.components.length).map(plan => plan.targetUnit),
+      oldComponentsTargetUnits: components.slice(0, snapshot.components.length).map(plan => plan.targetUnit),
+      positionMultiplier: snapshot.positionMultiplier,
+    },
+    setTradeMaximums: {
+      components: tradedComponents.map(plan => plan.component),
+      tradeMaximums: tradedComponents.map(plan => plan.tradeMaximum),
+    },
+    setExchanges: {
+      components: tradedComponents.map(plan => plan.component),
+      exchangeNames: tradedComponents.map(plan => plan.exchangeName),
+    },
+    setExchangeData: {
+      components: exchangeDataComponents.map(plan => plan.component),
+      exchangeData: exchangeDataComponents.map(plan => exchangeData[plan.component]),
+    },
+    setCoolOffPeriods: {
+      components: tradedComponents.map(plan => plan.component),
+      coolOffPeriods: tradedComponents.map(() => coolOffPeriod),
+    },
+    raiseTargetPercentage: params.raiseTargetPercentage,
+    components,
+  };
+};
+
+/**
+ * Submits the manager transactions of a plan. `indexModule` must be connected to the SetToken's manager. Setters
+ * without components are skipped, since GeneralIndexModule rejects empty component arrays.
+ */
+export const applyIndexRebalancePlan = async(
+  indexModule: GeneralIndexModule,
+  plan: IndexRebalancePlan
+): Promise<ContractTransaction[]> => {
+  const { startRebalance, setTradeMaximums, setExchanges, setExchangeData, setCoolOffPeriods } = plan;
+
+  const transactions: ContractTransaction[] = [];
+
+  if (setTradeMaximums.components.length > 0) {
+    transactions.push(await indexModule.setTradeMaximums(plan.setToken, setTradeMaximums.components, setTradeMaximums.tradeMaximums));
+  }
+
+  if (setExchanges.components.length > 0) {
+    transactions.push(await indexModule.setExchanges(plan.setToken, setExchanges.components, setExchanges.exchangeNames));
+  }
+
+  if (setCoolOffPeriods.components.length > 0) {
+    transactions.push(await indexModule.setCoolOffPeriods(plan.setToken, setCoolOffPeriods.components, setCoolOffPeriods.coolOffPeriods));
+  }
+
+  if (setExchangeData.components.length > 0) {
+    transactions.push(await indexModule.setExchangeData(plan.setToken, setExchangeData.components, setExchangeData.exchangeData));
+  }
+
+  if (plan.raiseTargetPercentage) {
+    transactions.push(await indexModule.setRaiseTargetPercentage(plan.setToken, plan.raiseTargetPercentage));
+  }
+
+  transactions.push(await indexModule.startRebalance(
+    plan.setToken,
+    startRebalance.newComponents,
+    startRebalance.newComponentsTargetUnits,
+    startRebalance.oldComponentsTargetUnits,
+    startRebalance.positionMultiplier
+  ));
+
+  return transactions;
+};
+
+/**
+ * Reads the rebalance progress of a SetToken. Target units are normalized the same way GeneralIndexModule does,
+ * so they account for fees accrued since the rebalance started.
+ */
+export const getIndexRebalanceState = async(
+  indexModule: GeneralIndexModule,
+  setToken: SetToken
+): Promise<IndexRebalanceState> => {
+  const [weth, rebalanceComponents, rebalanceInfo, positionMultiplier, block] = await Promise.all([
+    indexModule.weth(),
+    indexModule.getRebalanceComponents(setToken.address),
+    indexModule.rebalanceInfo(setToken.address),
+    setToken.positionMultiplier(),
+    setToken.provider.getBlock("latest"),
+  ]);
+
+  if (rebalanceInfo.positionMultiplier.eq(0)) {
+    throw new Error(`No rebalance started for ${setToken.address}`);
+  }
+
+  const getNormalizedTargetUnit = (targetUnit: BigNumber) => targetUnit.mul(positionMultiplier).div(rebalanceInfo.positionMultiplier);
+
+  const components: IndexRebalanceComponentState[] = [];
+  for (const component of rebalanceComponents) {
+    const executionInfo = await indexModule.executionInfo(setToken.address, component);
+
+    components.push({
+      component,
+      currentUnit: await setToken.getDefaultPositionRealUnit(component),
+      targetUnit: getNormalizedTargetUnit(executionInfo.targetUnit),
+      maxSize: executionInfo.maxSize,
+      coolOffPeriod: executionInfo.coolOffPeriod,
+      lastTradeTimestamp: executionInfo.lastTradeTimestamp,
+      exchangeName: executionInfo.exchangeName,
+    });
+  }
+
+  const wethExecutionInfo = await indexModule.executionInfo(setToken.address, weth);
+
+  return {
+    setToken: setToken.address,
+    weth,
+    timestamp: block.timestamp,
+    wethUnit: await setToken.getDefaultPositionRealUnit(weth),
+    wethTargetUnit: getNormalizedTargetUnit(wethExecutionInfo.targetUnit),
+    raiseTargetPercentage: rebalanceInfo.raiseTargetPercentage,
+    components,
+  };
+};
+
+// Mirrors GeneralIndexModule#_targetUnmet, which allows a 1 wei buffer for non-zero targets
+export const isIndexTargetUnmet = (state: IndexRebalanceState, component: IndexRebalanceComponentState): boolean => {
+  if (component.component === state.weth) {
+    return false;
+  }
+
+  return component.targetUnit.gt(0) ?
+    component.targetUnit.sub(component.currentUnit).abs().gt(1) :
+    !component.targetUnit.eq(component.currentUnit);
+};
+
+/**
+ * Decides the next call of a rebalance: sell components above target first, then buy components below target,
+ * waiting out cool off periods, and raise asset targets once all targets are met with WETH left over.
+ * Components in `skippedComponents` are ignored, e.g. after their trades failed.
+ */
+export const getNextIndexRebalanceAction = (
+  state: IndexRebalanceState,
+  skippedComponents: Address[] = []
+): IndexRebalanceAction => {
+  const unmet = state.components.filter(component =>
+    !skippedComponents.includes(component.component) && isIndexTargetUnmet(state, component)
+  );
+
+  const sells = unmet.filter(component => component.targetUnit.lt(component.currentUnit));
+  const buys = unmet.filter(component => component.targetUnit.gt(component.currentUnit));
+  const candidates = sells.length > 0 ? sells : buys;
+
+  if (candidates.length > 0) {
+    const getReadyTimestamp = (component: IndexRebalanceComponentState) =>
+      component.lastTradeTimestamp.add(component.coolOffPeriod).toNumber();
+
+    const ready = candidates.find(component => getReadyTimestamp(component) <= state.timestamp);
+    if (ready) {
+      return { method: "trade", component: ready.component, isSell: sells.length > 0 };
+    }
+
+    return { method: "wait", readyTimestamp: Math.min(...candidates.map(getReadyTimestamp)) };
+  }
+
+  const hasSkippedTargets = state.components.some(component =>
+    skippedComponents.includes(component.component) && isIndexTargetUnmet(state, component)
+  );
+  if (!hasSkippedTargets && state.wethUnit.gt(state.wethTargetUnit) && state.raiseTargetPercentage.gt(0)) {
+    return { method: "raiseAssetTargets" };
+  }
+
+  return { method: "done" };
+};
+
+const getPrice = (component: Address, marketData: IndexRebalanceMarketData): BigNumber => {
+  const price = marketData.prices[component];
+  if (!price || price.eq(0)) {
+    throw new Error(`No price for ${component}`);
+  }
+  return price;
+};
+
+const getDecimals = (component: Address, marketData: IndexRebalanceMarketData): number => {
+  const decimals = marketData.decimals[component];
+  if (decimals === undefined) {
+    throw new Error(`No decimals for ${component}`);
+  }
+  return decimals;
+};
+
+const ceilDiv = (a: BigNumber, b: BigNumber): BigNumber => a.add(b).sub(1).div(b);
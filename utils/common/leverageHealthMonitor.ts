@@ -0,0 +1,342 @@
+import { BigNumber } from "ethers";
+import { formatUnits } from "ethers/lib/utils";
+
+import { min, preciseDiv, preciseMul } from "./mathUtils";
+import { MAX_UINT_256, PRECISE_UNIT, ZERO } from "../constants";
+import { AaveLeverageModule, CompoundLeverageModule, SetToken } from "../contracts";
+import { AaveV2Oracle, AaveV2ProtocolDataProvider } from "../contracts/aaveV2";
+import { Comptroller } from "../contracts/compound";
+import {
+  Address,
+  LeverageBorrowPosition,
+  LeverageCollateralPosition,
+  LeverageDeleverParams,
+  LeverageHealthAlert,
+  LeverageHealthReport,
+  LeverageHealthThresholds,
+  LeveragePositionHealth,
+  LeveragePositionState,
+} from "../types";
+import { CERc20__factory } from "../../typechain/factories/CERc20__factory";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { PriceOracleProxy__factory } from "../../typechain/factories/PriceOracleProxy__factory";
+
+// Aave reserve parameters are in basis points
+const AAVE_BPS = BigNumber.from(10000);
+
+// Value of a position in the lending protocol's base currency
+export const getLeveragePositionValue = (position: LeverageCollateralPosition | LeverageBorrowPosition): BigNumber => {
+  return position.notional.mul(position.price).div(BigNumber.from(10).pow(position.decimals));
+};
+
+const formatPrecise = (value: BigNumber): string => value.eq(MAX_UINT_256) ? "infinite" : formatUnits(value);
+
+/**
+ * Computes leverage ratio, health factor and liquidation price of a SetToken levered through AaveLeverageModule or
+ * CompoundLeverageModule, and suggests `delever` parameters when the position crosses the given thresholds. All
+ * values use the oracle prices of the lending protocol, so the health factor matches the protocol's liquidation check.
+ *
+ * Suggested delevers assume the trade executes at oracle prices, with `minRepayQuantityUnits` discounted by the
+ * slippage tolerance. They redeem the largest collateral position to repay the largest borrow position.
+ */
+export class LeverageHealthMonitor {
+  private _state: LeveragePositionState;
+
+  constructor(state: LeveragePositionState) {
+    this._state = state;
+  }
+
+  /**
+   * Reads the collateral and borrow positions of the assets enabled on AaveLeverageModule. Collateral the SetToken
+   * has not enabled as collateral on Aave has a liquidation threshold of 0.
+   */
+  public static async fromAaveLeverageModule(
+    aaveLeverageModule: AaveLeverageModule,
+    setToken: SetToken,
+    protocolDataProvider: AaveV2ProtocolDataProvider,
+    priceOracle: AaveV2Oracle
+  ): Promise<LeverageHealthMonitor> {
+    const [collateralAssets, borrowAssets] = await aaveLeverageModule.getEnabledAssets(setToken.address);
+
+    const collateralPositions: LeverageCollateralPosition[] = [];
+    for (const asset of collateralAssets) {
+      const configuration = await protocolDataProvider.getReserveConfigurationData(asset);
+      const userReserve = await protocolDataProvider.getUserReserveData(asset, setToken.address);
+
+      collateralPositions.push({
+        asset,
+        notional: userReserve.currentATokenBalance,
+        decimals: configuration.decimals.toNumber(),
+        price: await priceOracle.getAssetPrice(asset),
+        liquidationThreshold: userReserve.usageAsCollateralEnabled ?
+          configuration.liquidationThreshold.mul(PRECISE_UNIT).div(AAVE_BPS) :
+          ZERO,
+      });
+    }
+
+    const borrowPositions: LeverageBorrowPosition[] = [];
+    for (const asset of borrowAssets) {
+      const configuration = await protocolDataProvider.getReserveConfigurationData(asset);
+      const userReserve = await protocolDataProvider.getUserReserveData(asset, setToken.address);
+
+      borrowPositions.push({
+        asset,
+        notional: userReserve.currentVariableDebt.add(userReserve.currentStableDebt),
+        decimals: configuration.decimals.toNumber(),
+        price: await priceOracle.getAssetPrice(asset),
+      });
+    }
+
+    return new LeverageHealthMonitor({
+      setToken: setToken.address,
+      totalSupply: await setToken.totalSupply(),
+      collateralPositions,
+      borrowPositions,
+    });
+  }
+
+  /**
+   * Reads the collateral and borrow positions of the cTokens enabled on CompoundLeverageModule, valued with the
+   * comptroller's price oracle. cEther collateral is reported as WETH, matching the module's `delever` arguments.
+   * Balances use the stored exchange rates and borrow balances, so interest since the last accrual is not included.
+   */
+  public static async fromCompoundLeverageModule(
+    compoundLeverageModule: CompoundLeverageModule,
+    setToken: SetToken,
+    comptroller: Comptroller,
+    cEther: Address,
+    weth: Address
+  ): Promise<LeverageHealthMonitor> {
+    const provider = compoundLeverageModule.provider;
+    const priceOracle = PriceOracleProxy__factory.connect(await comptroller.oracle(), provider);
+    const [collateralCTokens, borrowAssets] = await compoundLeverageModule.getEnabledAssets(setToken.address);
+
+    // Compound prices are scaled by 1e(36 - underlying decimals) so that they apply to the smallest unit
+    const getWholeTokenPrice = async (cToken: Address, decimals: number) => {
+      const price = await priceOracle.getUnderlyingPrice(cToken);
+      return price.mul(BigNumber.from(10).pow(decimals)).div(PRECISE_UNIT);
+    };
+
+    const collateralPositions: LeverageCollateralPosition[] = [];
+    for (const cTokenAddress of collateralCTokens) {
+      const cToken = CERc20__factory.connect(cTokenAddress, provider);
+      const asset = cTokenAddress === cEther ? weth : await cToken.underlying();
+      const decimals = await ERC20__factory.connect(asset, provider).decimals();
+      const market = await comptroller.markets(cTokenAddress);
+      const isMember = await comptroller.checkMembership(setToken.address, cTokenAddress);
+
+      collateralPositions.push({
+        asset,
+        notional: preciseMul(await cToken.balanceOf(setToken.address), await cToken.exchangeRateStored()),
+        decimals,
+        price: await getWholeTokenPrice(cTokenAddress, decimals),
+        liquidationThreshold: isMember ? market.collateralFactorMantissa : ZERO,
+      });
+    }
+
+    const borrowPositions: LeverageBorrowPosition[] = [];
+    for (const asset of borrowAssets) {
+      const cTokenAddress = await compoundLeverageModule.underlyingToCToken(asset);
+      const decimals = await ERC20__factory.connect(asset, provider).decimals();
+
+      borrowPositions.push({
+        asset,
+        notional: await CERc20__factory.connect(cTokenAddress, provider).borrowBalanceStored(setToken.address),
+        decimals,
+        price: await getWholeTokenPrice(cTokenAddress, decimals),
+      });
+    }
+
+    return new LeverageHealthMonitor({
+      setToken: setToken.address,
+      totalSupply: await setToken.totalSupply(),
+      collateralPositions,
+      borrowPositions,
+    });
+  }
+
+  public get state(): LeveragePositionState {
+    return this._state;
+  }
+
+  public getHealth(): LeveragePositionHealth {
+    const collateralValue = this._getTotalValue(this._state.collateralPositions);
+    const borrowValue = this._getTotalValue(this._state.borrowPositions);
+    const thresholdValue = this._getThresholdValue(this._state.collateralPositions);
+
+    let leverageRatio = PRECISE_UNIT;
+    if (borrowValue.gt(0)) {
+      leverageRatio = collateralValue.gt(borrowValue) ?
+        preciseDiv(collateralValue, collateralValue.sub(borrowValue)) :
+        MAX_UINT_256;
+    }
+
+    return {
+      collateralValue,
+      borrowValue,
+      leverageRatio,
+      healthFactor: borrowValue.gt(0) ? preciseDiv(thresholdValue, borrowValue) : MAX_UINT_256,
+      ...this._getLiquidationPrice(borrowValue, thresholdValue),
+    };
+  }
+
+  public getAlerts(thresholds: LeverageHealthThresholds): LeverageHealthAlert[] {
+    const { healthFactor, leverageRatio } = this.getHealth();
+    const alerts: LeverageHealthAlert[] = [];
+
+    if (thresholds.minHealthFactor && healthFactor.lt(thresholds.minHealthFactor)) {
+      alerts.push({
+        type: "healthFactor",
+        value: healthFactor,
+        threshold: thresholds.minHealthFactor,
+        message: `Health factor ${formatPrecise(healthFactor)} is below ${formatPrecise(thresholds.minHealthFactor)}`,
+      });
+    }
+
+    if (thresholds.maxLeverageRatio && leverageRatio.gt(thresholds.maxLeverageRatio)) {
+      alerts.push({
+        type: "leverageRatio",
+        value: leverageRatio,
+        threshold: thresholds.maxLeverageRatio,
+        message: `Leverage ratio ${formatPrecise(leverageRatio)} is above ${formatPrecise(thresholds.maxLeverageRatio)}`,
+      });
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Parameters of a delever that brings the leverage ratio down to `targetLeverageRatio`, capped at the size of the
+   * largest collateral and borrow positions. `delever` withdraws collateral before repaying, so the redeem is also
+   * capped at what can be withdrawn while the health factor stays at 1. Returns undefined if the position is already
+   * at or below the target, has no borrows, is underwater or liquidatable, or the SetToken has no supply.
+   */
+  public getDeleverParams(targetLeverageRatio: BigNumber, slippageTolerance: BigNumber): LeverageDeleverParams | undefined {
+    const { collateralValue, borrowValue } = this.getHealth();
+    const netValue = collateralValue.sub(borrowValue);
+    const collateral = this.getCollateralPosition();
+    const borrow = this.getBorrowPosition();
+
+    if (!collateral || !borrow || borrowValue.eq(0) || netValue.lte(0) || this._state.totalSupply.eq(0)) {
+      return undefined;
+    }
+
+    // Redeeming and repaying the same value keeps the net value, so the target is reached at collateral = target * net
+    const repayValue = min(
+      collateralValue.sub(preciseMul(targetLeverageRatio, netValue)),
+      min(this.getWithdrawableValue(collateral.asset), getLeveragePositionValue(borrow))
+    );
+    if (repayValue.lte(0)) {
+      return undefined;
+    }
+
+    const redeemNotional = repayValue.mul(BigNumber.from(10).pow(collateral.decimals)).div(collateral.price);
+    const repayNotional = repayValue.mul(BigNumber.from(10).pow(borrow.decimals)).div(borrow.price);
+    const minRepayNotional = preciseMul(repayNotional, PRECISE_UNIT.sub(slippageTolerance));
+
+    return {
+      setToken: this._state.setToken,
+      collateralAsset: collateral.asset,
+      repayAsset: borrow.asset,
+      redeemQuantityUnits: preciseDiv(redeemNotional, this._state.totalSupply),
+      minRepayQuantityUnits: preciseDiv(minRepayNotional, this._state.totalSupply),
+      expectedLeverageRatio: preciseDiv(collateralValue.sub(repayValue), netValue),
+    };
+  }
+
+  public getReport(thresholds: LeverageHealthThresholds): LeverageHealthReport {
+    const alerts = this.getAlerts(thresholds);
+
+    return {
+      health: this.getHealth(),
+      alerts,
+      delever: alerts.length > 0 ?
+        this.getDeleverParams(thresholds.targetLeverageRatio, thresholds.slippageTolerance) :
+        undefined,
+    };
+  }
+
+  /**
+   * Collateral position of `asset`, or the largest collateral position by value if no asset is given
+   */
+  public getCollateralPosition(asset?: Address): LeverageCollateralPosition | undefined {
+    return asset ?
+      this._state.collateralPositions.find(position => position.asset === asset) :
+      this._getLargestPosition(this._state.collateralPositions);
+  }
+
+  /**
+   * Borrow position of `asset`, or the largest borrow position by value if no asset is given
+   */
+  public getBorrowPosition(asset?: Address): LeverageBorrowPosition | undefined {
+    return asset ?
+      this._state.borrowPositions.find(position => position.asset === asset) :
+      this._getLargestPosition(this._state.borrowPositions);
+  }
+
+  /**
+   * Value of `collateralAsset` that can be withdrawn without the health factor falling below 1
+   */
+  public getWithdrawableValue(collateralAsset: Address): BigNumber {
+    const collateral = this.getCollateralPosition(collateralAsset);
+    if (!collateral) {
+      return ZERO;
+    }
+
+    const collateralValue = getLeveragePositionValue(collateral);
+    const borrowValue = this._getTotalValue(this._state.borrowPositions);
+    const thresholdValue = this._getThresholdValue(this._state.collateralPositions);
+
+    if (collateral.liquidationThreshold.eq(0) || borrowValue.eq(0)) {
+      return collateralValue;
+    }
+
+    return thresholdValue.gt(borrowValue) ?
+      min(collateralValue, preciseDiv(thresholdValue.sub(borrowValue), collateral.liquidationThreshold)) :
+      ZERO;
+  }
+
+  private _getTotalValue(positions: (LeverageCollateralPosition | LeverageBorrowPosition)[]): BigNumber {
+    return positions.reduce((total, position) => total.add(getLeveragePositionValue(position)), ZERO);
+  }
+
+  private _getThresholdValue(positions: LeverageCollateralPosition[]): BigNumber {
+    return positions.reduce((total, position) => total.add(preciseMul(getLeveragePositionValue(position), position.liquidationThreshold)), ZERO);
+  }
+
+  private _getLargestPosition<T extends LeverageCollateralPosition | LeverageBorrowPosition>(positions: T[]): T | undefined {
+    return positions.reduce<T | undefined>(
+      (largest, position) => !largest || getLeveragePositionValue(position).gt(getLeveragePositionValue(largest)) ? position : largest,
+      undefined
+    );
+  }
+
+  // The price of the largest collateral, in units of the largest borrow, at which threshold-weighted collateral
+  // equals the borrow value
+  private _getLiquidationPrice(
+    borrowValue: BigNumber,
+    thresholdValue: BigNumber
+  ): { liquidationPrice: BigNumber | undefined; liquidationDistance: BigNumber | undefined } {
+    const collateral = this.getCollateralPosition();
+    const borrow = this.getBorrowPosition();
+
+    if (!collateral || !borrow || borrowValue.eq(0) || collateral.notional.eq(0) || collateral.liquidationThreshold.eq(0)) {
+      return { liquidationPrice: undefined, liquidationDistance: undefined };
+    }
+
+    const otherThresholdValue = thresholdValue.sub(preciseMul(getLeveragePositionValue(collateral), collateral.liquidationThreshold));
+    const uncoveredValue = borrowValue.gt(otherThresholdValue) ? borrowValue.sub(otherThresholdValue) : ZERO;
+
+    const liquidationPriceInBase = uncoveredValue
+      .mul(BigNumber.from(10).pow(collateral.decimals))
+      .mul(PRECISE_UNIT)
+      .div(collateral.notional.mul(collateral.liquidationThreshold));
+    const liquidationPrice = preciseDiv(liquidationPriceInBase, borrow.price);
+    const currentPrice = preciseDiv(collateral.price, borrow.price);
+
+    return {
+      liquidationPrice,
+      liquidationDistance: liquidationPrice.lt(currentPrice) ? PRECISE_UNIT.sub(preciseDiv(liquidationPrice, currentPrice)) : ZERO,
+    };
+  }
+}
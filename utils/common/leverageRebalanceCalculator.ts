@@ -0,0 +1,353 @@
+import { BigNumber } from "ethers";
+
+import { getExchangeAdapterTradeData } from "./adapterUtils";
+import { getLeveragePositionValue, LeverageHealthMonitor } from "./leverageHealthMonitor";
+import { min, preciseDiv, preciseMul } from "./mathUtils";
+import { MAX_UINT_256, PRECISE_UNIT, ZERO } from "../constants";
+import {
+  Address,
+  Bytes,
+  LeverageBorrowPosition,
+  LeverageCollateralPosition,
+  LeverageDeleverCall,
+  LeverageDeleverToZeroBorrowBalanceCall,
+  LeverageLeverCall,
+  LeveragePositionState,
+  LeverageRebalanceParams,
+  LeverageRipcordParams,
+  LeverageTradeAdapter,
+  LeverageTradeQuoter,
+} from "../types";
+import { AaveLeverageModule__factory } from "../../typechain/factories/AaveLeverageModule__factory";
+
+// AaveLeverageModule and CompoundLeverageModule share the lever and delever signatures
+const LEVERAGE_MODULE_INTERFACE = AaveLeverageModule__factory.createInterface();
+
+// Quoted trades are resized until the size changes by less than 1 / QUOTE_TOLERANCE
+const MAX_QUOTE_ITERATIONS = 10;
+const QUOTE_TOLERANCE = BigNumber.from(1000000);
+
+type LeveragePosition = LeverageCollateralPosition | LeverageBorrowPosition;
+
+// Value to trade given the rate (value received over value sold) of the trade
+// (eslint is confused by parameters of typescript function types)
+// eslint-disable-next-line no-unused-vars
+type TradeValueGetter = (rate: BigNumber) => BigNumber;
+
+interface LeverageTrade {
+  path: Address[];
+  fees: number[];
+  sendQuantityUnits: BigNumber;
+  sendNotional: BigNumber;
+  receiveNotional: BigNumber;
+}
+
+const toNotional = (value: BigNumber, position: LeveragePosition): BigNumber => {
+  return value.mul(BigNumber.from(10).pow(position.decimals)).div(position.price);
+};
+
+const toValue = (notional: BigNumber, position: LeveragePosition): BigNumber => {
+  return getLeveragePositionValue({ ...position, notional });
+};
+
+const getLeverageRatio = (collateralValue: BigNumber, borrowValue: BigNumber): BigNumber => {
+  return collateralValue.gt(borrowValue) ? preciseDiv(collateralValue, collateralValue.sub(borrowValue)) : MAX_UINT_256;
+};
+
+/**
+ * Sizes AaveLeverageModule and CompoundLeverageModule `lever`, `delever` and `deleverToZeroBorrowBalance` calls from
+ * a position read by LeverageHealthMonitor, and encodes the exchange adapter data and module calldata.
+ *
+ * Without a quoter trades are sized at the lending protocol's oracle prices. With a quoter, e.g. a Uniswap router's
+ * `getAmountsOut`, the trade size is refined against the quoted rate so that fees and price impact are included.
+ * Min receive quantities are the expected quantity discounted by the slippage tolerance. Lever calls are not checked
+ * against the protocol's borrow limit (LTV). Delever calls withdraw collateral before repaying, so they redeem at most
+ * the withdrawable collateral discounted by the slippage tolerance, leaving room for interest accrued before execution.
+ */
+export class LeverageRebalanceCalculator {
+  private _state: LeveragePositionState;
+  private _monitor: LeverageHealthMonitor;
+  private _quoter: LeverageTradeQuoter | undefined;
+
+  constructor(state: LeveragePositionState, quoter?: LeverageTradeQuoter) {
+    this._state = state;
+    this._monitor = new LeverageHealthMonitor(state);
+    this._quoter = quoter;
+  }
+
+  /**
+   * Returns the `lever` call that brings the leverage ratio up to the target, or undefined if the position is at or
+   * above the target, is underwater, or the quoted rate is too low to reach the target.
+   */
+  public async getLeverCall(params: LeverageRebalanceParams): Promise<LeverageLeverCall | undefined> {
+    const { targetLeverageRatio, slippageTolerance, tradeAdapter } = params;
+    const collateral = this._getCollateralPosition(params.collateralAsset);
+    const borrow = this._getBorrowPosition(params.borrowAsset);
+    const { collateralValue, borrowValue, leverageRatio } = this._monitor.getHealth();
+
+    if (collateralValue.lte(borrowValue) || leverageRatio.gte(targetLeverageRatio)) {
+      return undefined;
+    }
+
+    // With the trade returning `rate` of the value sold, collateral equals target * net value at a borrow of
+    // ((target - 1) * collateral - target * borrow) / (target - (target - 1) * rate)
+    const targetMinusOne = targetLeverageRatio.sub(PRECISE_UNIT);
+    const trade = await this._sizeTrade(tradeAdapter, borrow, collateral, true, rate => {
+      const denominator = targetLeverageRatio.sub(preciseMul(targetMinusOne, rate));
+      return denominator.gt(0) ?
+        preciseDiv(preciseMul(targetMinusOne, collateralValue).sub(preciseMul(targetLeverageRatio, borrowValue)), denominator) :
+        ZERO;
+    });
+    if (!trade) {
+      return undefined;
+    }
+
+    const minReceiveQuantityUnits = this._getMinReceiveQuantityUnits(trade.receiveNotional, slippageTolerance);
+    const tradeData = this._getTradeData(tradeAdapter, trade, preciseMul(minReceiveQuantityUnits, this._state.totalSupply));
+    const args: [Address, Address, Address, BigNumber, BigNumber, string, Bytes] = [
+      this._state.setToken,
+      borrow.asset,
+      collateral.asset,
+      trade.sendQuantityUnits,
+      minReceiveQuantityUnits,
+      tradeAdapter.name,
+      tradeData,
+    ];
+
+    return {
+      setToken: this._state.setToken,
+      borrowAsset: borrow.asset,
+      collateralAsset: collateral.asset,
+      borrowQuantityUnits: trade.sendQuantityUnits,
+      minReceiveQuantityUnits,
+      tradeAdapterName: tradeAdapter.name,
+      tradeData,
+      expectedLeverageRatio: getLeverageRatio(
+        collateralValue.add(toValue(trade.receiveNotional, collateral)),
+        borrowValue.add(toValue(trade.sendNotional, borrow))
+      ),
+      data: LEVERAGE_MODULE_INTERFACE.encodeFunctionData("lever", args),
+    };
+  }
+
+  /**
+   * Returns the `delever` call that brings the leverage ratio down to the target, capped at the borrow balance and
+   * the withdrawable collateral. Returns undefined if the position is at or below the target or is underwater.
+   */
+  public async getDeleverCall(params: LeverageRebalanceParams): Promise<LeverageDeleverCall | undefined> {
+    const { targetLeverageRatio } = params;
+    const { collateralValue, borrowValue, leverageRatio } = this._monitor.getHealth();
+
+    if (collateralValue.lte(borrowValue) || leverageRatio.lte(targetLeverageRatio)) {
+      return undefined;
+    }
+
+    // With the trade returning `rate` of the value sold, collateral equals target * net value at a redeem of
+    // (collateral - target * net value) / (1 - target * (1 - rate))
+    const netValue = collateralValue.sub(borrowValue);
+    return this._getDeleverCall(params, rate => {
+      const denominator = PRECISE_UNIT.sub(preciseMul(targetLeverageRatio, PRECISE_UNIT.sub(rate)));
+      return denominator.gt(0) ?
+        preciseDiv(collateralValue.sub(preciseMul(targetLeverageRatio, netValue)), denominator) :
+        ZERO;
+    });
+  }
+
+  /**
+   * Returns the largest `delever` call that sells at most `maxTradeSize` of collateral, for when the position must be
+   * delevered quickly regardless of the target. Capped at the borrow balance and the withdrawable collateral.
+   */
+  public async getRipcordCall(params: LeverageRipcordParams): Promise<LeverageDeleverCall | undefined> {
+    const collateral = this._getCollateralPosition(params.collateralAsset);
+
+    return this._getDeleverCall(params, () => toValue(params.maxTradeSize, collateral));
+  }
+
+  /**
+   * Returns the `deleverToZeroBorrowBalance` call that repays the whole borrow balance, redeeming enough collateral to
+   * cover the debt at the slippage tolerance. Returns undefined if there is no debt or the collateral needed cannot be
+   * withdrawn in one call, in which case the position can be delevered with `getRipcordCall` first.
+   *
+   * Adapters that support exact output trades buy exactly the debt. The ZeroExApiAdapter data pins the min repay to
+   * the debt read, so it must be executed before more interest accrues.
+   */
+  public async getDeleverToZeroBorrowBalanceCall(
+    params: Omit<LeverageRebalanceParams, "targetLeverageRatio">
+  ): Promise<LeverageDeleverToZeroBorrowBalanceCall | undefined> {
+    const { slippageTolerance, tradeAdapter } = params;
+    const collateral = this._getCollateralPosition(params.collateralAsset);
+    const borrow = this._getBorrowPosition(params.borrowAsset);
+    const debtValue = getLeveragePositionValue(borrow);
+
+    if (debtValue.eq(0)) {
+      return undefined;
+    }
+
+    const redeemValue = (rate: BigNumber) => preciseDiv(debtValue, preciseMul(rate, PRECISE_UNIT.sub(slippageTolerance)));
+    const trade = await this._sizeTrade(tradeAdapter, collateral, borrow, false, redeemValue);
+    if (!trade || toValue(trade.sendNotional, collateral).gt(this._getWithdrawableValue(collateral, slippageTolerance))) {
+      return undefined;
+    }
+
+    const isExactOutput = tradeAdapter.type === "UniswapV2ExchangeAdapterV2" || tradeAdapter.type === "UniswapV3ExchangeAdapterV2";
+    const tradeData = this._getTradeData(tradeAdapter, trade, borrow.notional, !isExactOutput);
+    const args: [Address, Address, Address, BigNumber, string, Bytes] = [
+      this._state.setToken,
+      collateral.asset,
+      borrow.asset,
+      trade.sendQuantityUnits,
+      tradeAdapter.name,
+      tradeData,
+    ];
+
+    return {
+      setToken: this._state.setToken,
+      collateralAsset: collateral.asset,
+      repayAsset: borrow.asset,
+      redeemQuantityUnits: trade.sendQuantityUnits,
+      tradeAdapterName: tradeAdapter.name,
+      tradeData,
+      data: LEVERAGE_MODULE_INTERFACE.encodeFunctionData("deleverToZeroBorrowBalance", args),
+    };
+  }
+
+  private async _getDeleverCall(
+    params: Omit<LeverageRebalanceParams, "targetLeverageRatio">,
+    getRedeemValue: TradeValueGetter
+  ): Promise<LeverageDeleverCall | undefined> {
+    const { slippageTolerance, tradeAdapter } = params;
+    const collateral = this._getCollateralPosition(params.collateralAsset);
+    const borrow = this._getBorrowPosition(params.borrowAsset);
+    const { collateralValue, borrowValue } = this._monitor.getHealth();
+    const withdrawableValue = this._getWithdrawableValue(collateral, slippageTolerance);
+    const debtValue = getLeveragePositionValue(borrow);
+
+    const trade = await this._sizeTrade(tradeAdapter, collateral, borrow, false, rate => {
+      return min(getRedeemValue(rate), min(withdrawableValue, preciseDiv(debtValue, rate)));
+    });
+    if (!trade) {
+      return undefined;
+    }
+
+    // Repays above the borrow balance are kept by the SetToken as equity
+    const repayValue = min(toValue(trade.receiveNotional, borrow), debtValue);
+    const minRepayQuantityUnits = this._getMinReceiveQuantityUnits(trade.receiveNotional, slippageTolerance);
+    const tradeData = this._getTradeData(tradeAdapter, trade, preciseMul(minRepayQuantityUnits, this._state.totalSupply));
+    const args: [Address, Address, Address, BigNumber, BigNumber, string, Bytes] = [
+      this._state.setToken,
+      collateral.asset,
+      borrow.asset,
+      trade.sendQuantityUnits,
+      minRepayQuantityUnits,
+      tradeAdapter.name,
+      tradeData,
+    ];
+
+    return {
+      setToken: this._state.setToken,
+      collateralAsset: collateral.asset,
+      repayAsset: borrow.asset,
+      redeemQuantityUnits: trade.sendQuantityUnits,
+      minRepayQuantityUnits,
+      expectedLeverageRatio: getLeverageRatio(
+        collateralValue.sub(toValue(trade.sendNotional, collateral)),
+        borrowValue.sub(repayValue)
+      ),
+      tradeAdapterName: tradeAdapter.name,
+      tradeData,
+      data: LEVERAGE_MODULE_INTERFACE.encodeFunctionData("delever", args),
+    };
+  }
+
+  // Sizes the trade from `getSendValue`, which returns the value to sell given the rate (value received over value
+  // sold) of the trade. The rate is 1 at oracle prices and is refined from quotes when there is a quoter.
+  private async _sizeTrade(
+    tradeAdapter: LeverageTradeAdapter,
+    send: LeveragePosition,
+    receive: LeveragePosition,
+    isLever: boolean,
+    getSendValue: TradeValueGetter
+  ): Promise<LeverageTrade | undefined> {
+    const hops = tradeAdapter.intermediateTokens || [];
+    const fees = tradeAdapter.fees || [];
+    const path = [send.asset, ...(isLever ? hops : [...hops].reverse()), receive.asset];
+    const tradeFees = isLever ? fees : [...fees].reverse();
+
+    const quote = async (sendValue: BigNumber): Promise<BigNumber> => {
+      const sendNotional = toNotional(sendValue, send);
+      return this._quoter ? this._quoter(path, sendNotional) : toNotional(toValue(sendNotional, send), receive);
+    };
+
+    let sendValue = getSendValue(PRECISE_UNIT);
+    if (sendValue.lte(0) || this._state.totalSupply.eq(0)) {
+      return undefined;
+    }
+
+    let receiveNotional = await quote(sendValue);
+    for (let i = 0; this._quoter && i < MAX_QUOTE_ITERATIONS; i++) {
+      if (receiveNotional.eq(0)) {
+        return undefined;
+      }
+
+      const nextSendValue = getSendValue(preciseDiv(toValue(receiveNotional, receive), sendValue));
+      if (nextSendValue.lte(0)) {
+        return undefined;
+      }
+      if (nextSendValue.sub(sendValue).abs().mul(QUOTE_TOLERANCE).lte(sendValue)) {
+        break;
+      }
+
+      sendValue = nextSendValue;
+      receiveNotional = await quote(sendValue);
+    }
+
+    // The module trades the unit quantity times the supply, which rounds down the notional quantity
+    const sendQuantityUnits = preciseDiv(toNotional(sendValue, send), this._state.totalSupply);
+    if (sendQuantityUnits.eq(0)) {
+      return undefined;
+    }
+
+    return {
+      path,
+      fees: tradeFees,
+      sendQuantityUnits,
+      sendNotional: preciseMul(sendQuantityUnits, this._state.totalSupply),
+      receiveNotional,
+    };
+  }
+
+  private _getTradeData(
+    tradeAdapter: LeverageTradeAdapter,
+    trade: LeverageTrade,
+    minReceiveNotional: BigNumber,
+    fixIn: boolean = true
+  ): Bytes {
+    return getExchangeAdapterTradeData(tradeAdapter.type, trade.path, trade.fees, trade.sendNotional, minReceiveNotional, fixIn);
+  }
+
+  private _getMinReceiveQuantityUnits(receiveNotional: BigNumber, slippageTolerance: BigNumber): BigNumber {
+    return preciseDiv(preciseMul(receiveNotional, PRECISE_UNIT.sub(slippageTolerance)), this._state.totalSupply);
+  }
+
+  private _getWithdrawableValue(collateral: LeverageCollateralPosition, slippageTolerance: BigNumber): BigNumber {
+    return preciseMul(this._monitor.getWithdrawableValue(collateral.asset), PRECISE_UNIT.sub(slippageTolerance));
+  }
+
+  private _getCollateralPosition(asset?: Address): LeverageCollateralPosition {
+    const collateral = this._monitor.getCollateralPosition(asset);
+    if (!collateral) {
+      throw new Error(`${asset || "No asset"} is not a collateral asset of ${this._state.setToken}`);
+    }
+
+    return collateral;
+  }
+
+  private _getBorrowPosition(asset?: Address): LeverageBorrowPosition {
+    const borrow = this._monitor.getBorrowPosition(asset);
+    if (!borrow) {
+      throw new Error(`${asset || "No asset"} is not a borrow asset of ${this._state.setToken}`);
+    }
+
+    return borrow;
+  }
+}
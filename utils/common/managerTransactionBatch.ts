@@ -0,0 +1,265 @@
+import { BigNumber, BigNumberish, Contract, providers } from "ethers";
+import { FunctionFragment, getAddress, hexDataLength, Interface, ParamType, solidityPack } from "ethers/lib/utils";
+
+import { Blockchain } from "./blockchainUtils";
+import { diffSetTokenSnapshots, getSetTokenSnapshot } from "./setTokenSnapshotUtils";
+import { ether } from "./unitsUtils";
+import { ZERO } from "../constants";
+import { SetToken } from "../contracts";
+import {
+  Address,
+  JsonAbiFragment,
+  JsonAbiParam,
+  ManagerBatchSimulation,
+  ManagerBatchTransaction,
+  SafeContractInput,
+  SafeTransactionBuilderBatch,
+} from "../types";
+
+const SAFE_TRANSACTION_BUILDER_VERSION = "1.0";
+const MULTI_SEND_CALL = 0;
+const SIMULATION_BALANCE = ether(10);
+
+const MULTI_SEND_INTERFACE = new Interface(["function multiSend(bytes transactions)"]);
+
+/**
+ * Collects manager calls (e.g. `SetToken.addModule`, `StreamingFeeModule.updateStreamingFee`) to be executed by a
+ * multisig in a single batch. Batches can be simulated as the Safe on a local node or fork, exported in the Gnosis
+ * Safe transaction builder format, or packed in the MultiSend encoding.
+ */
+export class ManagerTransactionBatch {
+  private _safe: Address;
+  private _transactions: ManagerBatchTransaction[];
+
+  constructor(safe: Address, transactions: ManagerBatchTransaction[] = []) {
+    this._safe = getAddress(safe);
+    this._transactions = transactions;
+  }
+
+  /**
+   * Rebuilds a batch from a transaction builder file. Transactions described by their contract method are
+   * re-encoded from their input values, the same way the transaction builder app does.
+   */
+  public static fromSafeTransactionBuilderBatch(batch: SafeTransactionBuilderBatch): ManagerTransactionBatch {
+    const transactions = batch.transactions.map(transaction => {
+      if (transaction.data) {
+        return { to: transaction.to, value: BigNumber.from(transaction.value), data: transaction.data };
+      }
+
+      if (!transaction.contractMethod || !transaction.contractInputsValues) {
+        throw new Error(`Transaction to ${transaction.to} has neither data nor a contract method`);
+      }
+
+      const { contractMethod, contractInputsValues } = transaction;
+      const fragment = FunctionFragment.from({
+        type: "function",
+        name: contractMethod.name,
+        inputs: contractMethod.inputs,
+        outputs: [],
+        stateMutability: contractMethod.payable ? "payable" : "nonpayable",
+      });
+      const args = contractMethod.inputs.map(input => parseInputValue(input, contractInputsValues[input.name]));
+
+      return {
+        to: transaction.to,
+        value: BigNumber.from(transaction.value),
+        data: new Interface([fragment]).encodeFunctionData(fragment, args),
+        contractMethod,
+        contractInputsValues,
+      };
+    });
+
+    return new ManagerTransactionBatch(batch.meta.createdFromSafeAddress, transactions);
+  }
+
+  public get safe(): Address {
+    return this._safe;
+  }
+
+  public get transactions(): ManagerBatchTransaction[] {
+    return this._transactions;
+  }
+
+  /**
+   * Adds a call to a contract method, e.g. `batch.add(setToken, "addModule", [tradeModule.address])`. Contract
+   * interfaces drop the internal types of inputs (struct and contract names) that the transaction builder displays, so
+   * pass the contract's JSON ABI (e.g. `SetToken__factory.abi`) to export them. Inputs default to their ABI type.
+   */
+  public add(
+    contract: Contract,
+    method: string,
+    args: any[] = [],
+    value: BigNumberish = ZERO,
+    abi: JsonAbiFragment[] = []
+  ): ManagerTransactionBatch {
+    const fragment = contract.interface.getFunction(method);
+    const jsonFragment = abi.find(item => item.type === "function" && FunctionFragment.from(item).format() === fragment.format());
+    const jsonInputs = jsonFragment && jsonFragment.inputs || [];
+    const contractInputsValues: { [input: string]: string } = {};
+    fragment.inputs.forEach((input, i) => {
+      contractInputsValues[input.name] = formatInputValue(input, args[i]);
+    });
+
+    this._transactions.push({
+      to: contract.address,
+      value: BigNumber.from(value),
+      data: contract.interface.encodeFunctionData(fragment, args),
+      contractMethod: {
+        name: fragment.name,
+        inputs: fragment.inputs.map((input, i) => toSafeContractInput(input, jsonInputs[i])),
+        payable: fragment.payable,
+      },
+      contractInputsValues,
+    });
+
+    return this;
+  }
+
+  public addRaw(to: Address, data: string, value: BigNumberish = ZERO): ManagerTransactionBatch {
+    this._transactions.push({ to: getAddress(to), value: BigNumber.from(value), data });
+
+    return this;
+  }
+
+  /**
+   * Executes the batch from the impersonated Safe by calling `multiSend` on the Safe with the MultiSend encoding, so
+   * that it succeeds or reverts as a whole, then reverts the node to its prior state. Requires a hardhat node or fork.
+   *
+   * Safes that delegatecall a MultiSend contract instead of implementing `multiSend` (e.g. Gnosis Safe) are simulated
+   * by replacing the Safe's code with the MultiSend code for the duration of the simulation.
+   *
+   * @param provider          Provider of the local node
+   * @param setToken          Optional SetToken to diff before and after the batch
+   * @param multiSend         Optional MultiSend contract the Safe delegatecalls batches to
+   */
+  public async simulate(
+    provider: providers.JsonRpcProvider,
+    setToken?: SetToken,
+    multiSend?: Address
+  ): Promise<ManagerBatchSimulation> {
+    const blockchain = new Blockchain(provider);
+    const snapshotId = await blockchain.saveSnapshotAsync();
+
+    try {
+      await blockchain.impersonateAccountAsync(this._safe);
+      const totalValue = this._transactions.reduce((total, transaction) => total.add(transaction.value), ZERO);
+      await blockchain.setBalanceAsync(this._safe, totalValue.add(SIMULATION_BALANCE));
+
+      if (multiSend) {
+        await blockchain.setCodeAsync(this._safe, await provider.getCode(multiSend));
+      } else if (await provider.getCode(this._safe) === "0x") {
+        throw new Error(`Safe ${this._safe} has no code, pass the MultiSend contract to simulate with`);
+      }
+
+      const signer = provider.getSigner(this._safe);
+      const previous = setToken ? await getSetTokenSnapshot(setToken) : undefined;
+
+      let gasUsed: BigNumber | undefined;
+      let error: string | undefined;
+      try {
+        const data = MULTI_SEND_INTERFACE.encodeFunctionData("multiSend", [this.encodeMultiSend()]);
+        const receipt = await (await signer.sendTransaction({ to: this._safe, data })).wait();
+        gasUsed = receipt.gasUsed;
+      } catch (multiSendError) {
+        error = (multiSendError as Error).message;
+      }
+
+      const diff = previous && setToken ? diffSetTokenSnapshots(previous, await getSetTokenSnapshot(setToken)) : undefined;
+
+      return { success: error === undefined, gasUsed, error, diff };
+    } finally {
+      await blockchain.stopImpersonatingAccountAsync(this._safe);
+      await blockchain.revertByIdAsync(snapshotId);
+    }
+  }
+
+  /**
+   * Exports the batch as a Gnosis Safe transaction builder file. Calls added by method are exported with their
+   * contract method and input values, raw calls with their data.
+   */
+  public toSafeTransactionBuilderBatch(
+    chainId: number,
+    name: string,
+    description: string = "",
+    createdAt: number = Date.now()
+  ): SafeTransactionBuilderBatch {
+    return {
+      version: SAFE_TRANSACTION_BUILDER_VERSION,
+      chainId: chainId.toString(),
+      createdAt,
+      meta: {
+        name,
+        description,
+        createdFromSafeAddress: this._safe,
+      },
+      transactions: this._transactions.map(transaction => ({
+        to: transaction.to,
+        value: transaction.value.toString(),
+        data: transaction.contractMethod ? undefined : transaction.data,
+        contractMethod: transaction.contractMethod,
+        contractInputsValues: transaction.contractInputsValues,
+      })),
+    };
+  }
+
+  /**
+   * Packs the batch in the MultiSend encoding: operation (uint8), to (address), value (uint256), data length
+   * (uint256) and data for each transaction. All transactions are calls.
+   */
+  public encodeMultiSend(): string {
+    const types: string[] = [];
+    const values: any[] = [];
+    for (const { to, value, data } of this._transactions) {
+      types.push("uint8", "address", "uint256", "uint256", "bytes");
+      values.push(MULTI_SEND_CALL, to, value, hexDataLength(data), data);
+    }
+
+    return solidityPack(types, values);
+  }
+}
+
+const toSafeContractInput = (param: ParamType, jsonParam: JsonAbiParam = {}): SafeContractInput => {
+  const jsonComponents = jsonParam.components || [];
+
+  return {
+    internalType: jsonParam.internalType || param.type,
+    name: param.name,
+    type: param.type,
+    components: param.components ?
+      param.components.map((component, i) => toSafeContractInput(component, jsonComponents[i])) :
+      undefined,
+  };
+};
+
+// The transaction builder takes every input as a string, with arrays and tuples (as arrays) in JSON
+const formatInputValue = (param: ParamType, value: any): string => {
+  const serialized = serializeInputValue(param, value);
+
+  return typeof serialized === "string" ? serialized : JSON.stringify(serialized);
+};
+
+const serializeInputValue = (param: ParamType, value: any): any => {
+  if (param.baseType === "array") {
+    return value.map((item: any) => serializeInputValue(param.arrayChildren, item));
+  }
+
+  if (param.baseType === "tuple") {
+    return param.components.map((component, i) =>
+      serializeInputValue(component, Array.isArray(value) ? value[i] : value[component.name])
+    );
+  }
+
+  return BigNumber.isBigNumber(value) || typeof value === "number" ? value.toString() : value;
+};
+
+const parseInputValue = (input: SafeContractInput, value: string): any => {
+  if (input.type === "bool") {
+    return value === "true";
+  }
+
+  if (input.type.endsWith("]") || input.type.startsWith("tuple")) {
+    return JSON.parse(value);
+  }
+
+  return value;
+};
@@ -0,0 +1,262 @@
+import { BigNumber } from "ethers";
+
+import { preciseDiv, preciseMul, preciseMulCeil } from "./mathUtils";
+import { ADDRESS_ZERO, ZERO } from "../constants";
+import { Controller, CustomOracleNavIssuanceModule, SetToken } from "../contracts";
+import {
+  Address,
+  NAVIssuanceFees,
+  NAVIssuanceState,
+  NAVIssuanceValidity,
+  NAVIssueQuote,
+  NAVRedeemQuote,
+} from "../types";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { ISetValuer__factory } from "../../typechain/factories/ISetValuer__factory";
+
+// Fee indices of CustomOracleNavIssuanceModule on the Controller and in NAVIssuanceSettings.managerFees
+const PROTOCOL_ISSUE_MANAGER_REVENUE_SHARE_FEE_INDEX = 0;
+const PROTOCOL_REDEEM_MANAGER_REVENUE_SHARE_FEE_INDEX = 1;
+const PROTOCOL_ISSUE_DIRECT_FEE_INDEX = 2;
+const PROTOCOL_REDEEM_DIRECT_FEE_INDEX = 3;
+const MANAGER_ISSUE_FEE_INDEX = 0;
+const MANAGER_REDEEM_FEE_INDEX = 1;
+
+const SET_VALUER_RESOURCE_ID = 2;
+
+/**
+ * Quotes CustomOracleNavIssuanceModule issuance and redemption from a single read of the module settings, Controller
+ * fees, SetToken valuation and supply. Quotes reproduce the module's rounding, so they match `getExpectedSetTokenIssueQuantity`
+ * and `getExpectedReserveRedeemQuantity` and the position updates made by `issue` and `redeem` against the same state.
+ *
+ * Validity checks mirror the requires (and arithmetic reverts) of `issue` and `redeem` in the order the module hits them.
+ * Manager hooks and the caller's balances and approvals are not checked.
+ */
+export class NAVIssuanceCalculator {
+  private _state: NAVIssuanceState;
+
+  constructor(state: NAVIssuanceState) {
+    this._state = state;
+  }
+
+  /**
+   * Reads the state needed to quote issuance and redemption of `setToken` with `reserveAsset`. The valuation is read
+   * from the custom SetValuer of the Set if configured, otherwise from the Controller's SetValuer.
+   */
+  public static async fromModule(
+    navIssuanceModule: CustomOracleNavIssuanceModule,
+    controller: Controller,
+    setToken: SetToken,
+    reserveAsset: Address
+  ): Promise<NAVIssuanceCalculator> {
+    const provider = navIssuanceModule.provider;
+    const settings = await navIssuanceModule.navIssuanceSettings(setToken.address);
+    const isReserveAsset = await navIssuanceModule.isReserveAsset(setToken.address, reserveAsset);
+
+    const setValuer = settings.setValuer === ADDRESS_ZERO ?
+      await controller.resourceId(SET_VALUER_RESOURCE_ID) :
+      settings.setValuer;
+
+    // Valuation reverts for assets without a price, which the module only reaches for reserve assets
+    const setTokenValuation = isReserveAsset ?
+      await ISetValuer__factory.connect(setValuer, provider).calculateSetTokenValuation(setToken.address, reserveAsset) :
+      ZERO;
+
+    const getModuleFee = (index: number) => controller.getModuleFee(navIssuanceModule.address, index);
+
+    return new NAVIssuanceCalculator({
+      setToken: setToken.address,
+      reserveAsset,
+      reserveAssetDecimals: await ERC20__factory.connect(reserveAsset, provider).decimals(),
+      isReserveAsset,
+      setTokenValuation,
+      totalSupply: await setToken.totalSupply(),
+      positionMultiplier: await setToken.positionMultiplier(),
+      reserveAssetUnit: await setToken.getDefaultPositionRealUnit(reserveAsset),
+      managerFees: [
+        await navIssuanceModule.getManagerFee(setToken.address, MANAGER_ISSUE_FEE_INDEX),
+        await navIssuanceModule.getManagerFee(setToken.address, MANAGER_REDEEM_FEE_INDEX),
+      ],
+      premiumPercentage: settings.premiumPercentage,
+      minSetTokenSupply: settings.minSetTokenSupply,
+      protocolFees: [
+        await getModuleFee(PROTOCOL_ISSUE_MANAGER_REVENUE_SHARE_FEE_INDEX),
+        await getModuleFee(PROTOCOL_REDEEM_MANAGER_REVENUE_SHARE_FEE_INDEX),
+        await getModuleFee(PROTOCOL_ISSUE_DIRECT_FEE_INDEX),
+        await getModuleFee(PROTOCOL_REDEEM_DIRECT_FEE_INDEX),
+      ],
+    });
+  }
+
+  public get state(): NAVIssuanceState {
+    return this._state;
+  }
+
+  /**
+   * Quotes issuing with `reserveAssetQuantity` of the reserve asset. Throws the module's revert reason when the
+   * quote can't be computed (e.g. issuing into a Set without supply or premium).
+   */
+  public getIssueQuote(reserveAssetQuantity: BigNumber): NAVIssueQuote {
+    const { totalSupply, positionMultiplier, premiumPercentage, reserveAssetUnit, setTokenValuation } = this._state;
+    const reserveAssetBaseUnits = this.reserveAssetBaseUnits;
+
+    const fees = this.getFees(reserveAssetQuantity, true);
+
+    const premium = preciseMul(fees.netReserveFlow, premiumPercentage);
+    const normalizedNetReserveFlow = preciseDiv(fees.netReserveFlow, reserveAssetBaseUnits);
+    const normalizedNetReserveFlowSubPremium = preciseDiv(fees.netReserveFlow.sub(premium), reserveAssetBaseUnits);
+
+    const denominator = preciseMul(totalSupply, setTokenValuation)
+      .add(normalizedNetReserveFlow)
+      .sub(normalizedNetReserveFlowSubPremium);
+    requireNonZeroDivisor(denominator, "SafeMath: division by zero");
+    const setTokenQuantity = preciseDiv(preciseMul(normalizedNetReserveFlowSubPremium, totalSupply), denominator);
+
+    const newTotalSupply = totalSupply.add(setTokenQuantity);
+    requireNonZeroDivisor(newTotalSupply, "SignedSafeMath: division by zero");
+    const newPositionMultiplier = positionMultiplier.mul(totalSupply).div(newTotalSupply);
+    const newReservePositionUnit = preciseDiv(preciseMul(reserveAssetUnit, totalSupply).add(fees.netReserveFlow), newTotalSupply);
+
+    return {
+      ...fees,
+      reserveAssetQuantity,
+      premiumPercentage,
+      premium,
+      setTokenQuantity,
+      newTotalSupply,
+      newPositionMultiplier,
+      newReservePositionUnit: getStoredRealUnit(newReservePositionUnit, newPositionMultiplier),
+    };
+  }
+
+  /**
+   * Quotes redeeming `setTokenQuantity` into the reserve asset. Throws the module's revert reason when the quote can't
+   * be computed (e.g. redeeming more than the supply or than the Set's reserve asset balance).
+   */
+  public getRedeemQuote(setTokenQuantity: BigNumber): NAVRedeemQuote {
+    const { totalSupply, positionMultiplier, premiumPercentage, reserveAssetUnit, setTokenValuation } = this._state;
+
+    const prePremiumReserveQuantity = preciseMul(preciseMul(setTokenQuantity, setTokenValuation), this.reserveAssetBaseUnits);
+    const premium = preciseMulCeil(prePremiumReserveQuantity, premiumPercentage);
+    const preFeeReserveQuantity = prePremiumReserveQuantity.sub(premium);
+
+    const fees = this.getFees(preFeeReserveQuantity, false);
+
+    if (setTokenQuantity.gt(totalSupply)) {
+      throw new Error("SafeMath: subtraction overflow");
+    }
+    const newTotalSupply = totalSupply.sub(setTokenQuantity);
+    requireNonZeroDivisor(newTotalSupply, "SignedSafeMath: division by zero");
+
+    const totalReserve = preciseMul(reserveAssetUnit, totalSupply);
+    const outflow = fees.netReserveFlow.add(fees.protocolFee).add(fees.managerFee);
+    if (totalReserve.lt(outflow)) {
+      throw new Error("Must be greater than total available collateral");
+    }
+
+    const newPositionMultiplier = positionMultiplier.mul(totalSupply).div(newTotalSupply);
+    const newReservePositionUnit = preciseDiv(totalReserve.sub(outflow), newTotalSupply);
+
+    return {
+      ...fees,
+      setTokenQuantity,
+      prePremiumReserveQuantity,
+      premiumPercentage,
+      premium,
+      preFeeReserveQuantity,
+      newTotalSupply,
+      newPositionMultiplier,
+      newReservePositionUnit: getStoredRealUnit(newReservePositionUnit, newPositionMultiplier),
+    };
+  }
+
+  public isIssueValid(reserveAssetQuantity: BigNumber, minSetTokenReceiveQuantity: BigNumber = ZERO): NAVIssuanceValidity {
+    return toValidity(() => {
+      this.validateCommon(reserveAssetQuantity);
+
+      const quote = this.getIssueQuote(reserveAssetQuantity);
+
+      if (this._state.totalSupply.lt(this._state.minSetTokenSupply)) {
+        throw new Error("Supply must be greater than minimum to enable issuance");
+      }
+
+      if (quote.setTokenQuantity.lt(minSetTokenReceiveQuantity)) {
+        throw new Error("Must be greater than min SetToken");
+      }
+    });
+  }
+
+  public isRedeemValid(setTokenQuantity: BigNumber, minReserveReceiveQuantity: BigNumber = ZERO): NAVIssuanceValidity {
+    return toValidity(() => {
+      this.validateCommon(setTokenQuantity);
+
+      const quote = this.getRedeemQuote(setTokenQuantity);
+
+      if (quote.newTotalSupply.lt(this._state.minSetTokenSupply)) {
+        throw new Error("Supply must be greater than minimum to enable redemption");
+      }
+
+      if (quote.netReserveFlow.lt(minReserveReceiveQuantity)) {
+        throw new Error("Must be greater than min receive reserve quantity");
+      }
+    });
+  }
+
+  private get reserveAssetBaseUnits(): BigNumber {
+    return BigNumber.from(10).pow(this._state.reserveAssetDecimals);
+  }
+
+  private validateCommon(quantity: BigNumber): void {
+    if (quantity.eq(0)) {
+      throw new Error("Quantity must be > 0");
+    }
+
+    if (!this._state.isReserveAsset) {
+      throw new Error("Must be valid reserve asset");
+    }
+  }
+
+  // Mirrors CustomOracleNavIssuanceModule#_getFees: the protocol takes a share of the manager fee plus a direct fee
+  private getFees(reserveAssetQuantity: BigNumber, isIssue: boolean): NAVIssuanceFees {
+    const { managerFees, protocolFees } = this._state;
+
+    const managerFeePercentage = managerFees[isIssue ? MANAGER_ISSUE_FEE_INDEX : MANAGER_REDEEM_FEE_INDEX];
+    const protocolManagerSharePercentage = protocolFees[
+      isIssue ? PROTOCOL_ISSUE_MANAGER_REVENUE_SHARE_FEE_INDEX : PROTOCOL_REDEEM_MANAGER_REVENUE_SHARE_FEE_INDEX
+    ];
+    const protocolDirectFeePercentage = protocolFees[isIssue ? PROTOCOL_ISSUE_DIRECT_FEE_INDEX : PROTOCOL_REDEEM_DIRECT_FEE_INDEX];
+
+    const protocolRevenueSharePercentage = preciseMul(protocolManagerSharePercentage, managerFeePercentage);
+    const managerRevenueSharePercentage = managerFeePercentage.sub(protocolRevenueSharePercentage);
+    const totalProtocolFeePercentage = protocolRevenueSharePercentage.add(protocolDirectFeePercentage);
+
+    const protocolFee = preciseMul(totalProtocolFeePercentage, reserveAssetQuantity);
+    const managerFee = preciseMul(managerRevenueSharePercentage, reserveAssetQuantity);
+
+    return {
+      protocolFee,
+      managerFee,
+      netReserveFlow: reserveAssetQuantity.sub(protocolFee).sub(managerFee),
+    };
+  }
+}
+
+const requireNonZeroDivisor = (divisor: BigNumber, reason: string): void => {
+  if (divisor.eq(0)) {
+    throw new Error(reason);
+  }
+};
+
+// SetToken stores default positions as virtual units, so the real unit it reports after an edit can be rounded down
+const getStoredRealUnit = (realUnit: BigNumber, positionMultiplier: BigNumber): BigNumber => {
+  return preciseMul(preciseDiv(realUnit, positionMultiplier), positionMultiplier);
+};
+
+const toValidity = (validate: () => void): NAVIssuanceValidity => {
+  try {
+    validate();
+    return { valid: true, reason: undefined };
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message };
+  }
+};
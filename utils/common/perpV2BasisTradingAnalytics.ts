@@ -0,0 +1,267 @@
+import { BigNumber } from "ethers";
+
+import { preciseDiv, preciseMul } from "./mathUtils";
+import { ONE_YEAR_IN_SECONDS, ZERO } from "../constants";
+import { PerpV2BasisTradingModule, SetToken } from "../contracts";
+import {
+  PerpV2BasisTradingPeriodReport,
+  PerpV2BasisTradingPosition,
+  PerpV2BasisTradingReport,
+  PerpV2BasisTradingSnapshot,
+} from "../types";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { PerpV2BaseToken__factory } from "../../typechain/factories/PerpV2BaseToken__factory";
+
+// Converts a settlement token quantity to 18 decimals
+const toPreciseUnits = (quantity: BigNumber, decimals: number): BigNumber => {
+  return quantity.mul(BigNumber.from(10).pow(18 - decimals));
+};
+
+// Value outside of open positions
+const getCashValue = (snapshot: PerpV2BasisTradingSnapshot): BigNumber => {
+  return snapshot.setCollateralBalance
+    .add(snapshot.collateralBalance)
+    .add(snapshot.owedRealizedPnl)
+    .add(snapshot.pendingFundingPayments);
+};
+
+/**
+ * Attributes the change in net asset value of a SetToken trading through PerpV2BasisTradingModule to funding, performance
+ * fees, trading slippage, realized and unrealized PnL, and issuance and redemption flows. Net asset value is the Set's
+ * settlement token (USDC) balance plus its Perp account value, with positions valued at the index price. Other Set
+ * components, such as the spot leg of a basis trade, are not valued.
+ *
+ * Snapshots are read at a block tag, so reports can be built for past blocks of a node that keeps historical state.
+ * Trades and fees are read from module events in each period.
+ *
+ * Funding is the change in `getUpdatedSettledFunding` plus funding withdrawn with `withdrawFundingAndAccrueFees`, so
+ * it only includes funding settled through the module's tracked actions. Funding settled by `trade`, and negative funding
+ * beyond the tracked balance, show up as realized PnL. Trades executed on issuance and redemption don't emit `PerpTraded`,
+ * so their slippage is also part of the PnL.
+ */
+export class PerpV2BasisTradingAnalytics {
+  private _module: PerpV2BasisTradingModule;
+  private _setToken: SetToken;
+
+  constructor(perpBasisTradingModule: PerpV2BasisTradingModule, setToken: SetToken) {
+    this._module = perpBasisTradingModule;
+    this._setToken = setToken;
+  }
+
+  /**
+   * Reads the SetToken's Perp account and tracked funding at `blockNumber`, defaulting to the latest block
+   */
+  public async getSnapshot(blockNumber?: number): Promise<PerpV2BasisTradingSnapshot> {
+    const provider = this._module.provider;
+    const blockTag = blockNumber === undefined ? await provider.getBlockNumber() : blockNumber;
+    const overrides = { blockTag };
+
+    const collateralToken = ERC20__factory.connect(await this._module.collateralToken(), provider);
+    const [
+      block,
+      totalSupply,
+      collateralDecimals,
+      setCollateralBalance,
+      accountInfo,
+      positionNotionalInfo,
+      settledFunding,
+      updatedSettledFunding,
+    ] = await Promise.all([
+      provider.getBlock(blockTag),
+      this._setToken.totalSupply(overrides),
+      collateralToken.decimals(overrides),
+      collateralToken.balanceOf(this._setToken.address, overrides),
+      this._module.getAccountInfo(this._setToken.address, overrides),
+      this._module.getPositionNotionalInfo(this._setToken.address, overrides),
+      this._module.settledFunding(this._setToken.address, overrides),
+      this._module.getUpdatedSettledFunding(this._setToken.address, overrides),
+    ]);
+
+    const positions: PerpV2BasisTradingPosition[] = [];
+    for (const positionInfo of positionNotionalInfo) {
+      const baseToken = PerpV2BaseToken__factory.connect(positionInfo.baseToken, provider);
+      const indexPrice = await baseToken.getIndexPrice(ZERO, overrides);
+
+      positions.push({
+        baseToken: positionInfo.baseToken,
+        baseBalance: positionInfo.baseBalance,
+        quoteBalance: positionInfo.quoteBalance,
+        indexPrice,
+        positionValue: preciseMul(positionInfo.baseBalance, indexPrice),
+      });
+    }
+
+    const unrealizedPnl = positions.reduce((sum, p) => sum.add(p.positionValue).add(p.quoteBalance), ZERO);
+    const netAssetValue = toPreciseUnits(setCollateralBalance, collateralDecimals)
+      .add(accountInfo.collateralBalance)
+      .add(accountInfo.owedRealizedPnl)
+      .add(accountInfo.pendingFundingPayments)
+      .add(unrealizedPnl);
+
+    return {
+      setToken: this._setToken.address,
+      blockNumber: blockTag,
+      timestamp: block.timestamp,
+      totalSupply,
+      setCollateralBalance: toPreciseUnits(setCollateralBalance, collateralDecimals),
+      collateralBalance: accountInfo.collateralBalance,
+      owedRealizedPnl: accountInfo.owedRealizedPnl,
+      pendingFundingPayments: accountInfo.pendingFundingPayments,
+      positions,
+      unrealizedPnl,
+      settledFunding,
+      updatedSettledFunding,
+      netAssetValue,
+      netAssetValuePerSet: totalSupply.isZero() ? ZERO : preciseDiv(netAssetValue, totalSupply),
+    };
+  }
+
+  /**
+   * Attributes the change in net asset value between two snapshots, using the module events emitted after `start`
+   * up to and including the block of `end`
+   */
+  public async getPeriodReport(
+    start: PerpV2BasisTradingSnapshot,
+    end: PerpV2BasisTradingSnapshot
+  ): Promise<PerpV2BasisTradingPeriodReport> {
+    if (start.setToken !== end.setToken || start.setToken !== this._setToken.address) {
+      throw new Error("Snapshots must be of the analyzed SetToken");
+    }
+    if (end.blockNumber < start.blockNumber) {
+      throw new Error("End snapshot must not be before the start snapshot");
+    }
+
+    const provider = this._module.provider;
+    const fromBlock = start.blockNumber + 1;
+    const toBlock = end.blockNumber;
+    const collateralToken = ERC20__factory.connect(await this._module.collateralToken(), provider);
+    const collateralDecimals = await collateralToken.decimals();
+
+    let fundingWithdrawn = ZERO;
+    let managerFees = ZERO;
+    let protocolFees = ZERO;
+    let tradingSlippage = ZERO;
+    let tradeProtocolFees = ZERO;
+    let netTransfers = ZERO;
+    let tradeCount = 0;
+
+    if (fromBlock <= toBlock) {
+      const fundingWithdrawnEvents = await this._module.queryFilter(
+        this._module.filters.FundingWithdrawn(this._setToken.address),
+        fromBlock,
+        toBlock
+      );
+      for (const { args } of fundingWithdrawnEvents) {
+        fundingWithdrawn = fundingWithdrawn.add(toPreciseUnits(args._amountWithdrawn, collateralDecimals));
+        managerFees = managerFees.add(toPreciseUnits(args._managerFee, collateralDecimals));
+        protocolFees = protocolFees.add(toPreciseUnits(args._protocolFee, collateralDecimals));
+      }
+
+      const tradeEvents = await this._module.queryFilter(
+        this._module.filters.PerpTraded(this._setToken.address),
+        fromBlock,
+        toBlock
+      );
+      for (const { args, blockNumber } of tradeEvents) {
+        const baseToken = PerpV2BaseToken__factory.connect(args._baseToken, provider);
+        const indexValue = preciseMul(args._deltaBase, await baseToken.getIndexPrice(ZERO, { blockTag: blockNumber }));
+        const protocolFee = toPreciseUnits(args._protocolFee, collateralDecimals);
+
+        tradingSlippage = tradingSlippage
+          .add(args._isBuy ? args._deltaQuote.sub(indexValue) : indexValue.sub(args._deltaQuote))
+          .add(protocolFee);
+        tradeProtocolFees = tradeProtocolFees.add(protocolFee);
+        tradeCount++;
+      }
+
+      // Deposits to and withdrawals from Perp move value within the Set, so only other transfers are flows
+      const perpVault = await this._module.perpVault();
+      const transfersIn = await collateralToken.queryFilter(
+        collateralToken.filters.Transfer(undefined, this._setToken.address),
+        fromBlock,
+        toBlock
+      );
+      const transfersOut = await collateralToken.queryFilter(
+        collateralToken.filters.Transfer(this._setToken.address),
+        fromBlock,
+        toBlock
+      );
+      for (const { args } of transfersIn) {
+        if (args.from !== perpVault) {
+          netTransfers = netTransfers.add(toPreciseUnits(args.value, collateralDecimals));
+        }
+      }
+      for (const { args } of transfersOut) {
+        if (args.to !== perpVault) {
+          netTransfers = netTransfers.sub(toPreciseUnits(args.value, collateralDecimals));
+        }
+      }
+    }
+
+    const performanceFees = managerFees.add(protocolFees);
+    const fundingEarned = end.updatedSettledFunding.sub(start.updatedSettledFunding).add(fundingWithdrawn);
+    const capitalFlows = netTransfers.add(performanceFees).add(tradeProtocolFees);
+
+    // Cash is value outside of open positions. Trades realize PnL by moving value from quote balances to owed realized PnL.
+    const cashChange = getCashValue(end).sub(getCashValue(start));
+    const realizedPnl = cashChange.sub(fundingEarned).add(performanceFees).add(tradeProtocolFees).sub(capitalFlows);
+
+    // Trades lower unrealized PnL by their slippage when they execute, which is reported separately
+    const unrealizedPnl = end.unrealizedPnl
+      .sub(start.unrealizedPnl)
+      .add(tradingSlippage.sub(tradeProtocolFees));
+
+    const duration = end.timestamp - start.timestamp;
+    const annualizedFundingYield = duration === 0 || start.netAssetValue.lte(ZERO) ?
+      ZERO :
+      preciseDiv(fundingEarned, start.netAssetValue).mul(ONE_YEAR_IN_SECONDS).div(duration);
+
+    return {
+      startBlock: start.blockNumber,
+      endBlock: end.blockNumber,
+      duration,
+      netAssetValueStart: start.netAssetValue,
+      netAssetValueEnd: end.netAssetValue,
+      netAssetValueChange: end.netAssetValue.sub(start.netAssetValue),
+      netAssetValuePerSetStart: start.netAssetValuePerSet,
+      netAssetValuePerSetEnd: end.netAssetValuePerSet,
+      fundingEarned,
+      fundingWithdrawn,
+      annualizedFundingYield,
+      managerFees,
+      protocolFees,
+      performanceFees,
+      tradingSlippage,
+      tradeCount,
+      realizedPnl,
+      unrealizedPnl,
+      capitalFlows,
+    };
+  }
+
+  /**
+   * Takes a snapshot at each of the ascending `blockNumbers` and reports each period between consecutive snapshots
+   */
+  public async getReport(blockNumbers: number[]): Promise<PerpV2BasisTradingReport> {
+    if (blockNumbers.length < 2) {
+      throw new Error("A report needs at least two blocks");
+    }
+
+    const snapshots: PerpV2BasisTradingSnapshot[] = [];
+    for (const blockNumber of blockNumbers) {
+      snapshots.push(await this.getSnapshot(blockNumber));
+    }
+
+    const periods: PerpV2BasisTradingPeriodReport[] = [];
+    for (let i = 1; i < snapshots.length; i++) {
+      periods.push(await this.getPeriodReport(snapshots[i - 1], snapshots[i]));
+    }
+
+    return {
+      setToken: this._setToken.address,
+      snapshots,
+      periods,
+      total: await this.getPeriodReport(snapshots[0], snapshots[snapshots.length - 1]),
+    };
+  }
+}
@@ -0,0 +1,244 @@
+import { BigNumber, providers, Signer } from "ethers";
+
+import { preciseDiv, preciseMul, preciseMulCeil } from "./mathUtils";
+import { MAX_UINT_256, PRECISE_UNIT, TWO, ZERO } from "../constants";
+import { PerpV2BasisTradingModule, PerpV2LeverageModuleV2, SlippageIssuanceModule } from "../contracts";
+import {
+  PerpV2AccountBalance,
+  PerpV2ClearingHouseConfig,
+  PerpV2Exchange,
+  PerpV2Quoter,
+} from "../contracts/perpV2";
+import {
+  Address,
+  PerpV2IssuanceModuleAddresses,
+  PerpV2IssuanceQuote,
+  PerpV2MarketImpact,
+  PerpV2SystemAddresses,
+} from "../types";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+import { PerpV2AccountBalance__factory } from "../../typechain/factories/PerpV2AccountBalance__factory";
+import { PerpV2ClearingHouseConfig__factory } from "../../typechain/factories/PerpV2ClearingHouseConfig__factory";
+import { PerpV2Exchange__factory } from "../../typechain/factories/PerpV2Exchange__factory";
+import { PerpV2LeverageModuleV2__factory } from "../../typechain/factories/PerpV2LeverageModuleV2__factory";
+import { PerpV2Quoter__factory } from "../../typechain/factories/PerpV2Quoter__factory";
+import { SlippageIssuanceModule__factory } from "../../typechain/factories/SlippageIssuanceModule__factory";
+
+// Perp stores the initial margin ratio with 6 decimals
+const IM_RATIO_TO_PRECISE_UNIT = BigNumber.from(10).pow(12);
+
+// Mark prices are Uniswap V3 sqrt prices, with base and quote tokens both having 18 decimals
+const getPriceFromSqrtPriceX96 = (sqrtPriceX96: BigNumber): BigNumber => {
+  return sqrtPriceX96.mul(sqrtPriceX96).mul(PRECISE_UNIT).div(TWO.pow(192));
+};
+
+/**
+ * Quotes issuance and redemption of SetTokens holding PerpV2LeverageModuleV2 or PerpV2BasisTradingModule positions
+ * through SlippageIssuanceModule. Collateral quantities come from the issuance module's off-chain getters, which simulate
+ * the position trades on the Perp quoter. The same trades are quoted per market to report their price impact.
+ *
+ * Works against any deployed Perp system: pass its contract addresses, or read them from the Perp module with
+ * `fromModules`.
+ */
+export class PerpV2IssuanceQuoter {
+  private _perpModule: PerpV2LeverageModuleV2;
+  private _slippageIssuanceModule: SlippageIssuanceModule;
+  private _accountBalance: PerpV2AccountBalance;
+  private _clearingHouseConfig: PerpV2ClearingHouseConfig;
+  private _exchange: PerpV2Exchange;
+  private _quoter: PerpV2Quoter;
+
+  constructor(
+    signerOrProvider: Signer | providers.Provider,
+    modules: PerpV2IssuanceModuleAddresses,
+    perpSystem: PerpV2SystemAddresses
+  ) {
+    this._perpModule = PerpV2LeverageModuleV2__factory.connect(modules.perpModule, signerOrProvider);
+    this._slippageIssuanceModule = SlippageIssuanceModule__factory.connect(modules.slippageIssuanceModule, signerOrProvider);
+    this._accountBalance = PerpV2AccountBalance__factory.connect(perpSystem.accountBalance, signerOrProvider);
+    this._clearingHouseConfig = PerpV2ClearingHouseConfig__factory.connect(perpSystem.clearingHouseConfig, signerOrProvider);
+    this._exchange = PerpV2Exchange__factory.connect(perpSystem.exchange, signerOrProvider);
+    this._quoter = PerpV2Quoter__factory.connect(perpSystem.quoter, signerOrProvider);
+  }
+
+  /**
+   * Reads the Perp system addresses the Perp module was deployed with
+   */
+  public static async fromModules(
+    perpModule: PerpV2LeverageModuleV2 | PerpV2BasisTradingModule,
+    slippageIssuanceModule: SlippageIssuanceModule
+  ): Promise<PerpV2IssuanceQuoter> {
+    const accountBalance = await perpModule.perpAccountBalance();
+    const clearingHouseConfig = await PerpV2AccountBalance__factory
+      .connect(accountBalance, perpModule.provider)
+      .getClearingHouseConfig();
+
+    return new PerpV2IssuanceQuoter(
+      perpModule.provider,
+      { perpModule: perpModule.address, slippageIssuanceModule: slippageIssuanceModule.address },
+      {
+        accountBalance,
+        clearingHouseConfig,
+        exchange: await perpModule.perpExchange(),
+        quoter: await perpModule.perpQuoter(),
+      }
+    );
+  }
+
+  /**
+   * Quotes issuing `quantity` SetTokens. The collateral limit allows `slippageTolerance` more collateral than quoted,
+   * e.g. ether(0.01) for 1%, and the max issue quantity assumes positions are entered with that much slippage.
+   */
+  public async getIssueQuote(
+    setToken: Address,
+    quantity: BigNumber,
+    slippageTolerance: BigNumber
+  ): Promise<PerpV2IssuanceQuote> {
+    return this._getQuote(setToken, quantity, true, slippageTolerance);
+  }
+
+  /**
+   * Quotes redeeming `quantity` SetTokens. The collateral limit allows `slippageTolerance` less collateral than quoted.
+   */
+  public async getRedeemQuote(
+    setToken: Address,
+    quantity: BigNumber,
+    slippageTolerance: BigNumber
+  ): Promise<PerpV2IssuanceQuote> {
+    return this._getQuote(setToken, quantity, false, slippageTolerance);
+  }
+
+  /**
+   * Returns the max quantity of SetTokens that can be issued before the increase in the Perp account's debt exceeds what
+   * its collateral supports at the initial margin ratio. Mirrors PerpV2LeverageModuleViewer#getMaximumSetTokenIssueAmount,
+   * returning MAX_UINT_256 without open positions and zero when the account can't take more debt.
+   *
+   * @param setToken      SetToken address
+   * @param slippage      Expected slippage from entering positions in precise units, which lowers the account value
+   */
+  public async getMaxIssueQuantity(setToken: Address, slippage: BigNumber): Promise<BigNumber> {
+    const totalAbsPositionValue = await this._accountBalance.getTotalAbsPositionValue(setToken);
+    if (totalAbsPositionValue.isZero()) {
+      return MAX_UINT_256;
+    }
+
+    const imRatio = BigNumber.from(await this._clearingHouseConfig.getImRatio()).mul(IM_RATIO_TO_PRECISE_UNIT);
+    const [, unrealizedPnl] = await this._accountBalance.getPnlAndPendingFee(setToken);
+    const totalDebtValue = await this._accountBalance.getTotalDebtValue(setToken);
+
+    const accountInfo = await this._perpModule.getAccountInfo(setToken);
+    const totalCollateralValue = accountInfo.collateralBalance
+      .add(accountInfo.owedRealizedPnl)
+      .add(accountInfo.pendingFundingPayments);
+
+    const availableDebt = unrealizedPnl.gte(ZERO) ?
+      preciseDiv(totalCollateralValue, imRatio).sub(totalDebtValue) :
+      preciseDiv(totalCollateralValue.add(unrealizedPnl), imRatio).sub(totalDebtValue);
+
+    // Slippage accrues to unrealized PnL before the issuer's collateral is deposited
+    const availableDebtWithSlippage = availableDebt.sub(preciseDiv(preciseMul(availableDebt, slippage), imRatio));
+    if (availableDebtWithSlippage.lte(ZERO)) {
+      return ZERO;
+    }
+
+    const totalSupply = await this._getTotalSupply(setToken);
+    return preciseMul(preciseDiv(availableDebtWithSlippage, totalAbsPositionValue), totalSupply);
+  }
+
+  /**
+   * Quotes the trades issuing or redeeming `setQuantity` SetTokens makes on each Perp market, sized like
+   * PerpV2LeverageModuleV2#_executePositionTrades
+   */
+  public async getMarketImpacts(setToken: Address, setQuantity: BigNumber, isIssue: boolean): Promise<PerpV2MarketImpact[]> {
+    const totalSupply = await this._getTotalSupply(setToken);
+    if (totalSupply.isZero()) {
+      return [];
+    }
+
+    const positionNotionalInfo = await this._perpModule.getPositionNotionalInfo(setToken);
+
+    const markets: PerpV2MarketImpact[] = [];
+    for (const { baseToken, baseBalance } of positionNotionalInfo) {
+      const positionTradeQuantity = preciseMul(preciseDiv(baseBalance, totalSupply), setQuantity);
+      const baseQuantity = isIssue ? positionTradeQuantity : positionTradeQuantity.mul(-1);
+      if (baseQuantity.isZero()) {
+        continue;
+      }
+
+      const isBuy = baseQuantity.gt(ZERO);
+      const response = await this._quoter.callStatic.swap({
+        baseToken,
+        isBaseToQuote: !isBuy,
+        isExactInput: !isBuy,
+        amount: baseQuantity.abs(),
+        sqrtPriceLimitX96: ZERO,
+      });
+
+      const markPrice = getPriceFromSqrtPriceX96(await this._exchange.getSqrtMarkTwapX96(baseToken, 0));
+      const quoteQuantity = response.deltaAvailableQuote;
+      const averagePrice = preciseDiv(quoteQuantity, baseQuantity.abs());
+      const markValue = preciseMul(baseQuantity.abs(), markPrice);
+
+      markets.push({
+        baseToken,
+        baseQuantity,
+        quoteQuantity,
+        markPrice,
+        averagePrice,
+        markPriceAfter: getPriceFromSqrtPriceX96(response.sqrtPriceX96),
+        priceImpact: preciseDiv(averagePrice.sub(markPrice).abs(), markPrice),
+        slippage: isBuy ? quoteQuantity.sub(markValue) : markValue.sub(quoteQuantity),
+      });
+    }
+
+    return markets;
+  }
+
+  private async _getQuote(
+    setToken: Address,
+    quantity: BigNumber,
+    isIssue: boolean,
+    slippageTolerance: BigNumber
+  ): Promise<PerpV2IssuanceQuote> {
+    const [totalQuantity, managerFee, protocolFee] = await this._slippageIssuanceModule.calculateTotalFees(
+      setToken,
+      quantity,
+      isIssue
+    );
+
+    const [components, equityQuantities, debtQuantities] = isIssue ?
+      await this._slippageIssuanceModule.callStatic.getRequiredComponentIssuanceUnitsOffChain(setToken, quantity) :
+      await this._slippageIssuanceModule.callStatic.getRequiredComponentRedemptionUnitsOffChain(setToken, quantity);
+
+    const collateralToken = await this._perpModule.collateralToken();
+    const collateralIndex = components.indexOf(collateralToken);
+    const collateralQuantity = collateralIndex === -1 ? ZERO : equityQuantities[collateralIndex];
+
+    // Only the collateral token's quantity depends on trades, so other components don't need a limit
+    const tokenAmountLimit = isIssue ?
+      preciseMulCeil(collateralQuantity, PRECISE_UNIT.add(slippageTolerance)) :
+      preciseMul(collateralQuantity, PRECISE_UNIT.sub(slippageTolerance));
+
+    return {
+      setToken,
+      isIssue,
+      quantity,
+      totalQuantity,
+      managerFee,
+      protocolFee,
+      components,
+      equityQuantities,
+      debtQuantities,
+      collateralToken,
+      collateralQuantity,
+      markets: await this.getMarketImpacts(setToken, totalQuantity, isIssue),
+      checkedComponents: collateralIndex === -1 ? [] : [collateralToken],
+      tokenAmountLimits: collateralIndex === -1 ? [] : [tokenAmountLimit],
+      maxIssueQuantity: await this.getMaxIssueQuantity(setToken, slippageTolerance),
+    };
+  }
+
+  private async _getTotalSupply(setToken: Address): Promise<BigNumber> {
+    return ERC20__factory.connect(setToken, this._slippageIssuanceModule.provider).totalSupply();
+  }
+}
@@ -0,0 +1,336 @@
+import { BigNumber, Event } from "ethers";
+import { getAddress } from "ethers/lib/utils";
+
+import { preciseDiv } from "./mathUtils";
+import { ADDRESS_ZERO, PRECISE_UNIT } from "../constants";
+import { PriceOracle } from "../contracts";
+import { Address, PriceOraclePair, PriceOracleRoute, UnpriceableSetToken } from "../types";
+import { IOracle__factory } from "../../typechain/factories/IOracle__factory";
+import { IOracleAdapter__factory } from "../../typechain/factories/IOracleAdapter__factory";
+import { ISetValuer__factory } from "../../typechain/factories/ISetValuer__factory";
+import { SetToken__factory } from "../../typechain/factories/SetToken__factory";
+
+type OracleRead = {
+  price: BigNumber | undefined;
+  error: string | undefined;
+};
+
+/**
+ * Resolution graph of a PriceOracle: its pairs, master quote asset and adapters. Explains which route
+ * `PriceOracle.getPrice` takes for a pair (direct, inverse, through the master quote asset or through an adapter)
+ * and why it reverts with "PriceOracle.getPrice: Price not found." when there is none.
+ *
+ * Pairs are replayed from PairAdded, PairEdited and PairRemoved events. Pairs set in the PriceOracle constructor
+ * don't emit events, so the pairs of the assets passed to `fromPriceOracle`, the master quote asset and any asset a
+ * route is requested for are also read from the PriceOracle directly.
+ */
+export class PriceOracleGraph {
+  private _priceOracle: PriceOracle;
+  private _masterQuoteAsset: Address;
+  private _adapters: Address[];
+  private _pairs: { [pair: string]: PriceOraclePair };
+  private _probedPairs: { [pair: string]: boolean };
+
+  constructor(priceOracle: PriceOracle, masterQuoteAsset: Address, adapters: Address[], pairs: PriceOraclePair[]) {
+    this._priceOracle = priceOracle;
+    this._masterQuoteAsset = getAddress(masterQuoteAsset);
+    this._adapters = adapters.map(adapter => getAddress(adapter));
+    this._pairs = {};
+    this._probedPairs = {};
+    for (const { assetOne, assetTwo, oracle } of pairs) {
+      this.setPair(getAddress(assetOne), getAddress(assetTwo), getAddress(oracle));
+    }
+  }
+
+  /**
+   * Reads the pairs, master quote asset and adapters of a PriceOracle.
+   *
+   * @param priceOracle       Instance of the PriceOracle
+   * @param assets            Assets whose pairs with every known asset are probed, to pick up constructor pairs
+   * @param fromBlock         Block to read pair events from, e.g. the deployment block of the PriceOracle
+   */
+  public static async fromPriceOracle(
+    priceOracle: PriceOracle,
+    assets: Address[] = [],
+    fromBlock: number = 0
+  ): Promise<PriceOracleGraph> {
+    const events: Event[] = [
+      ...await priceOracle.queryFilter(priceOracle.filters.PairAdded(), fromBlock),
+      ...await priceOracle.queryFilter(priceOracle.filters.PairEdited(), fromBlock),
+      ...await priceOracle.queryFilter(priceOracle.filters.PairRemoved(), fromBlock),
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    const graph = new PriceOracleGraph(
+      priceOracle,
+      await priceOracle.masterQuoteAsset(),
+      await priceOracle.getAdapters(),
+      []
+    );
+
+    for (const event of events) {
+      const [assetOne, assetTwo, oracle] = event.args!;
+      if (event.event === "PairRemoved") {
+        graph.deletePair(assetOne, assetTwo);
+      } else {
+        graph.setPair(assetOne, assetTwo, oracle);
+      }
+    }
+
+    await graph.probeAssets([...assets, graph.masterQuoteAsset]);
+
+    return graph;
+  }
+
+  public get masterQuoteAsset(): Address {
+    return this._masterQuoteAsset;
+  }
+
+  public get adapters(): Address[] {
+    return this._adapters;
+  }
+
+  public get pairs(): PriceOraclePair[] {
+    return Object.keys(this._pairs).map(key => this._pairs[key]);
+  }
+
+  /**
+   * Reads the oracles of the pairs of `assets` with every known asset (in both directions) from the PriceOracle,
+   * picking up pairs that didn't emit events. Routes probe the assets they price, so this is only needed to complete
+   * the graph.
+   */
+  public async probeAssets(assets: Address[]): Promise<void> {
+    const probedAssets = assets.map(asset => getAddress(asset));
+    const knownAssets = probedAssets.concat(Object.keys(this.getGraph()), [this._masterQuoteAsset]);
+
+    for (const assetOne of probedAssets) {
+      for (const assetTwo of knownAssets) {
+        for (const [one, two] of [[assetOne, assetTwo], [assetTwo, assetOne]]) {
+          const key = getPairKey(one, two);
+          if (this._probedPairs[key] || this._pairs[key]) {
+            continue;
+          }
+          this._probedPairs[key] = true;
+
+          const oracle = await this._priceOracle.oracles(one, two);
+          if (oracle !== ADDRESS_ZERO) {
+            this.setPair(one, two, oracle);
+          }
+        }
+      }
+    }
+  }
+
+  public getOracle(assetOne: Address, assetTwo: Address): Address | undefined {
+    const pair = this._pairs[getPairKey(getAddress(assetOne), getAddress(assetTwo))];
+
+    return pair ? pair.oracle : undefined;
+  }
+
+  /**
+   * Returns the assets each asset has a pair with, in either direction.
+   */
+  public getGraph(): { [asset: string]: Address[] } {
+    const graph: { [asset: string]: Address[] } = {};
+    const connect = (from: Address, to: Address) => {
+      graph[from] = graph[from] || [];
+      if (graph[from].indexOf(to) === -1) {
+        graph[from].push(to);
+      }
+    };
+
+    for (const { assetOne, assetTwo } of this.pairs) {
+      connect(assetOne, assetTwo);
+      connect(assetTwo, assetOne);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Explains how `PriceOracle.getPrice(assetOne, assetTwo)` resolves, reading the oracles and adapters it would
+   * call. A route with an error means getPrice would revert with that error.
+   */
+  public async getRoute(assetOne: Address, assetTwo: Address): Promise<PriceOracleRoute> {
+    const one = getAddress(assetOne);
+    const two = getAddress(assetTwo);
+    await this.probeAssets([one, two]);
+
+    const directOrInverseRoute = await this.getDirectOrInverseRoute(one, two);
+    if (directOrInverseRoute) {
+      return directOrInverseRoute;
+    }
+
+    const master = this._masterQuoteAsset;
+    const legOne = await this.getDirectOrInverseRoute(one, master);
+    const legTwo = await this.getDirectOrInverseRoute(two, master);
+
+    // Both legs are read before checking that both exist, so a reverting leg reverts getPrice
+    const revertingLeg = [legOne, legTwo].find(leg => leg !== undefined && leg.error !== undefined);
+    if (revertingLeg || (legOne && legTwo)) {
+      const legs = [legOne, legTwo].filter(leg => leg !== undefined) as PriceOracleRoute[];
+      const error = revertingLeg ? revertingLeg.error : getDivisionError(legTwo!.price!);
+
+      return {
+        assetOne: one,
+        assetTwo: two,
+        type: "masterQuote",
+        sources: legs.reduce((sources: Address[], leg) => sources.concat(leg.sources), []),
+        price: error ? undefined : preciseDiv(legOne!.price!, legTwo!.price!),
+        error,
+        explanation: `${one}/${two} is priced through the master quote asset ${master}: ` +
+          legs.map(leg => leg.explanation).join(", "),
+      };
+    }
+
+    for (const adapter of this._adapters) {
+      try {
+        const [priceFound, price] = await IOracleAdapter__factory.connect(adapter, this._priceOracle.provider).getPrice(one, two);
+        if (priceFound) {
+          return this.getRouteResult(one, two, "adapter", [adapter], { price, error: undefined }, `is priced by adapter ${adapter}`);
+        }
+      } catch (error) {
+        const read = { price: undefined, error: (error as Error).message };
+        return this.getRouteResult(one, two, "adapter", [adapter], read, `reverts in adapter ${adapter}`);
+      }
+    }
+
+    return {
+      assetOne: one,
+      assetTwo: two,
+      type: undefined,
+      sources: [],
+      price: undefined,
+      error: undefined,
+      explanation: `${one}/${two} has no direct or inverse pair, ` +
+        [legOne ? undefined : this.describeMissingLeg(one), legTwo ? undefined : this.describeMissingLeg(two)]
+          .filter(description => description !== undefined)
+          .join(", ") +
+        ` and none of the ${this._adapters.length} adapters price it`,
+    };
+  }
+
+  /**
+   * Returns the assets that can't be priced in `quoteAsset` (by default the master quote asset, which is how
+   * SetValuer prices components).
+   */
+  public async getUnreachableAssets(assets: Address[], quoteAsset: Address = this._masterQuoteAsset): Promise<Address[]> {
+    const unreachableAssets: Address[] = [];
+    for (const asset of assets) {
+      const route = await this.getRoute(asset, quoteAsset);
+      if (route.type === undefined || route.error !== undefined) {
+        unreachableAssets.push(route.assetOne);
+      }
+    }
+
+    return unreachableAssets;
+  }
+
+  /**
+   * Returns the SetTokens whose valuation in `quoteAsset` reverts, with the routes of the components (and quote
+   * asset) that the SetValuer can't price in the master quote asset.
+   *
+   * @param setValuer         Address of the SetValuer
+   * @param setTokens         Addresses of the SetTokens to value
+   * @param quoteAsset        Asset to value the SetTokens in, defaults to the master quote asset
+   */
+  public async findUnpriceableSetTokens(
+    setValuer: Address,
+    setTokens: Address[],
+    quoteAsset: Address = this._masterQuoteAsset
+  ): Promise<UnpriceableSetToken[]> {
+    const provider = this._priceOracle.provider;
+    const valuer = ISetValuer__factory.connect(setValuer, provider);
+    const unpriceableSetTokens: UnpriceableSetToken[] = [];
+
+    for (const setToken of setTokens) {
+      try {
+        await valuer.calculateSetTokenValuation(setToken, quoteAsset);
+      } catch (error) {
+        const assets = await SetToken__factory.connect(setToken, provider).getComponents();
+        if (getAddress(quoteAsset) !== this._masterQuoteAsset) {
+          assets.push(getAddress(quoteAsset));
+        }
+
+        const failingRoutes: PriceOracleRoute[] = [];
+        for (const asset of assets) {
+          const route = await this.getRoute(asset, this._masterQuoteAsset);
+          if (route.type === undefined || route.error !== undefined) {
+            failingRoutes.push(route);
+          }
+        }
+
+        unpriceableSetTokens.push({ setToken: getAddress(setToken), error: (error as Error).message, failingRoutes });
+      }
+    }
+
+    return unpriceableSetTokens;
+  }
+
+  private setPair(assetOne: Address, assetTwo: Address, oracle: Address): void {
+    this._pairs[getPairKey(assetOne, assetTwo)] = { assetOne, assetTwo, oracle };
+  }
+
+  private deletePair(assetOne: Address, assetTwo: Address): void {
+    delete this._pairs[getPairKey(assetOne, assetTwo)];
+  }
+
+  private async getDirectOrInverseRoute(assetOne: Address, assetTwo: Address): Promise<PriceOracleRoute | undefined> {
+    const directOracle = this.getOracle(assetOne, assetTwo);
+    if (directOracle) {
+      const read = await this.readOracle(directOracle, false);
+      return this.getRouteResult(assetOne, assetTwo, "direct", [directOracle], read, `is read from oracle ${directOracle}`);
+    }
+
+    const inverseOracle = this.getOracle(assetTwo, assetOne);
+    if (inverseOracle) {
+      const read = await this.readOracle(inverseOracle, true);
+      return this.getRouteResult(assetOne, assetTwo, "inverse", [inverseOracle], read, `is inverted from oracle ${inverseOracle}`);
+    }
+
+    return undefined;
+  }
+
+  private async readOracle(oracle: Address, isInverse: boolean): Promise<OracleRead> {
+    try {
+      const value = await IOracle__factory.connect(oracle, this._priceOracle.provider).read();
+      if (!isInverse) {
+        return { price: value, error: undefined };
+      }
+
+      const error = getDivisionError(value);
+      return { price: error ? undefined : preciseDiv(PRECISE_UNIT, value), error };
+    } catch (error) {
+      return { price: undefined, error: (error as Error).message };
+    }
+  }
+
+  private getRouteResult(
+    assetOne: Address,
+    assetTwo: Address,
+    type: PriceOracleRoute["type"],
+    sources: Address[],
+    read: OracleRead,
+    description: string
+  ): PriceOracleRoute {
+    return {
+      assetOne,
+      assetTwo,
+      type,
+      sources,
+      ...read,
+      explanation: `${assetOne}/${assetTwo} ${description}${read.error ? ` which reverts: ${read.error}` : ""}`,
+    };
+  }
+
+  private describeMissingLeg(asset: Address): string {
+    const pairedAssets = this.getGraph()[asset] || [];
+    const pairs = pairedAssets.length > 0 ? `it only has pairs with ${pairedAssets.join(", ")}` : "it has no pairs";
+
+    return `${asset} has no pair with the master quote asset ${this._masterQuoteAsset} (${pairs})`;
+  }
+}
+
+const getPairKey = (assetOne: Address, assetTwo: Address): string => `${assetOne}/${assetTwo}`;
+
+// PreciseUnitMath.preciseDiv reverts on a zero divisor
+const getDivisionError = (divisor: BigNumber): string | undefined => divisor.eq(0) ? "SafeMath: division by zero" : undefined;
@@ -1,10 +1,97 @@
-import { BigNumber, constants, ethers, providers } from "ethers";
+import { BigNumber, constants, providers, utils } from "ethers";
 
 import { EMPTY_BYTES } from "../constants";
-import { Address, Position } from "../types";
+import { Address, Position, ProtocolEvent, ProtocolEventFilter, SetTokenCreatedEvent } from "../types";
+import { AaveLeverageModule__factory } from "../../typechain/factories/AaveLeverageModule__factory";
+import { AirdropModule__factory } from "../../typechain/factories/AirdropModule__factory";
+import { AmmModule__factory } from "../../typechain/factories/AmmModule__factory";
+import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
+import { ClaimModule__factory } from "../../typechain/factories/ClaimModule__factory";
+import { CompoundLeverageModule__factory } from "../../typechain/factories/CompoundLeverageModule__factory";
+import { Controller__factory } from "../../typechain/factories/Controller__factory";
+import { CustomOracleNavIssuanceModule__factory } from "../../typechain/factories/CustomOracleNavIssuanceModule__factory";
+import { DebtIssuanceModule__factory } from "../../typechain/factories/DebtIssuanceModule__factory";
+import { DebtIssuanceModuleV2__factory } from "../../typechain/factories/DebtIssuanceModuleV2__factory";
+import { GeneralIndexModule__factory } from "../../typechain/factories/GeneralIndexModule__factory";
+import { GovernanceModule__factory } from "../../typechain/factories/GovernanceModule__factory";
+import { IntegrationRegistry__factory } from "../../typechain/factories/IntegrationRegistry__factory";
+import { IssuanceModule__factory } from "../../typechain/factories/IssuanceModule__factory";
+import { NotionalTradeModule__factory } from "../../typechain/factories/NotionalTradeModule__factory";
+import { PerpV2BasisTradingModule__factory } from "../../typechain/factories/PerpV2BasisTradingModule__factory";
+import { PerpV2LeverageModuleV2__factory } from "../../typechain/factories/PerpV2LeverageModuleV2__factory";
+import { PriceOracle__factory } from "../../typechain/factories/PriceOracle__factory";
+import { SetToken__factory } from "../../typechain/factories/SetToken__factory";
+import { SetTokenCreator__factory } from "../../typechain/factories/SetTokenCreator__factory";
+import { SetValuer__factory } from "../../typechain/factories/SetValuer__factory";
+import { SingleIndexModule__factory } from "../../typechain/factories/SingleIndexModule__factory";
+import { SlippageIssuanceModule__factory } from "../../typechain/factories/SlippageIssuanceModule__factory";
+import { StakingModule__factory } from "../../typechain/factories/StakingModule__factory";
+import { StreamingFeeModule__factory } from "../../typechain/factories/StreamingFeeModule__factory";
+import { TradeModule__factory } from "../../typechain/factories/TradeModule__factory";
+import { WrapModule__factory } from "../../typechain/factories/WrapModule__factory";
+import { WrapModuleV2__factory } from "../../typechain/factories/WrapModuleV2__factory";
 
 const { AddressZero } = constants;
 
+// Core contracts and modules whose events can be decoded
+const PROTOCOL_ABIS: { [contract: string]: { createInterface(): utils.Interface } } = {
+  SetToken: SetToken__factory,
+  SetTokenCreator: SetTokenCreator__factory,
+  Controller: Controller__factory,
+  IntegrationRegistry: IntegrationRegistry__factory,
+  PriceOracle: PriceOracle__factory,
+  SetValuer: SetValuer__factory,
+  AaveLeverageModule: AaveLeverageModule__factory,
+  AirdropModule: AirdropModule__factory,
+  AmmModule: AmmModule__factory,
+  BasicIssuanceModule: BasicIssuanceModule__factory,
+  ClaimModule: ClaimModule__factory,
+  CompoundLeverageModule: CompoundLeverageModule__factory,
+  CustomOracleNavIssuanceModule: CustomOracleNavIssuanceModule__factory,
+  DebtIssuanceModule: DebtIssuanceModule__factory,
+  DebtIssuanceModuleV2: DebtIssuanceModuleV2__factory,
+  GeneralIndexModule: GeneralIndexModule__factory,
+  GovernanceModule: GovernanceModule__factory,
+  IssuanceModule: IssuanceModule__factory,
+  NotionalTradeModule: NotionalTradeModule__factory,
+  PerpV2BasisTradingModule: PerpV2BasisTradingModule__factory,
+  PerpV2LeverageModuleV2: PerpV2LeverageModuleV2__factory,
+  SingleIndexModule: SingleIndexModule__factory,
+  SlippageIssuanceModule: SlippageIssuanceModule__factory,
+  StakingModule: StakingModule__factory,
+  StreamingFeeModule: StreamingFeeModule__factory,
+  TradeModule: TradeModule__factory,
+  WrapModule: WrapModule__factory,
+  WrapModuleV2: WrapModuleV2__factory,
+};
+
+type EventDecoder = {
+  contract: string;
+  iface: utils.Interface;
+};
+
+let eventDecoders: { [topic: string]: EventDecoder[] } | undefined;
+
+// Event topic => ABIs declaring it, built on first use
+const getEventDecoders = (): { [topic: string]: EventDecoder[] } => {
+  if (!eventDecoders) {
+    const decoders: { [topic: string]: EventDecoder[] } = {};
+
+    Object.keys(PROTOCOL_ABIS).forEach(contract => {
+      const iface = PROTOCOL_ABIS[contract].createInterface();
+
+      Object.keys(iface.events).forEach(signature => {
+        const topic = iface.getEventTopic(signature);
+        decoders[topic] = (decoders[topic] || []).concat({ contract, iface });
+      });
+    });
+
+    eventDecoders = decoders;
+  }
+
+  return eventDecoders;
+};
+
 export class ProtocolUtils {
   public _provider: providers.Web3Provider | providers.JsonRpcProvider;
 
@@ -12,23 +99,100 @@ export class ProtocolUtils {
     this._provider = _provider;
   }
 
-  public async getCreatedSetTokenAddress (txnHash: string | undefined): Promise<string> {
+  /**
+   * Returns the address of the first SetToken created by a transaction. Waits for the transaction to be mined, so
+   * it can be called before the block is mined when automining is off. Pass the `factory` the Set was created with to
+   * ignore SetTokenCreated events emitted by other contracts in the same transaction.
+   */
+  public async getCreatedSetTokenAddress(txnHash: string | undefined, factory?: Address): Promise<string> {
+    const [createdSetToken] = await this.getCreatedSetTokens(txnHash, factory);
+    if (!createdSetToken) {
+      throw new Error(`No SetTokenCreated event in transaction ${txnHash}`);
+    }
+
+    return createdSetToken.setToken;
+  }
+
+  public async getCreatedSetTokens(txnHash: string | undefined, factory?: Address): Promise<SetTokenCreatedEvent[]> {
     if (!txnHash) {
       throw new Error("Invalid transaction hash");
     }
 
-    const abi = ["event SetTokenCreated(address indexed _setToken, address _manager, string _name, string _symbol)"];
-    const iface = new ethers.utils.Interface(abi);
+    const receipt = await this._provider.waitForTransaction(txnHash);
+    return this.getSetTokenCreatedEvents(receipt, factory);
+  }
 
-    const topic = ethers.utils.id("SetTokenCreated(address,address,string,string)");
-    const logs = await this._provider.getLogs({
-      fromBlock: "latest",
-      toBlock: "latest",
-      topics: [topic],
-    });
+  public getSetTokenCreatedEvents(receipt: providers.TransactionReceipt, factory?: Address): SetTokenCreatedEvent[] {
+    return this.decodeProtocolEvents(receipt, { contract: "SetTokenCreator", name: "SetTokenCreated", address: factory })
+      .map(event => ({
+        setToken: event.args._setToken,
+        factory: event.address,
+        manager: event.args._manager,
+        name: event.args._name,
+        symbol: event.args._symbol,
+      }));
+  }
+
+  /**
+   * Decodes the logs of a receipt emitted by protocol contracts, in log order. Logs matching no protocol event are
+   * skipped. Decoded arguments can be typed by the caller, e.g.
+   * `decodeProtocolEvents<{ _module: string }>(receipt, { name: "ModuleInitialized" })`.
+   *
+   * Logs are matched by ABI only, so any contract emitting an event with a protocol signature is decoded as that
+   * protocol contract. Filter by `address` when the receipt can contain logs of untrusted contracts.
+   */
+  public decodeProtocolEvents<T = utils.Result>(
+    receipt: providers.TransactionReceipt,
+    filter: ProtocolEventFilter = {}
+  ): ProtocolEvent<T>[] {
+    const events: ProtocolEvent<T>[] = [];
+
+    for (const log of receipt.logs) {
+      const event = this.decodeProtocolLog<T>(log, filter.contract);
+
+      if (
+        event &&
+        (!filter.contract || event.contract === filter.contract) &&
+        (!filter.name || event.name === filter.name) &&
+        (!filter.address || event.address.toLowerCase() === filter.address.toLowerCase())
+      ) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Decodes a log emitted by a protocol contract. Events shared by several contracts (e.g. ModuleAdded on SetToken
+   * and Controller) are attributed to `preferredContract` when it declares them, else to the first declaring ABI.
+   */
+  public decodeProtocolLog<T = utils.Result>(log: providers.Log, preferredContract?: string): ProtocolEvent<T> | undefined {
+    const candidates = getEventDecoders()[log.topics[0]] || [];
+    const decoders = candidates
+      .filter(decoder => decoder.contract === preferredContract)
+      .concat(candidates.filter(decoder => decoder.contract !== preferredContract));
+
+    // ABIs can declare the same signature with different indexed arguments, so fall through on decoding errors
+    for (const { contract, iface } of decoders) {
+      try {
+        const parsed = iface.parseLog(log);
+
+        return {
+          contract,
+          address: log.address,
+          name: parsed.name,
+          signature: parsed.signature,
+          args: parsed.args as unknown as T,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+        };
+      } catch (error) {
+        continue;
+      }
+    }
 
-    const parsed = iface.parseLog(logs[logs.length - 1]);
-    return parsed.args._setToken;
+    return undefined;
   }
 
   public getDefaultPosition(component: Address, unit: BigNumber): Position {
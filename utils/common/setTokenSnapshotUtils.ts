@@ -0,0 +1,256 @@
+import { BigNumber } from "ethers";
+import { formatUnits } from "ethers/lib/utils";
+
+import { ADDRESS_ZERO, EMPTY_BYTES, MODULE_STATE, POSITION_STATE, ZERO } from "../constants";
+import { SetToken } from "../contracts";
+import {
+  Address,
+  ModuleStateChange,
+  ModuleStateSnapshot,
+  Position,
+  PositionChange,
+  SetTokenSnapshot,
+  SetTokenSnapshotDiff,
+} from "../types";
+
+/**
+ * Captures the full on-chain state of a SetToken. Position units are real units (virtual units adjusted by
+ * the position multiplier), as returned by `SetToken.getPositions`.
+ *
+ * @param setToken          SetToken instance to read from
+ * @param trackedModules    Modules to record in addition to the initialized modules, e.g. pending modules the SetToken does not enumerate
+ */
+export const getSetTokenSnapshot = async(
+  setToken: SetToken,
+  trackedModules: Address[] = []
+): Promise<SetTokenSnapshot> => {
+  // getBlockNumber never decreases, so it would return a stale block after a chain revert
+  const { number: blockNumber } = await setToken.provider.getBlock("latest");
+  const overrides = { blockTag: blockNumber };
+
+  const [manager, totalSupply, positionMultiplier, components, positions, initializedModules] = await Promise.all([
+    setToken.manager(overrides),
+    setToken.totalSupply(overrides),
+    setToken.positionMultiplier(overrides),
+    setToken.getComponents(overrides),
+    setToken.getPositions(overrides),
+    setToken.getModules(overrides),
+  ]);
+
+  const moduleAddresses = initializedModules.concat(
+    trackedModules.filter(module => !initializedModules.includes(module))
+  );
+
+  const modules: ModuleStateSnapshot[] = [];
+  for (const module of moduleAddresses) {
+    modules.push({ module, state: await setToken.moduleStates(module, overrides) });
+  }
+
+  return {
+    setToken: setToken.address,
+    blockNumber,
+    manager,
+    totalSupply,
+    positionMultiplier,
+    components,
+    positions: positions.map(position => ({
+      component: position.component,
+      module: position.module,
+      unit: position.unit,
+      positionState: position.positionState,
+      data: position.data,
+    })),
+    modules,
+  };
+};
+
+/**
+ * Computes the changes between two snapshots of the same SetToken. Positions are matched by component and
+ * module; a position missing from one snapshot is treated as having a unit of zero.
+ */
+export const diffSetTokenSnapshots = (
+  previous: SetTokenSnapshot,
+  current: SetTokenSnapshot
+): SetTokenSnapshotDiff => {
+  if (previous.setToken !== current.setToken) {
+    throw new Error("Snapshots must be of the same SetToken");
+  }
+
+  const previousPositions = indexPositions(previous.positions);
+  const currentPositions = indexPositions(current.positions);
+  const positionKeys = Object.keys(previousPositions).concat(
+    Object.keys(currentPositions).filter(key => !previousPositions[key])
+  );
+
+  const positionChanges: PositionChange[] = [];
+  for (const key of positionKeys) {
+    const previousPosition = previousPositions[key];
+    const currentPosition = currentPositions[key];
+    const { component, module, positionState } = currentPosition || previousPosition;
+
+    const previousUnit = previousPosition ? previousPosition.unit : ZERO;
+    const currentUnit = currentPosition ? currentPosition.unit : ZERO;
+    const previousData = previousPosition ? previousPosition.data : EMPTY_BYTES;
+    const currentData = currentPosition ? currentPosition.data : EMPTY_BYTES;
+
+    if (!previousUnit.eq(currentUnit) || previousData !== currentData) {
+      positionChanges.push({
+        component,
+        module,
+        positionState,
+        previousUnit,
+        currentUnit,
+        delta: currentUnit.sub(previousUnit),
+        previousData,
+        currentData,
+      });
+    }
+  }
+
+  const moduleStateChanges: ModuleStateChange[] = [];
+  const moduleAddresses = previous.modules.map(({ module }) => module).concat(
+    current.modules.map(({ module }) => module).filter(module => !previous.modules.some(m => m.module === module))
+  );
+  for (const module of moduleAddresses) {
+    const previousModule = previous.modules.find(m => m.module === module);
+    const currentModule = current.modules.find(m => m.module === module);
+    const previousState = previousModule ? previousModule.state : MODULE_STATE.NONE;
+    const currentState = currentModule ? currentModule.state : MODULE_STATE.NONE;
+
+    if (previousState !== currentState) {
+      moduleStateChanges.push({ module, previousState, currentState });
+    }
+  }
+
+  return {
+    setToken: current.setToken,
+    addedComponents: current.components.filter(component => !previous.components.includes(component)),
+    removedComponents: previous.components.filter(component => !current.components.includes(component)),
+    positionChanges,
+    moduleStateChanges,
+    positionMultiplier: previous.positionMultiplier.eq(current.positionMultiplier) ?
+      undefined :
+      { previous: previous.positionMultiplier, current: current.positionMultiplier },
+    totalSupply: previous.totalSupply.eq(current.totalSupply) ?
+      undefined :
+      { previous: previous.totalSupply, current: current.totalSupply },
+    manager: previous.manager === current.manager ?
+      undefined :
+      { previous: previous.manager, current: current.manager },
+  };
+};
+
+/**
+ * Renders a snapshot diff as a human readable report. Units are printed in whole tokens when the component's
+ * decimals are supplied, otherwise in base units.
+ *
+ * @param diff              Diff to render
+ * @param componentDecimals Decimals keyed by component address
+ * @param labels            Optional display names keyed by address (components, modules, managers)
+ */
+export const formatSetTokenSnapshotDiff = (
+  diff: SetTokenSnapshotDiff,
+  componentDecimals: { [component: string]: number } = {},
+  labels: { [address: string]: string } = {}
+): string => {
+  const label = (address: Address) => labels[address] || address;
+  const units = (component: Address, value: BigNumber) => {
+    const decimals = componentDecimals[component];
+    return decimals === undefined ? value.toString() : formatUnits(value, decimals);
+  };
+  const signed = (component: Address, value: BigNumber) => (value.gte(0) ? "+" : "") + units(component, value);
+
+  const lines = [`SetToken ${label(diff.setToken)}`];
+
+  if (diff.totalSupply) {
+    lines.push(`  totalSupply: ${formatUnits(diff.totalSupply.previous)} -> ${formatUnits(diff.totalSupply.current)}`);
+  }
+
+  if (diff.positionMultiplier) {
+    lines.push(
+      `  positionMultiplier: ${formatUnits(diff.positionMultiplier.previous)} -> ${formatUnits(diff.positionMultiplier.current)}`
+    );
+  }
+
+  if (diff.manager) {
+    lines.push(`  manager: ${label(diff.manager.previous)} -> ${label(diff.manager.current)}`);
+  }
+
+  diff.addedComponents.forEach(component => lines.push(`  + component ${label(component)}`));
+  diff.removedComponents.forEach(component => lines.push(`  - component ${label(component)}`));
+
+  for (const change of diff.positionChanges) {
+    const location = change.positionState === POSITION_STATE.DEFAULT ? "default" : `external ${label(change.module)}`;
+    lines.push(
+      `  ${label(change.component)} (${location}): ` +
+      `${units(change.component, change.previousUnit)} -> ${units(change.component, change.currentUnit)} ` +
+      `(${signed(change.component, change.delta)})`
+    );
+
+    if (change.previousData !== change.currentData) {
+      lines.push(`    data: ${change.previousData} -> ${change.currentData}`);
+    }
+  }
+
+  const stateNames = Object.keys(MODULE_STATE);
+  for (const change of diff.moduleStateChanges) {
+    lines.push(
+      `  module ${label(change.module)}: ${stateNames[change.previousState]} -> ${stateNames[change.currentState]}`
+    );
+  }
+
+  if (lines.length === 1) {
+    lines.push("  no changes");
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Renders a snapshot as a human readable report of the SetToken's supply, manager, positions and modules. Units
+ * are printed in whole tokens when the component's decimals are supplied, otherwise in base units.
+ *
+ * @param snapshot          Snapshot to render
+ * @param componentDecimals Decimals keyed by component address
+ * @param labels            Optional display names keyed by address (components, modules, managers)
+ */
+export const formatSetTokenSnapshot = (
+  snapshot: SetTokenSnapshot,
+  componentDecimals: { [component: string]: number } = {},
+  labels: { [address: string]: string } = {}
+): string => {
+  const label = (address: Address) => labels[address] || address;
+  const units = (component: Address, value: BigNumber) => {
+    const decimals = componentDecimals[component];
+    return decimals === undefined ? value.toString() : formatUnits(value, decimals);
+  };
+
+  const lines = [
+    `SetToken ${label(snapshot.setToken)} at block ${snapshot.blockNumber}`,
+    `  manager: ${label(snapshot.manager)}`,
+    `  totalSupply: ${formatUnits(snapshot.totalSupply)}`,
+    `  positionMultiplier: ${formatUnits(snapshot.positionMultiplier)}`,
+    "  positions:",
+  ];
+
+  for (const position of snapshot.positions) {
+    const location = position.positionState === POSITION_STATE.DEFAULT ? "default" : `external ${label(position.module)}`;
+    lines.push(`    ${label(position.component)} (${location}): ${units(position.component, position.unit)}`);
+  }
+
+  const stateNames = Object.keys(MODULE_STATE);
+  lines.push("  modules:");
+  snapshot.modules.forEach(({ module, state }) => lines.push(`    ${label(module)}: ${stateNames[state]}`));
+
+  return lines.join("\n");
+};
+
+const getPositionKey = (component: Address, module: Address): string => `${component}-${module}`;
+
+const indexPositions = (positions: Position[]): { [key: string]: Position } => {
+  const indexed: { [key: string]: Position } = {};
+  positions.forEach(position => {
+    indexed[getPositionKey(position.component, position.module || ADDRESS_ZERO)] = position;
+  });
+  return indexed;
+};
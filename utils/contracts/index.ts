@@ -15,6 +15,7 @@ export { BalancerV1IndexExchangeAdapter } from "../../typechain/BalancerV1IndexE
 export { BasicIssuanceModule } from "../../typechain/BasicIssuanceModule";
 export { BytesArrayUtilsMock } from "../../typechain/BytesArrayUtilsMock";
 export { ChainlinkAggregatorMock } from "../../typechain/ChainlinkAggregatorMock";
+export { ChainlinkOracle } from "../../typechain/ChainlinkOracle";
 export { ClaimAdapterMock } from "../../typechain/ClaimAdapterMock";
 export { ClaimModule } from "../../typechain/ClaimModule";
 export { Compound } from "../../typechain/Compound";
@@ -54,6 +55,7 @@ export { KyberExchangeAdapter } from "../../typechain/KyberExchangeAdapter";
 export { KyberV3IndexExchangeAdapter } from "../../typechain/KyberV3IndexExchangeAdapter";
 export { KyberNetworkProxyMock } from "../../typechain/KyberNetworkProxyMock";
 export { ManagerIssuanceHookMock } from "../../typechain/ManagerIssuanceHookMock";
+export { MedianOracle } from "../../typechain/MedianOracle";
 export { ModuleBaseMock } from "../../typechain/ModuleBaseMock";
 export { ModuleBaseV2Mock } from "../../typechain/ModuleBaseV2Mock";
 export { ModuleIssuanceHookMock } from "../../typechain/ModuleIssuanceHookMock";
@@ -84,6 +86,7 @@ export { PriceOracle } from "../../typechain/PriceOracle";
 export { ProtocolViewer } from "../../typechain/ProtocolViewer";
 export { ResourceIdentifierMock } from "../../typechain/ResourceIdentifierMock";
 export { RgtMigrationWrapAdapter } from "../../typechain/RgtMigrationWrapAdapter";
+export { SafeMock } from "../../typechain/SafeMock";
 export { SetToken } from "../../typechain/SetToken";
 export { SetTokenAccessibleMock } from "../../typechain/SetTokenAccessibleMock";
 export { SetTokenCreator } from "../../typechain/SetTokenCreator";
@@ -122,6 +125,7 @@ export { UniswapV2Router02 } from "../../typechain/UniswapV2Router02";
 export { UniswapV3ExchangeAdapter } from "../../typechain/UniswapV3ExchangeAdapter";
 export { UniswapV3ExchangeAdapterV2 } from "../../typechain/UniswapV3ExchangeAdapterV2";
 export { UniswapV3MathMock } from "../../typechain/UniswapV3MathMock";
+export { UniswapV3TwapPriceAdapter } from "../../typechain/UniswapV3TwapPriceAdapter";
 export { UnitConversionUtilsMock } from "../../typechain/UnitConversionUtilsMock";
 export { WETH9 } from "../../typechain/WETH9";
 export { WrapAdapterMock } from "../../typechain/WrapAdapterMock";
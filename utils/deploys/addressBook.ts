@@ -0,0 +1,84 @@
+import fs from "fs-extra";
+import path from "path";
+import { getAddress, isAddress } from "ethers/lib/utils";
+
+import { getDeploymentJournalPath } from "./deploymentJournal";
+import { Address, AddressBookEntry, SystemAddressBook } from "../types";
+
+const ADDRESS_BOOK_FILE = "addresses.json";
+
+type AddressBookContract = "controller" | "setTokenCreator" | "integrationRegistry" | "priceOracle" | "setValuer";
+
+type AddressBookSection = "modules" | "integrations" | "oracles" | "externals" | "libraries";
+
+const ADDRESS_BOOK_CONTRACTS: AddressBookContract[] = ["controller", "setTokenCreator", "integrationRegistry", "priceOracle", "setValuer"];
+
+const ADDRESS_BOOK_SECTIONS: AddressBookSection[] = ["modules", "integrations", "oracles", "externals", "libraries"];
+
+// Address books live next to the deployment journal of the same network
+export const getJournalAddressBookPath = (journalPath: string): string => {
+  return path.join(path.dirname(journalPath), ADDRESS_BOOK_FILE);
+};
+
+export const getAddressBookPath = (networkName: string, chainId: number): string => {
+  return getJournalAddressBookPath(getDeploymentJournalPath(networkName, chainId));
+};
+
+export const readAddressBook = (addressBookPath: string): SystemAddressBook => {
+  if (!fs.existsSync(addressBookPath)) {
+    throw new Error(`No address book at ${addressBookPath}`);
+  }
+
+  return fs.readJsonSync(addressBookPath);
+};
+
+export const writeAddressBook = (addressBookPath: string, book: SystemAddressBook): void => {
+  fs.outputJsonSync(addressBookPath, book, { spaces: 2 });
+};
+
+/**
+ * Lists the named addresses of an address book in lookup order: top level contracts first, followed by modules,
+ * integrations, oracles, externals and libraries.
+ */
+export const getAddressBookEntries = (book: SystemAddressBook): AddressBookEntry[] => {
+  const entries: AddressBookEntry[] = [];
+
+  for (const name of ADDRESS_BOOK_CONTRACTS) {
+    const address = book[name];
+    if (address) {
+      entries.push({ name, address });
+    }
+  }
+
+  for (const section of ADDRESS_BOOK_SECTIONS) {
+    const sectionEntries: { [name: string]: Address } = book[section] || {};
+    Object.keys(sectionEntries).forEach(name => entries.push({ name, address: sectionEntries[name] }));
+  }
+
+  return entries;
+};
+
+/**
+ * Resolves an address book name (e.g. `controller`, `BasicIssuanceModule`) to its address. Top level contracts
+ * are looked up first, followed by modules, integrations, oracles, externals and libraries. Addresses are
+ * returned checksummed as is.
+ *
+ * @param book              Address book of the network
+ * @param nameOrAddress     Address book name or address
+ */
+export const resolveAddress = (book: SystemAddressBook | undefined, nameOrAddress: string): Address => {
+  if (isAddress(nameOrAddress)) {
+    return getAddress(nameOrAddress);
+  }
+
+  if (!book) {
+    throw new Error(`Cannot resolve ${nameOrAddress} without an address book`);
+  }
+
+  const entry = getAddressBookEntries(book).find(({ name }) => name === nameOrAddress);
+  if (!entry) {
+    throw new Error(`Unknown address book entry ${nameOrAddress}`);
+  }
+
+  return entry.address;
+};
@@ -40,6 +40,7 @@ import {
   PositionV2Mock,
   PreciseUnitMathMock,
   ResourceIdentifierMock,
+  SafeMock,
   StakingAdapterMock,
   StandardTokenMock,
   StandardTokenWithRoundingErrorMock,
@@ -103,6 +104,7 @@ import { PositionMock__factory } from "../../typechain/factories/PositionMock__f
 import { PositionV2Mock__factory } from "../../typechain/factories/PositionV2Mock__factory";
 import { PreciseUnitMathMock__factory } from "../../typechain/factories/PreciseUnitMathMock__factory";
 import { ResourceIdentifierMock__factory } from "../../typechain/factories/ResourceIdentifierMock__factory";
+import { SafeMock__factory } from "../../typechain/factories/SafeMock__factory";
 import { StakingAdapterMock__factory } from "../../typechain/factories/StakingAdapterMock__factory";
 import { StandardTokenMock__factory } from "../../typechain/factories/StandardTokenMock__factory";
 import { StandardTokenWithRoundingErrorMock__factory } from "../../typechain/factories/StandardTokenWithRoundingErrorMock__factory";
@@ -383,6 +385,10 @@ export default class DeployMocks {
     return await new ContractCallerMock__factory(this._deployerSigner).deploy();
   }
 
+  public async deploySafeMock(owners: Address[], threshold: BigNumberish): Promise<SafeMock> {
+    return await new SafeMock__factory(this._deployerSigner).deploy(owners, threshold);
+  }
+
   public async deployDebtIssuanceMock(): Promise<DebtIssuanceMock> {
     return await new DebtIssuanceMock__factory(this._deployerSigner).deploy();
   }
@@ -68,6 +68,10 @@ export default class DeployModules {
     return await new DebtIssuanceModule__factory(this._deployerSigner).deploy(controller);
   }
 
+  public async getDebtIssuanceModule(debtIssuanceModule: Address): Promise<DebtIssuanceModule> {
+    return await new DebtIssuanceModule__factory(this._deployerSigner).attach(debtIssuanceModule);
+  }
+
   public async deployDebtIssuanceModuleV2(controller: Address): Promise<DebtIssuanceModuleV2> {
     return await new DebtIssuanceModuleV2__factory(this._deployerSigner).deploy(controller);
   }
@@ -76,6 +80,10 @@ export default class DeployModules {
     return await new SlippageIssuanceModule__factory(this._deployerSigner).deploy(controller);
   }
 
+  public async getSlippageIssuanceModule(slippageIssuanceModule: Address): Promise<SlippageIssuanceModule> {
+    return await new SlippageIssuanceModule__factory(this._deployerSigner).attach(slippageIssuanceModule);
+  }
+
   public async deployAmmModule(controller: Address): Promise<AmmModule> {
     return await new AmmModule__factory(this._deployerSigner).deploy(controller);
   }
@@ -142,6 +150,10 @@ export default class DeployModules {
     );
   }
 
+  public async getGeneralIndexModule(generalIndexModule: Address): Promise<GeneralIndexModule> {
+    return await new GeneralIndexModule__factory(this._deployerSigner).attach(generalIndexModule);
+  }
+
   public async deployGovernanceModule(controller: Address): Promise<GovernanceModule> {
     return await new GovernanceModule__factory(this._deployerSigner).deploy(controller);
   }
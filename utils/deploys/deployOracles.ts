@@ -1,10 +1,13 @@
 import { Signer } from "ethers";
 import { Address } from "../types";
-import { BigNumber } from "ethers";
+import { BigNumber, BigNumberish } from "ethers";
 
-import { CTokenOracle, YearnVaultOracle } from "../contracts";
+import { ChainlinkOracle, CTokenOracle, MedianOracle, UniswapV3TwapPriceAdapter, YearnVaultOracle } from "../contracts";
 
+import { ChainlinkOracle__factory } from "../../typechain/factories/ChainlinkOracle__factory";
 import { CTokenOracle__factory } from "../../typechain/factories/CTokenOracle__factory";
+import { MedianOracle__factory } from "../../typechain/factories/MedianOracle__factory";
+import { UniswapV3TwapPriceAdapter__factory } from "../../typechain/factories/UniswapV3TwapPriceAdapter__factory";
 import { YearnVaultOracle__factory } from "../../typechain/factories/YearnVaultOracle__factory";
 
 export default class DeployOracles {
@@ -32,4 +35,40 @@ export default class DeployOracles {
     return await new YearnVaultOracle__factory(this._deployerSigner).deploy(vault, underlyingOracle, underlyingFullUnit, dataDescription);
   }
 
+  public async deployChainlinkOracle(
+    aggregator: Address,
+    maxStaleness: BigNumber,
+    maxDeviation: BigNumber,
+    dataDescription: string): Promise<ChainlinkOracle> {
+    return await new ChainlinkOracle__factory(this._deployerSigner).deploy(aggregator, maxStaleness, maxDeviation, dataDescription);
+  }
+
+  public async getChainlinkOracle(chainlinkOracleAddress: Address): Promise<ChainlinkOracle> {
+    return await new ChainlinkOracle__factory(this._deployerSigner).attach(chainlinkOracleAddress);
+  }
+
+  public async deployMedianOracle(
+    assetOne: Address,
+    assetTwo: Address,
+    oracles: Address[],
+    adapters: Address[],
+    maxDeviation: BigNumber,
+    quorum: BigNumber,
+    dataDescription: string): Promise<MedianOracle> {
+    return await new MedianOracle__factory(this._deployerSigner)
+      .deploy(assetOne, assetTwo, oracles, adapters, maxDeviation, quorum, dataDescription);
+  }
+
+  public async getMedianOracle(medianOracleAddress: Address): Promise<MedianOracle> {
+    return await new MedianOracle__factory(this._deployerSigner).attach(medianOracleAddress);
+  }
+
+  public async deployUniswapV3TwapPriceAdapter(minObservationCardinality: BigNumberish): Promise<UniswapV3TwapPriceAdapter> {
+    return await new UniswapV3TwapPriceAdapter__factory(this._deployerSigner).deploy(minObservationCardinality);
+  }
+
+  public async getUniswapV3TwapPriceAdapter(uniswapV3TwapPriceAdapterAddress: Address): Promise<UniswapV3TwapPriceAdapter> {
+    return await new UniswapV3TwapPriceAdapter__factory(this._deployerSigner).attach(uniswapV3TwapPriceAdapterAddress);
+  }
+
 }
@@ -0,0 +1,326 @@
+import { Contract } from "ethers";
+
+import type DeployHelper from "./index";
+import { getJournalAddressBookPath, writeAddressBook } from "./addressBook";
+import {
+  Address,
+  ManifestArgument,
+  ManifestContract,
+  ManifestDeployer,
+  SystemAddressBook,
+  SystemManifest,
+} from "../types";
+
+// Resource IDs where IntegrationRegistry is 0, PriceOracle is 1, SetValuer is 2
+const INTEGRATION_REGISTRY_RESOURCE_ID = 0;
+const PRICE_ORACLE_RESOURCE_ID = 1;
+const SET_VALUER_RESOURCE_ID = 2;
+
+// Manifest strings starting with this prefix are resolved to the address of the named contract
+const REFERENCE_PREFIX = "$";
+
+const RESERVED_NAMES = [
+  "controller",
+  "feeRecipient",
+  "setTokenCreator",
+  "integrationRegistry",
+  "priceOracle",
+  "setValuer",
+];
+
+type ManifestSection = "libraries" | "oracles" | "modules" | "integrations";
+
+const MANIFEST_SECTIONS: ManifestSection[] = ["libraries", "oracles", "modules", "integrations"];
+
+const DEFAULT_DEPLOYERS: Record<ManifestSection, ManifestDeployer> = {
+  libraries: "libraries",
+  oracles: "oracles",
+  modules: "modules",
+  integrations: "adapters",
+};
+
+// Nearly every module constructor only takes the Controller address
+const DEFAULT_ARGS: Record<ManifestSection, ManifestArgument[]> = {
+  libraries: [],
+  oracles: [],
+  modules: ["$controller"],
+  integrations: [],
+};
+
+// Deploy methods are named by the manifest, so they are looked up on the sub-deployer at runtime
+type ManifestSubDeployer = { [method: string]: unknown };
+
+type ManifestNode = {
+  name: string;
+  section: ManifestSection | "priceOracle";
+  dependencies: string[];
+};
+
+export default class DeploySystem {
+  private _deployer: DeployHelper;
+
+  constructor(deployer: DeployHelper) {
+    this._deployer = deployer;
+  }
+
+  /**
+   * Deploys and wires a full protocol configuration described by a manifest. Core contracts are deployed
+   * first, followed by libraries, oracles, modules and integration adapters in dependency order. The
+   * Controller is then initialized and integrations are registered on the IntegrationRegistry. The address book
+   * is written next to the deployment journal when one is configured, where tasks look it up by default.
+   *
+   * @param manifest            Description of the system to deploy
+   * @param addressBookPath     File to write the address book to instead of the journal's directory
+   * @return                    Addresses of every contract deployed, keyed by manifest name
+   */
+  public async deploySystem<M extends SystemManifest>(manifest: M, addressBookPath?: string): Promise<SystemAddressBook<M>> {
+    this.validateManifest(manifest);
+
+    const addresses: { [name: string]: Address } = { ...manifest.externals };
+    const book: SystemAddressBook = {
+      controller: "",
+      externals: { ...manifest.externals },
+      libraries: {},
+      oracles: {},
+      modules: {},
+      integrations: {},
+    };
+
+    addresses.feeRecipient = this.resolveArgument(manifest.feeRecipient, addresses) as Address;
+
+    const controller = await this._deployer.core.deployController(addresses.feeRecipient);
+    book.controller = addresses.controller = controller.address;
+
+    if (manifest.integrationRegistry !== false) {
+      const integrationRegistry = await this._deployer.core.deployIntegrationRegistry(controller.address);
+      book.integrationRegistry = addresses.integrationRegistry = integrationRegistry.address;
+    }
+
+    if (manifest.setValuer !== false) {
+      const setValuer = await this._deployer.core.deploySetValuer(controller.address);
+      book.setValuer = addresses.setValuer = setValuer.address;
+    }
+
+    if (manifest.setTokenCreator !== false) {
+      const setTokenCreator = await this._deployer.core.deploySetTokenCreator(controller.address);
+      book.setTokenCreator = addresses.setTokenCreator = setTokenCreator.address;
+    }
+
+    for (const node of this.sortManifestNodes(manifest, addresses)) {
+      if (node.section === "priceOracle") {
+        book.priceOracle = addresses.priceOracle = await this.deployPriceOracle(manifest, addresses);
+        continue;
+      }
+
+      const contract = manifest[node.section]![node.name];
+      const address = await this.deployManifestContract(contract, node.section, addresses);
+      book[node.section][node.name] = addresses[node.name] = address;
+    }
+
+    const resources: Address[] = [];
+    const resourceIds: number[] = [];
+    if (book.integrationRegistry) {
+      resources.push(book.integrationRegistry);
+      resourceIds.push(INTEGRATION_REGISTRY_RESOURCE_ID);
+    }
+    if (book.priceOracle) {
+      resources.push(book.priceOracle);
+      resourceIds.push(PRICE_ORACLE_RESOURCE_ID);
+    }
+    if (book.setValuer) {
+      resources.push(book.setValuer);
+      resourceIds.push(SET_VALUER_RESOURCE_ID);
+    }
+
+    await controller.initialize(
+      book.setTokenCreator ? [book.setTokenCreator] : [],
+      Object.keys(book.modules).map(name => book.modules[name]),
+      resources,
+      resourceIds
+    );
+
+    await this.registerIntegrations(manifest, book);
+
+    const journal = this._deployer.journal;
+    const bookPath = addressBookPath || (journal && getJournalAddressBookPath(journal.getPath()));
+    if (bookPath) {
+      writeAddressBook(bookPath, book);
+    }
+
+    return book as SystemAddressBook<M>;
+  }
+
+  private async deployPriceOracle(manifest: SystemManifest, addresses: { [name: string]: Address }): Promise<Address> {
+    const { masterQuoteAsset, adapters = [], pairs = [] } = manifest.priceOracle!;
+
+    const priceOracle = await this._deployer.core.deployPriceOracle(
+      addresses.controller,
+      this.resolveArgument(masterQuoteAsset, addresses) as Address,
+      adapters.map(adapter => this.resolveArgument(adapter, addresses) as Address),
+      pairs.map(pair => this.resolveArgument(pair.assetOne, addresses) as Address),
+      pairs.map(pair => this.resolveArgument(pair.assetTwo, addresses) as Address),
+      pairs.map(pair => this.resolveArgument(pair.oracle, addresses) as Address),
+    );
+
+    return priceOracle.address;
+  }
+
+  private async deployManifestContract(
+    contract: ManifestContract,
+    section: ManifestSection,
+    addresses: { [name: string]: Address }
+  ): Promise<Address> {
+    const deployerName = contract.deployer || DEFAULT_DEPLOYERS[section];
+    const subDeployer: object | undefined = this._deployer[deployerName];
+    const deployMethod = subDeployer && (subDeployer as ManifestSubDeployer)[contract.method];
+
+    if (typeof deployMethod !== "function") {
+      throw new Error(`Manifest: unknown deploy method ${deployerName}.${contract.method}`);
+    }
+
+    const args = (contract.args || DEFAULT_ARGS[section]).map(arg => this.resolveArgument(arg, addresses));
+    const deployed: Contract = await deployMethod.apply(subDeployer, args);
+
+    return deployed.address;
+  }
+
+  private async registerIntegrations(manifest: SystemManifest, book: SystemAddressBook): Promise<void> {
+    const modules: Address[] = [];
+    const names: string[] = [];
+    const adapters: Address[] = [];
+
+    for (const adapterName of Object.keys(manifest.integrations || {})) {
+      for (const moduleName of manifest.integrations![adapterName].modules) {
+        modules.push(book.modules[moduleName]);
+        names.push(adapterName);
+        adapters.push(book.integrations[adapterName]);
+      }
+    }
+
+    if (modules.length === 0) {
+      return;
+    }
+
+    const integrationRegistry = await this._deployer.core.getIntegrationRegistry(book.integrationRegistry!);
+    await integrationRegistry.batchAddIntegration(modules, names, adapters);
+  }
+
+  private validateManifest(manifest: SystemManifest): void {
+    const names = new Set<string>();
+
+    const sectionNames = MANIFEST_SECTIONS.map(section => Object.keys(manifest[section] || {}));
+    for (const name of Object.keys(manifest.externals || {}).concat(...sectionNames)) {
+      if (RESERVED_NAMES.includes(name)) {
+        throw new Error(`Manifest: ${name} is a reserved name`);
+      }
+      if (names.has(name)) {
+        throw new Error(`Manifest: duplicate name ${name}`);
+      }
+      names.add(name);
+    }
+
+    const integrations = manifest.integrations || {};
+    if (Object.keys(integrations).length > 0 && manifest.integrationRegistry === false) {
+      throw new Error("Manifest: integrations require an IntegrationRegistry");
+    }
+
+    for (const adapterName of Object.keys(integrations)) {
+      for (const moduleName of integrations[adapterName].modules) {
+        if (!manifest.modules || !manifest.modules[moduleName]) {
+          throw new Error(`Manifest: integration ${adapterName} references unknown module ${moduleName}`);
+        }
+      }
+    }
+  }
+
+  // Orders manifest contracts so that every contract is deployed after the contracts it references. Ties
+  // are broken by manifest declaration order.
+  private sortManifestNodes(manifest: SystemManifest, addresses: { [name: string]: Address }): ManifestNode[] {
+    const nodes: { [name: string]: ManifestNode } = {};
+
+    for (const section of MANIFEST_SECTIONS) {
+      const contracts = manifest[section] || {};
+      for (const name of Object.keys(contracts)) {
+        nodes[name] = {
+          name,
+          section,
+          dependencies: this.getReferences(contracts[name].args || DEFAULT_ARGS[section]),
+        };
+      }
+    }
+
+    if (manifest.priceOracle) {
+      const { masterQuoteAsset, adapters = [], pairs = [] } = manifest.priceOracle;
+      nodes.priceOracle = {
+        name: "priceOracle",
+        section: "priceOracle",
+        dependencies: this.getReferences([
+          masterQuoteAsset,
+          adapters,
+          pairs.map(pair => [pair.assetOne, pair.assetTwo, pair.oracle]),
+        ]),
+      };
+    }
+
+    const sorted: ManifestNode[] = [];
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+
+    const visit = (node: ManifestNode) => {
+      if (visited.has(node.name)) {
+        return;
+      }
+      if (visiting.has(node.name)) {
+        throw new Error(`Manifest: circular dependency on ${node.name}`);
+      }
+
+      visiting.add(node.name);
+      for (const dependency of node.dependencies) {
+        if (nodes[dependency]) {
+          visit(nodes[dependency]);
+        } else if (!addresses[dependency]) {
+          throw new Error(`Manifest: ${node.name} references unknown contract ${dependency}`);
+        }
+      }
+      visiting.delete(node.name);
+
+      visited.add(node.name);
+      sorted.push(node);
+    };
+
+    Object.keys(nodes).forEach(name => visit(nodes[name]));
+
+    return sorted;
+  }
+
+  private getReferences(args: ManifestArgument[]): string[] {
+    const references: string[] = [];
+
+    for (const arg of args) {
+      if (Array.isArray(arg)) {
+        references.push(...this.getReferences(arg));
+      } else if (typeof arg === "string" && arg.startsWith(REFERENCE_PREFIX)) {
+        references.push(arg.slice(REFERENCE_PREFIX.length));
+      }
+    }
+
+    return references;
+  }
+
+  private resolveArgument(arg: ManifestArgument, addresses: { [name: string]: Address }): ManifestArgument {
+    if (Array.isArray(arg)) {
+      return arg.map(item => this.resolveArgument(item, addresses));
+    }
+
+    if (typeof arg !== "string" || !arg.startsWith(REFERENCE_PREFIX)) {
+      return arg;
+    }
+
+    const name = arg.slice(REFERENCE_PREFIX.length);
+    if (!addresses[name]) {
+      throw new Error(`Manifest: unresolved reference ${arg}`);
+    }
+
+    return addresses[name];
+  }
+}
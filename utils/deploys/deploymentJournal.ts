@@ -0,0 +1,237 @@
+import fs from "fs-extra";
+import path from "path";
+import { BigNumber, Contract, Signer, providers } from "ethers";
+import { Deferrable, defineReadOnly, hexlify, isHexString, keccak256, resolveProperties } from "ethers/lib/utils";
+
+import { ZERO_BYTES } from "../constants";
+import { Address, DeploymentRecord } from "../types";
+
+const DEPLOYMENTS_DIRECTORY = "deployments";
+const JOURNAL_FILE = "journal.json";
+
+type CapturedDeployment = {
+  contract: Contract;
+  data: string;
+};
+
+export const getDeploymentJournalPath = (networkName: string, chainId: number): string => {
+  return path.join(process.cwd(), DEPLOYMENTS_DIRECTORY, `${networkName}_${chainId}`, JOURNAL_FILE);
+};
+
+// Signer that records transactions instead of broadcasting them. Used to build the exact creation
+// bytecode a DeployHelper method would send without deploying anything. Nothing is mined, so waiting on
+// a captured transaction throws.
+class CaptureSigner extends Signer {
+  public transactions: providers.TransactionRequest[] = [];
+  private _signer: Signer;
+
+  constructor(signer: Signer) {
+    super();
+    this._signer = signer;
+    defineReadOnly(this, "provider", signer.provider);
+  }
+
+  public async getAddress(): Promise<string> {
+    return this._signer.getAddress();
+  }
+
+  public async signMessage(): Promise<string> {
+    throw new Error("CaptureSigner cannot sign messages");
+  }
+
+  public async signTransaction(): Promise<string> {
+    throw new Error("CaptureSigner cannot sign transactions");
+  }
+
+  public connect(): Signer {
+    throw new Error("CaptureSigner cannot change providers");
+  }
+
+  public async sendTransaction(
+    transaction: Deferrable<providers.TransactionRequest>
+  ): Promise<providers.TransactionResponse> {
+    const request = await resolveProperties(transaction);
+    this.transactions.push(request);
+
+    // Only `from` and `nonce` are read by ContractFactory to derive the (unused) deployment address
+    return {
+      hash: ZERO_BYTES,
+      to: request.to,
+      from: await this.getAddress(),
+      nonce: 0,
+      gasLimit: BigNumber.from(request.gasLimit || 0),
+      data: hexlify(request.data || "0x"),
+      value: BigNumber.from(request.value || 0),
+      chainId: request.chainId || 0,
+      confirmations: 0,
+      wait: async (): Promise<providers.TransactionReceipt> => {
+        throw new Error("CaptureSigner cannot wait for transactions");
+      },
+    };
+  }
+}
+
+export class DeploymentJournal {
+  private _journalPath: string;
+  private _resume: boolean;
+  private _records: { [name: string]: DeploymentRecord };
+  private _deploymentCounts: { [contractName: string]: number };
+  private _nextName: string | undefined;
+
+  /**
+   * Resuming replays each deploy method against a signer that captures its transactions, so it only supports
+   * methods that send a single creation transaction. Methods that wait for receipts or send follow-up calls throw
+   * instead of being redeployed.
+   *
+   * @param journalPath     File the journal is read from and written to after every deployment
+   * @param resume          When true, deployments whose bytecode and arguments match a journal entry are attached to
+   */
+  constructor(journalPath: string, resume: boolean = false) {
+    this._journalPath = journalPath;
+    this._resume = resume;
+    this._records = fs.existsSync(journalPath) ? fs.readJsonSync(journalPath) : {};
+    this._deploymentCounts = {};
+  }
+
+  public getPath(): string {
+    return this._journalPath;
+  }
+
+  public getRecord(name: string): DeploymentRecord | undefined {
+    return this._records[name];
+  }
+
+  public getRecords(): DeploymentRecord[] {
+    return Object.keys(this._records).map(name => this._records[name]);
+  }
+
+  public getAddress(name: string): Address {
+    const record = this._records[name];
+    if (!record) {
+      throw new Error(`DeploymentJournal: no deployment named ${name}`);
+    }
+
+    return record.address;
+  }
+
+  /**
+   * Overrides the name the next tracked deployment is recorded under. By default deployments are named after
+   * the DeployHelper method (e.g. `deployController` => `Controller`), suffixed by a counter when repeated.
+   */
+  public nameNextDeployment(name: string): void {
+    this._nextName = name;
+  }
+
+  public record(record: DeploymentRecord): void {
+    this._records[record.name] = record;
+    fs.outputJsonSync(this._journalPath, this._records, { spaces: 2 });
+  }
+
+  /**
+   * Wraps a DeployHelper sub-deployer so that every `deploy*` call is written to the journal (or skipped in
+   * resume mode) and every `get*` call accepts journal names in place of addresses.
+   *
+   * @param deployer        Sub-deployer instance (e.g. DeployCoreContracts)
+   * @param signer          Signer the sub-deployer was constructed with
+   */
+  public track<T extends object>(deployer: T, signer: Signer): T {
+    return new Proxy(deployer, {
+      get: (target: T, property: string | symbol) => {
+        const value: unknown = Reflect.get(target, property);
+        if (typeof property !== "string" || typeof value !== "function") {
+          return value;
+        }
+
+        if (property.startsWith("deploy")) {
+          return (...args: unknown[]) => this.trackDeployment(target, property, args, signer);
+        }
+
+        if (property.startsWith("get")) {
+          return (...args: unknown[]) => value.apply(target, args.map(arg => this.resolveName(arg)));
+        }
+
+        return value;
+      },
+    });
+  }
+
+  private async trackDeployment(target: object, method: string, args: unknown[], signer: Signer): Promise<Contract> {
+    const name = this.getDeploymentName(method);
+    const serializedArgs = this.serializeArgs(args);
+    const existing = this._records[name];
+
+    if (this._resume && existing && JSON.stringify(existing.args) === JSON.stringify(serializedArgs)) {
+      const captured = await this.captureDeployment(target, method, args, signer);
+      const code = await signer.provider!.getCode(existing.address);
+
+      if (keccak256(captured.data) === existing.bytecodeHash && code !== "0x") {
+        return captured.contract.attach(existing.address).connect(signer);
+      }
+    }
+
+    const contract: Contract = await Reflect.get(target, method).apply(target, args);
+
+    if (contract && contract.deployTransaction) {
+      this.record({
+        name,
+        address: contract.address,
+        bytecodeHash: keccak256(contract.deployTransaction.data),
+        args: serializedArgs,
+        txHash: contract.deployTransaction.hash,
+      });
+    }
+
+    return contract;
+  }
+
+  // Replays a DeployHelper method against a CaptureSigner to get the creation bytecode it would send
+  private async captureDeployment(
+    target: object,
+    method: string,
+    args: unknown[],
+    signer: Signer
+  ): Promise<CapturedDeployment> {
+    const captureSigner = new CaptureSigner(signer);
+    const captureDeployer: object = Reflect.construct(target.constructor, [captureSigner]);
+
+    let contract: Contract;
+    try {
+      contract = await Reflect.get(captureDeployer, method).apply(captureDeployer, args);
+    } catch (error) {
+      throw new Error(`DeploymentJournal: cannot resume ${method}: ${(error as Error).message}`);
+    }
+
+    const { transactions } = captureSigner;
+    if (transactions.length !== 1 || transactions[0].to) {
+      throw new Error(`DeploymentJournal: cannot resume ${method}, which does not send a single creation transaction`);
+    }
+
+    return { contract, data: hexlify(transactions[0].data!) };
+  }
+
+  private getDeploymentName(method: string): string {
+    if (this._nextName) {
+      const name = this._nextName;
+      this._nextName = undefined;
+      return name;
+    }
+
+    const contractName = method.slice("deploy".length);
+    const count = this._deploymentCounts[contractName] || 0;
+    this._deploymentCounts[contractName] = count + 1;
+
+    return count === 0 ? contractName : `${contractName}_${count}`;
+  }
+
+  private resolveName(arg: unknown): unknown {
+    if (typeof arg !== "string" || isHexString(arg) || !this._records[arg]) {
+      return arg;
+    }
+
+    return this._records[arg].address;
+  }
+
+  private serializeArgs(args: unknown[]): unknown[] {
+    return JSON.parse(JSON.stringify(args, (_, value) => Signer.isSigner(value) ? "[Signer]" : value));
+  }
+}
@@ -9,6 +9,18 @@ import DeployAdapters from "./deployAdapters";
 import DeployViewers from "./deployViewers";
 import DeployProduct from "./deployProduct";
 import DeployOracles from "./deployOracles";
+import DeploySystem from "./deploySystem";
+import { DeploymentJournal } from "./deploymentJournal";
+
+export { DeploymentJournal, getDeploymentJournalPath } from "./deploymentJournal";
+export {
+  getAddressBookEntries,
+  getAddressBookPath,
+  getJournalAddressBookPath,
+  readAddressBook,
+  resolveAddress,
+  writeAddressBook
+} from "./addressBook";
 
 export default class DeployHelper {
   public libraries: DeployLibraries;
@@ -20,16 +32,26 @@ export default class DeployHelper {
   public viewers: DeployViewers;
   public product: DeployProduct;
   public oracles: DeployOracles;
+  public system: DeploySystem;
+  public journal: DeploymentJournal | undefined;
+
+  constructor(deployerSigner: Signer, journal?: DeploymentJournal) {
+    this.journal = journal;
+
+    this.libraries = this.track(new DeployLibraries(deployerSigner), deployerSigner);
+    this.mocks = this.track(new DeployMocks(deployerSigner), deployerSigner);
+    this.modules = this.track(new DeployModules(deployerSigner), deployerSigner);
+    this.core = this.track(new DeployCoreContracts(deployerSigner), deployerSigner);
+    this.external = this.track(new DeployExternalContracts(deployerSigner), deployerSigner);
+    this.adapters = this.track(new DeployAdapters(deployerSigner), deployerSigner);
+    this.viewers = this.track(new DeployViewers(deployerSigner), deployerSigner);
+    this.product = this.track(new DeployProduct(deployerSigner), deployerSigner);
+    this.oracles = this.track(new DeployOracles(deployerSigner), deployerSigner);
+    this.system = new DeploySystem(this);
+  }
 
-  constructor(deployerSigner: Signer) {
-    this.libraries = new DeployLibraries(deployerSigner);
-    this.mocks = new DeployMocks(deployerSigner);
-    this.modules = new DeployModules(deployerSigner);
-    this.core = new DeployCoreContracts(deployerSigner);
-    this.external = new DeployExternalContracts(deployerSigner);
-    this.adapters = new DeployAdapters(deployerSigner);
-    this.viewers = new DeployViewers(deployerSigner);
-    this.product = new DeployProduct(deployerSigner);
-    this.oracles = new DeployOracles(deployerSigner);
+  // Records deployments made through the sub-deployer when a journal is configured
+  private track<T extends object>(deployer: T, deployerSigner: Signer): T {
+    return this.journal ? this.journal.track(deployer, deployerSigner) : deployer;
   }
 }
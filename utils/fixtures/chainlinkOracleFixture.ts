@@ -0,0 +1,77 @@
+import { providers, BigNumber, BigNumberish, Signer } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+
+import { ChainlinkAggregatorMock, ChainlinkOracle } from "../contracts";
+import DeployHelper from "../deploys";
+import { ether } from "../common";
+import { ONE_DAY_IN_SECONDS } from "../constants";
+import { Address } from "../types";
+
+// Mainnet USD feeds answer with 8 decimals
+const USD_FEED_DECIMALS = 8;
+
+/**
+ * Deploys ChainlinkAggregatorMock feeds for ETH, BTC and USDC in USD and a ChainlinkOracle reading each one, so
+ * PriceOracle pairs can be backed by Chainlink feeds in tests.
+ */
+export class ChainlinkOracleFixture {
+  private _deployer: DeployHelper;
+  private _provider: providers.Web3Provider | providers.JsonRpcProvider;
+  private _ownerSigner: Signer;
+
+  public maxStaleness: BigNumber = ONE_DAY_IN_SECONDS;
+  public maxDeviation: BigNumber = ether(.2);
+
+  public ethUsdAggregator: ChainlinkAggregatorMock;
+  public btcUsdAggregator: ChainlinkAggregatorMock;
+  public usdcUsdAggregator: ChainlinkAggregatorMock;
+
+  public ethUsdOracle: ChainlinkOracle;
+  public btcUsdOracle: ChainlinkOracle;
+  public usdcUsdOracle: ChainlinkOracle;
+
+  constructor(provider: providers.Web3Provider | providers.JsonRpcProvider, ownerAddress: Address) {
+    this._provider = provider;
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  public async initialize(): Promise<void> {
+    this.ethUsdAggregator = await this.createAggregator(2000);
+    this.btcUsdAggregator = await this.createAggregator(40000);
+    this.usdcUsdAggregator = await this.createAggregator(1);
+
+    this.ethUsdOracle = await this.createOracle(this.ethUsdAggregator, "ETH / USD Chainlink Oracle");
+    this.btcUsdOracle = await this.createOracle(this.btcUsdAggregator, "BTC / USD Chainlink Oracle");
+    this.usdcUsdOracle = await this.createOracle(this.usdcUsdAggregator, "USDC / USD Chainlink Oracle");
+  }
+
+  /**
+   * Deploys an aggregator with a first round answering `price` (in whole units) at the latest block.
+   */
+  public async createAggregator(price: number, decimals: number = USD_FEED_DECIMALS): Promise<ChainlinkAggregatorMock> {
+    const aggregator = await this._deployer.mocks.deployChainlinkAggregatorMock(decimals);
+    await this.updatePrice(aggregator, price);
+
+    return aggregator;
+  }
+
+  public async createOracle(
+    aggregator: ChainlinkAggregatorMock,
+    dataDescription: string,
+    maxStaleness: BigNumber = this.maxStaleness,
+    maxDeviation: BigNumber = this.maxDeviation
+  ): Promise<ChainlinkOracle> {
+    return this._deployer.oracles.deployChainlinkOracle(aggregator.address, maxStaleness, maxDeviation, dataDescription);
+  }
+
+  /**
+   * Completes a new round answering `price` (in whole units), updated at the latest block unless `updatedAt` is given.
+   */
+  public async updatePrice(aggregator: ChainlinkAggregatorMock, price: number, updatedAt?: BigNumberish): Promise<void> {
+    const answer = parseUnits(price.toString(), await aggregator.decimals());
+    const timestamp = updatedAt === undefined ? (await this._provider.getBlock("latest")).timestamp : updatedAt;
+
+    await aggregator.pushRound(answer, timestamp);
+  }
+}
@@ -1,7 +1,9 @@
 export { AaveV2Fixture } from "./aaveV2Fixture";
 export { BalancerFixture } from "./balancerFixture";
+export { ChainlinkOracleFixture } from "./chainlinkOracleFixture";
 export { CompoundFixture } from "./compoundFixture";
 export { CurveFixture } from "./curveFixture";
+export { IndexRebalanceFixture } from "./indexRebalanceFixture";
 export { KyberV3DMMFixture } from "./kyberV3DMMFixture";
 export { SystemFixture } from "./systemFixture";
 export { UniswapFixture } from "./uniswapFixture";
@@ -0,0 +1,165 @@
+import DeployHelper from "../deploys";
+import { Signer, providers, BigNumber } from "ethers";
+import { Address, IndexRebalanceMarketData, IndexRebalancePlan } from "../types";
+import { Account } from "../test/types";
+
+import { GeneralIndexModule, SetToken } from "../contracts";
+import { BalancerFixture } from "./balancerFixture";
+import { SystemFixture } from "./systemFixture";
+import { UniswapFixture } from "./uniswapFixture";
+import {
+  applyIndexRebalancePlan,
+  bitcoin,
+  ether,
+  getIndexRebalanceMarketData,
+  getSetTokenSnapshot,
+  planIndexRebalance
+} from "../index";
+import { ADDRESS_ZERO, MAX_UINT_256 } from "../constants";
+
+/**
+ * Deploys a GeneralIndexModule with Uniswap and Balancer adapters and an index of UNI, WBTC and DAI that has a
+ * rebalance to 20% / 60% / 20% started, so a keeper can trade it on a local network.
+ */
+export class IndexRebalanceFixture {
+  private _deployer: DeployHelper;
+  private _provider: providers.Web3Provider | providers.JsonRpcProvider;
+  private _ownerAddress: Address;
+  private _ownerSigner: Signer;
+
+  public owner: Account;
+  public system: SystemFixture;
+  public uniswap: UniswapFixture;
+  public balancer: BalancerFixture;
+
+  public indexModule: GeneralIndexModule;
+  public index: SetToken;
+  public marketData: IndexRebalanceMarketData;
+  public plan: IndexRebalancePlan;
+
+  public coolOffPeriod: BigNumber = BigNumber.from(60);
+
+  constructor(provider: providers.Web3Provider | providers.JsonRpcProvider, ownerAddress: Address) {
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._ownerAddress = ownerAddress;
+    this._provider = provider;
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  public async initialize(_owner: Account, _trader: Address): Promise<void> {
+    this.owner = _owner;
+
+    this.system = new SystemFixture(this._provider, this._ownerAddress);
+    this.uniswap = new UniswapFixture(this._provider, this._ownerAddress);
+    this.balancer = new BalancerFixture(this._provider, this._ownerAddress);
+
+    await this.system.initialize();
+    await this.uniswap.initialize(_owner, this.system.weth.address, this.system.wbtc.address, this.system.dai.address);
+    await this.balancer.initialize(_owner, this.system.weth, this.system.wbtc, this.system.dai);
+
+    await this.addUniswapLiquidity();
+    await this.deployIndexModule();
+    await this.createIndex();
+    await this.startRebalance(_trader);
+  }
+
+  private async addUniswapLiquidity(): Promise<void> {
+    const { weth, wbtc } = this.system;
+    const { router, uni } = this.uniswap;
+
+    await weth.connect(this._ownerSigner).approve(router.address, ether(2000));
+    await uni.connect(this._ownerSigner).approve(router.address, ether(200000));
+    await wbtc.connect(this._ownerSigner).approve(router.address, bitcoin(25.5555));
+
+    await router.addLiquidity(
+      weth.address,
+      uni.address,
+      ether(1000),
+      ether(200000),
+      ether(999),
+      ether(199000),
+      this._ownerAddress,
+      MAX_UINT_256
+    );
+    await router.addLiquidity(
+      weth.address,
+      wbtc.address,
+      ether(1000),
+      bitcoin(25.5555),
+      ether(999),
+      bitcoin(25.3),
+      this._ownerAddress,
+      MAX_UINT_256
+    );
+  }
+
+  private async deployIndexModule(): Promise<void> {
+    this.indexModule = await this._deployer.modules.deployGeneralIndexModule(
+      this.system.controller.address,
+      this.system.weth.address
+    );
+    await this.system.controller.addModule(this.indexModule.address);
+
+    const uniswapExchangeAdapter = await this._deployer.adapters.deployUniswapV2IndexExchangeAdapter(
+      this.uniswap.router.address
+    );
+    const balancerExchangeAdapter = await this._deployer.adapters.deployBalancerV1IndexExchangeAdapter(
+      this.balancer.exchange.address
+    );
+
+    await this.system.integrationRegistry.batchAddIntegration(
+      [this.indexModule.address, this.indexModule.address],
+      ["UNISWAP", "BALANCER"],
+      [uniswapExchangeAdapter.address, balancerExchangeAdapter.address]
+    );
+  }
+
+  private async createIndex(): Promise<void> {
+    this.index = await this.system.createSetToken(
+      [this.uniswap.uni.address, this.system.wbtc.address, this.system.dai.address],
+      [ether(86.9565217), bitcoin(.01111111), ether(100)],               // $100 of each
+      [this.system.issuanceModule.address, this.indexModule.address],
+    );
+
+    await this.system.issuanceModule.initialize(this.index.address, ADDRESS_ZERO);
+    await this.indexModule.initialize(this.index.address);
+    await this.system.approveAndIssueSetToken(this.index, ether(20));
+  }
+
+  private async startRebalance(_trader: Address): Promise<void> {
+    const { weth, wbtc, dai, usdc } = this.system;
+    const uni = this.uniswap.uni.address;
+
+    // PriceOracle only serves system contracts, so the owner is registered as a module to read prices.
+    // UNI is not priced by the system fixture's oracle, so its price is supplied
+    await this.system.controller.addModule(this._ownerAddress);
+    this.marketData = await getIndexRebalanceMarketData(
+      this.system.priceOracle,
+      [weth.address, wbtc.address, dai.address],
+      usdc.address
+    );
+    this.marketData.prices[uni] = ether(1.15);
+    this.marketData.decimals[uni] = 18;
+
+    this.plan = planIndexRebalance({
+      snapshot: await getSetTokenSnapshot(this.index),
+      targetWeights: {
+        [uni]: ether(.2),
+        [wbtc.address]: ether(.6),
+        [dai.address]: ether(.2),
+      },
+      marketData: this.marketData,
+      weth: weth.address,
+      maxTradeValue: ether(1000),
+      exchanges: {
+        [uni]: "UNISWAP",
+        [wbtc.address]: "UNISWAP",
+        [dai.address]: "BALANCER",
+      },
+      coolOffPeriod: this.coolOffPeriod,
+    });
+
+    await applyIndexRebalancePlan(this.indexModule, this.plan);
+    await this.indexModule.setTraderStatus(this.index.address, [_trader], [true]);
+  }
+}
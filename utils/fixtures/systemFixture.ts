@@ -149,7 +149,7 @@ export class SystemFixture {
       symbol,
     );
 
-    const retrievedSetAddress = await new ProtocolUtils(this._provider).getCreatedSetTokenAddress(txHash.hash);
+    const retrievedSetAddress = await new ProtocolUtils(this._provider).getCreatedSetTokenAddress(txHash.hash, this.factory.address);
 
     return new SetToken__factory(this._ownerSigner).attach(retrievedSetAddress);
   }
@@ -1,14 +1,25 @@
 export {
   addressToData,
+  applyIndexRebalancePlan,
   bigNumberToData,
   bitcoin,
+  calculateDebtIssuanceTotalFees,
   calculateEngageQuantities,
   calculateLPTokensIssued,
   calculateRebalanceFlows,
   calculateRebalanceQuantity,
   calculateTokensInReserve,
+  decodeExchangeAdapterTradeData,
+  decodeIndexExchangeData,
+  diffSetTokenSnapshots,
   divDown,
   ether,
+  formatSetTokenSnapshot,
+  formatSetTokenSnapshotDiff,
+  getComponentValue,
+  getDebtIssuanceFeeSettings,
+  getDebtIssuanceQuote,
+  getExchangeAdapterTradeData,
   getExpectedIssuePositionMultiplier,
   getExpectedIssuePositionUnit,
   getExpectedPostFeeQuantity,
@@ -17,17 +28,27 @@ export {
   getExpectedReserveRedeemQuantity,
   getExpectedRedeemPositionMultiplier,
   getExpectedRedeemPositionUnit,
+  getIndexExchangeData,
+  getIndexRebalanceMarketData,
+  getIndexRebalanceState,
+  getNextIndexRebalanceAction,
   getReservesSafe,
+  getSetTokenSnapshot,
   getStreamingFee,
+  getStreamingFeeAccrualCalendar,
   getStreamingFeeInflationAmount,
+  getStreamingFeeProjectionParams,
   gWei,
   hashAdapterName,
+  isIndexTargetUnmet,
   min,
+  planIndexRebalance,
   preciseDiv,
   preciseDivCeil,
   preciseMul,
   preciseMulCeil,
   preciseMulCeilInt,
   preciseDivCeilInt,
+  projectStreamingFees,
   usdc,
 } from "./common";
@@ -0,0 +1,216 @@
+import fs from "fs-extra";
+import http from "http";
+import https from "https";
+import { AddressInfo } from "net";
+
+import { ForkCache, ForkCacheMode, JsonRpcRequest, JsonRpcResponse } from "../types";
+
+export const DEFAULT_FORK_CACHE_PATH = "fork-cache.json";
+export const DEFAULT_FORK_CACHE_PORT = 8546;
+
+// JSON-RPC "internal error" code, returned for cache misses and failed upstream requests
+const INTERNAL_ERROR_CODE = -32603;
+
+/**
+ * Reads FORK_MODE. Returns undefined when forked tests should talk to the live node directly.
+ */
+export const getForkCacheMode = (): ForkCacheMode | undefined => {
+  const mode = process.env.FORK_MODE;
+
+  if (!mode || mode === "live") {
+    return undefined;
+  }
+
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`Invalid FORK_MODE ${mode}, must be one of live, record or replay`);
+  }
+
+  return mode;
+};
+
+export const getLiveForkUrl = (): string => `https://eth-mainnet.alchemyapi.io/v2/${process.env.ALCHEMY_TOKEN}`;
+
+export const getForkCachePath = (): string => process.env.FORK_CACHE_PATH || DEFAULT_FORK_CACHE_PATH;
+
+export const getForkCachePort = (): number => Number(process.env.FORK_CACHE_PORT || DEFAULT_FORK_CACHE_PORT);
+
+export const getForkCacheUrl = (port: number = getForkCachePort()): string => `http://127.0.0.1:${port}`;
+
+export const getForkCacheKey = (method: string, params: any[] = []): string => `${method}:${JSON.stringify(params)}`;
+
+export const readForkCache = (path: string): ForkCache => {
+  if (!fs.existsSync(path)) {
+    throw new Error(`No fork cache at ${path}, record one with FORK_MODE=record`);
+  }
+
+  return fs.readJsonSync(path);
+};
+
+/**
+ * Writes the cache with its requests sorted, so that re-recording diffs cleanly.
+ */
+export const writeForkCache = (path: string, cache: ForkCache): void => {
+  const responses: { [request: string]: any } = {};
+  for (const request of Object.keys(cache.responses).sort()) {
+    responses[request] = cache.responses[request];
+  }
+
+  fs.outputJsonSync(path, { blockNumber: cache.blockNumber, responses }, { spaces: 2 });
+};
+
+const postJson = (url: string, body: any): Promise<any> => {
+  const payload = JSON.stringify(body);
+  const options = {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) },
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (url.startsWith("https") ? https : http).request(url, options, response => {
+      let data = "";
+      response.on("data", chunk => data += chunk);
+      response.on("end", () => {
+        try {
+          resolve(JSON.parse(data));
+        } catch (e) {
+          reject(new Error(`Invalid JSON-RPC response (status ${response.statusCode}): ${data.slice(0, 200)}`));
+        }
+      });
+    });
+
+    request.on("error", reject);
+    request.end(payload);
+  });
+};
+
+/**
+ * Local JSON-RPC endpoint for the hardhat fork. In record mode requests are forwarded to the live node and the
+ * results saved to the cache file on stop. In replay mode results are served from the cache file and uncached
+ * requests fail, so a forked spec runs without network access. The fork must be pinned to the block the cache was
+ * recorded at, since cached state is only valid for that block.
+ */
+export class ForkRpcCache {
+  private _mode: ForkCacheMode;
+  private _path: string;
+  private _blockNumber: number;
+  private _upstreamUrl: string | undefined;
+  private _cache: ForkCache;
+  private _server: http.Server | undefined;
+
+  constructor(mode: ForkCacheMode, path: string, blockNumber: number, upstreamUrl?: string) {
+    if (mode === "record" && !upstreamUrl) {
+      throw new Error("Recording a fork cache requires the url of a live node");
+    }
+
+    this._mode = mode;
+    this._path = path;
+    this._blockNumber = blockNumber;
+    this._upstreamUrl = upstreamUrl;
+    this._cache = this._loadCache();
+  }
+
+  public async start(port: number = getForkCachePort()): Promise<void> {
+    this._server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", chunk => body += chunk);
+      request.on("end", async () => {
+        let result: JsonRpcResponse | JsonRpcResponse[];
+        try {
+          const payload = JSON.parse(body);
+          result = Array.isArray(payload) ?
+            await Promise.all(payload.map(item => this.handleRequest(item))) :
+            await this.handleRequest(payload);
+        } catch (e) {
+          result = { jsonrpc: "2.0", id: 0, error: { code: INTERNAL_ERROR_CODE, message: (e as Error).message } };
+        }
+
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(result));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this._server!.once("error", reject);
+      this._server!.listen(port, "127.0.0.1", () => resolve());
+    });
+  }
+
+  // Url of the running server, useful when started on port 0 to pick a free port
+  public getUrl(): string {
+    if (!this._server) {
+      throw new Error("Fork cache is not running");
+    }
+
+    return getForkCacheUrl((this._server.address() as AddressInfo).port);
+  }
+
+  /**
+   * Stops serving and, in record mode, saves every result fetched so far.
+   */
+  public async stop(): Promise<void> {
+    if (this._server) {
+      await new Promise<void>(resolve => this._server!.close(() => resolve()));
+      this._server = undefined;
+    }
+
+    if (this._mode === "record") {
+      writeForkCache(this._path, this._cache);
+    }
+  }
+
+  public async handleRequest(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const key = getForkCacheKey(request.method, request.params);
+
+    if (key in this._cache.responses) {
+      return { jsonrpc: "2.0", id: request.id, result: this._cache.responses[key] };
+    }
+
+    if (this._mode === "replay") {
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: INTERNAL_ERROR_CODE,
+          message: `${request.method} is not in the fork cache at ${this._path}, re-record it with FORK_MODE=record`,
+        },
+      };
+    }
+
+    const response: JsonRpcResponse = await postJson(this._upstreamUrl!, { ...request, jsonrpc: "2.0", id: 1 });
+
+    // Errors are usually transient (rate limits, timeouts) and are passed through without caching
+    if (response.error === undefined) {
+      this._cache.responses[key] = response.result;
+    }
+
+    return { ...response, id: request.id };
+  }
+
+  public getCachedRequestCount(): number {
+    return Object.keys(this._cache.responses).length;
+  }
+
+  private _loadCache(): ForkCache {
+    if (this._mode === "record") {
+      // Extend an existing recording of the same block so that specs can be recorded one at a time
+      if (fs.existsSync(this._path)) {
+        const existingCache = readForkCache(this._path);
+        if (existingCache.blockNumber === this._blockNumber) {
+          return existingCache;
+        }
+      }
+
+      return { blockNumber: this._blockNumber, responses: {} };
+    }
+
+    const cache = readForkCache(this._path);
+    if (cache.blockNumber !== this._blockNumber) {
+      throw new Error(
+        `Fork cache at ${this._path} was recorded at block ${cache.blockNumber} but the fork is pinned to block ` +
+        `${this._blockNumber}, re-record it with FORK_MODE=record`
+      );
+    }
+
+    return cache;
+  }
+}
@@ -0,0 +1,95 @@
+import fs from "fs-extra";
+
+import { GasComparison, GasReport } from "../types";
+
+export const DEFAULT_GAS_REPORT_PATH = "gas-report.json";
+export const DEFAULT_GAS_BASELINE_PATH = "gas-baseline.json";
+export const DEFAULT_GAS_REGRESSION_THRESHOLD = 0.05;
+
+export const readGasReport = (path: string): GasReport => {
+  if (!fs.existsSync(path)) {
+    throw new Error(`No gas report at ${path}, run the gas benchmarks first`);
+  }
+
+  return fs.readJsonSync(path);
+};
+
+/**
+ * Writes the report with its operations sorted, so that baseline updates diff cleanly.
+ */
+export const writeGasReport = (path: string, report: GasReport): void => {
+  const sortedReport: GasReport = {};
+  for (const operation of Object.keys(report).sort()) {
+    sortedReport[operation] = report[operation];
+  }
+
+  fs.outputJsonSync(path, sortedReport, { spaces: 2 });
+};
+
+/**
+ * Compares every operation in either report. Operations that use more than `threshold` (e.g. 0.05 for 5%) more gas
+ * than the baseline are regressions. Baseline operations missing from the current report are flagged as missing, so
+ * removed benchmarks can't escape the check, while operations new since the baseline are only listed. Throws if the
+ * baseline has no operations, since nothing could be checked.
+ */
+export const compareGasReports = (
+  current: GasReport,
+  baseline: GasReport,
+  threshold: number = DEFAULT_GAS_REGRESSION_THRESHOLD
+): GasComparison[] => {
+  if (Object.keys(baseline).length === 0) {
+    throw new Error("Gas baseline has no operations, generate it with `yarn gas:baseline`");
+  }
+
+  const operations = Object.keys({ ...baseline, ...current }).sort();
+
+  return operations.map(operation => {
+    const baselineGas = baseline[operation];
+    const currentGas = current[operation];
+    const change = baselineGas !== undefined && currentGas !== undefined
+      ? (currentGas - baselineGas) / baselineGas
+      : undefined;
+
+    return {
+      operation,
+      baselineGas,
+      currentGas,
+      change,
+      isRegression: change !== undefined && change > threshold,
+      isMissing: currentGas === undefined,
+    };
+  });
+};
+
+export const formatGasComparisons = (
+  comparisons: GasComparison[],
+  threshold: number = DEFAULT_GAS_REGRESSION_THRESHOLD
+): string => {
+  const width = Math.max(...comparisons.map(({ operation }) => operation.length), 0);
+
+  const lines = comparisons.map(({ operation, baselineGas, currentGas, change, isRegression }) => {
+    const label = operation.padEnd(width);
+    if (baselineGas === undefined) {
+      return `  ${label}  ${currentGas} (new)`;
+    }
+    if (currentGas === undefined) {
+      return `! ${label}  ${baselineGas} (missing)`;
+    }
+
+    const percentage = `${change! >= 0 ? "+" : ""}${(change! * 100).toFixed(2)}%`;
+    return `${isRegression ? "! " : "  "}${label}  ${baselineGas} -> ${currentGas} (${percentage})`;
+  });
+
+  const regressionCount = comparisons.filter(({ isRegression }) => isRegression).length;
+  lines.push(regressionCount > 0
+    ? `${regressionCount} operation(s) regressed by more than ${threshold * 100}%`
+    : `No operation regressed by more than ${threshold * 100}%`
+  );
+
+  const missingCount = comparisons.filter(({ isMissing }) => isMissing).length;
+  if (missingCount > 0) {
+    lines.push(`${missingCount} baseline operation(s) missing from the report`);
+  }
+
+  return lines.join("\n");
+};
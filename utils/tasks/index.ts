@@ -1,2 +1,4 @@
 export * from "./artifactUtils";
 export * from "./setupNativeSolc";
+export * from "./gasReportUtils";
+export * from "./forkCacheUtils";
@@ -0,0 +1,101 @@
+import { formatEther } from "ethers/lib/utils";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import DeployHelper, { resolveAddress } from "../deploys";
+import { PriceOracleGraph } from "../common";
+import { Controller } from "../contracts";
+import { Address, PriceOracleRoute, UnpriceableSetToken } from "../types";
+import { getAddressBookLabels, getTaskAddressBook, ManagerTaskContext } from "./setManagerUtils";
+
+// NOTE: Not exported from utils/tasks since it depends on typechain bindings. Import it lazily from task actions.
+
+export interface PriceOracleTaskOptions {
+  controller: string;
+  addressBook?: string;
+  fromBlock: number;
+}
+
+export interface PriceOracleTaskContext {
+  controller: Controller;
+  graph: PriceOracleGraph;
+  resolve: ManagerTaskContext["resolve"];
+  labels: { [address: string]: string };
+}
+
+const PRICE_ORACLE_RESOURCE_ID = 1;
+const SET_VALUER_RESOURCE_ID = 2;
+
+/**
+ * Loads the resolution graph of the Controller's PriceOracle.
+ */
+export const getPriceOracleTaskContext = async(
+  hre: HardhatRuntimeEnvironment,
+  options: PriceOracleTaskOptions
+): Promise<PriceOracleTaskContext> => {
+  const [signer] = await hre.ethers.getSigners();
+  const deployer = new DeployHelper(signer);
+  const book = await getTaskAddressBook(hre, options.addressBook);
+  const resolve = (nameOrAddress: string) => resolveAddress(book, nameOrAddress);
+
+  const controller = await deployer.core.getController(resolve(options.controller));
+  const priceOracle = await deployer.core.getPriceOracle(await controller.resourceId(PRICE_ORACLE_RESOURCE_ID));
+  const graph = await PriceOracleGraph.fromPriceOracle(priceOracle, [], options.fromBlock);
+
+  return { controller, graph, resolve, labels: getAddressBookLabels(book) };
+};
+
+/**
+ * Returns the SetTokens the Controller's SetValuer can't value in `quoteAsset`, defaulting to every Set enabled on
+ * the Controller.
+ */
+export const findUnpriceableSets = async(
+  { controller, graph }: PriceOracleTaskContext,
+  setTokens?: Address[],
+  quoteAsset?: Address
+): Promise<UnpriceableSetToken[]> => {
+  const setValuer = await controller.resourceId(SET_VALUER_RESOURCE_ID);
+
+  return graph.findUnpriceableSetTokens(setValuer, setTokens || await controller.getSets(), quoteAsset);
+};
+
+export const formatPriceOracleRoute = (route: PriceOracleRoute, labels: { [address: string]: string } = {}): string => {
+  const lines = [
+    `${labelAddresses(`${route.assetOne}/${route.assetTwo}`, labels)}: ${route.type || "no route"}`,
+    `  ${labelAddresses(route.explanation, labels)}`,
+  ];
+
+  if (route.price) {
+    lines.push(`  price: ${formatEther(route.price)}`);
+  }
+
+  return lines.join("\n");
+};
+
+export const formatUnpriceableSets = (
+  unpriceableSetTokens: UnpriceableSetToken[],
+  setCount: number,
+  labels: { [address: string]: string } = {}
+): string => {
+  if (unpriceableSetTokens.length === 0) {
+    return `All ${setCount} Sets can be valued`;
+  }
+
+  const lines = [`${unpriceableSetTokens.length} of ${setCount} Sets can't be valued:`];
+  for (const { setToken, error, failingRoutes } of unpriceableSetTokens) {
+    lines.push(`${labelAddresses(setToken, labels)}: ${error}`);
+    for (const route of failingRoutes) {
+      lines.push(`  ${labelAddresses(route.explanation, labels)}`);
+    }
+  }
+
+  return lines.join("\n");
+};
+
+const labelAddresses = (text: string, labels: { [address: string]: string }): string => {
+  let labeled = text;
+  for (const address of Object.keys(labels)) {
+    labeled = labeled.split(address).join(`${labels[address]} (${address})`);
+  }
+
+  return labeled;
+};
@@ -0,0 +1,276 @@
+import fs from "fs-extra";
+import { BigNumber, ContractTransaction, Signer } from "ethers";
+import { parseEther, parseUnits } from "ethers/lib/utils";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import DeployHelper, { getAddressBookEntries, getAddressBookPath, readAddressBook, resolveAddress } from "../deploys";
+import {
+  Blockchain,
+  diffSetTokenSnapshots,
+  ether,
+  formatSetTokenSnapshot,
+  formatSetTokenSnapshotDiff,
+  getSetTokenSnapshot,
+} from "../common";
+import { SetToken } from "../contracts";
+import { Address, SetTokenSnapshot, SystemAddressBook } from "../types";
+import { ERC20__factory } from "../../typechain/factories/ERC20__factory";
+
+// NOTE: Not exported from utils/tasks since it depends on typechain bindings. Import it lazily from task actions.
+
+export interface ManagerTaskOptions {
+  setToken?: string;
+  from?: Address;
+  dryRun?: boolean;
+  addressBook?: string;
+  trackedModules?: string[];
+}
+
+// (eslint is confused by parameters of typescript function types)
+/* eslint-disable no-unused-vars */
+export interface ManagerTaskContext {
+  signer: Signer;
+  deployer: DeployHelper;
+  setToken: SetToken | undefined;
+  resolve: (nameOrAddress: string) => Address;
+  send: (description: string, transaction: Promise<ContractTransaction>) => Promise<void>;
+}
+
+// Operation run by a manager task. Actions creating a Set return its address so it can be reported.
+export type ManagerTaskAction = (context: ManagerTaskContext) => Promise<Address | void>;
+/* eslint-enable no-unused-vars */
+
+export interface IssuanceTaskOptions extends ManagerTaskOptions {
+  quantity: string;
+  type: "basic" | "debt" | "slippage";
+  module: string;
+  to?: string;
+}
+
+const DRY_RUN_BALANCE = ether(10);
+
+/**
+ * Loads the address book of the network, defaulting to `deployments/<network>_<chainId>/addresses.json`. Returns
+ * undefined when the default address book doesn't exist so tasks can still be run with plain addresses.
+ */
+export const getTaskAddressBook = async(
+  hre: HardhatRuntimeEnvironment,
+  addressBookPath?: string
+): Promise<SystemAddressBook | undefined> => {
+  if (addressBookPath) {
+    return readAddressBook(addressBookPath);
+  }
+
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const defaultPath = getAddressBookPath(hre.network.name, chainId);
+  return fs.existsSync(defaultPath) ? readAddressBook(defaultPath) : undefined;
+};
+
+/**
+ * Runs a manager operation and prints the resulting change in the SetToken's state. Transactions are sent from
+ * `from`, or the first configured signer.
+ *
+ * With `dryRun`, the operation is simulated on the connected node (a local hardhat node or a fork): the sender
+ * (defaulting to the Set's manager) is impersonated, the diff is printed and the node is reverted to its prior
+ * state.
+ *
+ * @param hre               Hardhat runtime environment of the task
+ * @param options           SetToken, sender, dry run flag, address book path and extra modules to track
+ * @param action            Operation to run. Actions creating a Set return its address so it can be reported.
+ */
+export const runManagerTask = async(
+  hre: HardhatRuntimeEnvironment,
+  options: ManagerTaskOptions,
+  action: ManagerTaskAction
+): Promise<void> => {
+  const provider = hre.ethers.provider;
+  const blockchain = new Blockchain(provider);
+  const book = await getTaskAddressBook(hre, options.addressBook);
+  const resolve = (nameOrAddress: string) => resolveAddress(book, nameOrAddress);
+
+  const [defaultSigner] = await hre.ethers.getSigners();
+  const reader = new DeployHelper(defaultSigner);
+  const setTokenAddress = options.setToken ? resolve(options.setToken) : undefined;
+  const trackedModules = (options.trackedModules || []).map(resolve);
+
+  let from = options.from ? resolve(options.from) : defaultSigner.address;
+  let snapshotId: string | undefined;
+
+  if (options.dryRun) {
+    try {
+      snapshotId = await blockchain.saveSnapshotAsync();
+    } catch (error) {
+      throw new Error(`--dry-run requires a local or forked hardhat node, ${hre.network.name} does not support evm_snapshot`);
+    }
+
+    if (!options.from && setTokenAddress) {
+      from = await (await reader.core.getSetToken(setTokenAddress)).manager();
+    }
+
+    await blockchain.impersonateAccountAsync(from);
+    if ((await provider.getBalance(from)).lt(DRY_RUN_BALANCE)) {
+      await blockchain.setBalanceAsync(from, DRY_RUN_BALANCE);
+    }
+
+    console.log(`Dry run on ${hre.network.name} as ${from}`);
+  }
+
+  try {
+    const signer = await hre.ethers.getSigner(from);
+    const deployer = new DeployHelper(signer);
+    const setToken = setTokenAddress ? await deployer.core.getSetToken(setTokenAddress) : undefined;
+    const previous = setToken ? await getSetTokenSnapshot(setToken, trackedModules) : undefined;
+
+    const createdSetToken = await action({
+      signer,
+      deployer,
+      setToken,
+      resolve,
+      send: async (description: string, transaction: Promise<ContractTransaction>) => {
+        const receipt = await (await transaction).wait();
+        console.log(`${description} in ${receipt.transactionHash}`);
+      },
+    });
+
+    const reportedSetToken = createdSetToken ? await deployer.core.getSetToken(createdSetToken) : setToken;
+    if (reportedSetToken) {
+      const current = await getSetTokenSnapshot(reportedSetToken, trackedModules);
+      console.log(await formatManagerTaskReport(reportedSetToken, createdSetToken ? undefined : previous, current, book));
+    }
+  } finally {
+    if (snapshotId) {
+      await blockchain.stopImpersonatingAccountAsync(from);
+      await blockchain.revertByIdAsync(snapshotId);
+    }
+  }
+};
+
+/**
+ * Issues or redeems a SetToken through a Basic, Debt or Slippage issuance module. Components owed to the module
+ * (equity on issuance, debt on redemption) are approved first. Slippage issuance is sent without slippage checks.
+ */
+export const runIssuanceTask = async(
+  hre: HardhatRuntimeEnvironment,
+  options: IssuanceTaskOptions,
+  isIssue: boolean
+): Promise<void> => {
+  await runManagerTask(hre, options, async ({ signer, deployer, setToken, resolve, send }) => {
+    const setTokenAddress = setToken!.address;
+    const quantity = parseEther(options.quantity);
+    const module = resolve(options.module);
+    const to = options.to ? resolve(options.to) : await signer.getAddress();
+    const description = `${isIssue ? "Issued" : "Redeemed"} ${options.quantity} ${await setToken!.symbol()}`;
+
+    if (options.type === "basic") {
+      const issuanceModule = await deployer.modules.getBasicIssuanceModule(module);
+
+      if (isIssue) {
+        const [components, units] = await issuanceModule.getRequiredComponentUnitsForIssue(setTokenAddress, quantity);
+        await approveComponents(signer, module, components, units, send);
+        await send(description, issuanceModule.issue(setTokenAddress, quantity, to));
+      } else {
+        await send(description, issuanceModule.redeem(setTokenAddress, quantity, to));
+      }
+      return;
+    }
+
+    // SlippageIssuanceModule shares the DebtIssuanceModule quote functions but only issues and redeems with slippage
+    const issuanceModule = await deployer.modules.getDebtIssuanceModule(module);
+    const slippageIssuanceModule = await deployer.modules.getSlippageIssuanceModule(module);
+    const isSlippage = options.type === "slippage";
+
+    if (isIssue) {
+      const [components, equityUnits] = await issuanceModule.getRequiredComponentIssuanceUnits(setTokenAddress, quantity);
+      await approveComponents(signer, module, components, equityUnits, send);
+      await send(description, isSlippage ?
+        slippageIssuanceModule.issueWithSlippage(setTokenAddress, quantity, [], [], to) :
+        issuanceModule.issue(setTokenAddress, quantity, to)
+      );
+    } else {
+      const [components, , debtUnits] = await issuanceModule.getRequiredComponentRedemptionUnits(setTokenAddress, quantity);
+      await approveComponents(signer, module, components, debtUnits, send);
+      await send(description, isSlippage ?
+        slippageIssuanceModule.redeemWithSlippage(setTokenAddress, quantity, [], [], to) :
+        issuanceModule.redeem(setTokenAddress, quantity, to)
+      );
+    }
+  });
+};
+
+/**
+ * Converts units in whole tokens (e.g. "0.5") to base units using each component's decimals.
+ */
+export const getComponentUnits = async(
+  signer: Signer,
+  components: Address[],
+  units: string[]
+): Promise<BigNumber[]> => {
+  if (components.length !== units.length) {
+    throw new Error(`Expected ${components.length} units, got ${units.length}`);
+  }
+
+  const componentUnits: BigNumber[] = [];
+  for (let i = 0; i < components.length; i++) {
+    const decimals = await ERC20__factory.connect(components[i], signer).decimals();
+    componentUnits.push(parseUnits(units[i], decimals));
+  }
+
+  return componentUnits;
+};
+
+/**
+ * Prints the full state of the SetToken when there's no prior snapshot (e.g. after creating a Set), or the diff
+ * between both snapshots. Components are printed in whole tokens and known addresses by their address book name.
+ */
+export const formatManagerTaskReport = async(
+  setToken: SetToken,
+  previous: SetTokenSnapshot | undefined,
+  current: SetTokenSnapshot,
+  book?: SystemAddressBook
+): Promise<string> => {
+  const components = previous ? previous.components.concat(current.components) : current.components;
+  const componentDecimals: { [component: string]: number } = {};
+  for (const component of components) {
+    componentDecimals[component] = await ERC20__factory.connect(component, setToken.provider).decimals();
+  }
+
+  const labels = getAddressBookLabels(book);
+  labels[setToken.address] = `${await setToken.symbol()} (${setToken.address})`;
+
+  return previous ?
+    formatSetTokenSnapshotDiff(diffSetTokenSnapshots(previous, current), componentDecimals, labels) :
+    formatSetTokenSnapshot(current, componentDecimals, labels);
+};
+
+/**
+ * Maps the addresses of an address book to their names, for printing.
+ */
+export const getAddressBookLabels = (book?: SystemAddressBook): { [address: string]: string } => {
+  const labels: { [address: string]: string } = {};
+  if (!book) {
+    return labels;
+  }
+
+  for (const { name, address } of getAddressBookEntries(book)) {
+    labels[address] = name;
+  }
+
+  return labels;
+};
+
+const approveComponents = async(
+  signer: Signer,
+  spender: Address,
+  components: Address[],
+  quantities: BigNumber[],
+  send: ManagerTaskContext["send"]
+): Promise<void> => {
+  const owner = await signer.getAddress();
+
+  for (let i = 0; i < components.length; i++) {
+    const component = ERC20__factory.connect(components[i], signer);
+    if (quantities[i].gt(0) && (await component.allowance(owner, spender)).lt(quantities[i])) {
+      await send(`Approved ${components[i]}`, component.approve(spender, quantities[i]));
+    }
+  }
+};
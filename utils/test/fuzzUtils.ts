@@ -0,0 +1,231 @@
+import { BigNumber } from "ethers";
+import { formatUnits } from "ethers/lib/utils";
+
+import { MAX_INT_256, MAX_UINT_256, MIN_INT_256, PRECISE_UNIT, ZERO } from "../constants";
+import {
+  FuzzArgumentType,
+  FuzzCounterexample,
+  FuzzOptions,
+  FuzzOutcome,
+  FuzzProperty,
+} from "./types";
+
+const MAX_INT = BigNumber.from(MAX_INT_256);
+const MIN_INT = BigNumber.from(MIN_INT_256);
+const ONE = BigNumber.from(1);
+const TEN = BigNumber.from(10);
+
+const DEFAULT_SEED = 1337;
+const DEFAULT_RUNS = 100;
+const DEFAULT_MAX_SHRINK_STEPS = 500;
+
+// Values where rounding and overflow behavior changes, before applying a small random offset
+const BOUNDARY_VALUES: Record<FuzzArgumentType, BigNumber[]> = {
+  uint256: [
+    ZERO,
+    ONE,
+    PRECISE_UNIT,
+    BigNumber.from(2).pow(128),
+    MAX_UINT_256.div(PRECISE_UNIT),
+    MAX_UINT_256,
+  ],
+  int256: [
+    ZERO,
+    ONE,
+    ONE.mul(-1),
+    PRECISE_UNIT,
+    PRECISE_UNIT.mul(-1),
+    BigNumber.from(2).pow(127),
+    BigNumber.from(2).pow(127).mul(-1),
+    MAX_INT.div(PRECISE_UNIT),
+    MIN_INT.div(PRECISE_UNIT),
+    MAX_INT,
+    MIN_INT,
+  ],
+};
+
+export const getFuzzOptions = (options: Partial<FuzzOptions> = {}): FuzzOptions => {
+  return {
+    runs: options.runs || Number(process.env.FUZZ_RUNS || DEFAULT_RUNS),
+    seed: options.seed ?? Number(process.env.FUZZ_SEED || DEFAULT_SEED),
+    maxShrinkSteps: options.maxShrinkSteps || DEFAULT_MAX_SHRINK_STEPS,
+  };
+};
+
+// Park-Miller generator, seeded so that a failing run can be replayed with FUZZ_SEED
+export const createRandomGenerator = (seed: number): () => number => {
+  let state = Math.abs(Math.floor(seed)) % 2147483647 || 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+export const isInRange = (value: BigNumber, type: FuzzArgumentType): boolean => {
+  return type === "uint256" ?
+    value.gte(0) && value.lte(MAX_UINT_256) :
+    value.gte(MIN_INT) && value.lte(MAX_INT);
+};
+
+/**
+ * Generates a random value of the given type. Mixes boundary values (offset by up to 2), values of random bit
+ * length, small integers and multiples of PRECISE_UNIT so that both rounding and overflow edges are exercised.
+ */
+export const getRandomFuzzValue = (random: () => number, type: FuzzArgumentType): BigNumber => {
+  const randomInt = (max: number) => Math.floor(random() * max);
+  const strategy = random();
+
+  let value: BigNumber;
+  if (strategy < 0.25) {
+    const boundaries = BOUNDARY_VALUES[type];
+    value = boundaries[randomInt(boundaries.length)].add(randomInt(5) - 2);
+  } else if (strategy < 0.75) {
+    const bits = 1 + randomInt(type === "uint256" ? 256 : 255);
+    let hex = "";
+    for (let i = 0; i < Math.ceil(bits / 4); i++) {
+      hex += randomInt(16).toString(16);
+    }
+    value = BigNumber.from(`0x${hex}`).mod(BigNumber.from(2).pow(bits));
+  } else if (strategy < 0.9) {
+    value = BigNumber.from(randomInt(2001));
+  } else {
+    value = PRECISE_UNIT.mul(randomInt(1000000)).div(1000);
+  }
+
+  if (type === "int256" && random() < 0.5) {
+    value = value.mul(-1);
+  }
+
+  if (!isInRange(value, type)) {
+    return value.lt(0) ? (type === "uint256" ? ZERO : MIN_INT) : (type === "uint256" ? MAX_UINT_256 : MAX_INT);
+  }
+
+  return value;
+};
+
+export const getExpectedFuzzOutcome = (property: FuzzProperty, args: BigNumber[]): FuzzOutcome => {
+  if (property.expectRevert(args)) {
+    return { reverted: true };
+  }
+
+  try {
+    return { reverted: false, value: property.expected(args) };
+  } catch (e) {
+    return { reverted: true };
+  }
+};
+
+export const getActualFuzzOutcome = async (property: FuzzProperty, args: BigNumber[]): Promise<FuzzOutcome> => {
+  try {
+    return { reverted: false, value: await property.actual(args) };
+  } catch (e) {
+    return { reverted: true };
+  }
+};
+
+const isSameOutcome = (expected: FuzzOutcome, actual: FuzzOutcome): boolean => {
+  if (expected.reverted || actual.reverted) {
+    return expected.reverted === actual.reverted;
+  }
+
+  return expected.value!.eq(actual.value!);
+};
+
+const hasDivergence = async (property: FuzzProperty, args: BigNumber[]): Promise<boolean> => {
+  return !isSameOutcome(getExpectedFuzzOutcome(property, args), await getActualFuzzOutcome(property, args));
+};
+
+// Candidates strictly simpler than `value`: smaller in magnitude, or the positive value of equal magnitude
+const getShrinkCandidates = (value: BigNumber, type: FuzzArgumentType): BigNumber[] => {
+  const magnitude = value.abs();
+  const candidates = [ZERO, ONE, ONE.mul(-1), value.div(2), value.sub(value.gt(0) ? 1 : -1), value.mul(-1)];
+
+  // Drop low order digits to get rounder numbers
+  for (let power = TEN; power.lt(magnitude); power = power.mul(TEN)) {
+    candidates.push(value.div(power).mul(power));
+  }
+
+  return candidates.filter(candidate =>
+    isInRange(candidate, type) &&
+    (candidate.abs().lt(magnitude) || (candidate.abs().eq(magnitude) && candidate.gt(value)))
+  );
+};
+
+/**
+ * Greedily replaces arguments with simpler values while the divergence persists.
+ */
+export const shrinkFuzzCounterexample = async (
+  property: FuzzProperty,
+  args: BigNumber[],
+  maxShrinkSteps: number = DEFAULT_MAX_SHRINK_STEPS
+): Promise<BigNumber[]> => {
+  let current = args;
+  let steps = 0;
+  let shrunk = true;
+
+  while (shrunk && steps < maxShrinkSteps) {
+    shrunk = false;
+
+    for (let i = 0; i < current.length && !shrunk; i++) {
+      for (const candidate of getShrinkCandidates(current[i], property.argumentTypes[i])) {
+        if (steps++ >= maxShrinkSteps) {
+          break;
+        }
+
+        const candidateArgs = current.map((arg, j) => j === i ? candidate : arg);
+        if (await hasDivergence(property, candidateArgs)) {
+          current = candidateArgs;
+          shrunk = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return current;
+};
+
+/**
+ * Runs a property with random inputs and returns the first divergence between the off-chain model and the
+ * contract, with minimized arguments. Returns undefined if no divergence was found.
+ */
+export const runFuzzProperty = async (
+  property: FuzzProperty,
+  options: Partial<FuzzOptions> = {}
+): Promise<FuzzCounterexample | undefined> => {
+  const { runs, seed, maxShrinkSteps } = getFuzzOptions(options);
+  const random = createRandomGenerator(seed);
+
+  for (let run = 0; run < runs; run++) {
+    const args = property.argumentTypes.map(type => getRandomFuzzValue(random, type));
+
+    if (await hasDivergence(property, args)) {
+      const minimizedArgs = await shrinkFuzzCounterexample(property, args, maxShrinkSteps);
+
+      return {
+        property: property.name,
+        seed,
+        run,
+        args,
+        minimizedArgs,
+        expected: getExpectedFuzzOutcome(property, minimizedArgs),
+        actual: await getActualFuzzOutcome(property, minimizedArgs),
+      };
+    }
+  }
+
+  return undefined;
+};
+
+export const formatFuzzCounterexample = (counterexample: FuzzCounterexample): string => {
+  const formatArgs = (args: BigNumber[]) => args.map(arg => `${arg.toString()} (${formatUnits(arg)})`).join(", ");
+  const formatOutcome = (outcome: FuzzOutcome) => outcome.reverted ? "revert" : outcome.value!.toString();
+
+  return [
+    `${counterexample.property} diverged on run ${counterexample.run} (FUZZ_SEED=${counterexample.seed})`,
+    `  args:      ${formatArgs(counterexample.args)}`,
+    `  minimized: ${formatArgs(counterexample.minimizedArgs)}`,
+    `  expected:  ${formatOutcome(counterexample.expected)}`,
+    `  actual:    ${formatOutcome(counterexample.actual)}`,
+  ].join("\n");
+};
@@ -0,0 +1,19 @@
+import { ContractTransaction } from "ethers";
+
+import { GasReport } from "../types";
+
+// Gas used by the operations benchmarked in this mocha run
+const gasReport: GasReport = {};
+
+/**
+ * Waits for the transaction and records its gas used under `operation`. Receipts report the gas actually used, so the
+ * gas limits injected into ABIs at compile time don't affect the measurement.
+ */
+export const recordGasUsed = async (operation: string, transaction: Promise<ContractTransaction>): Promise<number> => {
+  const receipt = await (await transaction).wait();
+  gasReport[operation] = receipt.gasUsed.toNumber();
+
+  return gasReport[operation];
+};
+
+export const getGasReport = (): GasReport => ({ ...gasReport });
@@ -1,12 +1,14 @@
 // These utils will be provider-aware of the hardhat interface
 import { ethers } from "hardhat";
-import { Address } from "../types";
+import { Address, EventIndexerSources, EventIndexStore } from "../types";
 
 import {
   AaveV2Fixture,
   BalancerFixture,
+  ChainlinkOracleFixture,
   CompoundFixture,
   CurveFixture,
+  IndexRebalanceFixture,
   KyberV3DMMFixture,
   SystemFixture,
   UniswapFixture,
@@ -14,16 +16,20 @@ import {
   UniswapV3Fixture,
   PerpV2Fixture
 } from "../fixtures";
-import { Blockchain, ProtocolUtils } from "../common";
+import { Blockchain, EventIndexer, IndexRebalanceSimulator, ProtocolUtils } from "../common";
 
 // Hardhat-Provider Aware Exports
 const provider = ethers.provider;
 export const getSystemFixture = (ownerAddress: Address) => new SystemFixture(provider, ownerAddress);
 export const getProtocolUtils = () => new ProtocolUtils(provider);
 export const getBlockchainUtils = () => new Blockchain(provider);
+export const getIndexRebalanceSimulator = () => new IndexRebalanceSimulator(provider);
+export const getEventIndexer = (sources: EventIndexerSources, store?: EventIndexStore) => new EventIndexer(provider, sources, store);
 export const getAaveV2Fixture = (ownerAdderss: Address) => new AaveV2Fixture(provider, ownerAdderss);
 export const getBalancerFixture = (ownerAddress: Address) => new BalancerFixture(provider, ownerAddress);
+export const getChainlinkOracleFixture = (ownerAddress: Address) => new ChainlinkOracleFixture(provider, ownerAddress);
 export const getCurveFixture = (ownerAddress: Address) => new CurveFixture(provider, ownerAddress);
+export const getIndexRebalanceFixture = (ownerAddress: Address) => new IndexRebalanceFixture(provider, ownerAddress);
 export const getCompoundFixture = (ownerAddress: Address) => new CompoundFixture(provider, ownerAddress);
 export const getKyberV3DMMFixture = (ownerAddress: Address) => new KyberV3DMMFixture(provider, ownerAddress);
 export const getUniswapFixture = (ownerAddress: Address) => new UniswapFixture(provider, ownerAddress);
@@ -31,7 +37,7 @@ export const getYearnFixture = (ownerAddress: Address) => new YearnFixture(provi
 export const getUniswapV3Fixture = (ownerAddress: Address) => new UniswapV3Fixture(provider, ownerAddress);
 export const getPerpV2Fixture = (ownerAddress: Address) => new PerpV2Fixture(provider, ownerAddress);
 
-export { ForkedTokens } from "./types";
+export { ForkedTokens, FuzzProperty, Invariant, InvariantAction } from "./types";
 
 export {
   getAccounts,
@@ -42,6 +48,7 @@ export {
 } from "./accountUtils";
 export {
   addSnapshotBeforeRestoreAfterEach,
+  getDeploymentJournal,
   getLastBlockTimestamp,
   getProvider,
   getTransactionTimestamp,
@@ -50,6 +57,28 @@ export {
   mineBlockAsync,
   cacheBeforeEach
 } from "./testingUtils";
+export {
+  createRandomGenerator,
+  formatFuzzCounterexample,
+  getFuzzOptions,
+  getRandomFuzzValue,
+  runFuzzProperty,
+  shrinkFuzzCounterexample
+} from "./fuzzUtils";
+export {
+  formatInvariantViolation,
+  getInvariantOptions,
+  getSetTokenPositionInvariants,
+  runInvariantSequences
+} from "./invariantUtils";
+export {
+  getGasReport,
+  recordGasUsed
+} from "./gasBenchmarkUtils";
+export {
+  captureSetTokenDiff,
+  ExpectedSetTokenDiff
+} from "./setTokenAssertions";
 export {
   getRandomAddress
 } from "../common";
@@ -0,0 +1,235 @@
+import { Blockchain, preciseMul } from "../common";
+import { SetToken } from "../contracts";
+import { Address } from "../types";
+import { IERC20__factory } from "../../typechain";
+import { createRandomGenerator, getFuzzOptions } from "./fuzzUtils";
+import { getProvider } from "./testingUtils";
+import {
+  Invariant,
+  InvariantAction,
+  InvariantOptions,
+  InvariantStep,
+  InvariantViolation,
+} from "./types";
+
+const DEFAULT_RUNS = 5;
+const DEFAULT_DEPTH = 20;
+
+export const getInvariantOptions = (options: Partial<InvariantOptions> = {}): InvariantOptions => {
+  return {
+    runs: options.runs || Number(process.env.INVARIANT_RUNS || DEFAULT_RUNS),
+    depth: options.depth || Number(process.env.INVARIANT_DEPTH || DEFAULT_DEPTH),
+    seed: options.seed ?? getFuzzOptions().seed,
+  };
+};
+
+// Hardhat prefixes the errors of reverted transactions and calls with these
+const REVERT_MESSAGES = ["VM Exception while processing transaction", "Transaction reverted"];
+
+const isTransactionRevert = (error: unknown): boolean => {
+  const message = (error as Error).message || "";
+  return REVERT_MESSAGES.some(revertMessage => message.includes(revertMessage));
+};
+
+const pickAction = (random: () => number, actions: InvariantAction[]): InvariantAction => {
+  const totalWeight = actions.reduce((sum, action) => sum + (action.weight === undefined ? 1 : action.weight), 0);
+
+  let target = random() * totalWeight;
+  for (const action of actions) {
+    target -= action.weight === undefined ? 1 : action.weight;
+    if (target < 0) {
+      return action;
+    }
+  }
+
+  return actions[actions.length - 1];
+};
+
+const checkInvariants = async (
+  invariants: Invariant[]
+): Promise<{ invariant: string; violations: string[] } | undefined> => {
+  for (const invariant of invariants) {
+    const violations = await invariant.check();
+    if (violations.length > 0) {
+      return { invariant: invariant.name, violations };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Runs random sequences of actions against the chain and checks every invariant before the first step and after
+ * each following step. The chain is snapshotted before each run and restored afterwards, so every run starts from
+ * the same state. Returns the first violation found along with the steps that led to it, or undefined. Actions that
+ * revert on-chain are rolled back and recorded as reverted steps, while any other error thrown by an action is rethrown.
+ */
+export const runInvariantSequences = async (
+  actions: InvariantAction[],
+  invariants: Invariant[],
+  options: Partial<InvariantOptions> = {}
+): Promise<InvariantViolation | undefined> => {
+  const { runs, depth, seed } = getInvariantOptions(options);
+  const random = createRandomGenerator(seed);
+  const blockchain = new Blockchain(getProvider());
+
+  for (let run = 0; run < runs; run++) {
+    const snapshotId = await blockchain.saveSnapshotAsync();
+    const sequence: InvariantStep[] = [];
+
+    try {
+      let failure = await checkInvariants(invariants);
+
+      for (let step = 0; step < depth && !failure; step++) {
+        const action = pickAction(random, actions);
+        const args = await action.getArgs(random);
+
+        // Actions may send several transactions, so a reverted action is rolled back as a whole like a module call
+        const stepSnapshotId = await blockchain.saveSnapshotAsync();
+        let reverted = false;
+        try {
+          await action.run(args);
+        } catch (error) {
+          if (!isTransactionRevert(error)) {
+            throw error;
+          }
+          await blockchain.revertByIdAsync(stepSnapshotId);
+          reverted = true;
+        }
+
+        sequence.push({ action: action.name, args, reverted });
+        failure = await checkInvariants(invariants);
+      }
+
+      if (failure) {
+        return { ...failure, seed, run, sequence };
+      }
+    } finally {
+      await blockchain.revertByIdAsync(snapshotId);
+    }
+  }
+
+  return undefined;
+};
+
+export const formatInvariantViolation = (violation: InvariantViolation): string => {
+  const formatArgs = (args: any[]) => args.map(arg => arg.toString()).join(", ");
+
+  return [
+    `${violation.invariant} broken on run ${violation.run} after ${violation.sequence.length} steps ` +
+      `(FUZZ_SEED=${violation.seed})`,
+    ...violation.violations.map(message => `  ${message}`),
+    "  sequence:",
+    ...violation.sequence.map((step, i) =>
+      `    ${i}: ${step.action}(${formatArgs(step.args)})${step.reverted ? " [reverted]" : ""}`
+    ),
+  ].join("\n");
+};
+
+/**
+ * Invariants of a SetToken's position accounting that must hold after any sequence of module actions.
+ *
+ * @param setToken              SetToken instance to check
+ * @param trackedComponents     Tokens the actions may add or remove, checked for stale positions when not components
+ */
+export const getSetTokenPositionInvariants = (setToken: SetToken, trackedComponents: Address[]): Invariant[] => {
+  const getCheckedComponents = async (): Promise<Address[]> => {
+    const components = await setToken.getComponents();
+    return components.concat(trackedComponents.filter(component => !components.includes(component)));
+  };
+
+  return [
+    {
+      name: "positionMultiplier is positive",
+      check: async () => {
+        const positionMultiplier = await setToken.positionMultiplier();
+        return positionMultiplier.gt(0) ? [] : [`positionMultiplier is ${positionMultiplier.toString()}`];
+      },
+    },
+    {
+      name: "default positions are collateralized",
+      check: async () => {
+        const violations: string[] = [];
+        const totalSupply = await setToken.totalSupply();
+
+        for (const component of await getCheckedComponents()) {
+          const unit = await setToken.getDefaultPositionRealUnit(component);
+          if (unit.lt(0)) {
+            violations.push(`${component} has a negative default unit of ${unit.toString()}`);
+            continue;
+          }
+
+          const requiredBalance = preciseMul(unit, totalSupply);
+          const balance = await IERC20__factory.connect(component, setToken.provider).balanceOf(setToken.address);
+          if (balance.lt(requiredBalance)) {
+            violations.push(
+              `${component} balance of ${balance.toString()} is below unit ${unit.toString()} ` +
+              `times supply ${totalSupply.toString()} (${requiredBalance.toString()})`
+            );
+          }
+        }
+
+        return violations;
+      },
+    },
+    {
+      name: "components match open positions",
+      check: async () => {
+        const violations: string[] = [];
+        const components = await setToken.getComponents();
+
+        components.forEach((component, i) => {
+          if (components.indexOf(component) !== i) {
+            violations.push(`${component} is listed more than once`);
+          }
+        });
+
+        for (const component of await getCheckedComponents()) {
+          const unit = await setToken.getDefaultPositionRealUnit(component);
+          const externalModules = await setToken.getExternalPositionModules(component);
+          const hasOpenPosition = !unit.eq(0) || externalModules.length > 0;
+
+          if (components.includes(component) && !hasOpenPosition) {
+            violations.push(`${component} is a component without any open position`);
+          } else if (!components.includes(component) && hasOpenPosition) {
+            violations.push(
+              `${component} is not a component but has a default unit of ${unit.toString()} ` +
+              `and ${externalModules.length} external position modules`
+            );
+          }
+        }
+
+        return violations;
+      },
+    },
+    {
+      name: "external position modules are initialized",
+      check: async () => {
+        const violations: string[] = [];
+
+        for (const component of await getCheckedComponents()) {
+          const externalModules = await setToken.getExternalPositionModules(component);
+
+          for (let i = 0; i < externalModules.length; i++) {
+            const module = externalModules[i];
+
+            if (externalModules.indexOf(module) !== i) {
+              violations.push(`${module} is listed more than once as an external position module of ${component}`);
+            }
+
+            if (!(await setToken.isInitializedModule(module))) {
+              violations.push(`${module} holds an external position in ${component} but is not an initialized module`);
+            }
+
+            const unit = await setToken.getExternalPositionRealUnit(component, module);
+            if (unit.eq(0)) {
+              violations.push(`${module} is an external position module of ${component} with a unit of 0`);
+            }
+          }
+        }
+
+        return violations;
+      },
+    },
+  ];
+};
@@ -0,0 +1,149 @@
+import { BigNumber } from "ethers";
+
+import { diffSetTokenSnapshots, formatSetTokenSnapshotDiff, getSetTokenSnapshot } from "../common";
+import { POSITION_STATE } from "../constants";
+import { SetToken } from "../contracts";
+import { Address, SetTokenSnapshotDiff } from "../types";
+
+export interface ExpectedSetTokenDiff {
+  addedComponents?: Address[];
+  removedComponents?: Address[];
+  // Real unit deltas of default positions. Default positions not listed must be unchanged.
+  unitDeltas?: { [component: string]: BigNumber };
+  // Real unit deltas of external positions keyed by component then module. Positions not listed must be unchanged.
+  externalUnitDeltas?: { [component: string]: { [module: string]: BigNumber } };
+  positionMultiplier?: BigNumber;
+  totalSupply?: BigNumber;
+  manager?: Address;
+  moduleStates?: { [module: string]: number };
+}
+
+declare global {
+  export namespace Chai {
+    interface Assertion {
+      // (eslint is confused by parameters of typescript method signatures)
+      // eslint-disable-next-line no-unused-vars
+      matchSetTokenDiff(expected: ExpectedSetTokenDiff): Assertion;
+    }
+  }
+}
+
+/**
+ * Snapshots a SetToken before and after running `action` and returns the difference.
+ */
+export async function captureSetTokenDiff(
+  setToken: SetToken,
+  action: () => Promise<any>,
+  trackedModules: Address[] = []
+): Promise<SetTokenSnapshotDiff> {
+  const previous = await getSetTokenSnapshot(setToken, trackedModules);
+  await action();
+  const current = await getSetTokenSnapshot(setToken, trackedModules);
+
+  return diffSetTokenSnapshots(previous, current);
+}
+
+// Chai plugin adding `expect(diff).to.matchSetTokenDiff(expected)`. Only the fields present on `expected`
+// are checked. A failing assertion prints the full diff report.
+export function setTokenDiffChai(chai: Chai.ChaiStatic): void {
+  chai.Assertion.addMethod("matchSetTokenDiff", function (this: Chai.AssertionStatic, expected: ExpectedSetTokenDiff) {
+    const diff = this._obj as SetTokenSnapshotDiff;
+    const mismatches = getSetTokenDiffMismatches(diff, expected);
+
+    this.assert(
+      mismatches.length === 0,
+      `expected SetToken diff to match:\n  ${mismatches.join("\n  ")}\n${formatSetTokenSnapshotDiff(diff)}`,
+      "expected SetToken diff not to match",
+      expected,
+      diff,
+    );
+  });
+}
+
+function getSetTokenDiffMismatches(diff: SetTokenSnapshotDiff, expected: ExpectedSetTokenDiff): string[] {
+  const mismatches: string[] = [];
+
+  const compareAddresses = (field: string, actual: Address[], expectedAddresses: Address[]) => {
+    if (JSON.stringify([...actual].sort()) !== JSON.stringify([...expectedAddresses].sort())) {
+      mismatches.push(`${field}: expected [${expectedAddresses}] but got [${actual}]`);
+    }
+  };
+
+  const compareDeltas = (field: string, actual: { [key: string]: BigNumber }, expectedDeltas: { [key: string]: BigNumber }) => {
+    const keys = Object.keys(actual).concat(Object.keys(expectedDeltas).filter(key => !actual[key]));
+    for (const key of keys) {
+      const actualDelta = actual[key] || BigNumber.from(0);
+      const expectedDelta = expectedDeltas[key] || BigNumber.from(0);
+      if (!actualDelta.eq(expectedDelta)) {
+        mismatches.push(`${field} ${key}: expected ${expectedDelta.toString()} but got ${actualDelta.toString()}`);
+      }
+    }
+  };
+
+  if (expected.addedComponents) {
+    compareAddresses("addedComponents", diff.addedComponents, expected.addedComponents);
+  }
+
+  if (expected.removedComponents) {
+    compareAddresses("removedComponents", diff.removedComponents, expected.removedComponents);
+  }
+
+  if (expected.unitDeltas) {
+    const actual: { [component: string]: BigNumber } = {};
+    diff.positionChanges
+      .filter(change => change.positionState === POSITION_STATE.DEFAULT)
+      .forEach(change => actual[change.component] = change.delta);
+
+    compareDeltas("unit delta", actual, expected.unitDeltas);
+  }
+
+  if (expected.externalUnitDeltas) {
+    const actual: { [key: string]: BigNumber } = {};
+    diff.positionChanges
+      .filter(change => change.positionState === POSITION_STATE.EXTERNAL)
+      .forEach(change => actual[`${change.component}/${change.module}`] = change.delta);
+
+    const expectedDeltas: { [key: string]: BigNumber } = {};
+    for (const component of Object.keys(expected.externalUnitDeltas)) {
+      for (const module of Object.keys(expected.externalUnitDeltas[component])) {
+        expectedDeltas[`${component}/${module}`] = expected.externalUnitDeltas[component][module];
+      }
+    }
+
+    compareDeltas("external unit delta", actual, expectedDeltas);
+  }
+
+  if (expected.positionMultiplier) {
+    const actual = diff.positionMultiplier ? diff.positionMultiplier.current : undefined;
+    if (!actual || !actual.eq(expected.positionMultiplier)) {
+      mismatches.push(`positionMultiplier: expected ${expected.positionMultiplier.toString()} but got ${actual ? actual.toString() : "no change"}`);
+    }
+  }
+
+  if (expected.totalSupply) {
+    const actual = diff.totalSupply ? diff.totalSupply.current : undefined;
+    if (!actual || !actual.eq(expected.totalSupply)) {
+      mismatches.push(`totalSupply: expected ${expected.totalSupply.toString()} but got ${actual ? actual.toString() : "no change"}`);
+    }
+  }
+
+  if (expected.manager) {
+    const actual = diff.manager ? diff.manager.current : undefined;
+    if (actual !== expected.manager) {
+      mismatches.push(`manager: expected ${expected.manager} but got ${actual || "no change"}`);
+    }
+  }
+
+  if (expected.moduleStates) {
+    for (const module of Object.keys(expected.moduleStates)) {
+      const change = diff.moduleStateChanges.find(c => c.module === module);
+      if (!change || change.currentState !== expected.moduleStates[module]) {
+        mismatches.push(
+          `module ${module}: expected state ${expected.moduleStates[module]} but got ${change ? change.currentState : "no change"}`
+        );
+      }
+    }
+  }
+
+  return mismatches;
+}
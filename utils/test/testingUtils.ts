@@ -1,12 +1,15 @@
 import chai from "chai";
 import { solidity } from "ethereum-waffle";
+import { setTokenDiffChai } from "./setTokenAssertions";
 
 chai.use(solidity);
+chai.use(setTokenDiffChai);
 
 // Use HARDHAT version of providers
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import { BigNumber, providers } from "ethers";
 import { Blockchain } from "../common";
+import { DeploymentJournal, getDeploymentJournalPath } from "../deploys/deploymentJournal";
 
 const provider = ethers.provider;
 // const blockchain = new Blockchain(provider);
@@ -73,6 +76,12 @@ export async function getLastBlockTimestamp(): Promise<BigNumber> {
   return BigNumber.from((await provider.getBlock("latest")).timestamp);
 }
 
+// Journal for the network hardhat is connected to, stored under `deployments/<network>_<chainId>`
+export async function getDeploymentJournal(resume: boolean = false): Promise<DeploymentJournal> {
+  const { chainId } = await provider.getNetwork();
+  return new DeploymentJournal(getDeploymentJournalPath(network.name, chainId), resume);
+}
+
 export async function mineBlockAsync(): Promise<any> {
   await sendJSONRpcRequestAsync("evm_mine", []);
 }
@@ -1,4 +1,5 @@
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/dist/src/signer-with-address";
+import { BigNumber } from "ethers";
 import { Address } from "../types";
 import { IERC20 } from "../../typechain";
 
@@ -10,3 +11,80 @@ export type Account = {
 export type ForkedTokens = {
   [key: string]: IERC20;
 };
+
+export type FuzzArgumentType = "uint256" | "int256";
+
+// (eslint is confused by parameters of typescript function types)
+/* eslint-disable no-unused-vars */
+export interface FuzzProperty {
+  name: string;
+  argumentTypes: FuzzArgumentType[];
+  // Returns true when the inputs are outside the contract's domain and the call is expected to revert
+  expectRevert: (args: BigNumber[]) => boolean;
+  // Off-chain model of the contract function
+  expected: (args: BigNumber[]) => BigNumber;
+  // On-chain implementation
+  actual: (args: BigNumber[]) => Promise<BigNumber>;
+}
+/* eslint-enable no-unused-vars */
+
+export interface FuzzOptions {
+  runs: number;
+  seed: number;
+  maxShrinkSteps: number;
+}
+
+export interface FuzzOutcome {
+  reverted: boolean;
+  value?: BigNumber;
+}
+
+export interface FuzzCounterexample {
+  property: string;
+  seed: number;
+  run: number;
+  args: BigNumber[];
+  minimizedArgs: BigNumber[];
+  expected: FuzzOutcome;
+  actual: FuzzOutcome;
+}
+
+// (eslint is confused by parameters of typescript function types)
+/* eslint-disable no-unused-vars */
+export interface InvariantAction {
+  name: string;
+  // Relative likelihood of the action being picked at each step. Defaults to 1.
+  weight?: number;
+  // Draws the action's arguments from the random generator, optionally using the current chain state
+  getArgs: (random: () => number) => Promise<any[]>;
+  // Executes the action on-chain. Reverts are recorded and do not end the sequence, other errors are rethrown.
+  run: (args: any[]) => Promise<any>;
+}
+/* eslint-enable no-unused-vars */
+
+export interface Invariant {
+  name: string;
+  // Returns a description of each violation, or an empty list when the invariant holds
+  check: () => Promise<string[]>;
+}
+
+export interface InvariantOptions {
+  runs: number;
+  depth: number;
+  seed: number;
+}
+
+export interface InvariantStep {
+  action: string;
+  args: any[];
+  reverted: boolean;
+}
+
+export interface InvariantViolation {
+  invariant: string;
+  violations: string[];
+  seed: number;
+  run: number;
+  // Steps executed in the failing run, the last of which broke the invariant. Empty if the initial state is invalid.
+  sequence: InvariantStep[];
+}
@@ -1,6 +1,8 @@
 import { BigNumber } from "ethers";
 import {
   ContractTransaction as ContractTransactionType,
+  Signer,
+  utils,
   Wallet as WalletType
 } from "ethers";
 
@@ -44,3 +46,1054 @@ export interface CustomOracleNAVIssuanceSettings {
   maxPremiumPercentage: BigNumber;
   minSetTokenSupply: BigNumber;
 }
+
+export type ManifestArgument = string | number | boolean | BigNumber | ManifestArgument[];
+
+export type ManifestDeployer =
+  "adapters" |
+  "core" |
+  "external" |
+  "libraries" |
+  "mocks" |
+  "modules" |
+  "oracles" |
+  "product" |
+  "viewers";
+
+export interface ManifestContract {
+  deployer?: ManifestDeployer;
+  method: string;
+  args?: ManifestArgument[];
+}
+
+export interface ManifestIntegration extends ManifestContract {
+  modules: string[];
+}
+
+export interface ManifestPricePair {
+  assetOne: string;
+  assetTwo: string;
+  oracle: string;
+}
+
+export interface ManifestPriceOracle {
+  masterQuoteAsset: string;
+  adapters?: string[];
+  pairs?: ManifestPricePair[];
+}
+
+export interface SystemManifest {
+  feeRecipient: string;
+  externals?: { [name: string]: Address };
+  setTokenCreator?: boolean;
+  integrationRegistry?: boolean;
+  setValuer?: boolean;
+  priceOracle?: ManifestPriceOracle;
+  libraries?: { [name: string]: ManifestContract };
+  oracles?: { [name: string]: ManifestContract };
+  modules?: { [name: string]: ManifestContract };
+  integrations?: { [adapterName: string]: ManifestIntegration };
+}
+
+export interface SystemAddressBook<M extends SystemManifest = SystemManifest> {
+  controller: Address;
+  setTokenCreator?: Address;
+  integrationRegistry?: Address;
+  priceOracle?: Address;
+  setValuer?: Address;
+  externals: Record<keyof NonNullable<M["externals"]>, Address>;
+  libraries: Record<keyof NonNullable<M["libraries"]>, Address>;
+  oracles: Record<keyof NonNullable<M["oracles"]>, Address>;
+  modules: Record<keyof NonNullable<M["modules"]>, Address>;
+  integrations: Record<keyof NonNullable<M["integrations"]>, Address>;
+}
+
+export interface AddressBookEntry {
+  name: string;
+  address: Address;
+}
+
+export interface DeploymentRecord {
+  name: string;
+  address: Address;
+  bytecodeHash: string;
+  args: any[];
+  txHash: string;
+}
+
+export interface ModuleStateSnapshot {
+  module: Address;
+  state: number;
+}
+
+export interface SetTokenSnapshot {
+  setToken: Address;
+  blockNumber: number;
+  manager: Address;
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+  components: Address[];
+  positions: Position[];
+  modules: ModuleStateSnapshot[];
+}
+
+export interface PositionChange {
+  component: Address;
+  module: Address;
+  positionState: number;
+  previousUnit: BigNumber;
+  currentUnit: BigNumber;
+  delta: BigNumber;
+  previousData: string;
+  currentData: string;
+}
+
+export interface ModuleStateChange {
+  module: Address;
+  previousState: number;
+  currentState: number;
+}
+
+export interface ValueChange<T> {
+  previous: T;
+  current: T;
+}
+
+export interface SetTokenSnapshotDiff {
+  setToken: Address;
+  addedComponents: Address[];
+  removedComponents: Address[];
+  positionChanges: PositionChange[];
+  moduleStateChanges: ModuleStateChange[];
+  positionMultiplier: ValueChange<BigNumber> | undefined;
+  totalSupply: ValueChange<BigNumber> | undefined;
+  manager: ValueChange<Address> | undefined;
+}
+
+export interface DebtIssuanceFeeSettings {
+  managerIssueFee: BigNumber;
+  managerRedeemFee: BigNumber;
+  protocolFeeSplit: BigNumber;
+}
+
+export interface DebtIssuanceFees {
+  totalQuantity: BigNumber;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface ComponentIssuanceQuote {
+  component: Address;
+  equityUnit: BigNumber;
+  debtUnit: BigNumber;
+  defaultUnit: BigNumber;
+  externalEquityUnit: BigNumber;
+  externalDebtUnit: BigNumber;
+  equityAdjustment: BigNumber;
+  debtAdjustment: BigNumber;
+  equityQuantity: BigNumber;
+  debtQuantity: BigNumber;
+}
+
+export interface DebtIssuanceQuote extends DebtIssuanceFees {
+  isIssue: boolean;
+  quantity: BigNumber;
+  components: Address[];
+  equityQuantities: BigNumber[];
+  debtQuantities: BigNumber[];
+  breakdown: ComponentIssuanceQuote[];
+}
+
+export interface DebtIssuanceQuoteOptions {
+  // DebtIssuanceModuleV2 derives default units from Set balances on issuance when supply is non-zero
+  componentBalances?: { [component: string]: BigNumber };
+  // Summed module hook adjustments used by SlippageIssuanceModule off-chain getters, ordered as the components
+  equityAdjustments?: BigNumber[];
+  debtAdjustments?: BigNumber[];
+}
+
+export interface IndexRebalanceMarketData {
+  // Price of one whole token in the quote asset (in precise units)
+  prices: { [component: string]: BigNumber };
+  decimals: { [component: string]: number };
+}
+
+export interface IndexRebalancePlanParams {
+  snapshot: SetTokenSnapshot;
+  // Share of the Set's value allocated to each component after the rebalance (in precise units, summing to 1)
+  targetWeights: { [component: string]: BigNumber };
+  marketData: IndexRebalanceMarketData;
+  weth: Address;
+  // Max value of a single trade in the quote asset (in precise units)
+  maxTradeValue: BigNumber;
+  exchanges: { [component: string]: string };
+  // Exchange specific settings such as fee tiers or pool addresses
+  exchangeData?: { [component: string]: string };
+  coolOffPeriod: BigNumber;
+  raiseTargetPercentage?: BigNumber;
+}
+
+export interface IndexRebalanceComponentPlan {
+  component: Address;
+  currentUnit: BigNumber;
+  targetUnit: BigNumber;
+  currentValue: BigNumber;
+  targetValue: BigNumber;
+  isSell: boolean;
+  tradeQuantity: BigNumber;
+  tradeMaximum: BigNumber;
+  expectedTrades: number;
+  exchangeName: string;
+}
+
+export interface IndexRebalancePlan {
+  setToken: Address;
+  valuePerSet: BigNumber;
+  startRebalance: {
+    newComponents: Address[];
+    newComponentsTargetUnits: BigNumber[];
+    oldComponentsTargetUnits: BigNumber[];
+    positionMultiplier: BigNumber;
+  };
+  setTradeMaximums: { components: Address[]; tradeMaximums: BigNumber[] };
+  setExchanges: { components: Address[]; exchangeNames: string[] };
+  setExchangeData: { components: Address[]; exchangeData: string[] };
+  setCoolOffPeriods: { components: Address[]; coolOffPeriods: BigNumber[] };
+  raiseTargetPercentage: BigNumber | undefined;
+  components: IndexRebalanceComponentPlan[];
+}
+
+export interface IndexRebalanceComponentState {
+  component: Address;
+  currentUnit: BigNumber;
+  // Target unit normalized by the change in position multiplier since the rebalance started
+  targetUnit: BigNumber;
+  maxSize: BigNumber;
+  coolOffPeriod: BigNumber;
+  lastTradeTimestamp: BigNumber;
+  exchangeName: string;
+}
+
+export interface IndexRebalanceState {
+  setToken: Address;
+  weth: Address;
+  timestamp: number;
+  wethUnit: BigNumber;
+  wethTargetUnit: BigNumber;
+  raiseTargetPercentage: BigNumber;
+  components: IndexRebalanceComponentState[];
+}
+
+export type IndexRebalanceMethod = "trade" | "tradeRemainingWETH" | "raiseAssetTargets";
+
+export interface IndexRebalanceAction {
+  method: IndexRebalanceMethod | "wait" | "done";
+  component?: Address;
+  isSell?: boolean;
+  // Timestamp to wait for when the next trade is blocked by a cool off period
+  readyTimestamp?: number;
+}
+
+export interface IndexTradeFill {
+  method: "trade" | "tradeRemainingWETH";
+  component: Address;
+  exchangeName: string;
+  sendToken: Address;
+  receiveToken: Address;
+  sendQuantity: BigNumber;
+  receiveQuantity: BigNumber;
+  protocolFee: BigNumber;
+  // Value lost relative to market data prices as a share of the value sent (in precise units)
+  slippage: BigNumber | undefined;
+  timestamp: number;
+  gasUsed: BigNumber;
+  transactionHash: string;
+}
+
+export interface IndexRebalanceKeeperOptions {
+  // Prices used to set trade limits and report slippage of each fill
+  marketData?: IndexRebalanceMarketData;
+  // Max value lost per trade relative to market data prices (in precise units). No limits are set when omitted.
+  maxSlippage?: BigNumber;
+  // Advance the chain's clock through cool off periods instead of waiting (local networks only)
+  advanceTime?: boolean;
+  maxSteps?: number;
+  // Receives a line per keeper step. Defaults to console.log.
+  logger?: typeof console.log;
+}
+
+export interface IndexRebalanceKeeperStep {
+  action: IndexRebalanceAction;
+  fill?: IndexTradeFill;
+  error?: string;
+}
+
+export interface IndexRebalanceKeeperResult {
+  fills: IndexTradeFill[];
+  raises: number;
+  steps: number;
+  // Components skipped because neither trade nor tradeRemainingWETH could execute, with the revert reason
+  skippedComponents: { [component: string]: string };
+}
+
+export interface IndexRebalanceSimulationOptions {
+  // Plan to apply before simulating, submitted by `manager`
+  plan?: IndexRebalancePlan;
+  manager?: Signer;
+  // Prices used to report slippage of each fill
+  marketData?: IndexRebalanceMarketData;
+  maxSteps?: number;
+}
+
+export interface IndexRebalanceSimulation {
+  fills: IndexTradeFill[];
+  trades: number;
+  raises: number;
+  duration: number;
+  finalUnits: { [component: string]: BigNumber };
+  targetUnits: { [component: string]: BigNumber };
+  unmetComponents: Address[];
+  // Components skipped because neither trade nor tradeRemainingWETH could execute, with the revert reason
+  skippedComponents: { [component: string]: string };
+}
+
+export type EventSourceKind =
+  "SetTokenCreator" |
+  "Controller" |
+  "SetToken" |
+  "StreamingFeeModule" |
+  "TradeModule" |
+  "BasicIssuanceModule" |
+  "DebtIssuanceModule" |
+  "GeneralIndexModule";
+
+export interface EventIndexerSources {
+  setTokenCreators?: Address[];
+  controller?: Address;
+  streamingFeeModules?: Address[];
+  tradeModules?: Address[];
+  basicIssuanceModules?: Address[];
+  // DebtIssuanceModule and modules sharing its events (e.g. DebtIssuanceModuleV2, SlippageIssuanceModule)
+  debtIssuanceModules?: Address[];
+  generalIndexModules?: Address[];
+  startBlock?: number;
+}
+
+// Decoded log. Numeric arguments are stored as decimal strings so the index round trips through JSON.
+export interface IndexedEvent {
+  source: EventSourceKind;
+  address: Address;
+  name: string;
+  args: { [name: string]: any };
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface EventIndexState {
+  // Last block included in the index, -1 when nothing was synced
+  lastBlock: number;
+  setTokens: Address[];
+  events: IndexedEvent[];
+}
+
+export interface EventIndexStore {
+  load(): EventIndexState;
+  // (eslint is confused by parameters of typescript method signatures)
+  // eslint-disable-next-line no-unused-vars
+  save(state: EventIndexState): void;
+}
+
+export interface IndexedEventFilter {
+  source?: EventSourceKind;
+  address?: Address;
+  name?: string;
+  setToken?: Address;
+}
+
+export interface IndexedSetToken {
+  address: Address;
+  name: string;
+  symbol: string;
+  factory: Address;
+  manager: Address;
+  modules: Address[];
+  createdAtBlock: number;
+}
+
+export interface IssuanceRecord {
+  setToken: Address;
+  module: Address;
+  type: "issue" | "redeem";
+  // Issuer or redeemer
+  account: Address;
+  to: Address;
+  quantity: BigNumber;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface TradeRecord {
+  setToken: Address;
+  module: Address;
+  sendToken: Address;
+  receiveToken: Address;
+  sendQuantity: BigNumber;
+  receiveQuantity: BigNumber;
+  protocolFee: BigNumber;
+  exchangeAdapter: Address;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface FeeAccrualRecord {
+  setToken: Address;
+  module: Address;
+  // Fees paid in SetTokens minted
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface ProtocolEvent<T = utils.Result> {
+  // Name of the protocol contract whose ABI decoded the log, e.g. SetToken or TradeModule
+  contract: string;
+  address: Address;
+  name: string;
+  signature: string;
+  args: T;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface ProtocolEventFilter {
+  contract?: string;
+  name?: string;
+  address?: Address;
+}
+
+export interface SetTokenCreatedEvent {
+  setToken: Address;
+  factory: Address;
+  manager: Address;
+  name: string;
+  symbol: string;
+}
+
+export interface StreamingFeePathPoint {
+  timestamp: BigNumber;
+  // SetTokens issued (positive) or redeemed (negative) at this time, excluding fees
+  netIssuance?: BigNumber;
+  // Value of one Set at a position multiplier of 1 in the quote asset, i.e. of its virtual units
+  grossNav?: BigNumber;
+}
+
+export interface StreamingFeeProjectionParams {
+  feeState: StreamingFeeState;
+  // Controller fee of the StreamingFeeModule, as a share of the fees minted (in precise units)
+  protocolFeePercentage: BigNumber;
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+  endTimestamp: BigNumber;
+  // Seconds between accruals. A final accrual is made at the end timestamp if it doesn't fall on an interval.
+  accrualInterval: BigNumber;
+  path?: StreamingFeePathPoint[];
+}
+
+export interface StreamingFeeAccrual {
+  timestamp: BigNumber;
+  // Share of the supply minted as fees (in precise units)
+  feePercentage: BigNumber;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+  // State after the accrual
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+  nav: BigNumber | undefined;
+  managerFeeValue: BigNumber | undefined;
+  protocolFeeValue: BigNumber | undefined;
+}
+
+export interface StreamingFeeProjection {
+  accruals: StreamingFeeAccrual[];
+  totalManagerFee: BigNumber;
+  totalProtocolFee: BigNumber;
+  // Only set when the path provides NAVs
+  totalManagerFeeValue: BigNumber | undefined;
+  totalProtocolFeeValue: BigNumber | undefined;
+  finalTotalSupply: BigNumber;
+  finalPositionMultiplier: BigNumber;
+  // Share of each position paid as fees over the projection, 1 - final / initial multiplier (in precise units)
+  positionMultiplierDecay: BigNumber;
+}
+
+// Entries of a JSON ABI (e.g. `SetToken__factory.abi`), which keep the internal types ethers interfaces drop
+export interface JsonAbiParam {
+  name?: string;
+  type?: string;
+  internalType?: string;
+  components?: JsonAbiParam[];
+}
+
+export interface JsonAbiFragment {
+  type?: string;
+  name?: string;
+  inputs?: JsonAbiParam[];
+}
+
+export interface SafeContractInput {
+  internalType: string;
+  name: string;
+  type: string;
+  components?: SafeContractInput[];
+}
+
+export interface SafeContractMethod {
+  name: string;
+  inputs: SafeContractInput[];
+  payable: boolean;
+}
+
+export interface ManagerBatchTransaction {
+  to: Address;
+  value: BigNumber;
+  data: string;
+  // Set for calls added by method, so the Safe transaction builder can display and re-encode them
+  contractMethod?: SafeContractMethod;
+  contractInputsValues?: { [input: string]: string };
+}
+
+export interface SafeTransactionBuilderTransaction {
+  to: Address;
+  value: string;
+  // Omitted when the transaction is described by its contract method and input values
+  data?: string;
+  contractMethod?: SafeContractMethod;
+  contractInputsValues?: { [input: string]: string };
+}
+
+// Batch file format of the Gnosis Safe transaction builder app
+export interface SafeTransactionBuilderBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    createdFromSafeAddress: Address;
+  };
+  transactions: SafeTransactionBuilderTransaction[];
+}
+
+export interface ManagerBatchSimulation {
+  // False if any transaction reverted, in which case the whole batch is reverted
+  success: boolean;
+  gasUsed: BigNumber | undefined;
+  error: string | undefined;
+  // Only set when a SetToken is passed to the simulation
+  diff: SetTokenSnapshotDiff | undefined;
+}
+
+// State read by NAVIssuanceCalculator from a CustomOracleNavIssuanceModule and its SetToken
+export interface NAVIssuanceState {
+  setToken: Address;
+  reserveAsset: Address;
+  reserveAssetDecimals: number;
+  isReserveAsset: boolean;
+  // Valuation of one SetToken in the reserve asset (in precise units)
+  setTokenValuation: BigNumber;
+  totalSupply: BigNumber;
+  positionMultiplier: BigNumber;
+  // Default position real unit of the reserve asset
+  reserveAssetUnit: BigNumber;
+  // Issue and redeem fees
+  managerFees: [BigNumber, BigNumber];
+  premiumPercentage: BigNumber;
+  minSetTokenSupply: BigNumber;
+  // Controller fees of the module, by fee index: issue and redeem manager revenue shares, issue and redeem direct fees
+  protocolFees: [BigNumber, BigNumber, BigNumber, BigNumber];
+}
+
+export interface NAVIssuanceFees {
+  protocolFee: BigNumber;
+  managerFee: BigNumber;
+  // Reserve asset quantity net of fees sent to the SetToken on issuance, or to the redeemer on redemption
+  netReserveFlow: BigNumber;
+}
+
+export interface NAVIssueQuote extends NAVIssuanceFees {
+  reserveAssetQuantity: BigNumber;
+  premiumPercentage: BigNumber;
+  // Value kept by the SetToken as premium, in reserve asset
+  premium: BigNumber;
+  setTokenQuantity: BigNumber;
+  newTotalSupply: BigNumber;
+  newPositionMultiplier: BigNumber;
+  newReservePositionUnit: BigNumber;
+}
+
+export interface NAVRedeemQuote extends NAVIssuanceFees {
+  setTokenQuantity: BigNumber;
+  // Reserve asset value of the redeemed SetTokens before premium and fees
+  prePremiumReserveQuantity: BigNumber;
+  premiumPercentage: BigNumber;
+  premium: BigNumber;
+  preFeeReserveQuantity: BigNumber;
+  newTotalSupply: BigNumber;
+  newPositionMultiplier: BigNumber;
+  newReservePositionUnit: BigNumber;
+}
+
+export interface NAVIssuanceValidity {
+  valid: boolean;
+  // Revert reason of the module when invalid
+  reason: string | undefined;
+}
+
+export interface PriceOraclePair {
+  assetOne: Address;
+  assetTwo: Address;
+  oracle: Address;
+}
+
+// How PriceOracle.getPrice resolves a pair, in the order it tries them
+export type PriceOracleRouteType = "direct" | "inverse" | "masterQuote" | "adapter";
+
+export interface PriceOracleRoute {
+  assetOne: Address;
+  assetTwo: Address;
+  // Undefined when getPrice reverts with "PriceOracle.getPrice: Price not found."
+  type: PriceOracleRouteType | undefined;
+  // Oracles read by the route (both legs for master quote routes), or the adapter that priced the pair
+  sources: Address[];
+  // Undefined when there is no route or a source reverts
+  price: BigNumber | undefined;
+  error: string | undefined;
+  explanation: string;
+}
+
+export interface UnpriceableSetToken {
+  setToken: Address;
+  // Revert reason of SetValuer.calculateSetTokenValuation
+  error: string;
+  // Routes of the components (and quote asset) that can't be priced in the master quote asset
+  failingRoutes: PriceOracleRoute[];
+}
+
+// Gas used by each benchmarked operation, keyed by operation name
+export type GasReport = { [operation: string]: number };
+
+export interface GasComparison {
+  operation: string;
+  // Undefined for operations added since the baseline
+  baselineGas: number | undefined;
+  // Undefined for operations removed since the baseline
+  currentGas: number | undefined;
+  // Fractional change from the baseline, e.g. 0.05 for 5% more gas
+  change: number | undefined;
+  isRegression: boolean;
+  // Whether a baseline operation is missing from the current report
+  isMissing: boolean;
+}
+
+// "record" forwards fork RPC reads to the live node and saves them, "replay" serves them from the cache offline
+export type ForkCacheMode = "record" | "replay";
+
+export interface ForkCache {
+  // Block the fork was pinned to when the responses were recorded
+  blockNumber: number;
+  // Results keyed by JSON-RPC method and params. Error responses are never cached.
+  responses: { [request: string]: any };
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: string;
+  id: number | string | null;
+  method: string;
+  params?: any[];
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: string;
+  id: number | string | null;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+// Prices are the value of one whole token in the lending protocol's base currency (ETH for Aave, USD for Compound)
+// with 18 decimals
+export interface LeverageCollateralPosition {
+  // Underlying asset, as passed to lever and delever
+  asset: Address;
+  // Underlying quantity held by the SetToken
+  notional: BigNumber;
+  decimals: number;
+  price: BigNumber;
+  // Share of the collateral value that can be borrowed against before liquidation, in precise units
+  liquidationThreshold: BigNumber;
+}
+
+export interface LeverageBorrowPosition {
+  asset: Address;
+  notional: BigNumber;
+  decimals: number;
+  price: BigNumber;
+}
+
+export interface LeveragePositionState {
+  setToken: Address;
+  totalSupply: BigNumber;
+  collateralPositions: LeverageCollateralPosition[];
+  borrowPositions: LeverageBorrowPosition[];
+}
+
+export interface LeveragePositionHealth {
+  // Values in the base currency with 18 decimals
+  collateralValue: BigNumber;
+  borrowValue: BigNumber;
+  // Collateral value over net value, MAX_UINT_256 when the position is underwater
+  leverageRatio: BigNumber;
+  // Threshold-weighted collateral value over borrow value, MAX_UINT_256 without borrows
+  healthFactor: BigNumber;
+  // Price of the largest collateral asset in the largest borrow asset (precise units) at which the position can be
+  // liquidated, holding other prices constant. Undefined without borrows.
+  liquidationPrice: BigNumber | undefined;
+  // Fraction the collateral price can fall before liquidation, zero when already liquidatable
+  liquidationDistance: BigNumber | undefined;
+}
+
+export interface LeverageHealthThresholds {
+  // Alert when the health factor falls below this value
+  minHealthFactor?: BigNumber;
+  // Alert when the leverage ratio rises above this value
+  maxLeverageRatio?: BigNumber;
+  // Leverage ratio suggested delevers bring the position back to
+  targetLeverageRatio: BigNumber;
+  // Max slippage accepted on the delever trade, e.g. ether(0.01) for 1%
+  slippageTolerance: BigNumber;
+}
+
+export interface LeverageHealthAlert {
+  type: "healthFactor" | "leverageRatio";
+  value: BigNumber;
+  threshold: BigNumber;
+  message: string;
+}
+
+// Arguments of AaveLeverageModule.delever and CompoundLeverageModule.delever, except the trade adapter and data
+export interface LeverageDeleverParams {
+  setToken: Address;
+  collateralAsset: Address;
+  repayAsset: Address;
+  redeemQuantityUnits: BigNumber;
+  minRepayQuantityUnits: BigNumber;
+  // Leverage ratio after the delever if it trades at the current oracle prices
+  expectedLeverageRatio: BigNumber;
+}
+
+export interface LeverageHealthReport {
+  health: LeveragePositionHealth;
+  alerts: LeverageHealthAlert[];
+  // Set when an alert fired and the position can be delevered towards the target
+  delever: LeverageDeleverParams | undefined;
+}
+
+export type ExchangeAdapterType =
+  "UniswapV2ExchangeAdapter" |
+  "UniswapV2ExchangeAdapterV2" |
+  "UniswapV3ExchangeAdapter" |
+  "UniswapV3ExchangeAdapterV2" |
+  "ZeroExApiAdapter" |
+  "CurveExchangeAdapter" |
+  "CurveStEthExchangeAdapter" |
+  "KyberExchangeAdapter" |
+  "OneInchExchangeAdapter" |
+  "SynthetixExchangeAdapter";
+
+export interface LeverageTradeAdapter {
+  // Adapter contract, which determines how the trade data is encoded
+  type: ExchangeAdapterType;
+  // Name the adapter is registered under for the leverage module in the IntegrationRegistry
+  name: string;
+  // Tokens traded through between the borrow and collateral asset, in the lever direction. Trades directly if omitted
+  intermediateTokens?: Address[];
+  // Uniswap V3 pool fee of each hop in the lever direction, e.g. [3000]
+  fees?: number[];
+}
+
+// Quantity of the last token of `path` received for selling `sendQuantity` of the first, e.g. a router quote
+// (eslint is confused by parameters of typescript function types)
+// eslint-disable-next-line no-unused-vars
+export type LeverageTradeQuoter = (path: Address[], sendQuantity: BigNumber) => Promise<BigNumber>;
+
+export interface LeverageRebalanceParams {
+  targetLeverageRatio: BigNumber;
+  // Max slippage accepted on the trade, e.g. ether(0.01) for 1%
+  slippageTolerance: BigNumber;
+  tradeAdapter: LeverageTradeAdapter;
+  // Default to the largest collateral and borrow positions
+  collateralAsset?: Address;
+  borrowAsset?: Address;
+}
+
+export interface LeverageRipcordParams {
+  slippageTolerance: BigNumber;
+  tradeAdapter: LeverageTradeAdapter;
+  // Max notional quantity of collateral sold in the trade
+  maxTradeSize: BigNumber;
+  collateralAsset?: Address;
+  borrowAsset?: Address;
+}
+
+export interface LeverageLeverCall {
+  setToken: Address;
+  borrowAsset: Address;
+  collateralAsset: Address;
+  borrowQuantityUnits: BigNumber;
+  minReceiveQuantityUnits: BigNumber;
+  tradeAdapterName: string;
+  tradeData: Bytes;
+  // Leverage ratio after the lever if it trades at the quoted, or oracle, price
+  expectedLeverageRatio: BigNumber;
+  // Encoded `lever` call to the leverage module
+  data: Bytes;
+}
+
+export interface LeverageDeleverCall extends LeverageDeleverParams {
+  tradeAdapterName: string;
+  tradeData: Bytes;
+  // Encoded `delever` call to the leverage module
+  data: Bytes;
+}
+
+export interface LeverageDeleverToZeroBorrowBalanceCall {
+  setToken: Address;
+  collateralAsset: Address;
+  repayAsset: Address;
+  redeemQuantityUnits: BigNumber;
+  tradeAdapterName: string;
+  tradeData: Bytes;
+  // Encoded `deleverToZeroBorrowBalance` call to the leverage module
+  data: Bytes;
+}
+
+// Values are in the Perp settlement token (USDC) with 18 decimals, signed where Perp balances can be negative
+export interface PerpV2BasisTradingPosition {
+  baseToken: Address;
+  baseBalance: BigNumber;
+  quoteBalance: BigNumber;
+  indexPrice: BigNumber;
+  // Base balance valued at the index price
+  positionValue: BigNumber;
+}
+
+export interface PerpV2BasisTradingSnapshot {
+  setToken: Address;
+  blockNumber: number;
+  timestamp: number;
+  totalSupply: BigNumber;
+  // Settlement token held by the SetToken outside Perp, e.g. withdrawn funding
+  setCollateralBalance: BigNumber;
+  // Fields of PerpV2LeverageModuleV2.getAccountInfo
+  collateralBalance: BigNumber;
+  owedRealizedPnl: BigNumber;
+  pendingFundingPayments: BigNumber;
+  positions: PerpV2BasisTradingPosition[];
+  // Sum of position values and quote balances
+  unrealizedPnl: BigNumber;
+  // Funding tracked by the module, before and after adding pending funding payments
+  settledFunding: BigNumber;
+  updatedSettledFunding: BigNumber;
+  netAssetValue: BigNumber;
+  netAssetValuePerSet: BigNumber;
+}
+
+// Components sum to `netAssetValueChange`:
+// fundingEarned - performanceFees - tradingSlippage + realizedPnl + unrealizedPnl + capitalFlows
+export interface PerpV2BasisTradingPeriodReport {
+  startBlock: number;
+  endBlock: number;
+  duration: number;
+  netAssetValueStart: BigNumber;
+  netAssetValueEnd: BigNumber;
+  netAssetValueChange: BigNumber;
+  netAssetValuePerSetStart: BigNumber;
+  netAssetValuePerSetEnd: BigNumber;
+  fundingEarned: BigNumber;
+  fundingWithdrawn: BigNumber;
+  // Funding earned over the starting net asset value, scaled to a year
+  annualizedFundingYield: BigNumber;
+  managerFees: BigNumber;
+  protocolFees: BigNumber;
+  performanceFees: BigNumber;
+  // Cost of trades against the index price, including protocol trade fees
+  tradingSlippage: BigNumber;
+  tradeCount: number;
+  realizedPnl: BigNumber;
+  // Change in unrealized PnL from index price moves, excluding the slippage of trades in the period
+  unrealizedPnl: BigNumber;
+  // Settlement token issued into (positive) or redeemed out of the SetToken
+  capitalFlows: BigNumber;
+}
+
+export interface PerpV2BasisTradingReport {
+  setToken: Address;
+  snapshots: PerpV2BasisTradingSnapshot[];
+  periods: PerpV2BasisTradingPeriodReport[];
+  // Report from the first to the last snapshot
+  total: PerpV2BasisTradingPeriodReport;
+}
+
+// Perpetual Protocol V2 contracts read by PerpV2IssuanceQuoter, e.g. from a deployment's address list
+export interface PerpV2SystemAddresses {
+  accountBalance: Address;
+  clearingHouseConfig: Address;
+  exchange: Address;
+  quoter: Address;
+}
+
+// Set Protocol modules a PerpV2 SetToken is issued and traded through
+export interface PerpV2IssuanceModuleAddresses {
+  // PerpV2LeverageModuleV2 or PerpV2BasisTradingModule
+  perpModule: Address;
+  slippageIssuanceModule: Address;
+}
+
+// Prices and quote quantities are in USD with 18 decimals
+export interface PerpV2MarketImpact {
+  baseToken: Address;
+  // Base traded on issuance or redemption, positive when buying
+  baseQuantity: BigNumber;
+  // Quote paid when buying or received when selling, including exchange fees
+  quoteQuantity: BigNumber;
+  markPrice: BigNumber;
+  averagePrice: BigNumber;
+  markPriceAfter: BigNumber;
+  // Relative difference between the average and mark price, in precise units
+  priceImpact: BigNumber;
+  // Quote lost to price impact and exchange fees compared to trading at the mark price
+  slippage: BigNumber;
+}
+
+export interface PerpV2IssuanceQuote extends DebtIssuanceFees {
+  setToken: Address;
+  isIssue: boolean;
+  quantity: BigNumber;
+  // Quantities of SlippageIssuanceModule's off-chain getters, ordered as the components
+  components: Address[];
+  equityQuantities: BigNumber[];
+  debtQuantities: BigNumber[];
+  collateralToken: Address;
+  // Collateral transferred in on issuance or out on redemption, in the collateral token's decimals
+  collateralQuantity: BigNumber;
+  markets: PerpV2MarketImpact[];
+  // `_checkedComponents` and `_maxTokenAmountsIn` or `_minTokenAmountsOut` of issueWithSlippage and redeemWithSlippage
+  checkedComponents: Address[];
+  tokenAmountLimits: BigNumber[];
+  // Max Sets issuable before the Perp account reaches its initial margin requirement
+  maxIssueQuantity: BigNumber;
+}
+
+export type IndexExchangeAdapterType =
+  "BalancerV1IndexExchangeAdapter" |
+  "KyberV3IndexExchangeAdapter" |
+  "UniswapV2IndexExchangeAdapter" |
+  "UniswapV3IndexExchangeAdapter";
+
+// Adapter contract registered under each name in the IntegrationRegistry, e.g. { UNISWAPV3: "UniswapV3ExchangeAdapterV2" }
+export interface ExchangeAdapterRegistryConfig {
+  // Adapters of the TradeModule, and other modules trading through IExchangeAdapter
+  tradeAdapters: { [name: string]: ExchangeAdapterType };
+  // Adapters of the GeneralIndexModule
+  indexAdapters: { [name: string]: IndexExchangeAdapterType };
+}
+
+export interface ExchangeTradeParams {
+  exchangeName: string;
+  sendToken: Address;
+  // Quantities are per SetToken, as passed to TradeModule#trade
+  sendQuantity: BigNumber;
+  receiveToken: Address;
+  minReceiveQuantity: BigNumber;
+  // Tokens traded through between the send and receive token. Trades directly if omitted
+  intermediateTokens?: Address[];
+  // Uniswap V3 pool fee of each hop, e.g. [3000]
+  fees?: number[];
+  // False for exact output trades, where the send quantity is the max sold. Defaults to true
+  fixIn?: boolean;
+  // Calldata from the 0x or 1inch API, used as the trade data instead of building it
+  data?: Bytes;
+}
+
+export interface TradeModuleTradeCall {
+  setToken: Address;
+  exchangeName: string;
+  sendToken: Address;
+  sendQuantity: BigNumber;
+  receiveToken: Address;
+  minReceiveQuantity: BigNumber;
+  data: Bytes;
+  // Encoded TradeModule#trade call, e.g. to propose to a multisig
+  calldata: Bytes;
+}
+
+export interface DecodedExchangeTradeData {
+  adapterType: ExchangeAdapterType;
+  // Tokens traded through from the send to the receive token. Empty when the adapter takes them from the trade
+  path: Address[];
+  // Uniswap V3 pool fee of each hop of the path
+  fees: number[];
+  fixIn: boolean;
+  // Function selector of 0x or 1inch API calldata, named for known 0x functions
+  selector?: string;
+  functionName?: string;
+  // Notional quantities encoded in 0x or 1inch API calldata
+  sendQuantity?: BigNumber;
+  minReceiveQuantity?: BigNumber;
+}
+
+export interface DecodedTradeModuleTradeCall extends TradeModuleTradeCall {
+  decodedData: DecodedExchangeTradeData;
+}
+
+// Exchange settings of a component traded against WETH on the GeneralIndexModule
+export interface IndexExchangeDataParams {
+  // UniswapV2IndexExchangeAdapter: token traded through between the component and WETH. Trades directly if omitted
+  intermediateToken?: Address;
+  // UniswapV3IndexExchangeAdapter: pool fee, e.g. 3000
+  fee?: number;
+  // KyberV3IndexExchangeAdapter: DMM pool of the component and WETH
+  pool?: Address;
+}
+
+export interface IndexExchangeDataUpdate extends IndexExchangeDataParams {
+  component: Address;
+  // Defaults to the exchange set for the component with GeneralIndexModule#setExchanges
+  exchangeName?: string;
+}
+
+export interface GeneralIndexModuleExchangeDataCall {
+  setToken: Address;
+  components: Address[];
+  exchangeData: Bytes[];
+  // Encoded GeneralIndexModule#setExchangeData call
+  calldata: Bytes;
+}
+
+export interface DecodedIndexExchangeData extends IndexExchangeDataParams {
+  adapterType: IndexExchangeAdapterType;
+}
+
+export interface IndexComponentExchangeData {
+  component: Address;
+  exchangeName: string;
+  exchangeData: Bytes;
+  decodedData: DecodedIndexExchangeData;
+}